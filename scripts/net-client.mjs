@@ -0,0 +1,44 @@
+// Plays one side of an online co-op game headlessly through the relay.
+// Start the relay (npm run relay), then run this twice with the same room.
+// Usage: npm run net-client -- [room] [relayUrl] [maxFrames]
+import WebSocket from "ws";
+import {
+  DEFAULT_BINDINGS,
+  DifficultyLevel,
+  NetSession,
+  RELAY_DEFAULT_PORT,
+  runNetPeer,
+  spinAndShootPolicy,
+} from "../dist-ssr/index.js";
+
+const room = process.argv[2] ?? "lobby";
+const url = process.argv[3] ?? `ws://localhost:${RELAY_DEFAULT_PORT}`;
+const maxFrames = Number(process.argv[4] ?? 60 * 60 * 2);
+
+const session = new NetSession(
+  url,
+  room,
+  DEFAULT_BINDINGS,
+  (socketUrl) => new WebSocket(socketUrl)
+);
+// Only used if we are first into the room
+session.setHostOptions(() => ({
+  seed: Math.floor(Math.random() * 0x100000000),
+  difficulty: DifficultyLevel.NORMAL,
+  canvasWidth: 1280,
+  canvasHeight: 720,
+  friendlyFire: false,
+}));
+
+try {
+  const result = await runNetPeer(session, spinAndShootPolicy, maxFrames);
+  console.log(JSON.stringify(result, null, 2));
+  if (result.desyncFrame !== null) {
+    process.exitCode = 1;
+  }
+} catch (error) {
+  console.error(`Online game failed: ${error.message}`);
+  process.exitCode = 1;
+} finally {
+  session.close();
+}
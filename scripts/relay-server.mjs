@@ -0,0 +1,105 @@
+// WebSocket relay for online co-op. Pairs players into two-seat rooms and
+// forwards everything they send to the other player in the room; the game
+// itself runs on each client in lockstep.
+// Usage: npm run relay -- [port]
+import {pathToFileURL} from "node:url";
+import {WebSocketServer} from "ws";
+
+// Keep in sync with src/net/NetProtocol.ts
+export const RELAY_DEFAULT_PORT = 8787;
+const ROOM_SIZE = 2;
+
+export function startRelayServer(port = RELAY_DEFAULT_PORT) {
+  const server = new WebSocketServer({port});
+  const rooms = new Map(); // room name -> array of sockets, indexed by player
+
+  const send = (socket, message) => {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const leave = (socket) => {
+    const {room, playerIndex} = socket;
+    const seats = rooms.get(room);
+    if (!seats || seats[playerIndex] !== socket) return;
+
+    seats[playerIndex] = null;
+    if (seats.every((seat) => !seat)) {
+      rooms.delete(room);
+      return;
+    }
+    for (const other of seats) {
+      if (other) send(other, {type: "peer-left", playerIndex});
+    }
+  };
+
+  const join = (socket, room) => {
+    if (typeof room !== "string" || room.length === 0 || room.length > 64) {
+      send(socket, {type: "error", message: "Invalid room name"});
+      return;
+    }
+
+    const seats = rooms.get(room) ?? new Array(ROOM_SIZE).fill(null);
+    const playerIndex = seats.indexOf(null);
+    if (playerIndex === -1) {
+      send(socket, {type: "error", message: `Room "${room}" is full`});
+      return;
+    }
+
+    seats[playerIndex] = socket;
+    rooms.set(room, seats);
+    socket.room = room;
+    socket.playerIndex = playerIndex;
+    send(socket, {type: "joined", room, playerIndex});
+    for (const other of seats) {
+      if (other && other !== socket) {
+        send(other, {type: "peer-joined", playerIndex});
+      }
+    }
+  };
+
+  server.on("connection", (socket) => {
+    socket.on("message", (data, isBinary) => {
+      if (isBinary) return;
+      const text = data.toString();
+
+      if (socket.room === undefined) {
+        // The first message must claim a seat
+        let message;
+        try {
+          message = JSON.parse(text);
+        } catch {
+          message = null;
+        }
+        if (message?.type === "join") {
+          join(socket, message.room);
+        } else {
+          send(socket, {type: "error", message: "Join a room first"});
+        }
+        return;
+      }
+
+      // Everything else is for the other player; pass it through untouched
+      for (const other of rooms.get(socket.room) ?? []) {
+        if (other && other !== socket && other.readyState === other.OPEN) {
+          other.send(text);
+        }
+      }
+    });
+
+    socket.on("close", () => leave(socket));
+  });
+
+  return server;
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(
+    process.argv[2] ?? process.env.PORT ?? RELAY_DEFAULT_PORT
+  );
+  const server = startRelayServer(port);
+  server.on("listening", () => {
+    console.log(`Relay listening on ws://localhost:${port}`);
+  });
+}
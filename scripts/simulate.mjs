@@ -0,0 +1,28 @@
+// Runs seeded games through the headless core and prints a JSON summary.
+// Usage: npm run simulate -- [games] [firstSeed] [maxFrames]
+import {HeadlessGame, spinAndShootPolicy} from "../dist-ssr/index.js";
+
+const games = Number(process.argv[2] ?? 10);
+const firstSeed = Number(process.argv[3] ?? 1);
+const maxFrames = Number(process.argv[4] ?? 60 * 60 * 5);
+
+const results = [];
+for (let i = 0; i < games; i++) {
+  const game = new HeadlessGame();
+  game.start(firstSeed + i);
+  results.push(game.run(spinAndShootPolicy, maxFrames));
+}
+
+const scores = results.map((result) => result.score);
+console.log(
+  JSON.stringify(
+    {
+      games,
+      averageScore: scores.reduce((sum, score) => sum + score, 0) / games,
+      bestScore: Math.max(...scores),
+      results,
+    },
+    null,
+    2
+  )
+);
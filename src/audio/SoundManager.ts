@@ -54,6 +54,11 @@ export class SoundManager {
     this.createComboIncreaseSound();
     this.createComboMilestoneSound();
     this.createComboBreakSound();
+    this.createLaserSound();
+    this.createFlakSound();
+    this.createRailgunSound();
+    this.createMineDropSound();
+    this.createEmpSound();
   }
 
   private createShootSound(): void {
@@ -715,4 +720,121 @@ export class SoundManager {
 
     this.sounds.set("comboBreak", buffer);
   }
+
+  private createLaserSound(): void {
+    if (!this.audioContext) return;
+
+    const sampleRate = this.audioContext.sampleRate;
+    const duration = 0.12;
+    const length = sampleRate * duration;
+    const buffer = this.audioContext.createBuffer(1, length, sampleRate);
+    const data = buffer.getChannelData(0);
+
+    for (let i = 0; i < length; i++) {
+      const t = i / sampleRate;
+
+      // Thin, bright zap falling from 2.4kHz
+      const freq = 2400 - (t / duration) * 1400;
+      const envelope = Math.exp(-t * 25);
+      const tone = Math.sign(Math.sin(2 * Math.PI * freq * t)); // Square wave
+
+      data[i] = tone * envelope * 0.15;
+    }
+
+    this.sounds.set("laser", buffer);
+  }
+
+  private createFlakSound(): void {
+    if (!this.audioContext) return;
+
+    const sampleRate = this.audioContext.sampleRate;
+    const duration = 0.2;
+    const length = sampleRate * duration;
+    const buffer = this.audioContext.createBuffer(1, length, sampleRate);
+    const data = buffer.getChannelData(0);
+
+    for (let i = 0; i < length; i++) {
+      const t = i / sampleRate;
+
+      // Short burst of noise over a low thump
+      const noise = (Math.random() * 2 - 1) * Math.exp(-t * 30);
+      const thump = Math.sin(2 * Math.PI * (120 - t * 200) * t);
+      const envelope = Math.exp(-t * 15);
+
+      data[i] = (noise * 0.6 + thump * 0.4) * envelope * 0.4;
+    }
+
+    this.sounds.set("flak", buffer);
+  }
+
+  private createRailgunSound(): void {
+    if (!this.audioContext) return;
+
+    const sampleRate = this.audioContext.sampleRate;
+    const duration = 0.5;
+    const length = sampleRate * duration;
+    const buffer = this.audioContext.createBuffer(1, length, sampleRate);
+    const data = buffer.getChannelData(0);
+
+    for (let i = 0; i < length; i++) {
+      const t = i / sampleRate;
+
+      // Sharp crack, then a ringing electric hum as the rails discharge
+      const crack = (Math.random() * 2 - 1) * Math.exp(-t * 80);
+      const hum =
+        Math.sin(2 * Math.PI * 90 * t) * Math.sin(2 * Math.PI * 3 * t);
+      const ring = Math.sin(2 * Math.PI * (3000 - t * 4000) * t) * 0.3;
+      const envelope = Math.exp(-t * 5);
+
+      data[i] = (crack * 0.5 + (hum + ring) * envelope) * 0.35;
+    }
+
+    this.sounds.set("railgun", buffer);
+  }
+
+  private createMineDropSound(): void {
+    if (!this.audioContext) return;
+
+    const sampleRate = this.audioContext.sampleRate;
+    const duration = 0.25;
+    const length = sampleRate * duration;
+    const buffer = this.audioContext.createBuffer(1, length, sampleRate);
+    const data = buffer.getChannelData(0);
+
+    for (let i = 0; i < length; i++) {
+      const t = i / sampleRate;
+
+      // Two soft beeps as the mine is released and arms
+      const beep = t < 0.08 || (t > 0.14 && t < 0.22) ? 1 : 0;
+      const freq = t < 0.1 ? 440 : 660;
+      const envelope = 1 - t / duration;
+
+      data[i] = Math.sin(2 * Math.PI * freq * t) * beep * envelope * 0.25;
+    }
+
+    this.sounds.set("mineDrop", buffer);
+  }
+
+  private createEmpSound(): void {
+    if (!this.audioContext) return;
+
+    const sampleRate = this.audioContext.sampleRate;
+    const duration = 0.9;
+    const length = sampleRate * duration;
+    const buffer = this.audioContext.createBuffer(1, length, sampleRate);
+    const data = buffer.getChannelData(0);
+
+    for (let i = 0; i < length; i++) {
+      const t = i / sampleRate;
+
+      // Deep whump, with crackling static spreading out from it
+      const whump = Math.sin(2 * Math.PI * (80 * Math.exp(-t * 3) + 30) * t);
+      const crackle = Math.random() < 0.05 ? Math.random() * 2 - 1 : 0;
+      const envelope = Math.exp(-t * 3) * (1 - Math.exp(-t * 40));
+
+      data[i] = (whump * 0.7 + crackle * 0.5) * envelope * 0.45;
+    }
+
+    this.sounds.set("emp", buffer);
+  }
 }
@@ -11,19 +11,88 @@ import {MenuUI} from "../ui/MenuUI";
 import {NameEntryUI} from "../ui/NameEntryUI";
 import {LeaderboardUI} from "../ui/LeaderboardUI";
 import {OptionsUI} from "../ui/OptionsUI";
+import {TouchControls} from "../ui/TouchControls";
+import {VersusResultsUI} from "../ui/VersusResultsUI";
+import {CampaignMapUI} from "../ui/CampaignMapUI";
+import {WaveEditorUI} from "../ui/WaveEditorUI";
 import {LeaderboardManager} from "../systems/LeaderboardManager";
 import {AchievementTracker} from "../systems/AchievementTracker";
 import {DifficultyManager} from "../systems/DifficultyManager";
-import type {IGameContext} from "./GameTypes";
+import {ReplayRecorder, ReplayPlayer} from "../systems/Replay";
+import type {ReplayData} from "../systems/Replay";
+import {ReplayManager} from "../systems/ReplayManager";
+import {ControlBindings, GameAction} from "../systems/ControlBindings";
+import {MultiplayerSettings} from "../systems/MultiplayerSettings";
+import {WaveScriptManager} from "../systems/WaveScriptManager";
+import type {CampaignSector} from "../systems/Campaign";
+import {
+  CAMPAIGN_SECTORS,
+  SectorObjective,
+  rateSector,
+} from "../systems/Campaign";
+import {CampaignProgress} from "../systems/CampaignProgress";
+import type {DailyChallenge} from "../systems/DailyChallenge";
+import {DailyAttempts, getDailyChallenge} from "../systems/DailyChallenge";
+import type {GameModifier} from "../systems/GameModifiers";
+import {describeModifiers} from "../systems/GameModifiers";
+import {GameVariant, VARIANT_NAMES} from "../systems/GameVariant";
+import type {WaveScript} from "../systems/WaveScript";
+import {DEFAULT_WAVE_SCRIPT} from "../systems/WaveScript";
+import type {DifficultyLevel} from "../systems/DifficultyManager";
+import {NetSession, NetSessionStatus} from "../net/NetSession";
+import type {NetGameSetup} from "../net/NetProtocol";
+import {NET_FRAME_TIME, RELAY_DEFAULT_PORT} from "../net/NetProtocol";
+import {Random} from "../utils/Random";
+import type {
+  AnalogInput,
+  IGameContext,
+  InputSnapshot,
+  InputSource,
+  PlayerControls,
+} from "./GameTypes";
 import type {MenuItem} from "../ui/MenuUI";
-import {GameState} from "./GameTypes";
+import {GameMode, GameState, NO_ANALOG_INPUT} from "./GameTypes";
+
+// Menu navigation accepts the keyboard as well as the gamepad D-pad and face buttons
+const MENU_KEYS = {
+  up: ["ArrowUp", "GamepadUp"],
+  down: ["ArrowDown", "GamepadDown"],
+  select: ["Enter", "GamepadA"],
+  back: ["Escape", "GamepadB"],
+};
+
+type MenuKey = keyof typeof MENU_KEYS;
+
+export class InputManager implements InputSource {
+  // Standard-mapping gamepad buttons, exposed as extra key codes
+  private static readonly GAMEPAD_BUTTONS: Array<[number, string]> = [
+    [0, "GamepadA"],
+    [1, "GamepadB"],
+    [2, "GamepadX"],
+    [3, "GamepadY"],
+    [4, "GamepadLB"],
+    [5, "GamepadRB"],
+    [6, "GamepadLT"],
+    [7, "GamepadRT"],
+    [8, "GamepadBack"],
+    [9, "GamepadStart"],
+    [12, "GamepadUp"],
+    [13, "GamepadDown"],
+    [14, "GamepadLeft"],
+    [15, "GamepadRight"],
+  ];
+  private static readonly STICK_DEAD_ZONE = 0.2;
+  private static readonly TRIGGER_DEAD_ZONE = 0.05;
 
-export class InputManager {
   private keys: Set<string> = new Set();
   private keyPressed: Set<string> = new Set();
   private characterInput: string[] = [];
+  private virtualKeys: Set<string> = new Set(); // Gamepad and touch buttons
+  private analog: AnalogInput = NO_ANALOG_INPUT;
+  private touchControls: TouchControls;
 
-  constructor() {
+  constructor(touchControls: TouchControls) {
+    this.touchControls = touchControls;
     this.setupEventListeners();
   }
 
@@ -62,8 +131,70 @@ export class InputManager {
     });
   }
 
+  // Gamepads (which have no button events) and touch controls are sampled once per frame
+  poll(): void {
+    const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+    const held: Set<string> = new Set(this.touchControls.getHeldButtons());
+    let analog: AnalogInput | null = null;
+
+    for (const pad of pads) {
+      if (!pad || !pad.connected) continue;
+
+      for (const [index, code] of InputManager.GAMEPAD_BUTTONS) {
+        if (pad.buttons[index]?.pressed) {
+          held.add(code);
+        }
+      }
+
+      // The first connected pad drives the analog controls
+      if (!analog) {
+        analog = InputManager.readAnalog(pad);
+      }
+    }
+
+    // The on-screen joystick takes over while it is being touched
+    const touchAnalog = this.touchControls.getAnalog();
+    if (touchAnalog !== NO_ANALOG_INPUT) {
+      analog = touchAnalog;
+    }
+
+    for (const code of held) {
+      if (!this.virtualKeys.has(code)) {
+        this.keyPressed.add(code);
+      }
+    }
+    this.virtualKeys = held;
+    this.analog = analog ?? NO_ANALOG_INPUT;
+  }
+
+  private static readAnalog(pad: Gamepad): AnalogInput {
+    const rawX = pad.axes[0] ?? 0;
+    const rawY = pad.axes[1] ?? 0;
+    const trigger = pad.buttons[7]?.value ?? 0;
+
+    // Radial dead zone, rescaled so output still starts at 0 and reaches 1
+    const magnitude = Math.sqrt(rawX * rawX + rawY * rawY);
+    const deadZone = InputManager.STICK_DEAD_ZONE;
+    let stickX = 0;
+    let stickY = 0;
+    if (magnitude > deadZone) {
+      const scale =
+        Math.min(1, (magnitude - deadZone) / (1 - deadZone)) / magnitude;
+      stickX = rawX * scale;
+      stickY = rawY * scale;
+    }
+
+    // Quantize so recorded replays reproduce the exact values the game used
+    const quantize = (value: number) => Math.round(value * 1000) / 1000;
+    return {
+      stickX: quantize(stickX),
+      stickY: quantize(stickY),
+      trigger: trigger > InputManager.TRIGGER_DEAD_ZONE ? quantize(trigger) : 0,
+    };
+  }
+
   isKeyDown(key: string): boolean {
-    return this.keys.has(key);
+    return this.keys.has(key) || this.virtualKeys.has(key);
   }
 
   isKeyPressed(key: string): boolean {
@@ -74,6 +205,19 @@ export class InputManager {
     return [...this.characterInput];
   }
 
+  getAnalog(): AnalogInput {
+    return this.analog;
+  }
+
+  getSnapshot(): InputSnapshot {
+    return {
+      keys: [...this.keys, ...this.virtualKeys],
+      pressed: [...this.keyPressed],
+      chars: [...this.characterInput],
+      analog: this.analog,
+    };
+  }
+
   clearPressed(): void {
     this.keyPressed.clear();
     this.characterInput.length = 0;
@@ -85,6 +229,7 @@ export class Game implements IGameContext {
   private ctx: CanvasRenderingContext2D;
   private lastTime: number = 0;
   private gameState: GameState = GameState.MENU;
+  private gameMode: GameMode = GameMode.SINGLE;
   private inputManager: InputManager;
   private gameManager: GameManager;
   private soundManager: SoundManager;
@@ -96,12 +241,39 @@ export class Game implements IGameContext {
   private hud: HUD;
   private leaderboard: LeaderboardManager;
   private leaderboardUI: LeaderboardUI;
+  private versusResultsUI: VersusResultsUI;
   private menuUI: MenuUI;
   private nameEntryUI: NameEntryUI;
   private optionsUI: OptionsUI;
+  private waveEditorUI: WaveEditorUI;
+  private waveScripts: WaveScriptManager;
+  private campaignMapUI: CampaignMapUI;
+  private campaignProgress: CampaignProgress;
+  private touchControls: TouchControls;
   private difficultyManager: DifficultyManager;
+  private controlBindings: ControlBindings;
+  private playerTwoBindings: ControlBindings;
+  private multiplayerSettings: MultiplayerSettings;
   private achievementTracker: AchievementTracker;
   private achievementDisplay: AchievementDisplay;
+  private replayManager: ReplayManager;
+  private replayRecorder: ReplayRecorder = new ReplayRecorder();
+  private replayPlayer: ReplayPlayer | null = null;
+  private replayControls: ControlBindings | null = null;
+  private lastReplay: ReplayData | null = null;
+  // The player's own difficulty while a replay or online game imposes another
+  private savedDifficulty: DifficultyLevel | null = null;
+  private netSession: NetSession | null = null;
+  private netControls: ControlBindings[] = [];
+  private netStalledFrames: number = 0;
+  private lobbyMessage: string = "";
+  // Waves from the editor or a wave file; null plays the built-in script
+  private customWaveScript: WaveScript | null = null;
+  private campaignSector: CampaignSector | null = null; // Sector being played
+  private dailyChallenge: DailyChallenge | null = null; // Today's run, if playing
+  private dailyAttempts: DailyAttempts = new DailyAttempts();
+  private gameModifiers: GameModifier[] = [];
+  private gameVariant: GameVariant = GameVariant.CLASSIC;
 
   public score: number = 0;
   public lives: number = 3;
@@ -114,7 +286,8 @@ export class Game implements IGameContext {
       throw new Error("Could not get 2D context from canvas");
     }
     this.ctx = context;
-    this.inputManager = new InputManager();
+    this.touchControls = new TouchControls(canvas);
+    this.inputManager = new InputManager(this.touchControls);
     this.soundManager = new SoundManager();
     this.musicManager = new MusicManager();
     this.screenShake = new ScreenShake();
@@ -123,18 +296,38 @@ export class Game implements IGameContext {
     this.starfield = new Starfield(250); // 250 stars
     this.leaderboard = new LeaderboardManager();
     this.difficultyManager = new DifficultyManager();
+    this.controlBindings = new ControlBindings();
+    this.playerTwoBindings = new ControlBindings(true, 2);
+    this.multiplayerSettings = new MultiplayerSettings();
     this.hud = new HUD(canvas);
     this.leaderboardUI = new LeaderboardUI(canvas, this.ctx);
+    this.versusResultsUI = new VersusResultsUI(canvas, this.ctx);
     this.menuUI = new MenuUI(canvas);
     this.nameEntryUI = new NameEntryUI(canvas);
     this.optionsUI = new OptionsUI(
       canvas,
       this.musicManager,
       this.soundManager,
-      this.difficultyManager
+      this.difficultyManager,
+      this.controlBindings,
+      this.playerTwoBindings,
+      this.multiplayerSettings,
+      this.touchControls
+    );
+    this.optionsUI.setOnClose(() => this.closeOptions());
+    this.waveScripts = new WaveScriptManager();
+    this.waveEditorUI = new WaveEditorUI(canvas, this.waveScripts);
+    this.waveEditorUI.setOnClose(() => this.returnToMenu());
+    this.waveEditorUI.setOnPlay((script) => this.playWaveScript(script));
+    this.campaignProgress = new CampaignProgress(CAMPAIGN_SECTORS);
+    this.campaignMapUI = new CampaignMapUI(
+      canvas,
+      CAMPAIGN_SECTORS,
+      this.campaignProgress
     );
     this.achievementTracker = new AchievementTracker();
     this.achievementDisplay = new AchievementDisplay(canvas);
+    this.replayManager = new ReplayManager();
     this.gameManager = new GameManager(this);
 
     this.setupMainMenu();
@@ -146,6 +339,9 @@ export class Game implements IGameContext {
   }
 
   private resizeCanvas(): void {
+    // Replays and online games keep their agreed playfield size
+    if (this.replayPlayer || this.isOnline) return;
+
     this.canvas.width = window.innerWidth;
     this.canvas.height = window.innerHeight;
     this.starfield.updateCanvasSize(this.canvas.width, this.canvas.height);
@@ -156,14 +352,52 @@ export class Game implements IGameContext {
   }
 
   private setupMainMenu(): void {
+    // Back at the main menu, new games are endless runs of the built-in waves
+    this.customWaveScript = null;
+    this.campaignSector = null;
+    if (this.dailyChallenge) {
+      this.restoreConditions();
+      this.dailyChallenge = null;
+    }
+    this.gameModifiers = [];
+    this.gameVariant = GameVariant.CLASSIC;
     const menuItems: MenuItem[] = [
       {
         label: "New Game",
-        action: () => this.startNewGame(),
+        action: () => this.showNewGameMenu(),
+      },
+      {
+        label: "Campaign",
+        action: () => this.openCampaignMap(),
+      },
+      {
+        label: "Daily Challenge",
+        action: () => this.showDailyChallengeMenu(),
+      },
+      {
+        label: "Co-op",
+        action: () => this.startNewGame(this.getRequestedSeed(), GameMode.COOP),
+      },
+      {
+        label: "Online Co-op",
+        action: () => this.joinOnlineGame(),
+      },
+      {
+        label: "Versus",
+        action: () =>
+          this.startNewGame(this.getRequestedSeed(), GameMode.VERSUS),
+      },
+      {
+        label: "Wave Editor",
+        action: () => this.showWaveEditorMenu(),
+      },
+      {
+        label: "Watch Replay",
+        action: () => this.showReplayMenu(),
       },
       {
         label: "Leaderboard",
-        action: () => this.showLeaderboard(),
+        action: () => this.showLeaderboardMenu(),
       },
       {
         label: "Options",
@@ -173,24 +407,408 @@ export class Game implements IGameContext {
     this.menuUI.setMenu("ASTEROIDS", menuItems);
   }
 
-  private showLeaderboard(): void {
+  private showNewGameMenu(): void {
+    const menuItems: MenuItem[] = Object.values(GameVariant).map((variant) => ({
+      label: VARIANT_NAMES[variant],
+      action: () => {
+        this.gameVariant = variant;
+        this.startNewGame(this.getRequestedSeed());
+      },
+    }));
+    menuItems.push({
+      label: "Back",
+      action: () => this.setupMainMenu(),
+    });
+    this.menuUI.setMenu("NEW GAME", menuItems);
+  }
+
+  // Each variant ranks on a table of its own
+  private showLeaderboardMenu(): void {
+    const menuItems: MenuItem[] = Object.values(GameVariant).map((variant) => ({
+      label: VARIANT_NAMES[variant],
+      action: () => this.showLeaderboard(variant),
+    }));
+    menuItems.push({
+      label: "Back",
+      action: () => this.setupMainMenu(),
+    });
+    this.menuUI.setMenu("LEADERBOARD", menuItems);
+  }
+
+  // Optional ?seed=<number> URL parameter to replay a reported run
+  private getRequestedSeed(): number | undefined {
+    const seed = new URLSearchParams(window.location.search).get("seed");
+    if (seed === null || !/^\d+$/.test(seed)) return undefined;
+    return Number(seed);
+  }
+
+  private openCampaignMap(): void {
+    this.gameState = GameState.CAMPAIGN_MAP;
+    this.campaignSector = null;
+    this.customWaveScript = null;
+    this.campaignMapUI.open();
+  }
+
+  private startCampaignSector(sector: CampaignSector): void {
+    this.campaignSector = sector;
+    this.customWaveScript = sector.waves;
+    this.startNewGame(this.getRequestedSeed());
+  }
+
+  // The sector's goal was met: rate the run and go back to the map
+  private completeSector(sector: CampaignSector): void {
+    this.replayRecorder.stop(this.score);
+    const stars = rateSector(sector, this.score);
+    const {newBest} = this.campaignProgress.recordClear(
+      sector.id,
+      stars,
+      this.score
+    );
+    this.openCampaignMap();
+    this.campaignMapUI.showResult({
+      sector,
+      cleared: true,
+      score: this.score,
+      stars,
+      newBest,
+    });
+    this.soundManager.playSound("levelUp", 0.8);
+    this.musicManager.playMenuMusic();
+  }
+
+  private showDailyChallengeMenu(): void {
+    const challenge = getDailyChallenge();
+    const menuItems: MenuItem[] = [
+      this.dailyAttempts.hasAttempted(challenge.date)
+        ? {
+            label: "Played today - back tomorrow",
+            action: () => this.showDailyLeaderboard(challenge.date),
+          }
+        : {
+            label: `Play: ${describeModifiers(challenge.modifiers)}`,
+            action: () => this.startDailyChallenge(challenge),
+          },
+      {
+        label: "Today's Scores",
+        action: () => this.showDailyLeaderboard(challenge.date),
+      },
+      {
+        label: "Back",
+        action: () => this.setupMainMenu(),
+      },
+    ];
+    this.menuUI.setMenu(`DAILY CHALLENGE ${challenge.date}`, menuItems);
+  }
+
+  // One attempt a day: it counts as soon as the run starts. Everyone plays
+  // on the same difficulty so the scores compare.
+  private startDailyChallenge(challenge: DailyChallenge): void {
+    this.dailyAttempts.markAttempted(challenge.date);
+    this.dailyChallenge = challenge;
+    this.savedDifficulty ??= this.difficultyManager.getCurrentDifficulty();
+    this.difficultyManager.setDifficulty(challenge.difficulty);
+    this.gameModifiers = challenge.modifiers;
+    this.startNewGame(challenge.seed);
+  }
+
+  private showWaveEditorMenu(): void {
+    const menuItems: MenuItem[] = [
+      {
+        label: "Open Editor",
+        action: () => this.openWaveEditor(),
+      },
+    ];
+    if (this.waveScripts.hasDraft()) {
+      menuItems.push({
+        label: "Play Saved Waves",
+        action: () => {
+          const script = this.waveScripts.loadDraft();
+          if (script) {
+            this.playWaveScript(script);
+          }
+        },
+      });
+    }
+    menuItems.push(
+      {
+        label: "Play Wave File",
+        action: () => {
+          this.waveScripts
+            .openFile()
+            .then((script) => {
+              if (this.gameState === GameState.MENU) {
+                this.playWaveScript(script);
+              }
+            })
+            .catch((error) => console.warn("Failed to load waves:", error));
+        },
+      },
+      {
+        label: "Back",
+        action: () => this.setupMainMenu(),
+      }
+    );
+    this.menuUI.setMenu("WAVE EDITOR", menuItems);
+  }
+
+  private openWaveEditor(): void {
+    this.gameState = GameState.EDITOR;
+    this.waveEditorUI.open();
+  }
+
+  private playWaveScript(script: WaveScript): void {
+    this.customWaveScript = script;
+    this.startNewGame(this.getRequestedSeed());
+  }
+
+  private showReplayMenu(): void {
+    const menuItems: MenuItem[] = [];
+    if (this.replayManager.hasSavedReplay()) {
+      menuItems.push({
+        label: "Last Saved Replay",
+        action: () => {
+          const replay = this.replayManager.loadSavedReplay();
+          if (replay) {
+            this.watchReplay(replay);
+          }
+        },
+      });
+    }
+    menuItems.push(
+      {
+        label: "Load Replay File",
+        action: () => {
+          this.replayManager
+            .openReplayFile()
+            .then((replay) => {
+              if (this.gameState === GameState.MENU) {
+                this.watchReplay(replay);
+              }
+            })
+            .catch((error) => console.warn("Failed to load replay:", error));
+        },
+      },
+      {
+        label: "Back",
+        action: () => this.setupMainMenu(),
+      }
+    );
+    this.menuUI.setMenu("REPLAYS", menuItems);
+  }
+
+  private watchReplay(replay: ReplayData): void {
+    this.replayPlayer = new ReplayPlayer(replay);
+    this.replayControls = ControlBindings.fromBindings(replay.bindings);
+    this.lastReplay = replay;
+    this.customWaveScript = replay.waveScript ?? null;
+    this.gameModifiers = replay.modifiers ?? [];
+    this.gameVariant = replay.variant ?? GameVariant.CLASSIC;
+
+    // Recreate the recorded conditions so the simulation plays out identically
+    this.imposeConditions(
+      replay.difficulty,
+      replay.canvasWidth,
+      replay.canvasHeight
+    );
+
+    this.startNewGame(
+      replay.seed,
+      replay.multiplayer ? replay.multiplayer.mode : GameMode.SINGLE
+    );
+  }
+
+  private endReplay(): void {
+    this.replayPlayer = null;
+    this.replayControls = null;
+    this.customWaveScript = null;
+    this.gameModifiers = [];
+    this.gameVariant = GameVariant.CLASSIC;
+    this.restoreConditions();
+  }
+
+  // Difficulty and playfield size must match exactly for a deterministic run
+  private imposeConditions(
+    difficulty: DifficultyLevel,
+    width: number,
+    height: number
+  ): void {
+    this.savedDifficulty ??= this.difficultyManager.getCurrentDifficulty();
+    this.difficultyManager.setDifficulty(difficulty);
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.starfield.updateCanvasSize(this.canvas.width, this.canvas.height);
+  }
+
+  private restoreConditions(): void {
+    if (this.savedDifficulty) {
+      this.difficultyManager.setDifficulty(this.savedDifficulty);
+      this.savedDifficulty = null;
+    }
+    this.resizeCanvas();
+  }
+
+  // Optional ?relay=ws://host:port and ?room=name URL parameters pick where to meet
+  private joinOnlineGame(): void {
+    const params = new URLSearchParams(window.location.search);
+    const host = window.location.hostname || "localhost";
+    const url = params.get("relay") ?? `ws://${host}:${RELAY_DEFAULT_PORT}`;
+    const room = params.get("room") ?? "lobby";
+
+    const session = new NetSession(
+      url,
+      room,
+      this.controlBindings.getBindings()
+    );
+    session.setHostOptions(() => ({
+      seed: this.getRequestedSeed() ?? Random.createSeed(),
+      difficulty: this.difficultyManager.getCurrentDifficulty(),
+      canvasWidth: this.canvas.width,
+      canvasHeight: this.canvas.height,
+      friendlyFire: this.multiplayerSettings.isFriendlyFireEnabled(),
+    }));
+    session.setOnStart((setup) => this.startOnlineGame(setup));
+    session.setOnClose((reason) => this.onlineGameClosed(reason));
+
+    this.netSession = session;
+    this.lobbyMessage = `Connecting to ${url}...`;
+    this.gameState = GameState.LOBBY;
+  }
+
+  private startOnlineGame(setup: NetGameSetup): void {
+    // Everyone plays with their own full bindings on their own machine
+    this.netControls = setup.bindings.map((bindings) =>
+      ControlBindings.fromBindings(bindings)
+    );
+    this.netStalledFrames = 0;
+    this.imposeConditions(
+      setup.difficulty,
+      setup.canvasWidth,
+      setup.canvasHeight
+    );
+    this.startNewGame(setup.seed, GameMode.COOP);
+  }
+
+  // The relay or the other player went away
+  private onlineGameClosed(reason: string): void {
+    this.leaveOnlineGame();
+    this.lobbyMessage = reason;
+    if (this.gameState !== GameState.LOBBY) {
+      this.gameState = GameState.LOBBY;
+      this.resetGame();
+      this.musicManager.playMenuMusic();
+    }
+  }
+
+  private leaveOnlineGame(): void {
+    if (!this.netSession) return;
+
+    this.netSession.close();
+    this.netSession = null;
+    this.netControls = [];
+    this.restoreConditions();
+  }
+
+  private get isOnline(): boolean {
+    return this.netSession !== null && this.netSession.isRunning();
+  }
+
+  // Online games step in lockstep at a fixed rate instead of by frame time
+  private updateOnline(session: NetSession): void {
+    // Held keys carry over, so a frame we can't send yet just waits
+    if (session.sendInput(this.inputManager.getSnapshot())) {
+      this.inputManager.clearPressed();
+    }
+
+    // Catch up a little after a stall without freezing the page
+    let steps = 0;
+    while (steps < 2 && session.advance()) {
+      this.update(NET_FRAME_TIME);
+      session.reportChecksum(this.gameManager.stateChecksum);
+      steps++;
+    }
+    this.netStalledFrames = steps > 0 ? 0 : this.netStalledFrames + 1;
+  }
+
+  // Returns the delta time to simulate this frame, taken from the replay
+  private advanceReplay(liveDeltaTime: number): number {
+    if (!this.replayPlayer) return liveDeltaTime;
+
+    const deltaTime = this.inputManager.isKeyPressed("Escape")
+      ? null
+      : this.replayPlayer.nextFrame();
+    if (deltaTime === null) {
+      // Replay stopped early or ran out of frames
+      this.endReplay();
+      this.gameState = GameState.MENU;
+      this.resetGame();
+      this.setupMainMenu();
+      this.musicManager.playMenuMusic();
+      return liveDeltaTime;
+    }
+    return deltaTime;
+  }
+
+  private saveReplay(): void {
+    if (!this.lastReplay) return;
+    this.replayManager.saveReplay(this.lastReplay);
+  }
+
+  private showLeaderboard(variant: GameVariant = GameVariant.CLASSIC): void {
     this.gameState = GameState.LEADERBOARD;
     // Load scores into the UI
-    const scores = this.leaderboard.getEntries();
-    this.leaderboardUI.setScores(scores);
+    const scores = this.leaderboard.getEntries(variant);
+    this.leaderboardUI.setScores(
+      scores,
+      variant === GameVariant.CLASSIC
+        ? "LEADERBOARD"
+        : `${VARIANT_NAMES[variant].toUpperCase()} LEADERBOARD`
+    );
+  }
+
+  private showDailyLeaderboard(date: string): void {
+    this.gameState = GameState.LEADERBOARD;
+    this.leaderboardUI.setScores(
+      this.leaderboard.getDailyEntries(date),
+      `DAILY CHALLENGE ${date}`
+    );
   }
 
   private showOptions(): void {
     this.gameState = GameState.OPTIONS;
   }
 
+  private closeOptions(): void {
+    this.gameState = GameState.MENU;
+    this.setupMainMenu();
+    // Return to menu music
+    this.musicManager.playMenuMusic();
+  }
+
   private gameLoop(currentTime: number): void {
-    const deltaTime = currentTime - this.lastTime;
+    let deltaTime = currentTime - this.lastTime;
     this.lastTime = currentTime;
+    this.touchControls.setGameplayActive(
+      this.gameState === GameState.PLAYING ||
+        this.gameState === GameState.WARP_TUNNEL
+    );
+    this.inputManager.poll();
 
-    this.update(deltaTime);
+    if (this.netSession && this.isOnline) {
+      this.updateOnline(this.netSession);
+    } else {
+      if (this.replayPlayer) {
+        deltaTime = this.advanceReplay(deltaTime);
+      } else if (this.replayRecorder.isRecording()) {
+        this.replayRecorder.recordFrame(
+          deltaTime,
+          this.inputManager.getSnapshot()
+        );
+      }
+
+      this.update(deltaTime);
+      this.inputManager.clearPressed();
+    }
     this.render();
-    this.inputManager.clearPressed();
 
     requestAnimationFrame((time) => this.gameLoop(time));
   }
@@ -208,8 +826,11 @@ export class Game implements IGameContext {
     // Update starfield
     this.starfield.update(scaledDeltaTime);
 
-    // Handle global input
-    if (this.inputManager.isKeyPressed("Escape")) {
+    // Handle global input; online games can't pause without stalling the other player
+    if (
+      !this.isOnline &&
+      this.controls.isActionPressed(this.input, GameAction.PAUSE)
+    ) {
       if (this.gameState === GameState.PLAYING) {
         this.gameState = GameState.PAUSED;
       } else if (this.gameState === GameState.PAUSED) {
@@ -217,6 +838,8 @@ export class Game implements IGameContext {
       }
     }
 
+    this.handleTaps();
+
     switch (this.gameState) {
       case GameState.MENU:
         this.updateMenu();
@@ -239,47 +862,135 @@ export class Game implements IGameContext {
       case GameState.NAME_ENTRY:
         this.updateNameEntry(deltaTime);
         break;
+      case GameState.LOBBY:
+        this.updateLobby();
+        break;
+      case GameState.EDITOR:
+        this.waveEditorUI.update(deltaTime, this.input);
+        break;
+      case GameState.CAMPAIGN_MAP:
+        this.updateCampaignMap();
+        break;
     }
   }
 
+  // Touch taps outside gameplay select menu items and dismiss screens
+  private handleTaps(): void {
+    // A tap may change state, so only the first one each frame is used
+    const [tap] = this.touchControls.consumeTaps();
+    if (!tap) return;
+
+    switch (this.gameState) {
+      case GameState.MENU:
+        this.menuUI.selectIndex(this.menuUI.getItemIndexAt(tap));
+        break;
+      case GameState.OPTIONS:
+        this.optionsUI.tapAt(tap);
+        break;
+      case GameState.PAUSED:
+        this.gameState = GameState.PLAYING;
+        break;
+      case GameState.LEADERBOARD:
+        this.closeLeaderboard();
+        break;
+      case GameState.GAME_OVER:
+        this.returnToMenu();
+        break;
+      case GameState.NAME_ENTRY:
+        this.nameEntryUI.promptForName();
+        break;
+      case GameState.LOBBY:
+        this.leaveLobby();
+        break;
+      case GameState.CAMPAIGN_MAP:
+        this.tapCampaignMap(tap);
+        break;
+    }
+  }
+
+  private isMenuKeyPressed(menuKey: MenuKey): boolean {
+    return MENU_KEYS[menuKey].some((key) => this.input.isKeyPressed(key));
+  }
+
   private updateMenu(): void {
-    if (this.inputManager.isKeyPressed("ArrowUp")) {
+    if (this.isMenuKeyPressed("up")) {
       this.menuUI.moveUp();
-    } else if (this.inputManager.isKeyPressed("ArrowDown")) {
+    } else if (this.isMenuKeyPressed("down")) {
       this.menuUI.moveDown();
-    } else if (this.inputManager.isKeyPressed("Enter")) {
+    } else if (this.isMenuKeyPressed("select")) {
       this.menuUI.selectCurrentItem();
     }
   }
 
   private updateLeaderboard(): void {
+    if (this.isMenuKeyPressed("back") || this.isMenuKeyPressed("select")) {
+      this.closeLeaderboard();
+    }
+  }
+
+  private updateCampaignMap(): void {
     if (
-      this.inputManager.isKeyPressed("Escape") ||
-      this.inputManager.isKeyPressed("Enter")
+      (this.isMenuKeyPressed("select") || this.isMenuKeyPressed("back")) &&
+      this.campaignMapUI.dismissResult()
     ) {
-      // Check if we came from a game over (has a score set)
-      if (this.score > 0) {
-        this.gameState = GameState.GAME_OVER;
-      } else {
-        this.gameState = GameState.MENU;
-        this.setupMainMenu();
-        // Return to menu music
-        this.musicManager.playMenuMusic();
-      }
+      return;
+    }
+
+    if (
+      this.isMenuKeyPressed("up") ||
+      this.input.isKeyPressed("ArrowLeft") ||
+      this.input.isKeyPressed("GamepadLeft")
+    ) {
+      this.campaignMapUI.movePrevious();
+    } else if (
+      this.isMenuKeyPressed("down") ||
+      this.input.isKeyPressed("ArrowRight") ||
+      this.input.isKeyPressed("GamepadRight")
+    ) {
+      this.campaignMapUI.moveNext();
+    } else if (this.isMenuKeyPressed("select")) {
+      this.launchSelectedSector();
+    } else if (this.isMenuKeyPressed("back")) {
+      this.returnToMenu();
     }
   }
 
-  private updateOptions(): void {
-    if (this.inputManager.isKeyPressed("ArrowUp")) {
-      this.optionsUI.moveUp();
+  // Tapping a sector selects it; tapping it again launches it
+  private tapCampaignMap(tap: {x: number; y: number}): void {
+    if (this.campaignMapUI.dismissResult()) return;
+
+    const index = this.campaignMapUI.getSectorIndexAt(tap);
+    if (index === -1) return;
+    if (index === this.campaignMapUI.getSelectedIndex()) {
+      this.launchSelectedSector();
+    } else {
+      this.campaignMapUI.selectIndex(index);
     }
-    if (this.inputManager.isKeyPressed("ArrowDown")) {
-      this.optionsUI.moveDown();
+  }
+
+  private launchSelectedSector(): void {
+    const sector = this.campaignMapUI.getSelectedSector();
+    if (sector) {
+      this.startCampaignSector(sector);
     }
-    if (this.inputManager.isKeyPressed("Enter")) {
-      this.optionsUI.selectCurrentItem();
+  }
+
+  private updateLobby(): void {
+    if (this.isMenuKeyPressed("back") || this.isMenuKeyPressed("select")) {
+      this.leaveLobby();
     }
-    if (this.inputManager.isKeyPressed("Escape")) {
+  }
+
+  private leaveLobby(): void {
+    this.leaveOnlineGame();
+    this.returnToMenu();
+  }
+
+  private closeLeaderboard(): void {
+    // Check if we came from a game over (has a score set)
+    if (this.score > 0) {
+      this.gameState = GameState.GAME_OVER;
+    } else {
       this.gameState = GameState.MENU;
       this.setupMainMenu();
       // Return to menu music
@@ -287,17 +998,51 @@ export class Game implements IGameContext {
     }
   }
 
+  private updateOptions(): void {
+    // Waiting for the key to bind: the next key pressed goes to OptionsUI
+    if (this.optionsUI.isListeningForKey()) {
+      const [key] = this.inputManager.getSnapshot().pressed;
+      if (key) {
+        this.optionsUI.handleBindingKey(key);
+      }
+      return;
+    }
+
+    if (this.isMenuKeyPressed("up")) {
+      this.optionsUI.moveUp();
+    }
+    if (this.isMenuKeyPressed("down")) {
+      this.optionsUI.moveDown();
+    }
+    if (this.isMenuKeyPressed("select")) {
+      this.optionsUI.selectCurrentItem();
+    }
+    if (this.isMenuKeyPressed("back") && !this.optionsUI.back()) {
+      this.closeOptions();
+    }
+  }
+
   private updateNameEntry(deltaTime: number): void {
     // Use scaled delta time for UI updates
     const scaledDeltaTime = this.timeScale.applyScale(deltaTime);
     this.nameEntryUI.update(scaledDeltaTime);
 
     // Handle character input
-    const chars = this.inputManager.getCharacterInput();
+    const chars = this.input.getCharacterInput();
     for (const char of chars) {
       if (this.nameEntryUI.handleInput(char)) {
         // Name entry completed or cancelled
-        break;
+        return;
+      }
+    }
+
+    // Gamepad letter picking
+    for (const button of NameEntryUI.GAMEPAD_BUTTONS) {
+      if (
+        this.input.isKeyPressed(button) &&
+        this.nameEntryUI.handleGamepadButton(button)
+      ) {
+        return;
       }
     }
   }
@@ -308,51 +1053,62 @@ export class Game implements IGameContext {
     this.gameManager.update(scaledDeltaTime);
     this.achievementDisplay.update(scaledDeltaTime);
 
-    // Debug key: Shift+W to enter warp tunnel
     if (
-      this.inputManager.isKeyPressed("KeyW") &&
-      this.inputManager.isKeyDown("ShiftLeft")
+      this.campaignSector &&
+      this.gameState === GameState.PLAYING &&
+      this.gameManager.currentObjective?.isComplete()
     ) {
+      this.completeSector(this.campaignSector);
+      return;
+    }
+
+    // Debug key: Shift+W to enter warp tunnel
+    if (this.input.isKeyPressed("KeyW") && this.input.isKeyDown("ShiftLeft")) {
       this.enterWarpTunnel();
     }
   }
 
   private updateWarpTunnel(deltaTime: number): void {
-    // Handle player movement (WASD or Arrow keys)
-    let moveX = 0;
-    let moveY = 0;
+    // Handle player movement (thrust/down/turn bindings steer the ship)
+    const analog = this.input.getAnalog();
+    let moveX = analog.stickX;
+    let moveY = analog.stickY;
 
-    if (
-      this.inputManager.isKeyDown("KeyW") ||
-      this.inputManager.isKeyDown("ArrowUp")
-    ) {
+    if (this.controls.isActionDown(this.input, GameAction.THRUST)) {
       moveY = -1;
     }
-    if (
-      this.inputManager.isKeyDown("KeyS") ||
-      this.inputManager.isKeyDown("ArrowDown")
-    ) {
+    if (this.controls.isActionDown(this.input, GameAction.MOVE_DOWN)) {
       moveY = 1;
     }
-    if (
-      this.inputManager.isKeyDown("KeyA") ||
-      this.inputManager.isKeyDown("ArrowLeft")
-    ) {
+    if (this.controls.isActionDown(this.input, GameAction.TURN_LEFT)) {
       moveX = -1;
     }
-    if (
-      this.inputManager.isKeyDown("KeyD") ||
-      this.inputManager.isKeyDown("ArrowRight")
-    ) {
+    if (this.controls.isActionDown(this.input, GameAction.TURN_RIGHT)) {
       moveX = 1;
     }
 
     // Update warp tunnel
     this.warpTunnel.update(deltaTime, {x: moveX, y: moveY});
 
-    // Check if warp tunnel is complete
+    if (
+      this.controls.isActionDown(this.input, GameAction.FIRE) &&
+      this.warpTunnel.fire()
+    ) {
+      this.soundManager.playSound("shoot", 0.3);
+    }
+
+    if (this.warpTunnel.checkCollisions() > 0) {
+      this.soundManager.playSound("smallExplosion", 0.5);
+    }
+
+    if (this.warpTunnel.checkPlayerCollision()) {
+      this.soundManager.playSound("explosion", 0.6);
+      this.screenShake.shake(12, 400);
+    }
+
+    // Play resumes once the results overlay has been shown
     if (this.warpTunnel.isComplete()) {
-      // Award score from tunnel
+      // Award score from tunnel, scaled by how well the run went
       const tunnelScore = this.warpTunnel.getScore();
       this.addScore(tunnelScore);
 
@@ -366,16 +1122,21 @@ export class Game implements IGameContext {
   }
 
   private updateGameOver(): void {
-    if (
-      this.inputManager.isKeyPressed("Space") ||
-      this.inputManager.isKeyPressed("Enter")
-    ) {
-      this.gameState = GameState.MENU;
-      this.resetGame();
-      this.setupMainMenu();
-      // Return to menu music
-      this.musicManager.playMenuMusic();
+    if (this.input.isKeyPressed("KeyS")) {
+      this.saveReplay();
     }
+
+    if (this.input.isKeyPressed("Space") || this.isMenuKeyPressed("select")) {
+      this.returnToMenu();
+    }
+  }
+
+  private returnToMenu(): void {
+    this.gameState = GameState.MENU;
+    this.resetGame();
+    this.setupMainMenu();
+    // Return to menu music
+    this.musicManager.playMenuMusic();
   }
 
   private render(): void {
@@ -400,6 +1161,7 @@ export class Game implements IGameContext {
         break;
       case GameState.WARP_TUNNEL:
         this.warpTunnel.render(this.ctx, this.canvas.width, this.canvas.height);
+        this.touchControls.render(this.ctx);
         break;
       case GameState.PAUSED:
         this.renderGame();
@@ -417,10 +1179,107 @@ export class Game implements IGameContext {
       case GameState.NAME_ENTRY:
         this.renderNameEntry();
         break;
+      case GameState.LOBBY:
+        this.renderLobby();
+        break;
+      case GameState.EDITOR:
+        this.waveEditorUI.render(this.ctx);
+        break;
+      case GameState.CAMPAIGN_MAP:
+        this.campaignMapUI.render(this.ctx);
+        break;
     }
 
     // Restore context after screen shake
     this.ctx.restore();
+
+    if (this.replayPlayer) {
+      this.renderReplayOverlay(this.replayPlayer);
+    }
+    if (this.netSession && this.isOnline) {
+      this.renderOnlineOverlay(this.netSession);
+    }
+  }
+
+  private renderLobby(): void {
+    const centerX = this.canvas.width / 2;
+    const centerY = this.canvas.height / 2;
+    const session = this.netSession;
+
+    let status = this.lobbyMessage;
+    if (session && session.getStatus() === NetSessionStatus.WAITING) {
+      status = session.isHost()
+        ? `Waiting for a second player in room "${session.getRoom()}"...`
+        : `Joined room "${session.getRoom()}", waiting for the host...`;
+    }
+
+    this.ctx.fillStyle = "#ffffff";
+    this.ctx.font = "48px Arial";
+    this.ctx.textAlign = "center";
+    this.ctx.fillText("ONLINE CO-OP", centerX, centerY - 80);
+
+    this.ctx.font = "24px Arial";
+    this.ctx.fillText(status, centerX, centerY);
+
+    this.ctx.fillStyle = "#888888";
+    this.ctx.font = "18px Arial";
+    this.ctx.fillText(
+      "Start the relay with: npm run relay",
+      centerX,
+      centerY + 50
+    );
+    this.ctx.fillText("Press ESC to return to menu", centerX, centerY + 80);
+  }
+
+  private renderOnlineOverlay(session: NetSession): void {
+    this.ctx.save();
+    this.ctx.textAlign = "center";
+
+    // Half a second without the other player's input
+    if (this.netStalledFrames > 30) {
+      this.ctx.fillStyle = "#ffff00";
+      this.ctx.font = "bold 24px Arial";
+      this.ctx.fillText(
+        "Waiting for the other player...",
+        this.canvas.width / 2,
+        this.canvas.height / 2 + 80
+      );
+    }
+
+    const desyncFrame = session.getDesyncFrame();
+    if (desyncFrame !== null) {
+      this.ctx.fillStyle = "#ff4444";
+      this.ctx.font = "bold 18px Arial";
+      this.ctx.fillText(
+        `Out of sync since frame ${desyncFrame}`,
+        this.canvas.width / 2,
+        this.canvas.height - 20
+      );
+    }
+    this.ctx.restore();
+  }
+
+  private renderReplayOverlay(player: ReplayPlayer): void {
+    const barWidth = 200;
+    const x = this.canvas.width / 2 - barWidth / 2;
+    const y = this.canvas.height - 30;
+
+    this.ctx.save();
+    this.ctx.fillStyle = "#ff4444";
+    this.ctx.font = "bold 18px Arial";
+    this.ctx.textAlign = "center";
+    this.ctx.fillText(
+      `▶ REPLAY (seed ${player.getReplay().seed}) - ESC to exit`,
+      this.canvas.width / 2,
+      y - 10
+    );
+
+    // Playback progress
+    this.ctx.fillStyle = "rgba(255, 255, 255, 0.3)";
+    this.ctx.fillRect(x, y, barWidth, 4);
+    this.ctx.fillStyle = "#ff4444";
+    this.ctx.fillRect(x, y, barWidth * player.getProgress(), 4);
+    this.ctx.restore();
   }
 
   private renderMenu(): void {
@@ -447,6 +1306,7 @@ export class Game implements IGameContext {
     this.gameManager.render(this.ctx);
     this.renderUI();
     this.achievementDisplay.render(this.ctx);
+    this.touchControls.render(this.ctx);
   }
 
   private renderPauseOverlay(): void {
@@ -466,26 +1326,59 @@ export class Game implements IGameContext {
     );
   }
 
+  private getGameOverTitle(): string {
+    if (this.gameManager.currentBossRush?.isComplete()) return "RUSH COMPLETE";
+    if (this.gameManager.timeLeft === 0) return "TIME UP";
+    return "GAME OVER";
+  }
+
   private renderGameOver(): void {
+    const versusMatch = this.gameManager.currentVersusMatch;
+    if (this.gameMode === GameMode.VERSUS && versusMatch) {
+      this.versusResultsUI.render(versusMatch, this.gameManager.currentPlayers);
+      this.renderGameOverPrompts();
+      return;
+    }
+
     this.ctx.fillStyle = "#ffffff";
     this.ctx.font = "48px Arial";
     this.ctx.textAlign = "center";
     this.ctx.fillText(
-      "GAME OVER",
+      this.getGameOverTitle(),
       this.canvas.width / 2,
       this.canvas.height / 2 - 150
     );
 
     this.ctx.font = "24px Arial";
+    // Co-op also lists each player's share of the team score
+    const playerScores =
+      this.gameMode === GameMode.COOP
+        ? ` (${this.gameManager.currentPlayers
+            .map((player) => `${player.label}: ${player.score}`)
+            .join(", ")})`
+        : "";
     this.ctx.fillText(
-      `Final Score: ${this.score}`,
+      `Final Score: ${this.score}${playerScores}`,
       this.canvas.width / 2,
       this.canvas.height / 2 - 100
     );
 
+    // Seed of the run, for reproducing it later
+    this.ctx.fillStyle = "#888888";
+    this.ctx.font = "16px Arial";
+    this.ctx.fillText(
+      `Seed: ${this.gameManager.seed}`,
+      this.canvas.width / 2,
+      this.canvas.height / 2 - 70
+    );
+
     // Render leaderboard
     this.leaderboardUI.render();
 
+    this.renderGameOverPrompts();
+  }
+
+  private renderGameOverPrompts(): void {
     this.ctx.fillStyle = "#ffffff";
     this.ctx.font = "24px Arial";
     this.ctx.textAlign = "center";
@@ -494,11 +1387,47 @@ export class Game implements IGameContext {
       this.canvas.width / 2,
       this.canvas.height - 50
     );
+
+    if (this.lastReplay) {
+      this.ctx.fillStyle = "#888888";
+      this.ctx.font = "18px Arial";
+      this.ctx.fillText(
+        "Press S to save replay",
+        this.canvas.width / 2,
+        this.canvas.height - 20
+      );
+    }
   }
 
   private renderUI(): void {
+    // Co-op and versus split the HUD between both players
+    const versusMatch = this.gameManager.currentVersusMatch;
+    const kills = versusMatch?.getKills();
+    const roundWins = versusMatch?.getRoundWins();
+    const bossRush = this.gameManager.currentBossRush;
+    const players =
+      this.gameMode !== GameMode.SINGLE
+        ? this.gameManager.currentPlayers.map((player) => ({
+            label: player.label,
+            color: player.color,
+            score: kills ? kills[player.index] : player.score,
+            lives: player.lives,
+            roundWins: roundWins?.[player.index],
+            weaponSystem: player.weaponSystem,
+            shieldHealth: player.shield?.getHealth(),
+            maxShieldHealth: player.shield?.getMaxHealth(),
+          }))
+        : undefined;
+
     // Use the new HUD system for enhanced UI
     this.hud.render({
+      players,
+      versus: versusMatch
+        ? {
+            round: versusMatch.getRound(),
+            killsToWinRound: versusMatch.getKillsToWinRound(),
+          }
+        : undefined,
       score: this.score,
       lives: this.lives,
       level: this.level,
@@ -509,15 +1438,65 @@ export class Game implements IGameContext {
       comboCount: this.achievementTracker.getComboCount(),
       comboMultiplier: this.achievementTracker.getComboMultiplier(),
       comboProgress: this.achievementTracker.getComboProgress(),
+      timeLeft: this.gameManager.timeLeft ?? undefined,
+      survived:
+        this.gameVariant === GameVariant.SURVIVAL
+          ? this.gameManager.elapsedTime
+          : undefined,
+      bossRush: bossRush
+        ? {
+            rush: bossRush,
+            time: bossRush.getRunTime(this.gameManager.elapsedTime),
+          }
+        : undefined,
+      objective: this.dailyChallenge
+        ? describeModifiers(this.dailyChallenge.modifiers)
+        : this.gameManager.currentObjective?.getStatusText(),
     });
   }
 
-  private startNewGame(): void {
+  private startNewGame(seed?: number, mode: GameMode = GameMode.SINGLE): void {
     this.gameState = GameState.PLAYING;
+    this.gameMode = mode;
     this.score = 0;
     this.lives = 3;
     this.level = 1;
-    this.gameManager.startNewGame();
+    this.timeScale.reset();
+    this.gameManager.setWaveScript(
+      this.customWaveScript ?? DEFAULT_WAVE_SCRIPT
+    );
+    this.gameManager.setObjective(
+      this.campaignSector ? new SectorObjective(this.campaignSector.goal) : null
+    );
+    this.gameManager.setModifiers(this.gameModifiers);
+    this.gameManager.setVariant(this.gameVariant);
+    this.gameManager.startNewGame(seed);
+
+    // Record every live run so it can be saved from the game over screen
+    if (!this.replayPlayer && !this.isOnline) {
+      this.replayRecorder.start({
+        seed: this.gameManager.seed,
+        difficulty: this.difficultyManager.getCurrentDifficulty(),
+        canvasWidth: this.canvas.width,
+        canvasHeight: this.canvas.height,
+        bindings: this.controlBindings.getBindings(),
+        waveScript: this.customWaveScript ?? undefined,
+        modifiers:
+          this.gameModifiers.length > 0 ? this.gameModifiers : undefined,
+        variant:
+          this.gameVariant !== GameVariant.CLASSIC
+            ? this.gameVariant
+            : undefined,
+        multiplayer:
+          mode !== GameMode.SINGLE
+            ? {
+                mode,
+                bindings: this.playerTwoBindings.getBindings(),
+                friendlyFire: this.friendlyFire,
+              }
+            : undefined,
+      });
+    }
     // Start game music
     this.musicManager.playGameMusic();
   }
@@ -536,8 +1515,50 @@ export class Game implements IGameContext {
     return this.canvas.height;
   }
 
-  public get input(): InputManager {
-    return this.inputManager;
+  // Online, the shared screens follow player one's input so every peer agrees
+  public get input(): InputSource {
+    if (this.netSession && this.isOnline) return this.netSession.getInput(0);
+    return this.replayPlayer ?? this.inputManager;
+  }
+
+  public get controls(): ControlBindings {
+    if (this.isOnline) return this.netControls[0];
+    return this.replayControls ?? this.controlBindings;
+  }
+
+  public get mode(): GameMode {
+    return this.gameMode;
+  }
+
+  public get friendlyFire(): boolean {
+    const setup = this.isOnline ? this.netSession?.getSetup() : null;
+    if (setup) return setup.friendlyFire;
+
+    const multiplayer = this.replayPlayer?.getReplay().multiplayer;
+    return multiplayer
+      ? multiplayer.friendlyFire
+      : this.multiplayerSettings.isFriendlyFireEnabled();
+  }
+
+  // Both players share the keyboard; player two's keys are theirs alone
+  public getPlayerControls(playerIndex: number): PlayerControls {
+    if (this.isOnline) return this.netControls[playerIndex];
+    if (this.gameMode === GameMode.SINGLE) return this.controls;
+
+    const multiplayer = this.replayPlayer?.getReplay().multiplayer;
+    const playerTwo = multiplayer
+      ? ControlBindings.fromBindings(multiplayer.bindings)
+      : this.playerTwoBindings;
+    return playerIndex === 0
+      ? this.controls.withoutKeys(playerTwo.getAllKeys())
+      : playerTwo;
+  }
+
+  public getPlayerInput(playerIndex: number): InputSource {
+    if (this.netSession && this.isOnline) {
+      return this.netSession.getInput(playerIndex);
+    }
+    return this.input;
   }
 
   public get state(): GameState {
@@ -545,13 +1566,63 @@ export class Game implements IGameContext {
   }
 
   public enterWarpTunnel(): void {
-    this.warpTunnel.reset();
+    this.warpTunnel.reset(this.gameManager.random);
     this.gameState = GameState.WARP_TUNNEL;
   }
 
   public gameOver(): void {
-    // Check if this is a high score that qualifies for leaderboard
-    const rank = this.leaderboard.getScoreRank(this.score);
+    // Both peers reach game over on the same frame, so just hang up
+    this.leaveOnlineGame();
+
+    // A watched replay ends on the game over screen without touching the leaderboard
+    if (this.replayPlayer) {
+      this.endReplay();
+      this.gameState = GameState.GAME_OVER;
+      this.musicManager.playGameOverMusic();
+      return;
+    }
+
+    this.lastReplay = this.replayRecorder.stop(this.score);
+
+    // A campaign run that runs out of lives fails its sector
+    if (this.campaignSector) {
+      const sector = this.campaignSector;
+      this.openCampaignMap();
+      this.campaignMapUI.showResult({
+        sector,
+        cleared: false,
+        score: this.score,
+        stars: 0,
+        newBest: false,
+      });
+      this.musicManager.playGameOverMusic();
+      return;
+    }
+
+    // Versus is settled on kills, so it skips the leaderboard
+    if (this.gameMode === GameMode.VERSUS) {
+      this.gameState = GameState.GAME_OVER;
+      this.musicManager.playGameOverMusic();
+      return;
+    }
+
+    // Waves from the editor or a file aren't the real game, so their
+    // scores stay off the leaderboard
+    if (this.customWaveScript) {
+      this.gameState = GameState.GAME_OVER;
+      this.musicManager.playGameOverMusic();
+      return;
+    }
+
+    if (this.dailyChallenge) {
+      this.dailyGameOver(this.dailyChallenge);
+      return;
+    }
+
+    // Check if the score qualifies for its variant's leaderboard
+    const variant = this.gameVariant;
+    const splits = this.gameManager.currentBossRush?.getSplits();
+    const rank = this.leaderboard.getScoreRank(this.score, variant);
     if (rank > 0) {
       // High score! Prompt for name entry
       this.gameState = GameState.NAME_ENTRY;
@@ -563,10 +1634,12 @@ export class Game implements IGameContext {
           this.leaderboard.addScore(
             this.score,
             this.gameManager.currentWave,
-            name
+            name,
+            variant,
+            splits
           );
           // Show leaderboard after name entry
-          this.showLeaderboard();
+          this.showLeaderboard(variant);
           // Play game over music
           this.musicManager.playGameOverMusic();
         },
@@ -575,10 +1648,12 @@ export class Game implements IGameContext {
           this.leaderboard.addScore(
             this.score,
             this.gameManager.currentWave,
-            "Anonymous"
+            "Anonymous",
+            variant,
+            splits
           );
           // Show leaderboard after skipping
-          this.showLeaderboard();
+          this.showLeaderboard(variant);
           // Play game over music
           this.musicManager.playGameOverMusic();
         }
@@ -589,13 +1664,42 @@ export class Game implements IGameContext {
       this.leaderboard.addScore(
         this.score,
         this.gameManager.currentWave,
-        "Player"
+        "Player",
+        variant,
+        splits
       );
       // Play game over music
       this.musicManager.playGameOverMusic();
     }
   }
 
+  // Daily runs go on that day's table, with the same name entry
+  private dailyGameOver(challenge: DailyChallenge): void {
+    const submit = (name: string) => {
+      this.leaderboard.addDailyScore(
+        challenge.date,
+        this.score,
+        this.gameManager.currentWave,
+        name
+      );
+      this.showDailyLeaderboard(challenge.date);
+      this.musicManager.playGameOverMusic();
+    };
+
+    const rank = this.leaderboard.getDailyScoreRank(challenge.date, this.score);
+    if (rank > 0) {
+      this.gameState = GameState.NAME_ENTRY;
+      this.nameEntryUI.show(this.score, rank, submit, () =>
+        submit("Anonymous")
+      );
+    } else {
+      // Regular game over, shown over the day's table
+      this.showDailyLeaderboard(challenge.date);
+      this.gameState = GameState.GAME_OVER;
+      this.musicManager.playGameOverMusic();
+    }
+  }
+
   public addScore(points: number): void {
     this.score += points;
   }
@@ -0,0 +1,41 @@
+import {describe, expect, it} from "vitest";
+import {GameObject} from "./GameObject";
+import type {Vector2} from "../utils/Vector2";
+
+class TestObject extends GameObject {
+  constructor(position: Vector2, radius: number) {
+    super(position, radius);
+  }
+
+  update(): void {}
+  render(): void {}
+}
+
+describe("GameObject.checkCollision", () => {
+  it("detects overlapping circles", () => {
+    const a = new TestObject({x: 0, y: 0}, 10);
+    const b = new TestObject({x: 15, y: 0}, 10);
+    expect(a.checkCollision(b)).toBe(true);
+    expect(b.checkCollision(a)).toBe(true);
+  });
+
+  it("ignores circles that are apart or only touching", () => {
+    const a = new TestObject({x: 0, y: 0}, 10);
+    expect(a.checkCollision(new TestObject({x: 30, y: 0}, 10))).toBe(false);
+    expect(a.checkCollision(new TestObject({x: 20, y: 0}, 10))).toBe(false);
+  });
+
+  it("measures distance diagonally", () => {
+    const a = new TestObject({x: 0, y: 0}, 5);
+    expect(a.checkCollision(new TestObject({x: 6, y: 8}, 5.1))).toBe(true);
+    expect(a.checkCollision(new TestObject({x: 6, y: 8}, 4.9))).toBe(false);
+  });
+
+  it("never collides with inactive objects", () => {
+    const a = new TestObject({x: 0, y: 0}, 10);
+    const b = new TestObject({x: 0, y: 0}, 10);
+    b.destroy();
+    expect(a.checkCollision(b)).toBe(false);
+    expect(b.checkCollision(a)).toBe(false);
+  });
+});
@@ -1,13 +1,58 @@
+import type {Random} from "../utils/Random";
+import type {GameAction} from "../systems/ControlBindings";
+
+// Analog gamepad state: left stick (-1..1, dead zone removed) and right trigger (0..1)
+export interface AnalogInput {
+  stickX: number;
+  stickY: number;
+  trigger: number;
+}
+
+// Input state for a single frame, as captured by InputManager
+export interface InputSnapshot {
+  keys: string[];
+  pressed: string[];
+  chars: string[];
+  analog: AnalogInput;
+}
+
+// Anything that can answer input queries: the live keyboard/gamepad or a replay
+export interface InputSource {
+  isKeyDown(key: string): boolean;
+  isKeyPressed(key: string): boolean;
+  getCharacterInput(): string[];
+  getAnalog(): AnalogInput;
+}
+
+export const NO_ANALOG_INPUT: AnalogInput = {stickX: 0, stickY: 0, trigger: 0};
+
+// Maps held keys to game actions for one player
+export interface PlayerControls {
+  isActionDown(input: InputSource, action: GameAction): boolean;
+  isActionPressed(input: InputSource, action: GameAction): boolean;
+}
+
+export const GameMode = {
+  SINGLE: "single",
+  COOP: "coop",
+  VERSUS: "versus",
+} as const;
+
+export type GameMode = (typeof GameMode)[keyof typeof GameMode];
+
 export interface IGameContext {
   canvasWidth: number;
   canvasHeight: number;
   level: number;
   lives: number;
   state: string;
-  input: {
-    isKeyDown(key: string): boolean;
-    isKeyPressed(key: string): boolean;
-  };
+  mode: GameMode;
+  friendlyFire: boolean;
+  input: InputSource;
+  controls: PlayerControls;
+  getPlayerControls(playerIndex: number): PlayerControls;
+  // Online players each have their own input; locally everyone reads `input`
+  getPlayerInput(playerIndex: number): InputSource;
   sound: {
     playSound(type: string, volume?: number, pitch?: number): void;
   };
@@ -45,7 +90,7 @@ export interface IGameContext {
     getCurrentSettings(): any;
     getAsteroidSpeed(baseSpeed: number): number;
     getScoreValue(baseScore: number): number;
-    shouldSpawnPowerUp(baseChance: number): boolean;
+    shouldSpawnPowerUp(baseChance: number, rng?: Random): boolean;
     getPlayerMaxHealth(baseHealth: number): number;
     getShieldDuration(baseDuration: number): number;
   };
@@ -60,6 +105,9 @@ export const GameState = {
   LEADERBOARD: "leaderboard",
   OPTIONS: "options",
   NAME_ENTRY: "name_entry",
+  LOBBY: "lobby",
+  EDITOR: "editor",
+  CAMPAIGN_MAP: "campaign_map",
 } as const;
 
 export type GameState = (typeof GameState)[keyof typeof GameState];
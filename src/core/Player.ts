@@ -0,0 +1,37 @@
+import type {PlayerControls} from "./GameTypes";
+import type {SimulationClock} from "./SimulationClock";
+import type {Spaceship} from "../entities/Spaceship";
+import type {Shield} from "../entities/Shield";
+import {WeaponSystem} from "../systems/WeaponSystem";
+
+export const PLAYER_COLORS = ["#ffffff", "#66ccff"];
+
+// Everything that belongs to one ship; co-op runs two of these on a shared playfield
+export class Player {
+  public readonly index: number;
+  public readonly color: string;
+  public readonly weaponSystem: WeaponSystem;
+  public readonly controls: PlayerControls;
+  public spaceship: Spaceship | null = null;
+  public shield: Shield | null = null;
+  public score: number = 0;
+  public lives: number = 3;
+  public isRespawning: boolean = false;
+  public respawnTimer: number = 0;
+
+  constructor(index: number, controls: PlayerControls, clock: SimulationClock) {
+    this.index = index;
+    this.color = PLAYER_COLORS[index % PLAYER_COLORS.length];
+    this.controls = controls;
+    this.weaponSystem = new WeaponSystem(clock);
+  }
+
+  get label(): string {
+    return `P${this.index + 1}`;
+  }
+
+  // Ship in play and able to collide
+  get activeShip(): Spaceship | null {
+    return this.spaceship && this.spaceship.active ? this.spaceship : null;
+  }
+}
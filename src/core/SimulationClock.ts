@@ -0,0 +1,29 @@
+/**
+ * SimulationClock - Game time advanced only by simulation steps.
+ * Replaces Date.now() for gameplay timing so runs do not depend on wall-clock time.
+ */
+export class SimulationClock {
+  private elapsed: number = 0;
+
+  /**
+   * Advance the clock by one simulation step
+   * @param deltaTime Step length in milliseconds
+   */
+  advance(deltaTime: number): void {
+    this.elapsed += deltaTime;
+  }
+
+  /**
+   * Milliseconds of simulated time since the last reset
+   */
+  now(): number {
+    return this.elapsed;
+  }
+
+  /**
+   * Rewind the clock to zero
+   */
+  reset(): void {
+    this.elapsed = 0;
+  }
+}
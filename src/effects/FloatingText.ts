@@ -213,6 +213,19 @@ export class FloatingTextManager {
     this.texts.push(text);
   }
 
+  // Two power-ups held together, e.g. "PIERCING FAN!"
+  addPowerUpComboText(position: Vector2, name: string, color: string): void {
+    const text = new FloatingText(
+      position,
+      `${name.toUpperCase()}!`,
+      color,
+      30,
+      2000,
+      "combo"
+    );
+    this.texts.push(text);
+  }
+
   addCriticalText(position: Vector2, isBoss: boolean = false): void {
     const text = new FloatingText(
       position,
@@ -409,6 +409,26 @@ export class ParticleSystem {
         color = "#ff0000";
         intensity = "massive";
         break;
+      case "minelayer":
+        color = "#ffaa00";
+        intensity = "massive";
+        break;
+      case "stalker":
+        color = "#aa66ff";
+        intensity = "bright";
+        break;
+      case "carrier":
+        color = "#3399ff";
+        intensity = "massive";
+        break;
+      case "drone":
+        color = "#99ccff";
+        intensity = "normal";
+        break;
+      case "interceptor":
+        color = "#00ffcc";
+        intensity = "bright";
+        break;
     }
 
     this.createExplosion(position, color, 12, intensity);
@@ -0,0 +1,82 @@
+import {describe, expect, it} from "vitest";
+import {Random} from "../utils/Random";
+import {WarpTunnel} from "./WarpTunnel";
+
+const FRAME = 1000 / 60;
+
+// Fly the whole tunnel holding one direction; returns the number of impacts
+function fly(
+  tunnel: WarpTunnel,
+  input: {x: number; y: number},
+  fire: boolean
+): number {
+  let impacts = 0;
+  for (let frame = 0; frame < 5000 && !tunnel.isComplete(); frame++) {
+    tunnel.update(FRAME, input);
+    if (fire) tunnel.fire();
+    tunnel.checkCollisions();
+    if (tunnel.checkPlayerCollision()) impacts++;
+  }
+  return impacts;
+}
+
+describe("WarpTunnel", () => {
+  it("pays hull and time bonuses for a clean run down the middle", () => {
+    const tunnel = new WarpTunnel();
+    tunnel.reset(new Random(1));
+
+    expect(fly(tunnel, {x: 0, y: 0}, false)).toBe(0);
+    expect(tunnel.isComplete()).toBe(true);
+    expect(tunnel.getResults()).toMatchObject({
+      survived: true,
+      destroyed: 0,
+      hull: 3,
+      hullBonus: 1500,
+      timeBonus: 1000,
+      multiplier: 1,
+    });
+    expect(tunnel.getScore()).toBe(2500);
+  });
+
+  it("scales the score with obstacles shot down", () => {
+    const tunnel = new WarpTunnel();
+    tunnel.reset(new Random(2));
+    fly(tunnel, {x: 1, y: 0}, true);
+
+    const results = tunnel.getResults()!;
+    expect(results.destroyed).toBeGreaterThan(0);
+    expect(results.multiplier).toBeCloseTo(
+      1 + results.destroyed / results.total
+    );
+    expect(results.score).toBe(
+      Math.round(
+        (results.obstaclePoints + results.hullBonus + results.timeBonus) *
+          results.multiplier
+      )
+    );
+  });
+
+  it("costs hull and time when flying into obstacles", () => {
+    const tunnel = new WarpTunnel();
+    tunnel.reset(new Random(2));
+
+    expect(fly(tunnel, {x: 0, y: 1}, false)).toBe(2);
+    expect(tunnel.getResults()).toMatchObject({
+      survived: true,
+      hull: 1,
+      hullBonus: 500,
+      timeBonus: 700,
+    });
+  });
+
+  it("ends the run early without bonuses when the hull runs out", () => {
+    const tunnel = new WarpTunnel();
+    tunnel.reset(new Random(5));
+
+    expect(fly(tunnel, {x: 0, y: 1}, false)).toBe(3);
+    const results = tunnel.getResults()!;
+    expect(results.survived).toBe(false);
+    expect(results.time).toBeLessThan(16000);
+    expect(results.score).toBe(results.obstaclePoints);
+  });
+});
@@ -1,4 +1,6 @@
 import type {Vector2} from "../utils/Vector2";
+import type {Random} from "../utils/Random";
+import {defaultRandom} from "../utils/Random";
 
 interface TunnelSegment {
   z: number;
@@ -7,20 +9,76 @@ interface TunnelSegment {
   color: string;
 }
 
+type ObstacleType = "ring" | "block" | "spinner";
+
 interface TunnelObstacle {
   z: number;
   angle: number;
   size: number;
-  type: "ring" | "block" | "spinner";
+  type: ObstacleType;
   rotation: number;
   rotationSpeed: number;
-  hit: boolean;
+  health: number;
+  destroyed: boolean;
+  struck: boolean; // Already hit the ship once
+  flashTimer: number;
   shapePoints?: {angle: number; distance: number; baseShade: number}[];
 }
 
+// Rings pop in one shot, blocks soak up three, spinners orbit quickly
+const OBSTACLE_STATS: Record<
+  ObstacleType,
+  {health: number; points: number; orbitSpeed: number; color: string}
+> = {
+  ring: {health: 1, points: 100, orbitSpeed: 1, color: "#66ccff"},
+  block: {health: 3, points: 250, orbitSpeed: 0.5, color: "#ff6666"},
+  spinner: {health: 2, points: 150, orbitSpeed: 3, color: "#ffcc00"},
+};
+
+interface TunnelShot {
+  x: number;
+  y: number;
+  z: number;
+  previousZ: number;
+}
+
+interface TunnelBurst {
+  x: number;
+  y: number;
+  z: number;
+  age: number;
+  color: string;
+}
+
+export interface WarpTunnelResults {
+  survived: boolean;
+  destroyed: number;
+  total: number;
+  hull: number;
+  time: number; // Milliseconds spent flying
+  obstaclePoints: number;
+  hullBonus: number;
+  timeBonus: number;
+  multiplier: number; // 1x with nothing destroyed, up to 2x for a clean sweep
+  score: number;
+}
+
 export class WarpTunnel {
+  // Depth where the projection is 1:1, so the ship flies at screen coordinates
+  private static readonly PLAYER_DEPTH = 500;
+  private static readonly SHIP_RADIUS = 20;
+  private static readonly MAX_HULL = 3;
+  private static readonly SHOT_SPEED = 2000; // Units per second
+  private static readonly SHOT_RANGE = 2000;
+  private static readonly FIRE_COOLDOWN = 180;
+  private static readonly IMPACT_INVULNERABILITY = 1000;
+  private static readonly IMPACT_SLOWDOWN = 1500; // Time penalty after a hit
+  private static readonly RESULTS_DURATION = 3500;
+
   private segments: TunnelSegment[] = [];
   private obstacles: TunnelObstacle[] = [];
+  private shots: TunnelShot[] = [];
+  private bursts: TunnelBurst[] = [];
   private speed: number = 300; // Units per second
   private tunnelLength: number = 5000;
   private currentZ: number = 0;
@@ -33,12 +91,22 @@ export class WarpTunnel {
   private complete: boolean = false;
   private score: number = 0;
   private time: number = 0;
+  private hull: number = WarpTunnel.MAX_HULL;
+  private destroyedCount: number = 0;
+  private fireCooldown: number = 0;
+  private invulnerableTimer: number = 0;
+  private slowTimer: number = 0;
+  private results: WarpTunnelResults | null = null;
+  private resultsTimer: number = 0;
+  private rng: Random = defaultRandom;
 
   constructor() {
     this.generateTunnel();
   }
 
   private generateTunnel(): void {
+    const rng = this.rng;
+
     this.segments = [];
     this.obstacles = [];
 
@@ -62,10 +130,11 @@ export class WarpTunnel {
         "block",
         "spinner",
       ];
-      const type = types[Math.floor(Math.random() * types.length)];
+      const type = rng.pick(types);
+      const stats = OBSTACLE_STATS[type];
 
       // Generate consistent asteroid shape
-      const numPoints = 12 + Math.floor(Math.random() * 8);
+      const numPoints = 12 + rng.int(8);
       const shapePoints: {
         angle: number;
         distance: number;
@@ -75,7 +144,7 @@ export class WarpTunnel {
 
       for (let j = 0; j < numPoints; j++) {
         const angle = (j / numPoints) * Math.PI * 2;
-        const distance = 1 + (Math.random() - 0.5) * irregularity;
+        const distance = 1 + (rng.next() - 0.5) * irregularity;
         // Base shade for each vertex (simulate 3D surface normal)
         const baseShade = Math.cos(angle - Math.PI * 0.7) * 0.4 + 0.6;
         shapePoints.push({angle, distance, baseShade});
@@ -83,12 +152,15 @@ export class WarpTunnel {
 
       this.obstacles.push({
         z: z,
-        angle: Math.random() * Math.PI * 2,
-        size: 25 + Math.random() * 15,
+        angle: rng.angle(),
+        size: 25 + rng.next() * 15,
         type: type,
         rotation: 0,
-        rotationSpeed: (Math.random() - 0.5) * 3,
-        hit: false,
+        rotationSpeed: (rng.next() - 0.5) * 3 * stats.orbitSpeed,
+        health: stats.health,
+        destroyed: false,
+        struck: false,
+        flashTimer: 0,
         shapePoints: shapePoints,
       });
     }
@@ -101,9 +173,23 @@ export class WarpTunnel {
 
   update(deltaTime: number, input: {x: number; y: number}): void {
     this.time += deltaTime;
+    this.updateBursts(deltaTime);
 
-    // Move through tunnel
-    this.currentZ += this.speed * (deltaTime / 1000);
+    // Results stay up for a moment before play resumes
+    if (this.results) {
+      this.resultsTimer += deltaTime;
+      if (this.resultsTimer >= WarpTunnel.RESULTS_DURATION) {
+        this.complete = true;
+      }
+      return;
+    }
+
+    this.invulnerableTimer = Math.max(0, this.invulnerableTimer - deltaTime);
+    this.slowTimer = Math.max(0, this.slowTimer - deltaTime);
+
+    // Move through tunnel, slowed for a while after an impact
+    const speed = this.slowTimer > 0 ? this.speed * 0.4 : this.speed;
+    this.currentZ += speed * (deltaTime / 1000);
 
     // Update player velocity with acceleration and damping for smooth movement
     const acceleration = 800;
@@ -138,80 +224,180 @@ export class WarpTunnel {
     // Update obstacles - slow rotation for asteroids
     this.obstacles.forEach((obstacle) => {
       obstacle.rotation += obstacle.rotationSpeed * 0.3 * (deltaTime / 1000);
+      obstacle.flashTimer = Math.max(0, obstacle.flashTimer - deltaTime);
     });
 
-    // Check if tunnel is complete
+    this.updateShots(deltaTime);
+
+    // Reaching the end of the tunnel
     if (this.currentZ >= this.tunnelLength) {
-      this.complete = true;
+      this.finish(true);
     }
   }
 
-  checkCollisions(bulletPositions: Vector2[]): boolean[] {
-    const hits: boolean[] = new Array(bulletPositions.length).fill(false);
-
-    bulletPositions.forEach((bullet, index) => {
-      this.obstacles.forEach((obstacle) => {
-        if (obstacle.hit) return;
-
-        const relativeZ = obstacle.z - this.currentZ;
-        if (relativeZ > 0 && relativeZ < 500) {
-          // Check if bullet hits obstacle (simplified)
-          const distance = Math.sqrt(
-            Math.pow(bullet.x - this.playerX, 2) +
-              Math.pow(bullet.y - this.playerY, 2)
-          );
-          if (distance < obstacle.size && relativeZ < 100) {
-            obstacle.hit = true;
-            hits[index] = true;
-            this.score += 100;
-          }
-        }
-      });
+  /**
+   * Fire a shot down the tunnel from the ship
+   * @returns false while the cannon is cooling down or the run is over
+   */
+  fire(): boolean {
+    if (this.results || this.fireCooldown > 0) return false;
+
+    const z = this.currentZ + WarpTunnel.PLAYER_DEPTH;
+    this.shots.push({x: this.playerX, y: this.playerY, z, previousZ: z});
+    this.fireCooldown = WarpTunnel.FIRE_COOLDOWN;
+    return true;
+  }
+
+  private updateShots(deltaTime: number): void {
+    this.fireCooldown = Math.max(0, this.fireCooldown - deltaTime);
+
+    const maxZ =
+      this.currentZ + WarpTunnel.PLAYER_DEPTH + WarpTunnel.SHOT_RANGE;
+    this.shots.forEach((shot) => {
+      shot.previousZ = shot.z;
+      shot.z += WarpTunnel.SHOT_SPEED * (deltaTime / 1000);
     });
+    this.shots = this.shots.filter((shot) => shot.z < maxZ);
+  }
 
-    return hits;
+  private updateBursts(deltaTime: number): void {
+    this.bursts.forEach((burst) => (burst.age += deltaTime));
+    this.bursts = this.bursts.filter((burst) => burst.age < 400);
   }
 
-  checkPlayerCollision(): boolean {
-    // Check if player hits tunnel walls or obstacles
-    const playerDistance = Math.sqrt(
-      this.playerX * this.playerX + this.playerY * this.playerY
-    );
+  // Obstacles sit part way out from the tunnel axis and orbit it as they spin
+  private getObstaclePosition(obstacle: TunnelObstacle): Vector2 {
+    const angle = obstacle.angle + obstacle.rotation;
+    return {
+      x: Math.cos(angle) * this.tunnelRadius * 0.6,
+      y: Math.sin(angle) * this.tunnelRadius * 0.6,
+    };
+  }
 
-    // Check tunnel wall collision
-    if (playerDistance > this.tunnelRadius * 0.9) {
+  // Matches the drawn size of the rock
+  private getObstacleRadius(obstacle: TunnelObstacle): number {
+    return obstacle.size * 1.2;
+  }
+
+  /**
+   * Resolve shots against obstacles
+   * @returns the number of obstacles destroyed
+   */
+  checkCollisions(): number {
+    let destroyed = 0;
+
+    this.shots = this.shots.filter((shot) => {
+      for (const obstacle of this.obstacles) {
+        if (obstacle.destroyed) continue;
+
+        // The shot swept through this depth since last frame
+        if (obstacle.z < shot.previousZ || obstacle.z > shot.z) continue;
+
+        const position = this.getObstaclePosition(obstacle);
+        const distance = Math.sqrt(
+          Math.pow(shot.x - position.x, 2) + Math.pow(shot.y - position.y, 2)
+        );
+        if (distance > this.getObstacleRadius(obstacle)) continue;
+
+        obstacle.health--;
+        obstacle.flashTimer = 100;
+        if (obstacle.health <= 0) {
+          const stats = OBSTACLE_STATS[obstacle.type];
+          obstacle.destroyed = true;
+          this.destroyedCount++;
+          this.score += stats.points;
+          this.bursts.push({
+            ...position,
+            z: obstacle.z,
+            age: 0,
+            color: stats.color,
+          });
+          destroyed++;
+        }
+        return false; // Shot used up
+      }
       return true;
-    }
+    });
 
-    // Check obstacle collisions
+    return destroyed;
+  }
+
+  /**
+   * Check the ship against obstacles passing its depth; an impact costs hull
+   * and slows the run, and losing all hull ends the stage early
+   * @returns true if the ship was hit this frame
+   */
+  checkPlayerCollision(): boolean {
+    if (this.results || this.invulnerableTimer > 0) return false;
+
+    const playerZ = this.currentZ + WarpTunnel.PLAYER_DEPTH;
     for (const obstacle of this.obstacles) {
-      if (obstacle.hit) continue;
+      if (obstacle.destroyed || obstacle.struck) continue;
+      if (Math.abs(obstacle.z - playerZ) > obstacle.size) continue;
 
-      const relativeZ = obstacle.z - this.currentZ;
-      if (relativeZ > 0 && relativeZ < 100) {
-        if (obstacle.type === "block" || obstacle.type === "spinner") {
-          // Calculate obstacle screen position
-          const scale = 1000 / relativeZ;
-          const obstacleRadius = obstacle.size * scale * 0.01;
-          const obstacleAngle = obstacle.angle + obstacle.rotation;
-          const obstacleX = Math.cos(obstacleAngle) * this.tunnelRadius * 0.6;
-          const obstacleY = Math.sin(obstacleAngle) * this.tunnelRadius * 0.6;
-
-          const distance = Math.sqrt(
-            Math.pow(this.playerX - obstacleX, 2) +
-              Math.pow(this.playerY - obstacleY, 2)
-          );
-
-          if (distance < obstacleRadius + 20) {
-            return true;
-          }
-        }
+      const position = this.getObstaclePosition(obstacle);
+      const distance = Math.sqrt(
+        Math.pow(this.playerX - position.x, 2) +
+          Math.pow(this.playerY - position.y, 2)
+      );
+      if (
+        distance >
+        this.getObstacleRadius(obstacle) + WarpTunnel.SHIP_RADIUS
+      ) {
+        continue;
       }
+
+      obstacle.struck = true;
+      this.hull--;
+      this.invulnerableTimer = WarpTunnel.IMPACT_INVULNERABILITY;
+      this.slowTimer = WarpTunnel.IMPACT_SLOWDOWN;
+      if (this.hull <= 0) {
+        this.finish(false);
+      }
+      return true;
     }
 
     return false;
   }
 
+  // Tally the run and show the results overlay
+  private finish(survived: boolean): void {
+    if (this.results) return;
+
+    const obstaclePoints = this.score;
+    const total = this.obstacles.length;
+    let hullBonus = 0;
+    let timeBonus = 0;
+    let multiplier = 1;
+
+    if (survived) {
+      hullBonus = this.hull * 500;
+      // Full bonus at par speed; every half second lost to impacts costs 100
+      const parTime = (this.tunnelLength / this.speed) * 1000;
+      const lostTime = Math.max(0, this.time - parTime);
+      timeBonus = Math.max(0, 1000 - Math.floor(lostTime / 500) * 100);
+      multiplier = 1 + (total > 0 ? this.destroyedCount / total : 0);
+    }
+
+    this.score = Math.round(
+      (obstaclePoints + hullBonus + timeBonus) * multiplier
+    );
+    this.results = {
+      survived,
+      destroyed: this.destroyedCount,
+      total,
+      hull: this.hull,
+      time: this.time,
+      obstaclePoints,
+      hullBonus,
+      timeBonus,
+      multiplier,
+      score: this.score,
+    };
+    this.resultsTimer = 0;
+    this.shots = [];
+  }
+
   render(ctx: CanvasRenderingContext2D, width: number, height: number): void {
     const centerX = width / 2;
     const centerY = height / 2;
@@ -254,7 +440,7 @@ export class WarpTunnel {
 
     // Draw obstacles as rotating asteroids
     this.obstacles.forEach((obstacle) => {
-      if (obstacle.hit) return;
+      if (obstacle.destroyed) return;
 
       const relativeZ = obstacle.z - this.currentZ;
       if (relativeZ < 0 || relativeZ > 2000) return;
@@ -268,12 +454,9 @@ export class WarpTunnel {
       ctx.shadowBlur = 8;
       ctx.shadowColor = "rgba(120, 120, 120, 0.6)";
 
-      const obstacleAngle = obstacle.angle + obstacle.rotation;
-      const tunnelScreenRadius = this.tunnelRadius * scale * 0.5;
-      const obstacleX =
-        centerX + Math.cos(obstacleAngle) * tunnelScreenRadius * 0.6;
-      const obstacleY =
-        centerY + Math.sin(obstacleAngle) * tunnelScreenRadius * 0.6;
+      const position = this.getObstaclePosition(obstacle);
+      const obstacleX = centerX + position.x * scale * 0.5;
+      const obstacleY = centerY + position.y * scale * 0.5;
 
       // Draw 3D rotating asteroid with consistent shape
       if (!obstacle.shapePoints) return;
@@ -339,8 +522,8 @@ export class WarpTunnel {
       );
       gradient.addColorStop(1, `rgb(${darkGray}, ${darkGray}, ${darkGray})`);
 
-      // Draw filled asteroid shape
-      ctx.fillStyle = gradient;
+      // Draw filled asteroid shape, flashing white when shot
+      ctx.fillStyle = obstacle.flashTimer > 0 ? "#ffffff" : gradient;
       ctx.beginPath();
       ctx.moveTo(points[0].x, points[0].y);
       for (let i = 1; i < points.length; i++) {
@@ -349,8 +532,8 @@ export class WarpTunnel {
       ctx.closePath();
       ctx.fill();
 
-      // Add subtle edge definition
-      ctx.strokeStyle = "rgba(0, 0, 0, 0.4)";
+      // Edge tinted by type so tougher rocks can be picked out
+      ctx.strokeStyle = OBSTACLE_STATS[obstacle.type].color;
       ctx.lineWidth = Math.max(1, screenSize * 0.04);
       ctx.beginPath();
       ctx.moveTo(points[0].x, points[0].y);
@@ -384,9 +567,15 @@ export class WarpTunnel {
       ctx.restore();
     });
 
-    // Draw player ship in 3D pointing into tunnel
+    this.renderShots(ctx, centerX, centerY);
+    this.renderBursts(ctx, centerX, centerY);
+
+    // Draw player ship in 3D pointing into tunnel, blinking after an impact
     ctx.shadowBlur = 0;
-    ctx.globalAlpha = 1;
+    ctx.globalAlpha =
+      this.invulnerableTimer > 0 && Math.floor(this.time / 100) % 2 === 0
+        ? 0.3
+        : 1;
     const shipX = centerX + this.playerX;
     const shipY = centerY + this.playerY;
 
@@ -470,12 +659,134 @@ export class WarpTunnel {
     ctx.fillText(`WARP TUNNEL`, 20, 40);
     ctx.fillText(`Score: ${this.score}`, 20, 70);
 
-    const progress = (this.currentZ / this.tunnelLength) * 100;
+    const progress = Math.min(100, (this.currentZ / this.tunnelLength) * 100);
     ctx.fillText(`Progress: ${Math.floor(progress)}%`, 20, 100);
+    ctx.fillText(
+      `Destroyed: ${this.destroyedCount}/${this.obstacles.length}`,
+      20,
+      130
+    );
+
+    // Hull pips
+    ctx.fillText("Hull:", 20, 160);
+    for (let i = 0; i < WarpTunnel.MAX_HULL; i++) {
+      ctx.fillStyle = i < this.hull ? "#00ffff" : "#333333";
+      ctx.fillRect(85 + i * 22, 143, 16, 20);
+    }
+
+    if (this.slowTimer > 0 && !this.results) {
+      ctx.fillStyle = "#ff6666";
+      ctx.textAlign = "center";
+      ctx.fillText("IMPACT!", centerX, 60);
+    }
+
+    if (this.results) {
+      this.renderResults(ctx, this.results, centerX, centerY);
+    }
 
     ctx.restore();
   }
 
+  private renderShots(
+    ctx: CanvasRenderingContext2D,
+    centerX: number,
+    centerY: number
+  ): void {
+    ctx.fillStyle = "#00ffff";
+    ctx.shadowBlur = 10;
+    ctx.shadowColor = "#00ffff";
+    this.shots.forEach((shot) => {
+      const relativeZ = shot.z - this.currentZ;
+      if (relativeZ <= 0) return;
+
+      const scale = 1000 / relativeZ;
+      ctx.globalAlpha = Math.max(0.3, 1 - relativeZ / 2500);
+      ctx.beginPath();
+      ctx.arc(
+        centerX + shot.x * scale * 0.5,
+        centerY + shot.y * scale * 0.5,
+        Math.max(1.5, 4 * scale * 0.5),
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    });
+    ctx.shadowBlur = 0;
+  }
+
+  private renderBursts(
+    ctx: CanvasRenderingContext2D,
+    centerX: number,
+    centerY: number
+  ): void {
+    this.bursts.forEach((burst) => {
+      const relativeZ = burst.z - this.currentZ;
+      if (relativeZ <= 0) return;
+
+      const scale = 1000 / relativeZ;
+      const progress = burst.age / 400;
+      ctx.globalAlpha = 1 - progress;
+      ctx.strokeStyle = burst.color;
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(
+        centerX + burst.x * scale * 0.5,
+        centerY + burst.y * scale * 0.5,
+        (10 + progress * 50) * scale * 0.5,
+        0,
+        Math.PI * 2
+      );
+      ctx.stroke();
+    });
+  }
+
+  private renderResults(
+    ctx: CanvasRenderingContext2D,
+    results: WarpTunnelResults,
+    centerX: number,
+    centerY: number
+  ): void {
+    ctx.globalAlpha = 0.75;
+    ctx.fillStyle = "#000000";
+    ctx.fillRect(centerX - 220, centerY - 150, 440, 300);
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = results.survived ? "#00ffff" : "#ff6666";
+    ctx.lineWidth = 2;
+    ctx.strokeRect(centerX - 220, centerY - 150, 440, 300);
+
+    ctx.textAlign = "center";
+    ctx.fillStyle = results.survived ? "#00ffff" : "#ff6666";
+    ctx.font = "bold 32px Arial";
+    ctx.fillText(
+      results.survived ? "WARP COMPLETE" : "WARP FAILED",
+      centerX,
+      centerY - 105
+    );
+
+    const lines: [string, string][] = [
+      ["Obstacles destroyed", `${results.destroyed}/${results.total}`],
+      ["Obstacle points", `${results.obstaclePoints}`],
+      ["Hull bonus", `${results.hullBonus}`],
+      ["Time bonus", `${results.timeBonus}`],
+      ["Multiplier", `x${results.multiplier.toFixed(2)}`],
+    ];
+    ctx.font = "20px Arial";
+    lines.forEach(([label, value], i) => {
+      const y = centerY - 60 + i * 30;
+      ctx.fillStyle = "#aaaaaa";
+      ctx.textAlign = "left";
+      ctx.fillText(label, centerX - 180, y);
+      ctx.fillStyle = "#ffffff";
+      ctx.textAlign = "right";
+      ctx.fillText(value, centerX + 180, y);
+    });
+
+    ctx.textAlign = "center";
+    ctx.fillStyle = "#ffff00";
+    ctx.font = "bold 26px Arial";
+    ctx.fillText(`TUNNEL SCORE: ${results.score}`, centerX, centerY + 120);
+  }
+
   isComplete(): boolean {
     return this.complete;
   }
@@ -484,7 +795,13 @@ export class WarpTunnel {
     return this.score;
   }
 
-  reset(): void {
+  // Available once the run is over, while the results are showing
+  getResults(): WarpTunnelResults | null {
+    return this.results;
+  }
+
+  reset(rng: Random = defaultRandom): void {
+    this.rng = rng;
     this.currentZ = 0;
     this.playerX = 0;
     this.playerY = 0;
@@ -493,6 +810,15 @@ export class WarpTunnel {
     this.complete = false;
     this.score = 0;
     this.time = 0;
+    this.hull = WarpTunnel.MAX_HULL;
+    this.destroyedCount = 0;
+    this.fireCooldown = 0;
+    this.invulnerableTimer = 0;
+    this.slowTimer = 0;
+    this.results = null;
+    this.resultsTimer = 0;
+    this.shots = [];
+    this.bursts = [];
     this.generateTunnel();
   }
 }
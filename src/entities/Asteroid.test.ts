@@ -0,0 +1,71 @@
+import {describe, expect, it} from "vitest";
+import {Asteroid, AsteroidSize} from "./Asteroid";
+import {Random} from "../utils/Random";
+import {Vector2Utils} from "../utils/Vector2";
+
+function createAsteroid(size: AsteroidSize, seed: number = 1): Asteroid {
+  return new Asteroid({x: 100, y: 100}, {x: 0, y: 0}, size, new Random(seed));
+}
+
+describe("Asteroid.split", () => {
+  it("splits large asteroids into two medium fragments", () => {
+    const fragments = createAsteroid(AsteroidSize.LARGE).split();
+    expect(fragments).toHaveLength(2);
+    for (const fragment of fragments) {
+      expect(fragment.getSize()).toBe(AsteroidSize.MEDIUM);
+      expect(fragment.radius).toBe(
+        Asteroid.getRadiusForSize(AsteroidSize.MEDIUM)
+      );
+    }
+  });
+
+  it("splits medium asteroids into two small fragments", () => {
+    const fragments = createAsteroid(AsteroidSize.MEDIUM).split();
+    expect(fragments.map((fragment) => fragment.getSize())).toEqual([
+      AsteroidSize.SMALL,
+      AsteroidSize.SMALL,
+    ]);
+  });
+
+  it("does not split small asteroids", () => {
+    expect(createAsteroid(AsteroidSize.SMALL).split()).toEqual([]);
+  });
+
+  it("offsets fragments from the parent so they do not overlap it exactly", () => {
+    const parent = createAsteroid(AsteroidSize.LARGE);
+    const [first, second] = parent.split();
+    expect(Vector2Utils.distance(first.position, parent.position)).toBeCloseTo(
+      parent.radius * 0.5
+    );
+    expect(Vector2Utils.distance(first.position, second.position)).toBeCloseTo(
+      parent.radius
+    );
+  });
+
+  it("scales fragment speed by the speed multiplier", () => {
+    const slow = createAsteroid(AsteroidSize.LARGE, 7).split(1);
+    const fast = createAsteroid(AsteroidSize.LARGE, 7).split(2);
+    for (let i = 0; i < slow.length; i++) {
+      const slowSpeed = Vector2Utils.magnitude(slow[i].velocity);
+      expect(slowSpeed).toBeGreaterThanOrEqual(50);
+      expect(slowSpeed).toBeLessThanOrEqual(150);
+      expect(Vector2Utils.magnitude(fast[i].velocity)).toBeCloseTo(
+        slowSpeed * 2
+      );
+    }
+  });
+
+  it("produces identical fragments for the same seed", () => {
+    const a = createAsteroid(AsteroidSize.LARGE, 42).split();
+    const b = createAsteroid(AsteroidSize.LARGE, 42).split();
+    expect(a.map((fragment) => fragment.velocity)).toEqual(
+      b.map((fragment) => fragment.velocity)
+    );
+  });
+
+  it("scores smaller asteroids higher", () => {
+    expect(Asteroid.getScoreForSize(AsteroidSize.LARGE)).toBe(20);
+    expect(Asteroid.getScoreForSize(AsteroidSize.MEDIUM)).toBe(50);
+    expect(Asteroid.getScoreForSize(AsteroidSize.SMALL)).toBe(100);
+  });
+});
@@ -1,6 +1,8 @@
 import {GameObject} from "../core/GameObject";
 import type {Vector2} from "../utils/Vector2";
 import {Vector2Utils} from "../utils/Vector2";
+import type {Random} from "../utils/Random";
+import {defaultRandom} from "../utils/Random";
 
 export const AsteroidSize = {
   LARGE: "large",
@@ -14,22 +16,21 @@ export class Asteroid extends GameObject {
   private rotationSpeed: number;
   private size: AsteroidSize;
   private vertices: Vector2[];
-
-  constructor(position: Vector2, velocity: Vector2, size: AsteroidSize) {
+  private rng: Random;
+
+  constructor(
+    position: Vector2,
+    velocity: Vector2,
+    size: AsteroidSize,
+    rng: Random = defaultRandom
+  ) {
     const radius = Asteroid.getRadiusForSize(size);
     super(position, radius);
 
     this.velocity = velocity;
     this.size = size;
-    this.rotationSpeed = (Math.random() - 0.5) * 2; // Random rotation speed
-    console.log(
-      "Asteroid size:",
-      size,
-      "Radius:",
-      radius,
-      "Rotation Speed:",
-      this.rotationSpeed
-    );
+    this.rng = rng;
+    this.rotationSpeed = (rng.next() - 0.5) * 2; // Random rotation speed
     this.vertices = this.generateVertices();
   }
 
@@ -57,11 +58,11 @@ export class Asteroid extends GameObject {
 
   private generateVertices(): Vector2[] {
     const vertices: Vector2[] = [];
-    const numVertices = 8 + Math.floor(Math.random() * 4); // 8-11 vertices
+    const numVertices = 8 + this.rng.int(4); // 8-11 vertices
 
     for (let i = 0; i < numVertices; i++) {
       const angle = (i / numVertices) * Math.PI * 2;
-      const radiusVariation = this.radius * (0.7 + Math.random() * 0.3); // Vary radius for irregular shape
+      const radiusVariation = this.radius * (0.7 + this.rng.next() * 0.3); // Vary radius for irregular shape
       vertices.push(Vector2Utils.fromAngle(angle, radiusVariation));
     }
 
@@ -122,9 +123,9 @@ export class Asteroid extends GameObject {
 
     for (let i = 0; i < numFragments; i++) {
       // Create random velocity for fragment
-      const baseSpeed = 50 + Math.random() * 100;
+      const baseSpeed = 50 + this.rng.next() * 100;
       const speed = baseSpeed * speedMultiplier;
-      const angle = Math.random() * Math.PI * 2;
+      const angle = this.rng.angle();
       const fragmentVelocity = Vector2Utils.fromAngle(angle, speed);
 
       // Slightly offset position to prevent overlap
@@ -135,7 +136,9 @@ export class Asteroid extends GameObject {
         Vector2Utils.fromAngle(offsetAngle, offsetDistance)
       );
 
-      fragments.push(new Asteroid(fragmentPosition, fragmentVelocity, newSize));
+      fragments.push(
+        new Asteroid(fragmentPosition, fragmentVelocity, newSize, this.rng)
+      );
     }
 
     return fragments;
@@ -154,23 +157,24 @@ export class Asteroid extends GameObject {
     canvasWidth: number,
     canvasHeight: number,
     safeZone?: Vector2,
-    speedMultiplier: number = 1.0
+    speedMultiplier: number = 1.0,
+    rng: Random = defaultRandom
   ): Asteroid {
     let position: Vector2;
 
     // Keep trying until we find a position outside the safe zone
     do {
       position = {
-        x: Math.random() * canvasWidth,
-        y: Math.random() * canvasHeight,
+        x: rng.next() * canvasWidth,
+        y: rng.next() * canvasHeight,
       };
     } while (safeZone && Vector2Utils.distance(position, safeZone) < 100);
 
-    const baseSpeed = 30 + Math.random() * 70;
+    const baseSpeed = 30 + rng.next() * 70;
     const speed = baseSpeed * speedMultiplier;
-    const angle = Math.random() * Math.PI * 2;
+    const angle = rng.angle();
     const velocity = Vector2Utils.fromAngle(angle, speed);
 
-    return new Asteroid(position, velocity, AsteroidSize.LARGE);
+    return new Asteroid(position, velocity, AsteroidSize.LARGE, rng);
   }
 }
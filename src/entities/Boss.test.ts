@@ -0,0 +1,105 @@
+import {describe, expect, it} from "vitest";
+import {Boss, BossType, HYDRA_REGROW_TIME} from "./Boss";
+import {AsteroidSize} from "./Asteroid";
+import {Bullet} from "./Bullet";
+import {Random} from "../utils/Random";
+
+function createBoss(type: BossType): Boss {
+  return new Boss({x: 400, y: 300}, type, new Random(1));
+}
+
+describe("Boss phases", () => {
+  it("changes phase past a threshold and can't be hurt while it does", () => {
+    const boss = createBoss(BossType.MOTHERSHIP);
+    boss.takeDamage(boss.getMaxHealth() * 0.6);
+    expect(boss.getPhase()).toBe(1);
+    expect(boss.isTransitioning()).toBe(true);
+    expect(boss.canAttack()).toBe(false);
+
+    const health = boss.getHealth();
+    boss.takeDamage(10);
+    expect(boss.getHealth()).toBe(health);
+
+    boss.update(2000, 800, 600);
+    expect(boss.isTransitioning()).toBe(false);
+    boss.takeDamage(10);
+    expect(boss.getHealth()).toBe(health - 10);
+  });
+
+  it("works through the phase's moves in turn", () => {
+    const boss = createBoss(BossType.MOTHERSHIP);
+    boss.takeDamage(boss.getMaxHealth() * 0.6);
+    expect(boss.nextMove().type).toBe("ring");
+    expect(boss.nextMove().type).toBe("aimedBurst");
+    expect(boss.nextMove().type).toBe("ring");
+  });
+
+  it("aims bursts at the target", () => {
+    const boss = createBoss(BossType.MOTHERSHIP);
+    const [direction] = boss.getMoveDirections(
+      {type: "aimedBurst", count: 1, spread: 0},
+      {x: 400, y: 500}
+    );
+    expect(direction.x).toBeCloseTo(0);
+    expect(direction.y).toBeCloseTo(1);
+  });
+
+  it("keeps the fortress safe until its shield segments fall", () => {
+    const boss = createBoss(BossType.FORTRESS);
+    expect(boss.isShielded()).toBe(true);
+    boss.takeDamage(10);
+    expect(boss.getHealth()).toBe(boss.getMaxHealth());
+
+    for (const position of boss.getShieldSegmentPositions()) {
+      const bullet = new Bullet({...position}, 0);
+      for (let hit = 0; hit < 3; hit++) {
+        expect(boss.hitShieldSegment(bullet)).toBe(true);
+      }
+    }
+    expect(boss.isShielded()).toBe(false);
+    boss.takeDamage(10);
+    expect(boss.getHealth()).toBe(boss.getMaxHealth() - 10);
+  });
+});
+
+describe("Leviathan", () => {
+  it("heals on swallowed asteroids and spits them back last first", () => {
+    const boss = createBoss(BossType.LEVIATHAN);
+    boss.takeDamage(30);
+    boss.swallow(AsteroidSize.LARGE);
+    boss.swallow(AsteroidSize.SMALL);
+    expect(boss.getHealth()).toBe(boss.getMaxHealth() - 17);
+
+    expect(boss.spitAsteroid()).toBe(AsteroidSize.SMALL);
+    expect(boss.spitAsteroid()).toBe(AsteroidSize.LARGE);
+    expect(boss.spitAsteroid()).toBeNull();
+  });
+});
+
+describe("Hydra", () => {
+  function hitCore(boss: Boss, core: number, times: number): boolean {
+    let defeated = false;
+    for (let i = 0; i < times; i++) {
+      defeated = boss.takeDamage(10, core);
+      boss.update(1600, 800, 600); // Sit out any phase change
+    }
+    return defeated;
+  }
+
+  it("regrows a downed core unless the other falls in time", () => {
+    const boss = createBoss(BossType.HYDRA);
+    hitCore(boss, 0, 7);
+    expect(boss.getDownedCoreCount()).toBe(1);
+
+    boss.update(HYDRA_REGROW_TIME, 800, 600);
+    expect(boss.getDownedCoreCount()).toBe(0);
+    expect(boss.getHealth()).toBeGreaterThan(0);
+  });
+
+  it("falls once both cores are down together", () => {
+    const boss = createBoss(BossType.HYDRA);
+    expect(hitCore(boss, 0, 7)).toBe(false);
+    expect(hitCore(boss, 1, 1)).toBe(false);
+    expect(boss.takeDamage(70, 1)).toBe(true);
+  });
+});
@@ -1,10 +1,23 @@
 import {GameObject} from "../core/GameObject";
 import type {Vector2} from "../utils/Vector2";
+import type {Random} from "../utils/Random";
+import type {Circle} from "../utils/Raycast";
+import {defaultRandom} from "../utils/Random";
+import {AsteroidSize} from "./Asteroid";
+import type {BossMove, BossPhase, BossScript} from "../systems/BossScript";
+import {
+  BossMoveType,
+  getPhaseAt,
+  parseBossScripts,
+} from "../systems/BossScript";
+import bossData from "../data/bosses.json";
 
 export const BossType = {
   MOTHERSHIP: "mothership",
   FORTRESS: "fortress",
   SWARM_COMMANDER: "swarmCommander",
+  LEVIATHAN: "leviathan", // Swallows asteroids to heal and spits them back
+  HYDRA: "hydra", // Two cores that have to fall close together
 } as const;
 
 export type BossType = (typeof BossType)[keyof typeof BossType];
@@ -15,7 +28,6 @@ interface BossConfig {
   size: number;
   color: string;
   scoreValue: number;
-  attackCooldown: number;
 }
 
 const BOSS_CONFIGS: Record<BossType, BossConfig> = {
@@ -25,7 +37,6 @@ const BOSS_CONFIGS: Record<BossType, BossConfig> = {
     size: 60,
     color: "#ff00ff",
     scoreValue: 5000,
-    attackCooldown: 2000,
   },
   [BossType.FORTRESS]: {
     maxHealth: 150,
@@ -33,7 +44,6 @@ const BOSS_CONFIGS: Record<BossType, BossConfig> = {
     size: 80,
     color: "#00ffff",
     scoreValue: 7500,
-    attackCooldown: 1500,
   },
   [BossType.SWARM_COMMANDER]: {
     maxHealth: 80,
@@ -41,10 +51,62 @@ const BOSS_CONFIGS: Record<BossType, BossConfig> = {
     size: 50,
     color: "#ffff00",
     scoreValue: 4000,
-    attackCooldown: 3000,
+  },
+  [BossType.LEVIATHAN]: {
+    maxHealth: 120,
+    speed: 70,
+    size: 55,
+    color: "#33ff99",
+    scoreValue: 6000,
+  },
+  [BossType.HYDRA]: {
+    maxHealth: 140, // Split between the two cores
+    speed: 90,
+    size: 30,
+    color: "#ff6633",
+    scoreValue: 8000,
   },
 };
 
+// Phases, moves and shields for each boss; checked when the module loads,
+// like the built-in wave script
+export const BOSS_SCRIPTS: Record<BossType, BossScript> = parseBossScripts(
+  bossData,
+  Object.values(BossType),
+  "src/data/bosses.json"
+);
+
+const PHASE_TRANSITION_TIME = 1500; // Boss stops and can't be hurt meanwhile
+const SHIELD_SEGMENT_RADIUS = 16;
+const SHIELD_ORBIT_GAP = 35; // Beyond the hull
+const SHIELD_ORBIT_SPEED = Math.PI * 0.4; // Radians per second
+
+interface ShieldSegment {
+  angle: number; // Place on the orbit
+  health: number;
+}
+
+// Health the Leviathan gets back from each asteroid it swallows
+const SWALLOW_HEALING: Record<AsteroidSize, number> = {
+  [AsteroidSize.LARGE]: 10,
+  [AsteroidSize.MEDIUM]: 6,
+  [AsteroidSize.SMALL]: 3,
+};
+const MAX_SWALLOWED = 6; // Asteroids the Leviathan can hold to spit back
+const MOUTH_OPEN_TIME = 400;
+const TAIL_SEGMENTS = 6;
+const TAIL_SPACING = 14; // Pixels between tail joints
+
+// A core that goes down grows back unless the other one follows in time
+export const HYDRA_REGROW_TIME = 4000;
+const HYDRA_CORE_DISTANCE = 75;
+const HYDRA_CORE_RADIUS = 26;
+
+interface HydraCore {
+  health: number;
+  regrowTimer: number; // Counting down while the core is down
+}
+
 export class Boss extends GameObject {
   private bossType: BossType;
   private config: BossConfig;
@@ -53,20 +115,81 @@ export class Boss extends GameObject {
   private attackTimer: number = 0;
   private moveTimer: number = 0;
   private targetPosition: Vector2;
-  private phase: number = 0; // Attack phase
-
-  constructor(position: Vector2, type: BossType) {
+  private script: BossScript;
+  private phase: number = 0; // Index into the script's phases
+  private moveIndex: number = 0;
+  private transitionTimer: number = 0;
+  private shieldSegments: ShieldSegment[] = [];
+  private shieldAngle: number = 0;
+  private swallowed: AsteroidSize[] = []; // Leviathan only
+  private mouthTimer: number = 0;
+  private tail: Vector2[] = [];
+  private cores: HydraCore[] = []; // Hydra only
+  private rng: Random;
+
+  // Each tier adds half the base health and starts one phase later
+  constructor(
+    position: Vector2,
+    type: BossType,
+    rng: Random = defaultRandom,
+    tier: number = 0
+  ) {
     const config = BOSS_CONFIGS[type];
     super(position, config.size);
 
     this.bossType = type;
     this.config = config;
-    this.health = config.maxHealth;
-    this.maxHealth = config.maxHealth;
+    this.script = BOSS_SCRIPTS[type];
+    this.maxHealth = config.maxHealth * (1 + tier * 0.5);
+    this.health = this.maxHealth;
     this.targetPosition = {...position};
+    this.rng = rng;
+    if (type === BossType.HYDRA) {
+      this.cores = [0, 1].map(() => ({
+        health: this.maxHealth / 2,
+        regrowTimer: 0,
+      }));
+    }
+    this.enterPhase(Math.min(tier, this.script.phases.length - 1));
+    this.transitionTimer = 0; // Later tiers start there without the fanfare
+  }
+
+  private get currentPhase(): BossPhase {
+    return this.script.phases[this.phase];
+  }
+
+  private enterPhase(phase: number): void {
+    this.phase = phase;
+    this.moveIndex = 0;
+    this.attackTimer = 0;
+    this.transitionTimer = PHASE_TRANSITION_TIME;
+
+    const shield = this.currentPhase.shield;
+    this.shieldSegments = [];
+    if (shield) {
+      for (let i = 0; i < shield.segments; i++) {
+        this.shieldSegments.push({
+          angle: ((Math.PI * 2) / shield.segments) * i,
+          health: shield.health,
+        });
+      }
+    }
   }
 
   update(deltaTime: number, canvasWidth: number, canvasHeight: number): void {
+    this.shieldAngle += (deltaTime / 1000) * SHIELD_ORBIT_SPEED;
+    this.mouthTimer = Math.max(0, this.mouthTimer - deltaTime);
+    this.updateCores(deltaTime);
+
+    // Hold still and spin up while changing phase
+    if (this.transitionTimer > 0) {
+      this.transitionTimer = Math.max(0, this.transitionTimer - deltaTime);
+      this.velocity.x = 0;
+      this.velocity.y = 0;
+      this.rotation += (deltaTime / 1000) * Math.PI * 3;
+      return;
+    }
+
     // Update attack timer
     this.attackTimer += deltaTime;
 
@@ -90,8 +213,56 @@ export class Boss extends GameObject {
       Math.min(canvasHeight - this.radius, this.position.y)
     );
 
-    // Update rotation
-    this.rotation += (deltaTime / 1000) * Math.PI * 0.5;
+    // Update rotation; the Leviathan turns to face where it's going
+    if (this.bossType === BossType.LEVIATHAN) {
+      this.updateTail();
+      if (this.velocity.x !== 0 || this.velocity.y !== 0) {
+        const heading = Math.atan2(this.velocity.y, this.velocity.x);
+        const turn = Math.atan2(
+          Math.sin(heading - this.rotation),
+          Math.cos(heading - this.rotation)
+        );
+        this.rotation += turn * Math.min(1, (deltaTime / 1000) * 3);
+      }
+    } else {
+      this.rotation += (deltaTime / 1000) * Math.PI * 0.5;
+    }
+  }
+
+  // Joints follow the head at a fixed spacing, like a chain
+  private updateTail(): void {
+    let leader: Vector2 = this.position;
+    for (let i = 0; i < TAIL_SEGMENTS; i++) {
+      const joint = this.tail[i] ?? {...leader};
+      const dx = joint.x - leader.x;
+      const dy = joint.y - leader.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance > TAIL_SPACING) {
+        joint.x = leader.x + (dx / distance) * TAIL_SPACING;
+        joint.y = leader.y + (dy / distance) * TAIL_SPACING;
+      }
+      this.tail[i] = joint;
+      leader = joint;
+    }
+  }
+
+  // Downed cores grow back at half strength if left alone too long
+  private updateCores(deltaTime: number): void {
+    // The clock waits while the boss can't be hurt, so the window is fair
+    if (this.isInvulnerable()) return;
+    if (this.cores.every((core) => core.health <= 0)) return;
+    for (const core of this.cores) {
+      if (core.health > 0) continue;
+      core.regrowTimer -= deltaTime;
+      if (core.regrowTimer <= 0) {
+        core.health = this.maxHealth / 4;
+      }
+    }
+    this.health = this.getCoreHealth();
+  }
+
+  private getCoreHealth(): number {
+    return this.cores.reduce((sum, core) => sum + Math.max(0, core.health), 0);
   }
 
   private updateMovement(
@@ -105,7 +276,7 @@ export class Boss extends GameObject {
       case BossType.MOTHERSHIP:
         // Circular movement pattern
         if (this.moveTimer >= 3000) {
-          const angle = Math.random() * Math.PI * 2;
+          const angle = this.rng.angle();
           const radius = 200;
           this.targetPosition = {
             x: canvasWidth / 2 + Math.cos(angle) * radius,
@@ -119,8 +290,8 @@ export class Boss extends GameObject {
         // Slow, methodical movement
         if (this.moveTimer >= 4000) {
           this.targetPosition = {
-            x: Math.random() * (canvasWidth - 200) + 100,
-            y: Math.random() * (canvasHeight - 200) + 100,
+            x: this.rng.next() * (canvasWidth - 200) + 100,
+            y: this.rng.next() * (canvasHeight - 200) + 100,
           };
           this.moveTimer = 0;
         }
@@ -130,8 +301,32 @@ export class Boss extends GameObject {
         // Fast, erratic movement
         if (this.moveTimer >= 1500) {
           this.targetPosition = {
-            x: Math.random() * canvasWidth,
-            y: Math.random() * canvasHeight,
+            x: this.rng.next() * canvasWidth,
+            y: this.rng.next() * canvasHeight,
+          };
+          this.moveTimer = 0;
+        }
+        break;
+
+      case BossType.LEVIATHAN:
+        // Long sweeps from one side of the field to the other, trawling
+        // for asteroids
+        if (this.moveTimer >= 5000) {
+          const goRight = this.position.x < canvasWidth / 2;
+          this.targetPosition = {
+            x: canvasWidth * (goRight ? 0.85 : 0.15),
+            y: this.rng.next() * (canvasHeight - 200) + 100,
+          };
+          this.moveTimer = 0;
+        }
+        break;
+
+      case BossType.HYDRA:
+        // Drifts about the middle while the cores spin around it
+        if (this.moveTimer >= 3000) {
+          this.targetPosition = {
+            x: canvasWidth * (0.3 + this.rng.next() * 0.4),
+            y: canvasHeight * (0.3 + this.rng.next() * 0.4),
           };
           this.moveTimer = 0;
         }
@@ -152,53 +347,229 @@ export class Boss extends GameObject {
     }
   }
 
-  takeDamage(amount: number = 1): boolean {
-    this.health -= amount;
+  /**
+   * Which part of the boss an object hits: a core index for the Hydra,
+   * otherwise 0 for the hull
+   * @returns -1 on a miss
+   */
+  findHitPart(other: GameObject): number {
+    if (this.cores.length === 0) {
+      return this.checkCollision(other) ? 0 : -1;
+    }
+    const positions = this.getCorePositions();
+    return this.cores.findIndex(
+      (core, i) =>
+        core.health > 0 &&
+        Math.hypot(
+          other.position.x - positions[i].x,
+          other.position.y - positions[i].y
+        ) <
+          other.radius + HYDRA_CORE_RADIUS
+    );
+  }
 
-    // Phase transitions
-    const healthPercent = this.health / this.maxHealth;
-    if (healthPercent < 0.5 && this.phase === 0) {
-      this.phase = 1; // Enter phase 2
-      this.config.attackCooldown *= 0.8; // Attack faster
+  // Whether an object runs into the boss, including any cores still up
+  touches(other: GameObject): boolean {
+    if (this.checkCollision(other)) return true;
+    return this.cores.length > 0 && this.findHitPart(other) !== -1;
+  }
+
+  getCorePositions(): Vector2[] {
+    return this.cores.map((_core, i) => ({
+      x:
+        this.position.x +
+        Math.cos(this.rotation + Math.PI * i) * HYDRA_CORE_DISTANCE,
+      y:
+        this.position.y +
+        Math.sin(this.rotation + Math.PI * i) * HYDRA_CORE_DISTANCE,
+    }));
+  }
+
+  getDownedCoreCount(): number {
+    return this.cores.filter((core) => core.health <= 0).length;
+  }
+
+  // What a beam can strike: the shield segments, the hull, and any cores
+  // still up
+  getBeamTargets(): Circle[] {
+    const corePositions = this.getCorePositions();
+    return [
+      ...this.getShieldSegmentPositions().map((center) => ({
+        center,
+        radius: SHIELD_SEGMENT_RADIUS,
+      })),
+      {center: this.position, radius: this.radius},
+      ...corePositions
+        .filter((_position, i) => this.cores[i].health > 0)
+        .map((center) => ({center, radius: HYDRA_CORE_RADIUS})),
+    ];
+  }
+
+  // Where core bursts come from: each core still up, or the hull
+  getFiringPoints(): Vector2[] {
+    if (this.cores.length === 0) return [this.position];
+    const positions = this.getCorePositions();
+    return positions.filter((_position, i) => this.cores[i].health > 0);
+  }
+
+  // Shots are wasted while the shield is up or the phase is changing
+  takeDamage(amount: number = 1, part: number = 0): boolean {
+    if (this.isInvulnerable()) return false;
+    if (this.cores.length > 0) {
+      return this.damageCore(amount, part);
     }
-    if (healthPercent < 0.25 && this.phase === 1) {
-      this.phase = 2; // Enter phase 3
-      this.config.attackCooldown *= 0.7; // Attack even faster
+    this.health -= amount;
+
+    // Falling past a threshold moves on to the next phase of the script
+    const next = getPhaseAt(this.script, this.health / this.maxHealth);
+    if (next > this.phase && this.health > 0) {
+      this.enterPhase(next);
     }
 
     return this.health <= 0;
   }
 
+  // The Hydra only falls once both cores are down at the same time
+  private damageCore(amount: number, index: number): boolean {
+    const core = this.cores[index];
+    if (!core || core.health <= 0) return false;
+    core.health -= amount;
+    if (core.health <= 0) {
+      core.regrowTimer = HYDRA_REGROW_TIME;
+    }
+    this.health = this.getCoreHealth();
+
+    const defeated = this.cores.every((other) => other.health <= 0);
+    const next = getPhaseAt(this.script, this.health / this.maxHealth);
+    if (next > this.phase && !defeated) {
+      this.enterPhase(next);
+    }
+    return defeated;
+  }
+
+  /**
+   * Swallow an asteroid: the Leviathan heals and keeps it to spit back
+   */
+  swallow(size: AsteroidSize): void {
+    this.health = Math.min(this.maxHealth, this.health + SWALLOW_HEALING[size]);
+    if (this.swallowed.length < MAX_SWALLOWED) {
+      this.swallowed.push(size);
+    }
+    this.mouthTimer = MOUTH_OPEN_TIME;
+  }
+
+  // The last asteroid swallowed, to be spat out, or null if there are none
+  spitAsteroid(): AsteroidSize | null {
+    const size = this.swallowed.pop() ?? null;
+    if (size) {
+      this.mouthTimer = MOUTH_OPEN_TIME;
+    }
+    return size;
+  }
+
+  // Where spat asteroids leave from
+  getMouthPosition(): Vector2 {
+    return {
+      x: this.position.x + Math.cos(this.rotation) * this.radius,
+      y: this.position.y + Math.sin(this.rotation) * this.radius,
+    };
+  }
+
+  isInvulnerable(): boolean {
+    return this.isTransitioning() || this.isShielded();
+  }
+
+  isTransitioning(): boolean {
+    return this.transitionTimer > 0;
+  }
+
+  isShielded(): boolean {
+    return this.shieldSegments.length > 0;
+  }
+
+  getShieldSegmentPositions(): Vector2[] {
+    const orbit = this.radius + SHIELD_ORBIT_GAP;
+    return this.shieldSegments.map((segment) => ({
+      x: this.position.x + Math.cos(this.shieldAngle + segment.angle) * orbit,
+      y: this.position.y + Math.sin(this.shieldAngle + segment.angle) * orbit,
+    }));
+  }
+
+  /**
+   * Let a shield segment stop an object
+   * @returns Whether a segment was hit; it falls once its health runs out
+   */
+  hitShieldSegment(other: GameObject): boolean {
+    const positions = this.getShieldSegmentPositions();
+    const index = positions.findIndex(
+      (position) =>
+        Math.hypot(
+          other.position.x - position.x,
+          other.position.y - position.y
+        ) <
+        other.radius + SHIELD_SEGMENT_RADIUS
+    );
+    if (index === -1) return false;
+
+    if (--this.shieldSegments[index].health <= 0) {
+      this.shieldSegments.splice(index, 1);
+    }
+    return true;
+  }
+
   canAttack(): boolean {
-    return this.attackTimer >= this.config.attackCooldown;
+    return (
+      !this.isTransitioning() &&
+      this.attackTimer >= this.currentPhase.attackCooldown
+    );
   }
 
   resetAttackTimer(): void {
     this.attackTimer = 0;
   }
 
-  getAttackPattern(): Vector2[] {
-    // Return positions/directions for projectile spawns based on boss type and phase
+  // The phase's next move; each attack uses the one after the last
+  nextMove(): BossMove {
+    const moves = this.currentPhase.moves;
+    const move = moves[this.moveIndex % moves.length];
+    this.moveIndex++;
+    return move;
+  }
+
+  // Angle from a point on the boss to a target, or its facing without one
+  getAimAngle(target: Vector2 | null, origin: Vector2 = this.position): number {
+    return target
+      ? Math.atan2(target.y - origin.y, target.x - origin.x)
+      : this.rotation;
+  }
+
+  /**
+   * Directions to fire a bullet move's projectiles in; empty for other moves
+   * @param origin Where aimed moves are fired from
+   */
+  getMoveDirections(
+    move: BossMove,
+    target: Vector2 | null,
+    origin: Vector2 = this.position
+  ): Vector2[] {
     const patterns: Vector2[] = [];
+    const fromAngle = (angle: number) => ({
+      x: Math.cos(angle),
+      y: Math.sin(angle),
+    });
 
-    switch (this.bossType) {
-      case BossType.MOTHERSHIP:
-        // Circular pattern
-        const numProjectiles = 8 + this.phase * 4;
-        for (let i = 0; i < numProjectiles; i++) {
-          const angle = ((Math.PI * 2) / numProjectiles) * i + this.rotation;
-          patterns.push({
-            x: Math.cos(angle),
-            y: Math.sin(angle),
-          });
+    switch (move.type) {
+      case BossMoveType.RING:
+        for (let i = 0; i < move.count; i++) {
+          const angle = ((Math.PI * 2) / move.count) * i + this.rotation;
+          patterns.push(fromAngle(angle));
         }
         break;
 
-      case BossType.FORTRESS:
+      case BossMoveType.CROSS:
         // Straight lines in cardinal directions
         patterns.push({x: 1, y: 0}, {x: -1, y: 0}, {x: 0, y: 1}, {x: 0, y: -1});
-        if (this.phase >= 1) {
-          // Add diagonals
+        if (move.diagonals) {
           patterns.push(
             {x: 0.707, y: 0.707},
             {x: -0.707, y: 0.707},
@@ -208,16 +579,24 @@ export class Boss extends GameObject {
         }
         break;
 
-      case BossType.SWARM_COMMANDER:
-        // Random spread
-        for (let i = 0; i < 3 + this.phase * 2; i++) {
-          const angle = Math.random() * Math.PI * 2;
-          patterns.push({
-            x: Math.cos(angle),
-            y: Math.sin(angle),
-          });
+      case BossMoveType.SPREAD:
+        for (let i = 0; i < move.count; i++) {
+          patterns.push(fromAngle(this.rng.angle()));
         }
         break;
+
+      case BossMoveType.AIMED_BURST:
+      case BossMoveType.CORE_BURST: {
+        // A fan centred on the target
+        const aim = this.getAimAngle(target, origin);
+        const spread = (move.spread * Math.PI) / 180;
+        for (let i = 0; i < move.count; i++) {
+          const offset =
+            move.count > 1 ? spread * (i / (move.count - 1) - 0.5) : 0;
+          patterns.push(fromAngle(aim + offset));
+        }
+        break;
+      }
     }
 
     return patterns;
@@ -226,6 +605,10 @@ export class Boss extends GameObject {
   render(ctx: CanvasRenderingContext2D): void {
     if (!this.active) return;
 
+    if (this.bossType === BossType.LEVIATHAN) {
+      this.renderTail(ctx);
+    }
+
     ctx.save();
     ctx.translate(this.position.x, this.position.y);
     ctx.rotate(this.rotation);
@@ -241,18 +624,93 @@ export class Boss extends GameObject {
       case BossType.SWARM_COMMANDER:
         this.renderSwarmCommander(ctx);
         break;
+      case BossType.LEVIATHAN:
+        this.renderLeviathan(ctx);
+        break;
+      case BossType.HYDRA:
+        this.renderHydra(ctx);
+        break;
     }
 
     ctx.restore();
 
+    if (this.cores.length > 0) {
+      this.renderCores(ctx);
+    }
+    if (this.isTransitioning()) {
+      this.renderPhaseTransition(ctx);
+    }
+    this.renderShieldSegments(ctx);
+
     // Health bar
     this.renderHealthBar(ctx);
   }
 
+  // Flashes white while changing phase
+  private getBodyColor(): string {
+    return this.isTransitioning() &&
+      Math.floor(this.transitionTimer / 100) % 2 === 0
+      ? "#ffffff"
+      : this.config.color;
+  }
+
+  // Rings pulse outwards while the boss powers up for its next phase
+  private renderPhaseTransition(ctx: CanvasRenderingContext2D): void {
+    const progress = 1 - this.transitionTimer / PHASE_TRANSITION_TIME;
+    ctx.save();
+    ctx.strokeStyle = this.config.color;
+    for (let ring = 0; ring < 3; ring++) {
+      const ringProgress = (progress * 3 + ring / 3) % 1;
+      ctx.globalAlpha = 1 - ringProgress;
+      ctx.lineWidth = 4 * (1 - ringProgress) + 1;
+      ctx.beginPath();
+      ctx.arc(
+        this.position.x,
+        this.position.y,
+        this.radius * (1 + ringProgress * 1.5),
+        0,
+        Math.PI * 2
+      );
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  private renderShieldSegments(ctx: CanvasRenderingContext2D): void {
+    const shield = this.currentPhase.shield;
+    if (!shield) return;
+
+    ctx.save();
+    ctx.strokeStyle = this.config.color;
+    ctx.lineWidth = 2;
+    this.getShieldSegmentPositions().forEach((position, i) => {
+      // Fainter as they take hits
+      const health = this.shieldSegments[i].health / shield.health;
+      ctx.fillStyle = this.config.color;
+      ctx.globalAlpha = 0.2 + 0.5 * health;
+      ctx.beginPath();
+      for (let corner = 0; corner < 6; corner++) {
+        const angle = (Math.PI / 3) * corner + this.shieldAngle;
+        const x = position.x + Math.cos(angle) * SHIELD_SEGMENT_RADIUS;
+        const y = position.y + Math.sin(angle) * SHIELD_SEGMENT_RADIUS;
+        if (corner === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      }
+      ctx.closePath();
+      ctx.fill();
+      ctx.globalAlpha = 1;
+      ctx.stroke();
+    });
+    ctx.restore();
+  }
+
   private renderMothership(ctx: CanvasRenderingContext2D): void {
     // Main body - large circle
-    ctx.strokeStyle = this.config.color;
-    ctx.fillStyle = `${this.config.color}33`;
+    ctx.strokeStyle = this.getBodyColor();
+    ctx.fillStyle = `${this.getBodyColor()}33`;
     ctx.lineWidth = 3;
     ctx.beginPath();
     ctx.arc(0, 0, this.radius, 0, Math.PI * 2);
@@ -280,8 +738,8 @@ export class Boss extends GameObject {
 
   private renderFortress(ctx: CanvasRenderingContext2D): void {
     // Square fortress
-    ctx.strokeStyle = this.config.color;
-    ctx.fillStyle = `${this.config.color}33`;
+    ctx.strokeStyle = this.getBodyColor();
+    ctx.fillStyle = `${this.getBodyColor()}33`;
     ctx.lineWidth = 4;
 
     const size = this.radius * 1.4;
@@ -314,8 +772,8 @@ export class Boss extends GameObject {
 
   private renderSwarmCommander(ctx: CanvasRenderingContext2D): void {
     // Diamond shape
-    ctx.strokeStyle = this.config.color;
-    ctx.fillStyle = `${this.config.color}33`;
+    ctx.strokeStyle = this.getBodyColor();
+    ctx.fillStyle = `${this.getBodyColor()}33`;
     ctx.lineWidth = 3;
 
     ctx.beginPath();
@@ -343,6 +801,140 @@ export class Boss extends GameObject {
     }
   }
 
+  private renderLeviathan(ctx: CanvasRenderingContext2D): void {
+    // Head facing along +x, with jaws that gape while eating or spitting
+    ctx.strokeStyle = this.getBodyColor();
+    ctx.fillStyle = `${this.getBodyColor()}33`;
+    ctx.lineWidth = 3;
+
+    const gape = (this.mouthTimer / MOUTH_OPEN_TIME) * 0.5 + 0.25;
+    ctx.beginPath();
+    ctx.arc(0, 0, this.radius, gape, Math.PI * 2 - gape);
+    ctx.lineTo(this.radius * 0.2, 0);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+
+    // Eyes
+    ctx.fillStyle = this.getBodyColor();
+    [-1, 1].forEach((side) => {
+      ctx.beginPath();
+      ctx.arc(
+        this.radius * 0.35,
+        side * this.radius * 0.55,
+        this.radius * 0.1,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    });
+
+    // Swallowed asteroids show through the hide
+    ctx.strokeStyle = `${this.config.color}88`;
+    ctx.lineWidth = 2;
+    this.swallowed.forEach((_size, i) => {
+      ctx.beginPath();
+      ctx.arc(-this.radius * 0.45, 0, 6 + i * 5, 0, Math.PI * 2);
+      ctx.stroke();
+    });
+  }
+
+  private renderTail(ctx: CanvasRenderingContext2D): void {
+    ctx.save();
+    ctx.strokeStyle = this.getBodyColor();
+    ctx.fillStyle = `${this.getBodyColor()}22`;
+    ctx.lineWidth = 2;
+    this.tail.forEach((joint, i) => {
+      const size = this.radius * (0.7 - i * 0.09);
+      ctx.beginPath();
+      ctx.arc(joint.x, joint.y, size, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    });
+    ctx.restore();
+  }
+
+  private renderHydra(ctx: CanvasRenderingContext2D): void {
+    // Spine joining the cores, with a small armoured hub
+    ctx.strokeStyle = this.getBodyColor();
+    ctx.fillStyle = `${this.getBodyColor()}33`;
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.moveTo(-HYDRA_CORE_DISTANCE, 0);
+    ctx.lineTo(HYDRA_CORE_DISTANCE, 0);
+    ctx.stroke();
+
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    for (let i = 0; i < 6; i++) {
+      const angle = (Math.PI / 3) * i;
+      const x = Math.cos(angle) * this.radius;
+      const y = Math.sin(angle) * this.radius;
+      if (i === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    }
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  // Live cores glow; downed ones show how long until they grow back
+  private renderCores(ctx: CanvasRenderingContext2D): void {
+    const coreMax = this.maxHealth / 2;
+    ctx.save();
+    this.getCorePositions().forEach((position, i) => {
+      const core = this.cores[i];
+      ctx.strokeStyle = this.getBodyColor();
+      ctx.lineWidth = 3;
+
+      if (core.health > 0) {
+        ctx.fillStyle = `${this.getBodyColor()}66`;
+        ctx.beginPath();
+        ctx.arc(position.x, position.y, HYDRA_CORE_RADIUS, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+
+        // Inner light dims as the core is worn down
+        ctx.fillStyle = "#ffffff";
+        ctx.globalAlpha = 0.3 + 0.7 * (core.health / coreMax);
+        ctx.beginPath();
+        ctx.arc(
+          position.x,
+          position.y,
+          HYDRA_CORE_RADIUS * 0.4,
+          0,
+          Math.PI * 2
+        );
+        ctx.fill();
+        ctx.globalAlpha = 1;
+      } else {
+        ctx.globalAlpha = 0.4;
+        ctx.setLineDash([4, 6]);
+        ctx.beginPath();
+        ctx.arc(position.x, position.y, HYDRA_CORE_RADIUS, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.globalAlpha = 1;
+
+        const left = Math.max(0, core.regrowTimer) / HYDRA_REGROW_TIME;
+        ctx.strokeStyle = "#ff0000";
+        ctx.beginPath();
+        ctx.arc(
+          position.x,
+          position.y,
+          HYDRA_CORE_RADIUS + 6,
+          -Math.PI / 2,
+          -Math.PI / 2 + Math.PI * 2 * left
+        );
+        ctx.stroke();
+      }
+    });
+    ctx.restore();
+  }
+
   private renderHealthBar(ctx: CanvasRenderingContext2D): void {
     const barWidth = this.radius * 2.5;
     const barHeight = 6;
@@ -364,6 +956,12 @@ export class Boss extends GameObject {
     ctx.fillStyle = healthColor;
     ctx.fillRect(x, y, barWidth * healthPercent, barHeight);
 
+    // Marks where the later phases begin
+    ctx.fillStyle = "#ffffff";
+    this.script.phases.slice(1).forEach((phase) => {
+      ctx.fillRect(x + barWidth * phase.threshold - 1, y - 2, 2, barHeight + 4);
+    });
+
     // Border
     ctx.strokeStyle = "#ffffff";
     ctx.lineWidth = 1;
@@ -384,6 +982,10 @@ export class Boss extends GameObject {
         return "FORTRESS";
       case BossType.SWARM_COMMANDER:
         return "SWARM COMMANDER";
+      case BossType.LEVIATHAN:
+        return "LEVIATHAN";
+      case BossType.HYDRA:
+        return "HYDRA";
     }
   }
 
@@ -399,6 +1001,10 @@ export class Boss extends GameObject {
     return this.bossType;
   }
 
+  getColor(): string {
+    return this.config.color;
+  }
+
   getScore(): number {
     return this.config.scoreValue;
   }
@@ -0,0 +1,94 @@
+import {GameObject} from "../core/GameObject";
+import type {Vector2} from "../utils/Vector2";
+
+const WARM_UP_TIME = 600; // Thin aiming line before the beam turns deadly
+const BEAM_LENGTH = 2000; // Reaches past the edge of any screen
+const BEAM_WIDTH = 10;
+
+/**
+ * BossLaser - A beam swung through an arc from its boss. It shares the
+ * boss's position object, so the beam stays attached while the boss moves.
+ */
+export class BossLaser extends GameObject {
+  private startAngle: number;
+  private arc: number;
+  private duration: number;
+  private color: string;
+  private age: number = 0;
+
+  constructor(
+    origin: Vector2,
+    startAngle: number,
+    arc: number, // Radians swept over the duration
+    duration: number,
+    color: string
+  ) {
+    super(origin, BEAM_WIDTH / 2);
+    this.startAngle = startAngle;
+    this.arc = arc;
+    this.duration = duration;
+    this.color = color;
+    this.rotation = startAngle;
+  }
+
+  update(deltaTime: number, _canvasWidth: number, _canvasHeight: number): void {
+    this.age += deltaTime;
+    if (this.age >= WARM_UP_TIME + this.duration) {
+      this.active = false;
+      return;
+    }
+    const progress = Math.max(0, this.age - WARM_UP_TIME) / this.duration;
+    this.rotation = this.startAngle + this.arc * progress;
+  }
+
+  isFiring(): boolean {
+    return this.active && this.age >= WARM_UP_TIME;
+  }
+
+  // Whether the beam touches an object, measured to the nearest point on it
+  hits(other: GameObject): boolean {
+    if (!this.isFiring() || !other.active) return false;
+
+    const dx = other.position.x - this.position.x;
+    const dy = other.position.y - this.position.y;
+    const along = dx * Math.cos(this.rotation) + dy * Math.sin(this.rotation);
+    if (along < 0 || along > BEAM_LENGTH) return false;
+    const across = Math.abs(
+      dy * Math.cos(this.rotation) - dx * Math.sin(this.rotation)
+    );
+    return across < this.radius + other.radius;
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.active) return;
+
+    ctx.save();
+    ctx.translate(this.position.x, this.position.y);
+    ctx.rotate(this.rotation);
+
+    if (!this.isFiring()) {
+      // Flickering sight line warns where the beam will start
+      ctx.globalAlpha = 0.3 + 0.3 * Math.sin(this.age / 40);
+      ctx.strokeStyle = this.color;
+      ctx.lineWidth = 1;
+      ctx.setLineDash([10, 10]);
+      ctx.beginPath();
+      ctx.moveTo(0, 0);
+      ctx.lineTo(BEAM_LENGTH, 0);
+      ctx.stroke();
+      ctx.restore();
+      return;
+    }
+
+    // Glow, then a white-hot core
+    ctx.globalAlpha = 0.4;
+    ctx.fillStyle = this.color;
+    ctx.fillRect(0, -BEAM_WIDTH, BEAM_LENGTH, BEAM_WIDTH * 2);
+    ctx.globalAlpha = 1;
+    ctx.fillRect(0, -BEAM_WIDTH / 2, BEAM_LENGTH, BEAM_WIDTH);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, -BEAM_WIDTH / 6, BEAM_LENGTH, BEAM_WIDTH / 3);
+
+    ctx.restore();
+  }
+}
@@ -0,0 +1,53 @@
+import {describe, expect, it} from "vitest";
+import {Bullet} from "./Bullet";
+import {Asteroid, AsteroidSize} from "./Asteroid";
+import {Random} from "../utils/Random";
+
+function createTarget(): Asteroid {
+  return new Asteroid(
+    {x: 0, y: 0},
+    {x: 0, y: 0},
+    AsteroidSize.SMALL,
+    new Random(1)
+  );
+}
+
+describe("Bullet piercing", () => {
+  it("remembers the targets it has already hit", () => {
+    const bullet = new Bullet({x: 0, y: 0}, 0);
+    const first = createTarget();
+    const second = createTarget();
+
+    expect(bullet.hasHitTarget(first)).toBe(false);
+    bullet.addHitTarget(first);
+    expect(bullet.hasHitTarget(first)).toBe(true);
+    expect(bullet.hasHitTarget(second)).toBe(false);
+  });
+
+  it("counts each target once", () => {
+    const bullet = new Bullet({x: 0, y: 0}, 0);
+    const target = createTarget();
+    bullet.addHitTarget(target);
+    bullet.addHitTarget(target);
+    expect(bullet.hasHitTarget(target)).toBe(true);
+  });
+
+  it("is destroyed on hit unless piercing", () => {
+    const bullet = new Bullet({x: 0, y: 0}, 0);
+    expect(bullet.getIsPiercing()).toBe(false);
+    expect(bullet.shouldDestroyOnHit()).toBe(true);
+
+    bullet.setPiercing(true);
+    expect(bullet.getIsPiercing()).toBe(true);
+    expect(bullet.shouldDestroyOnHit()).toBe(false);
+    expect(bullet.radius).toBe(3);
+  });
+
+  it("expires after its lifetime", () => {
+    const bullet = new Bullet({x: 400, y: 300}, 0);
+    bullet.update(1000, 10000, 10000);
+    expect(bullet.active).toBe(true);
+    bullet.update(1000, 10000, 10000);
+    expect(bullet.active).toBe(false);
+  });
+});
@@ -9,6 +9,9 @@ export class Bullet extends GameObject {
   private isPiercing: boolean = false;
   private damage: number = 1;
   private piercedTargets: Set<any> = new Set(); // Track what we've already hit
+  private ownerIndex: number = 0; // Player who fired it
+  private color: string | null = null; // Null for the default look
+  private trail: number = 0; // Streak length drawn behind fast shots
 
   constructor(position: Vector2, direction: number) {
     super(position, 2);
@@ -47,10 +50,23 @@ export class Bullet extends GameObject {
 
     ctx.save();
 
+    if (this.trail > 0) {
+      const speed = Vector2Utils.magnitude(this.velocity);
+      const back = Vector2Utils.multiply(this.velocity, -this.trail / speed);
+      ctx.strokeStyle = this.color ?? "#ffffff";
+      ctx.globalAlpha = 0.6;
+      ctx.lineWidth = this.radius;
+      ctx.beginPath();
+      ctx.moveTo(this.position.x + back.x, this.position.y + back.y);
+      ctx.lineTo(this.position.x, this.position.y);
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+    }
+
     if (this.isPiercing) {
       // Draw glowing power bullet
-      ctx.fillStyle = "#ff00ff";
-      ctx.shadowColor = "#ff00ff";
+      ctx.fillStyle = this.color ?? "#ff00ff";
+      ctx.shadowColor = this.color ?? "#ff00ff";
       ctx.shadowBlur = 8;
       ctx.beginPath();
       ctx.arc(
@@ -76,7 +92,7 @@ export class Bullet extends GameObject {
       ctx.fill();
     } else {
       // Normal bullet
-      ctx.fillStyle = "#ffffff";
+      ctx.fillStyle = this.color ?? "#ffffff";
       ctx.beginPath();
       ctx.arc(this.position.x, this.position.y, this.radius, 0, Math.PI * 2);
       ctx.fill();
@@ -92,6 +108,24 @@ export class Bullet extends GameObject {
     }
   }
 
+  // Keeps the heading, changes how fast it flies
+  setSpeed(speed: number): void {
+    const current = Vector2Utils.magnitude(this.velocity);
+    this.velocity = Vector2Utils.multiply(this.velocity, speed / current);
+  }
+
+  setLifetime(lifetime: number): void {
+    this.maxLifeTime = lifetime;
+  }
+
+  setColor(color: string): void {
+    this.color = color;
+  }
+
+  setTrail(length: number): void {
+    this.trail = length;
+  }
+
   setDamage(damage: number): void {
     this.damage = damage;
   }
@@ -100,6 +134,14 @@ export class Bullet extends GameObject {
     return this.damage;
   }
 
+  setOwner(playerIndex: number): void {
+    this.ownerIndex = playerIndex;
+  }
+
+  getOwner(): number {
+    return this.ownerIndex;
+  }
+
   getIsPiercing(): boolean {
     return this.isPiercing;
   }
@@ -0,0 +1,168 @@
+import {describe, expect, it} from "vitest";
+import {Enemy, EnemyType} from "./Enemy";
+import {Bullet} from "./Bullet";
+import {MineType} from "./Mine";
+import {Random} from "../utils/Random";
+import {Vector2Utils} from "../utils/Vector2";
+
+function createEnemy(type: EnemyType, x = 400, y = 300): Enemy {
+  return new Enemy({x, y}, type, 1, new Random(1));
+}
+
+// Small steps, so the enemy stays well inside the playfield
+function fly(enemy: Enemy, milliseconds: number): void {
+  for (let t = 0; t < milliseconds; t += 16) {
+    enemy.update(16, 4000, 4000);
+  }
+}
+
+describe("Enemy behaviors", () => {
+  it("sends scouts on kamikaze dives once the target is in range", () => {
+    const scout = createEnemy(EnemyType.SCOUT, 2000, 2000);
+    scout.setTarget({x: 2250, y: 2000});
+    // Aggressiveness 0.7 means most checks end in a dive
+    for (let t = 0; t < 12000 && !scout.isDiving(); t += 16) {
+      scout.update(16, 4000, 4000);
+      scout.setTarget({x: 2250, y: 2000});
+    }
+    expect(scout.isDiving()).toBe(true);
+    expect(Vector2Utils.magnitude(scout.velocity)).toBeGreaterThan(200);
+  });
+
+  it("has fighters sidestep a bullet heading straight for them", () => {
+    const fighter = createEnemy(EnemyType.FIGHTER, 2000, 2000);
+    fighter.setTarget({x: 3000, y: 2000});
+    fighter.setHeading(0);
+
+    // Fired from below, straight up at the fighter. Aggressive fighters
+    // sometimes hold their nerve, so offer a few shots
+    let dodged = false;
+    for (let shot = 0; shot < 10 && !dodged; shot++) {
+      const bullet = new Bullet(
+        {x: fighter.position.x, y: fighter.position.y + 100},
+        -Math.PI / 2
+      );
+      fighter.setThreats([bullet]);
+      fighter.update(16, 4000, 4000);
+      dodged = Math.abs(fighter.velocity.y) > Math.abs(fighter.velocity.x);
+      fly(fighter, 700); // Past the cooldown before the next shot
+    }
+    expect(dodged).toBe(true);
+  });
+
+  it("has bombers lay mines behind them while they hunt", () => {
+    const bomber = createEnemy(EnemyType.BOMBER, 2000, 2000);
+    expect(bomber.layMine()).toBeNull();
+
+    bomber.setTarget({x: 2400, y: 2000});
+    fly(bomber, 4000);
+    const mine = bomber.layMine();
+    expect(mine).not.toBeNull();
+    expect(bomber.layMine()).toBeNull();
+
+    const scout = createEnemy(EnemyType.SCOUT, 2000, 2000);
+    scout.setTarget({x: 2400, y: 2000});
+    fly(scout, 8000);
+    expect(scout.layMine()).toBeNull();
+  });
+
+  it("keeps formation on the leader until the target is close", () => {
+    const leader = createEnemy(EnemyType.BOMBER, 1000, 2000);
+    const wing = createEnemy(EnemyType.BOMBER, 940, 2040);
+    leader.setHeading(0);
+    wing.joinFormation(leader);
+    expect(wing.isInFormation()).toBe(true);
+
+    const target = {x: 3000, y: 2000};
+    for (let t = 0; t < 2000; t += 16) {
+      leader.setTarget(target);
+      wing.setTarget(target);
+      leader.update(16, 4000, 4000);
+      wing.update(16, 4000, 4000);
+    }
+    const offset = Vector2Utils.subtract(wing.position, leader.position);
+    const slot = Vector2Utils.rotate({x: -60, y: 40}, leader.rotation);
+    expect(Vector2Utils.distance(offset, slot)).toBeLessThan(5);
+
+    // Close in, and the wing breaks off to attack on its own
+    wing.setTarget(wing.position);
+    wing.update(16, 4000, 4000);
+    expect(wing.isInFormation()).toBe(false);
+  });
+
+  it("leaves a formation whose leader is destroyed", () => {
+    const leader = createEnemy(EnemyType.FIGHTER, 1000, 2000);
+    const wing = createEnemy(EnemyType.FIGHTER, 940, 2000);
+    wing.joinFormation(leader);
+    leader.takeDamage(10);
+    wing.setTarget({x: 3000, y: 2000});
+    wing.update(16, 4000, 4000);
+    expect(wing.isInFormation()).toBe(false);
+  });
+});
+
+describe("Enemy classes", () => {
+  it("keeps stalkers cloaked until they fire or are hit", () => {
+    const stalker = createEnemy(EnemyType.STALKER, 2000, 2000);
+    expect(stalker.isCloaked()).toBe(true);
+
+    stalker.setHeading(0);
+    stalker.setTarget({x: 2300, y: 2000});
+    fly(stalker, 2500);
+    stalker.setHeading(stalker.rotation);
+    stalker.setTarget(
+      Vector2Utils.add(
+        stalker.position,
+        Vector2Utils.fromAngle(stalker.rotation, 200)
+      )
+    );
+    expect(stalker.shoot()).toHaveLength(1);
+    expect(stalker.isCloaked()).toBe(false);
+
+    fly(stalker, 1500);
+    expect(stalker.isCloaked()).toBe(true);
+    stalker.takeDamage();
+    expect(stalker.isCloaked()).toBe(false);
+  });
+
+  it("only lets shots past an interceptor's shield from the side or behind", () => {
+    const interceptor = createEnemy(EnemyType.INTERCEPTOR);
+    interceptor.setHeading(0);
+    expect(interceptor.blocksShot({x: 420, y: 300})).toBe(true);
+    expect(interceptor.blocksShot({x: 400, y: 320})).toBe(false);
+    expect(interceptor.blocksShot({x: 380, y: 300})).toBe(false);
+    expect(createEnemy(EnemyType.FIGHTER).blocksShot({x: 420, y: 300})).toBe(
+      false
+    );
+  });
+
+  it("has carriers launch drones up to their limit", () => {
+    const carrier = createEnemy(EnemyType.CARRIER, 2000, 2000);
+    carrier.setTarget({x: 2600, y: 2000});
+
+    const drones: Enemy[] = [];
+    for (let t = 0; t < 20000; t += 16) {
+      carrier.update(16, 4000, 4000);
+      const launch = carrier.launchDrone();
+      if (launch) {
+        expect(launch.type).toBe(EnemyType.DRONE);
+        const drone = createEnemy(launch.type);
+        carrier.addDrone(drone);
+        drones.push(drone);
+      }
+    }
+    expect(drones).toHaveLength(3);
+
+    // Losing one frees a bay
+    drones[0].takeDamage(5);
+    fly(carrier, 3100);
+    expect(carrier.launchDrone()).not.toBeNull();
+  });
+
+  it("gives minelayers proximity mines and bombers contact mines", () => {
+    expect(createEnemy(EnemyType.MINELAYER).getMineType()).toBe(
+      MineType.PROXIMITY
+    );
+    expect(createEnemy(EnemyType.BOMBER).getMineType()).toBe(MineType.CONTACT);
+  });
+});
@@ -1,15 +1,39 @@
 import {GameObject} from "../core/GameObject";
+import {MineType} from "./Mine";
+import type {EnemyProjectile} from "./EnemyProjectile";
+import {EnemyWeapon, fireEnemyWeapon} from "./EnemyProjectile";
 import type {Vector2} from "../utils/Vector2";
 import {Vector2Utils} from "../utils/Vector2";
+import type {Random} from "../utils/Random";
+import {defaultRandom} from "../utils/Random";
 
 export const EnemyType = {
   SCOUT: "scout",
   FIGHTER: "fighter",
   BOMBER: "bomber",
+  MINELAYER: "minelayer",
+  STALKER: "stalker",
+  CARRIER: "carrier",
+  DRONE: "drone", // Launched by carriers
+  INTERCEPTOR: "interceptor",
 } as const;
 
 export type EnemyType = (typeof EnemyType)[keyof typeof EnemyType];
 
+// Tactics an enemy can use. Its config lists the ones it knows, and its
+// aggressiveness decides how boldly it uses them.
+export const EnemyBehavior = {
+  FORMATION: "formation", // Hold a slot on the squad leader until close in
+  PURSUE: "pursue", // Chase the target with a little weave
+  FLANK: "flank", // Swing out to the target's side, then strike
+  KAMIKAZE: "kamikaze", // Dive straight at the target at full speed
+  EVADE: "evade", // Sidestep bullets heading its way
+  LAY_MINES: "layMines", // Drop mines behind it
+  SHOOT: "shoot", // Fire at the target when lined up on it
+} as const;
+
+export type EnemyBehavior = (typeof EnemyBehavior)[keyof typeof EnemyBehavior];
+
 export interface EnemyConfig {
   type: EnemyType;
   health: number;
@@ -18,7 +42,14 @@ export interface EnemyConfig {
   color: string;
   size: number;
   fireRate: number; // milliseconds between shots
-  aggressiveness: number; // 0-1, how aggressively they pursue player
+  aggressiveness: number; // 0-1: chase speed, how soon it breaks formation
+  // and dives, how tight it flanks, how rarely it dodges, how often it mines
+  behaviors: EnemyBehavior[];
+  mineType?: MineType; // What it lays; contact mines by default
+  cloaked?: boolean; // Only seen for a moment after firing or being hit
+  launches?: EnemyType; // Drones it sends out while hunting
+  shieldArc?: number; // Degrees across the nose that shots glance off
+  weapon?: EnemyWeapon; // What it fires, if it shoots
 }
 
 export const ENEMY_CONFIGS: Record<EnemyType, EnemyConfig> = {
@@ -31,6 +62,11 @@ export const ENEMY_CONFIGS: Record<EnemyType, EnemyConfig> = {
     size: 16,
     fireRate: 2000,
     aggressiveness: 0.7,
+    behaviors: [
+      EnemyBehavior.FORMATION,
+      EnemyBehavior.KAMIKAZE,
+      EnemyBehavior.PURSUE,
+    ],
   },
   [EnemyType.FIGHTER]: {
     type: EnemyType.FIGHTER,
@@ -41,6 +77,13 @@ export const ENEMY_CONFIGS: Record<EnemyType, EnemyConfig> = {
     size: 18,
     fireRate: 1500,
     aggressiveness: 0.8,
+    behaviors: [
+      EnemyBehavior.FORMATION,
+      EnemyBehavior.EVADE,
+      EnemyBehavior.FLANK,
+      EnemyBehavior.SHOOT,
+    ],
+    weapon: EnemyWeapon.PLASMA_BOLT,
   },
   [EnemyType.BOMBER]: {
     type: EnemyType.BOMBER,
@@ -51,23 +94,143 @@ export const ENEMY_CONFIGS: Record<EnemyType, EnemyConfig> = {
     size: 24,
     fireRate: 3000,
     aggressiveness: 0.5,
+    behaviors: [
+      EnemyBehavior.FORMATION,
+      EnemyBehavior.PURSUE,
+      EnemyBehavior.LAY_MINES,
+      EnemyBehavior.SHOOT,
+    ],
+    weapon: EnemyWeapon.SPREAD_BURST,
+  },
+  [EnemyType.MINELAYER]: {
+    type: EnemyType.MINELAYER,
+    health: 4,
+    speed: 60,
+    score: 350,
+    color: "#ffaa00",
+    size: 22,
+    fireRate: 3000,
+    aggressiveness: 0.7,
+    behaviors: [EnemyBehavior.FLANK, EnemyBehavior.LAY_MINES],
+    mineType: MineType.PROXIMITY,
+  },
+  [EnemyType.STALKER]: {
+    type: EnemyType.STALKER,
+    health: 2,
+    speed: 110,
+    score: 400,
+    color: "#aa66ff",
+    size: 15,
+    fireRate: 2200,
+    aggressiveness: 0.6,
+    behaviors: [EnemyBehavior.FLANK, EnemyBehavior.SHOOT],
+    cloaked: true,
+    weapon: EnemyWeapon.CHARGED_BEAM,
+  },
+  [EnemyType.CARRIER]: {
+    type: EnemyType.CARRIER,
+    health: 8,
+    speed: 40,
+    score: 600,
+    color: "#3399ff",
+    size: 32,
+    fireRate: 3000,
+    aggressiveness: 0.4,
+    behaviors: [
+      EnemyBehavior.FORMATION,
+      EnemyBehavior.PURSUE,
+      EnemyBehavior.SHOOT,
+    ],
+    launches: EnemyType.DRONE,
+    weapon: EnemyWeapon.HOMING_ORB,
+  },
+  [EnemyType.DRONE]: {
+    type: EnemyType.DRONE,
+    health: 1,
+    speed: 150,
+    score: 25,
+    color: "#99ccff",
+    size: 8,
+    fireRate: 3000,
+    aggressiveness: 0.9,
+    behaviors: [EnemyBehavior.KAMIKAZE, EnemyBehavior.PURSUE],
+  },
+  [EnemyType.INTERCEPTOR]: {
+    type: EnemyType.INTERCEPTOR,
+    health: 3,
+    speed: 90,
+    score: 450,
+    color: "#00ffcc",
+    size: 18,
+    fireRate: 3000,
+    aggressiveness: 1,
+    behaviors: [EnemyBehavior.FORMATION, EnemyBehavior.PURSUE],
+    shieldArc: 120,
   },
 };
 
+const TURN_SPEED = 2; // Radians per second
+const DIVE_SPEED = 2.2; // Times normal speed
+const DIVE_TURN_SPEED = 0.6;
+const DIVE_TIME = 1800;
+const DIVE_COOLDOWN = 3000; // Also how long between decisions to dive
+const EVADE_TURN_SPEED = 8;
+const EVADE_TIME = 400;
+const EVADE_COOLDOWN = 600;
+const EVADE_LOOKAHEAD = 0.5; // Seconds of a bullet's flight checked ahead
+const EVADE_MARGIN = 25; // Near misses closer than this count as hits
+const FLANK_REACHED = 60; // Close enough to the flank point to strike
+const STRIKE_TIME = 2500;
+const FORMATION_PULL = 3; // How hard followers close on their slot
+const FORMATION_LOST = 300; // Too far from the slot (the leader wrapped)
+const MINE_INTERVAL = 4000; // At middling aggressiveness
+const AIM_TOLERANCE = 0.3; // Radians off the target a shooter will fire
+const REVEAL_TIME = 1200; // A cloaked enemy fades back out over this
+const CLOAKED_ALPHA = 0.06; // A faint shimmer, so it isn't wholly unfair
+const DRONE_INTERVAL = 3000;
+const MAX_DRONES = 3; // Per carrier, alive at once
+const STUNNED_DRAG = 0.97; // Per frame, as a stunned enemy coasts
+
+// Signed difference between two angles, in -PI..PI
+function angleBetween(from: number, to: number): number {
+  return Math.atan2(Math.sin(to - from), Math.cos(to - from));
+}
+
 export class Enemy extends GameObject {
   private enemyType: EnemyType;
   private config: EnemyConfig;
   private health: number;
-  private lastShotTime: number = 0;
+  private shotTimer: number = 0; // Time since last shot (simulation time)
   private target: Vector2 | null = null;
   private wanderAngle: number = 0;
   private wanderTime: number = 0;
   private thrustPhase: number = 0;
+  private rng: Random;
+
+  // Behavior state
+  private threats: readonly GameObject[] = [];
+  private leader: Enemy | null = null;
+  private formationOffset: Vector2 = {x: 0, y: 0}; // In the leader's frame
+  private lastSlot: Vector2 | null = null; // To tell how fast the slot moves
+  private diveTimer: number = 0; // Counting down while diving
+  private diveCooldown: number = 0;
+  private evadeTimer: number = 0; // Counting down while dodging
+  private evadeCooldown: number = 0;
+  private evadeAngle: number = 0;
+  private flankSide: number; // 1 or -1: which side of the target to take
+  private flankOffset: Vector2 | null = null; // From the target, this leg
+  private strikeTimer: number = 0; // Counting down while closing in
+  private mineTimer: number = 0;
+  private revealTimer: number = 0; // Counting down while decloaked
+  private droneTimer: number = 0;
+  private drones: Enemy[] = [];
+  private stunTimer: number = 0; // Counting down while knocked out by an EMP
 
   constructor(
     position: Vector2,
     type: EnemyType,
-    speedMultiplier: number = 1.0
+    speedMultiplier: number = 1.0,
+    rng: Random = defaultRandom
   ) {
     const config = ENEMY_CONFIGS[type];
     super(position, config.size);
@@ -75,18 +238,29 @@ export class Enemy extends GameObject {
     this.enemyType = type;
     this.config = {...config, speed: config.speed * speedMultiplier}; // Apply speed multiplier
     this.health = config.health;
+    this.rng = rng;
 
     // Random initial rotation
-    this.rotation = Math.random() * Math.PI * 2;
+    this.rotation = rng.angle();
     this.velocity = Vector2Utils.fromAngle(this.rotation, this.config.speed);
+    this.flankSide = rng.next() < 0.5 ? 1 : -1;
   }
 
   update(deltaTime: number, canvasWidth: number, canvasHeight: number): void {
     this.thrustPhase += 3 * (deltaTime / 1000);
     this.wanderTime += deltaTime;
-
-    // Update AI behavior
-    this.updateAI(deltaTime);
+    this.shotTimer += deltaTime;
+    this.mineTimer += deltaTime;
+    this.droneTimer += deltaTime;
+    this.revealTimer = Math.max(0, this.revealTimer - deltaTime);
+    this.stunTimer = Math.max(0, this.stunTimer - deltaTime);
+
+    // Update AI behavior; a stunned enemy just coasts
+    if (this.isStunned()) {
+      this.velocity = Vector2Utils.multiply(this.velocity, STUNNED_DRAG);
+    } else {
+      this.updateAI(deltaTime);
+    }
 
     // Update position
     const deltaVelocity = Vector2Utils.multiply(
@@ -106,61 +280,300 @@ export class Enemy extends GameObject {
       this.position.y = -this.radius;
   }
 
+  private has(behavior: EnemyBehavior): boolean {
+    return this.config.behaviors.includes(behavior);
+  }
+
+  // A small priority selector: the first behavior that applies steers
   private updateAI(deltaTime: number): void {
+    const seconds = deltaTime / 1000;
+    this.diveTimer = Math.max(0, this.diveTimer - deltaTime);
+    this.diveCooldown = Math.max(0, this.diveCooldown - deltaTime);
+    this.evadeTimer = Math.max(0, this.evadeTimer - deltaTime);
+    this.evadeCooldown = Math.max(0, this.evadeCooldown - deltaTime);
+    this.strikeTimer = Math.max(0, this.strikeTimer - deltaTime);
+
     if (!this.target) {
-      // Wander behavior when no target
-      if (this.wanderTime > 1000) {
-        // Change direction every second
-        this.wanderAngle += (Math.random() - 0.5) * Math.PI;
-        this.wanderTime = 0;
-      }
+      this.wander();
+      return;
+    }
 
-      this.rotation = this.wanderAngle;
-      this.velocity = Vector2Utils.fromAngle(
-        this.rotation,
-        this.config.speed * 0.5
+    if (this.diveTimer > 0 || this.startDive(this.target)) {
+      this.steer(
+        this.angleTo(this.target),
+        this.config.speed * DIVE_SPEED,
+        DIVE_TURN_SPEED * seconds
       );
-      return;
+    } else if (this.evadeTimer > 0 || this.startEvading()) {
+      this.steer(
+        this.evadeAngle,
+        this.config.speed,
+        EVADE_TURN_SPEED * seconds
+      );
+    } else if (this.holdsFormation(this.target)) {
+      this.keepFormation(seconds);
+    } else if (this.has(EnemyBehavior.FLANK)) {
+      this.flank(this.target, seconds);
+    } else {
+      this.pursue(this.target, seconds);
     }
+  }
 
-    // Pursue target with some randomness
-    const targetDirection = Vector2Utils.subtract(this.target, this.position);
-    const targetAngle = Math.atan2(targetDirection.y, targetDirection.x);
+  private wander(): void {
+    if (this.wanderTime > 1000) {
+      // Change direction every second
+      this.wanderAngle += (this.rng.next() - 0.5) * Math.PI;
+      this.wanderTime = 0;
+    }
+
+    this.rotation = this.wanderAngle;
+    this.velocity = Vector2Utils.fromAngle(
+      this.rotation,
+      this.config.speed * 0.5
+    );
+  }
+
+  private angleTo(point: Vector2): number {
+    return Math.atan2(point.y - this.position.y, point.x - this.position.x);
+  }
 
-    // Add some wandering to make movement less predictable
+  // Turn towards a heading, no faster than maxTurn, and fly along it
+  private steer(angle: number, speed: number, maxTurn: number): void {
+    const turn = angleBetween(this.rotation, angle);
+    this.rotation += Math.max(-maxTurn, Math.min(maxTurn, turn));
+    this.velocity = Vector2Utils.fromAngle(this.rotation, speed);
+  }
+
+  // Chase with some wandering to make movement less predictable
+  private pursue(target: Vector2, seconds: number): void {
     const wanderInfluence = Math.sin(this.wanderTime * 0.003) * 0.5;
-    const finalAngle = targetAngle + wanderInfluence;
+    this.steer(
+      this.angleTo(target) + wanderInfluence,
+      this.config.speed * this.config.aggressiveness,
+      TURN_SPEED * seconds
+    );
+  }
 
-    // Smoothly turn towards target
-    let angleDiff = finalAngle - this.rotation;
-    while (angleDiff > Math.PI) angleDiff -= Math.PI * 2;
-    while (angleDiff < -Math.PI) angleDiff += Math.PI * 2;
+  // Bolder enemies dive from further out, and more often
+  private startDive(target: Vector2): boolean {
+    if (!this.has(EnemyBehavior.KAMIKAZE) || this.diveCooldown > 0) {
+      return false;
+    }
+    const range = 150 + 250 * this.config.aggressiveness;
+    if (Vector2Utils.distance(this.position, target) > range) return false;
 
-    const turnSpeed = 2 * (deltaTime / 1000);
-    if (Math.abs(angleDiff) < turnSpeed) {
-      this.rotation = finalAngle;
-    } else {
-      this.rotation += Math.sign(angleDiff) * turnSpeed;
+    this.diveCooldown = DIVE_COOLDOWN;
+    if (this.rng.next() >= this.config.aggressiveness) return false;
+
+    this.leader = null; // A dive breaks formation for good
+    this.diveTimer = DIVE_TIME;
+    this.diveCooldown = DIVE_TIME + DIVE_COOLDOWN;
+    this.rotation = this.angleTo(target); // Snap round to face the target
+    return true;
+  }
+
+  /**
+   * The first bullet that will pass close within the lookahead, if any.
+   * Works out each bullet's closest approach along its current course.
+   */
+  private findIncomingThreat(): GameObject | null {
+    for (const threat of this.threats) {
+      if (!threat.active) continue;
+      const offset = Vector2Utils.subtract(this.position, threat.position);
+      const speedSquared =
+        threat.velocity.x * threat.velocity.x +
+        threat.velocity.y * threat.velocity.y;
+      if (speedSquared === 0) continue;
+
+      const time =
+        (offset.x * threat.velocity.x + offset.y * threat.velocity.y) /
+        speedSquared;
+      if (time <= 0 || time > EVADE_LOOKAHEAD) continue;
+
+      const missBy = Vector2Utils.distance(
+        offset,
+        Vector2Utils.multiply(threat.velocity, time)
+      );
+      if (missBy < this.radius + threat.radius + EVADE_MARGIN) {
+        return threat;
+      }
     }
+    return null;
+  }
 
-    // Move forward with aggressiveness factor
-    const speed = this.config.speed * this.config.aggressiveness;
-    this.velocity = Vector2Utils.fromAngle(this.rotation, speed);
+  // Cautious enemies dodge more of the shots they see coming
+  private startEvading(): boolean {
+    if (!this.has(EnemyBehavior.EVADE) || this.evadeCooldown > 0) {
+      return false;
+    }
+    const threat = this.findIncomingThreat();
+    if (!threat) return false;
+
+    this.evadeCooldown = EVADE_COOLDOWN;
+    if (this.rng.next() < this.config.aggressiveness * 0.6) return false;
+
+    // Break sideways, away from the bullet's line
+    const offset = Vector2Utils.subtract(this.position, threat.position);
+    const side =
+      threat.velocity.x * offset.y - threat.velocity.y * offset.x >= 0 ? 1 : -1;
+    this.evadeAngle =
+      Math.atan2(threat.velocity.y, threat.velocity.x) + (side * Math.PI) / 2;
+    this.evadeTimer = EVADE_TIME;
+    return true;
+  }
+
+  // Followers stay with their leader until the target is close; bolder
+  // ones break off sooner
+  private holdsFormation(target: Vector2): boolean {
+    if (!this.has(EnemyBehavior.FORMATION) || !this.leader) return false;
+
+    const leader = this.leader;
+    const breakRange = 150 + 250 * this.config.aggressiveness;
+    if (
+      !leader.active ||
+      leader.getHealth() <= 0 ||
+      Vector2Utils.distance(this.position, target) < breakRange ||
+      Vector2Utils.distance(this.position, this.getFormationSlot(leader)) >
+        FORMATION_LOST
+    ) {
+      this.leader = null;
+      return false;
+    }
+    return true;
+  }
+
+  private getFormationSlot(leader: Enemy): Vector2 {
+    return Vector2Utils.add(
+      leader.position,
+      Vector2Utils.rotate(this.formationOffset, leader.rotation)
+    );
+  }
+
+  // Move with the slot as it swings round with the leader, closing on it
+  // as well
+  private keepFormation(seconds: number): void {
+    const leader = this.leader;
+    if (!leader) return;
+    const slot = this.getFormationSlot(leader);
+    const slotVelocity =
+      this.lastSlot && seconds > 0
+        ? Vector2Utils.multiply(
+            Vector2Utils.subtract(slot, this.lastSlot),
+            1 / seconds
+          )
+        : leader.velocity;
+    this.lastSlot = slot;
+    this.velocity = Vector2Utils.add(
+      slotVelocity,
+      Vector2Utils.multiply(
+        Vector2Utils.subtract(slot, this.position),
+        FORMATION_PULL
+      )
+    );
+    this.rotation = leader.rotation;
+  }
+
+  // Swing out to a point beside the target, then close in; bolder enemies
+  // take the point nearer in
+  private flank(target: Vector2, seconds: number): void {
+    if (this.strikeTimer > 0) {
+      this.steer(this.angleTo(target), this.config.speed, TURN_SPEED * seconds);
+      return;
+    }
+
+    if (!this.flankOffset) {
+      const away = Vector2Utils.normalize(
+        Vector2Utils.subtract(this.position, target)
+      );
+      const distance = 260 - 140 * this.config.aggressiveness;
+      this.flankOffset = Vector2Utils.multiply(
+        Vector2Utils.rotate(away, (this.flankSide * Math.PI) / 2),
+        distance
+      );
+    }
+
+    const point = Vector2Utils.add(target, this.flankOffset);
+    if (Vector2Utils.distance(this.position, point) < FLANK_REACHED) {
+      // Strike, then come round from the other side next time
+      this.strikeTimer = STRIKE_TIME;
+      this.flankOffset = null;
+      this.flankSide = -this.flankSide;
+    }
+    this.steer(
+      this.angleTo(point),
+      this.config.speed,
+      TURN_SPEED * 1.5 * seconds
+    );
+  }
+
+  /**
+   * Fly in formation behind a leader, holding the current offset from it
+   */
+  joinFormation(leader: Enemy): void {
+    this.leader = leader;
+    this.lastSlot = null;
+    this.formationOffset = Vector2Utils.rotate(
+      Vector2Utils.subtract(this.position, leader.position),
+      -leader.rotation
+    );
+  }
+
+  // Point the enemy along a heading, as a squad leader is on arrival
+  setHeading(angle: number): void {
+    this.rotation = angle;
+    this.velocity = Vector2Utils.fromAngle(angle, this.config.speed);
+  }
+
+  // Bullets the enemy may try to dodge
+  setThreats(threats: readonly GameObject[]): void {
+    this.threats = threats;
+  }
+
+  isInFormation(): boolean {
+    return this.leader !== null;
+  }
+
+  isDiving(): boolean {
+    return this.diveTimer > 0;
+  }
+
+  /**
+   * Drop a mine if one is due; bolder bombers mine more often
+   * @returns Where to place the mine, behind the enemy
+   */
+  layMine(): Vector2 | null {
+    if (
+      !this.has(EnemyBehavior.LAY_MINES) ||
+      !this.target ||
+      this.isStunned()
+    ) {
+      return null;
+    }
+    const interval = MINE_INTERVAL / (0.5 + this.config.aggressiveness);
+    if (this.mineTimer < interval) return null;
+
+    this.mineTimer = 0;
+    return Vector2Utils.add(
+      this.position,
+      Vector2Utils.fromAngle(this.rotation + Math.PI, this.radius + 6)
+    );
   }
 
   render(ctx: CanvasRenderingContext2D): void {
     ctx.save();
+    ctx.globalAlpha = this.getVisibility();
 
     // Move to enemy position
     ctx.translate(this.position.x, this.position.y);
     ctx.rotate(this.rotation);
 
-    // Draw engine glow
-    if (this.target) {
+    // Draw engine glow, flaring during a dive; dead while stunned
+    if (this.target && !this.isStunned()) {
       const glowIntensity = 0.3 + 0.3 * Math.sin(this.thrustPhase);
+      const glowSize = this.isDiving() ? 0.8 : 0.4;
       ctx.fillStyle = `rgba(255, 100, 0, ${glowIntensity})`;
       ctx.beginPath();
-      ctx.arc(-this.radius * 0.8, 0, this.radius * 0.4, 0, Math.PI * 2);
+      ctx.arc(-this.radius * 0.8, 0, this.radius * glowSize, 0, Math.PI * 2);
       ctx.fill();
     }
 
@@ -169,12 +582,43 @@ export class Enemy extends GameObject {
     ctx.fillStyle = this.config.color + "40"; // Semi-transparent fill
     ctx.lineWidth = 2;
 
-    if (this.enemyType === EnemyType.SCOUT) {
-      this.drawScout(ctx);
-    } else if (this.enemyType === EnemyType.FIGHTER) {
-      this.drawFighter(ctx);
-    } else {
-      this.drawBomber(ctx);
+    switch (this.enemyType) {
+      case EnemyType.SCOUT:
+        this.drawScout(ctx);
+        break;
+      case EnemyType.FIGHTER:
+        this.drawFighter(ctx);
+        break;
+      case EnemyType.BOMBER:
+        this.drawBomber(ctx);
+        break;
+      case EnemyType.MINELAYER:
+        this.drawMinelayer(ctx);
+        break;
+      case EnemyType.STALKER:
+        this.drawStalker(ctx);
+        break;
+      case EnemyType.CARRIER:
+        this.drawCarrier(ctx);
+        break;
+      case EnemyType.DRONE:
+        this.drawDrone(ctx);
+        break;
+      case EnemyType.INTERCEPTOR:
+        this.drawInterceptor(ctx);
+        break;
+    }
+
+    // Crackling ring while an EMP holds it
+    if (this.isStunned()) {
+      ctx.strokeStyle = "#88ffff";
+      ctx.lineWidth = 1;
+      ctx.setLineDash([3, 4]);
+      ctx.lineDashOffset = this.thrustPhase * 10;
+      ctx.beginPath();
+      ctx.arc(0, 0, this.radius * 1.3, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
     }
 
     // Draw health indicator
@@ -220,6 +664,101 @@ export class Enemy extends GameObject {
     ctx.stroke();
   }
 
+  private drawMinelayer(ctx: CanvasRenderingContext2D): void {
+    // Broad hull with a mine rack at the stern
+    ctx.beginPath();
+    ctx.moveTo(this.radius * 0.8, 0);
+    ctx.lineTo(this.radius * 0.3, -this.radius * 0.7);
+    ctx.lineTo(-this.radius * 0.8, -this.radius * 0.7);
+    ctx.lineTo(-this.radius * 0.8, this.radius * 0.7);
+    ctx.lineTo(this.radius * 0.3, this.radius * 0.7);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+
+    for (const y of [-0.35, 0.35]) {
+      ctx.beginPath();
+      ctx.arc(
+        -this.radius * 0.5,
+        this.radius * y,
+        this.radius * 0.2,
+        0,
+        Math.PI * 2
+      );
+      ctx.stroke();
+    }
+  }
+
+  private drawStalker(ctx: CanvasRenderingContext2D): void {
+    // Thin swept wings
+    ctx.beginPath();
+    ctx.moveTo(this.radius, 0);
+    ctx.lineTo(-this.radius * 0.8, -this.radius);
+    ctx.lineTo(-this.radius * 0.3, 0);
+    ctx.lineTo(-this.radius * 0.8, this.radius);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  private drawCarrier(ctx: CanvasRenderingContext2D): void {
+    // Long hull with a launch bay on each side
+    ctx.beginPath();
+    ctx.moveTo(this.radius, 0);
+    ctx.lineTo(this.radius * 0.6, -this.radius * 0.45);
+    ctx.lineTo(-this.radius, -this.radius * 0.45);
+    ctx.lineTo(-this.radius, this.radius * 0.45);
+    ctx.lineTo(this.radius * 0.6, this.radius * 0.45);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.strokeRect(
+      -this.radius * 0.6,
+      -this.radius * 0.8,
+      this.radius * 0.9,
+      this.radius * 0.35
+    );
+    ctx.strokeRect(
+      -this.radius * 0.6,
+      this.radius * 0.45,
+      this.radius * 0.9,
+      this.radius * 0.35
+    );
+  }
+
+  private drawDrone(ctx: CanvasRenderingContext2D): void {
+    // Small diamond
+    ctx.beginPath();
+    ctx.moveTo(this.radius, 0);
+    ctx.lineTo(0, -this.radius * 0.7);
+    ctx.lineTo(-this.radius, 0);
+    ctx.lineTo(0, this.radius * 0.7);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  private drawInterceptor(ctx: CanvasRenderingContext2D): void {
+    // Dart, with the shield curving round its nose
+    ctx.beginPath();
+    ctx.moveTo(this.radius * 0.8, 0);
+    ctx.lineTo(-this.radius * 0.6, -this.radius * 0.6);
+    ctx.lineTo(-this.radius * 0.3, 0);
+    ctx.lineTo(-this.radius * 0.6, this.radius * 0.6);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+
+    const halfArc = ((this.config.shieldArc ?? 0) * Math.PI) / 360;
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 3;
+    ctx.globalAlpha *= 0.6 + 0.3 * Math.sin(this.thrustPhase * 2);
+    ctx.beginPath();
+    ctx.arc(0, 0, this.radius * 1.3, -halfArc, halfArc);
+    ctx.stroke();
+  }
+
   private drawHealthBar(ctx: CanvasRenderingContext2D): void {
     if (this.health >= this.config.health) return; // Don't show full health
 
@@ -248,27 +787,115 @@ export class Enemy extends GameObject {
   }
 
   canShoot(): boolean {
-    const currentTime = Date.now();
-    return currentTime - this.lastShotTime >= this.config.fireRate;
+    return this.shotTimer >= this.config.fireRate;
   }
 
-  shoot(): Vector2 | null {
-    if (!this.canShoot() || !this.target) return null;
-
-    this.lastShotTime = Date.now();
+  /**
+   * Fire if a shot is due and the target is dead ahead. A cloaked enemy
+   * shows itself when it fires.
+   * @returns The shots, starting at the enemy's nose; none if it held fire
+   */
+  shoot(): EnemyProjectile[] {
+    const weapon = this.config.weapon;
+    if (
+      !weapon ||
+      !this.has(EnemyBehavior.SHOOT) ||
+      !this.canShoot() ||
+      !this.target ||
+      this.isStunned()
+    ) {
+      return [];
+    }
+    const offAim = angleBetween(this.rotation, this.angleTo(this.target));
+    if (Math.abs(offAim) > AIM_TOLERANCE) return [];
 
-    // Return bullet spawn position (front of enemy)
-    return Vector2Utils.add(
-      this.position,
-      Vector2Utils.fromAngle(this.rotation, this.radius)
-    );
+    this.shotTimer = 0;
+    this.reveal();
+    return fireEnemyWeapon(weapon, this.getFrontPosition(), this.rotation);
   }
 
   takeDamage(damage: number = 1): boolean {
     this.health -= damage;
+    this.reveal();
     return this.health <= 0;
   }
 
+  // Knock out its engines and weapons for a while; shows a cloaked enemy
+  stun(duration: number): void {
+    this.stunTimer = Math.max(this.stunTimer, duration);
+    this.reveal();
+  }
+
+  isStunned(): boolean {
+    return this.stunTimer > 0;
+  }
+
+  private reveal(): void {
+    if (this.config.cloaked) {
+      this.revealTimer = REVEAL_TIME;
+    }
+  }
+
+  // 1 when in plain sight; a cloaked enemy fades to a shimmer
+  getVisibility(): number {
+    if (!this.config.cloaked) return 1;
+    return Math.max(CLOAKED_ALPHA, this.revealTimer / REVEAL_TIME);
+  }
+
+  isCloaked(): boolean {
+    return this.getVisibility() < 0.5;
+  }
+
+  /**
+   * Whether a shot arriving at a point glances off the enemy's frontal
+   * shield. Shields only cover the nose, so attack from the side or behind.
+   */
+  blocksShot(point: Vector2): boolean {
+    if (!this.config.shieldArc) return false;
+    const offNose = angleBetween(this.rotation, this.angleTo(point));
+    return Math.abs(offNose) <= (this.config.shieldArc * Math.PI) / 360;
+  }
+
+  /**
+   * Launch a drone if one is due and the carrier has room for another
+   * @returns The drone type and where it starts, beside the carrier
+   */
+  launchDrone(): {type: EnemyType; position: Vector2} | null {
+    const type = this.config.launches;
+    if (
+      !type ||
+      !this.target ||
+      this.isStunned() ||
+      this.droneTimer < DRONE_INTERVAL
+    ) {
+      return null;
+    }
+    this.drones = this.drones.filter((drone) => drone.getHealth() > 0);
+    if (this.drones.length >= MAX_DRONES) return null;
+
+    this.droneTimer = 0;
+    const side = this.drones.length % 2 === 0 ? 1 : -1;
+    return {
+      type,
+      position: Vector2Utils.add(
+        this.position,
+        Vector2Utils.fromAngle(
+          this.rotation + (side * Math.PI) / 2,
+          this.radius
+        )
+      ),
+    };
+  }
+
+  // Count a launched drone against the carrier's limit
+  addDrone(drone: Enemy): void {
+    this.drones.push(drone);
+  }
+
+  getMineType(): MineType {
+    return this.config.mineType ?? MineType.CONTACT;
+  }
+
   getHealth(): number {
     return this.health;
   }
@@ -0,0 +1,67 @@
+import {describe, expect, it} from "vitest";
+import {
+  ChargedBeam,
+  EnemyWeapon,
+  HomingOrb,
+  fireEnemyWeapon,
+} from "./EnemyProjectile";
+import {Shield} from "./Shield";
+import {Bullet} from "./Bullet";
+
+describe("EnemyProjectile", () => {
+  it("fires a fan of pellets for a spread burst", () => {
+    const pellets = fireEnemyWeapon(
+      EnemyWeapon.SPREAD_BURST,
+      {x: 100, y: 100},
+      0
+    );
+    expect(pellets).toHaveLength(5);
+    const angles = pellets.map((pellet) => pellet.rotation);
+    expect(angles[0]).toBeCloseTo(-angles[4]);
+    expect(angles[2]).toBe(0);
+    // Each shot has its own position to move
+    pellets[0].update(100, 800, 600);
+    expect(pellets[1].position).toEqual({x: 100, y: 100});
+  });
+
+  it("steers homing orbs towards their target", () => {
+    const orb = new HomingOrb({x: 100, y: 300}, 0);
+    orb.setTarget({x: 100, y: 500});
+    for (let t = 0; t < 1000; t += 16) {
+      orb.update(16, 800, 600);
+    }
+    expect(orb.velocity.y).toBeGreaterThan(0);
+    expect(orb.position.y).toBeGreaterThan(300);
+  });
+
+  it("charges a beam harmlessly before it lances out", () => {
+    const beam = new ChargedBeam({x: 100, y: 300}, 0);
+    beam.update(300, 800, 600);
+    expect(beam.isHarmful()).toBe(false);
+    expect(beam.position.x).toBe(100);
+
+    beam.update(300, 800, 600);
+    beam.update(100, 800, 600);
+    expect(beam.isHarmful()).toBe(true);
+    expect(beam.position.x).toBeGreaterThan(100);
+    expect(beam.canBeShotDown()).toBe(false);
+  });
+
+  it("takes as many player shots to shoot down as it has hit points", () => {
+    const [bolt] = fireEnemyWeapon(EnemyWeapon.PLASMA_BOLT, {x: 0, y: 0}, 0);
+    expect(bolt.takeHit()).toBe(true);
+    expect(bolt.active).toBe(false);
+
+    const [orb] = fireEnemyWeapon(EnemyWeapon.HOMING_ORB, {x: 0, y: 0}, 0);
+    expect(orb.takeHit()).toBe(false);
+    expect(orb.takeHit()).toBe(true);
+  });
+
+  it("costs a shield as many hits as its damage", () => {
+    const shield = new Shield(new Bullet({x: 0, y: 0}, 0));
+    const [orb] = fireEnemyWeapon(EnemyWeapon.HOMING_ORB, {x: 0, y: 0}, 0);
+    expect(shield.takeDamage(orb.getDamage())).toBe(false);
+    const [beam] = fireEnemyWeapon(EnemyWeapon.CHARGED_BEAM, {x: 0, y: 0}, 0);
+    expect(shield.takeDamage(beam.getDamage())).toBe(true);
+  });
+});
@@ -0,0 +1,319 @@
+import {GameObject} from "../core/GameObject";
+import type {Vector2} from "../utils/Vector2";
+import {Vector2Utils} from "../utils/Vector2";
+
+export const EnemyWeapon = {
+  PLASMA_BOLT: "plasmaBolt", // A quick single shot
+  HOMING_ORB: "homingOrb", // A slow orb that follows its target
+  SPREAD_BURST: "spreadBurst", // A fan of pellets
+  CHARGED_BEAM: "chargedBeam", // Glows at the muzzle, then lances out
+} as const;
+
+export type EnemyWeapon = (typeof EnemyWeapon)[keyof typeof EnemyWeapon];
+
+interface ProjectileStats {
+  radius: number;
+  speed: number;
+  damage: number; // Shield hits it costs; any hit destroys an unshielded ship
+  hitPoints: number; // Player shots it takes to shoot down; 0 if it can't be
+  lifetime: number;
+}
+
+const SPREAD_PELLETS = 5;
+const SPREAD_ARC = (50 * Math.PI) / 180;
+const ORB_TURN_SPEED = 1.5; // Radians per second
+const BEAM_CHARGE_TIME = 500;
+const BEAM_LENGTH = 60;
+
+/**
+ * EnemyProjectile - Base for shots fired by enemies. Each kind has its own
+ * speed, damage and look; most can be shot down by the players' bullets.
+ */
+export abstract class EnemyProjectile extends GameObject {
+  protected age: number = 0;
+  private weapon: EnemyWeapon;
+  private damage: number;
+  private hitPoints: number;
+  private lifetime: number;
+
+  constructor(
+    position: Vector2,
+    angle: number,
+    weapon: EnemyWeapon,
+    stats: ProjectileStats
+  ) {
+    super({...position}, stats.radius);
+    this.weapon = weapon;
+    this.damage = stats.damage;
+    this.hitPoints = stats.hitPoints;
+    this.lifetime = stats.lifetime;
+    this.rotation = angle;
+    this.velocity = Vector2Utils.fromAngle(angle, stats.speed);
+  }
+
+  update(deltaTime: number, canvasWidth: number, canvasHeight: number): void {
+    this.age += deltaTime;
+    if (this.age >= this.lifetime) {
+      this.destroy();
+      return;
+    }
+
+    this.steer(deltaTime);
+    this.position = Vector2Utils.add(
+      this.position,
+      Vector2Utils.multiply(this.velocity, deltaTime / 1000)
+    );
+
+    if (
+      this.position.x < -this.radius ||
+      this.position.x > canvasWidth + this.radius ||
+      this.position.y < -this.radius ||
+      this.position.y > canvasHeight + this.radius
+    ) {
+      this.destroy();
+    }
+  }
+
+  // Course changes before each move; most shots fly straight
+  protected steer(_deltaTime: number): void {}
+
+  // Only homing shots use the target
+  setTarget(_target: Vector2 | null): void {}
+
+  getWeapon(): EnemyWeapon {
+    return this.weapon;
+  }
+
+  getDamage(): number {
+    return this.damage;
+  }
+
+  // Whether touching it hurts yet
+  isHarmful(): boolean {
+    return this.active;
+  }
+
+  canBeShotDown(): boolean {
+    return this.active && this.hitPoints > 0;
+  }
+
+  /**
+   * Take one of the players' shots
+   * @returns true if that shot destroyed it
+   */
+  takeHit(): boolean {
+    this.hitPoints--;
+    if (this.hitPoints <= 0) {
+      this.destroy();
+      return true;
+    }
+    return false;
+  }
+
+  // Soft glow with a white core, shared by the round shots
+  protected renderGlow(
+    ctx: CanvasRenderingContext2D,
+    color: string,
+    radius: number
+  ): void {
+    const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, radius);
+    gradient.addColorStop(0, color);
+    gradient.addColorStop(0.5, color + "aa");
+    gradient.addColorStop(1, color + "00");
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(0, 0, radius, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.fillStyle = "#ffffff";
+    ctx.beginPath();
+    ctx.arc(0, 0, radius * 0.35, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
+
+export class PlasmaBolt extends EnemyProjectile {
+  constructor(position: Vector2, angle: number) {
+    super(position, angle, EnemyWeapon.PLASMA_BOLT, {
+      radius: 4,
+      speed: 260,
+      damage: 1,
+      hitPoints: 1,
+      lifetime: 3000,
+    });
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.active) return;
+
+    ctx.save();
+    ctx.translate(this.position.x, this.position.y);
+    ctx.rotate(this.rotation);
+    ctx.scale(2, 1); // Stretched along its flight
+    this.renderGlow(ctx, "#66ff66", this.radius * 1.5);
+    ctx.restore();
+  }
+}
+
+export class HomingOrb extends EnemyProjectile {
+  private target: Vector2 | null = null;
+
+  constructor(position: Vector2, angle: number) {
+    super(position, angle, EnemyWeapon.HOMING_ORB, {
+      radius: 8,
+      speed: 90,
+      damage: 2,
+      hitPoints: 2,
+      lifetime: 7000,
+    });
+  }
+
+  setTarget(target: Vector2 | null): void {
+    this.target = target;
+  }
+
+  protected steer(deltaTime: number): void {
+    if (!this.target) return;
+
+    const wanted = Math.atan2(
+      this.target.y - this.position.y,
+      this.target.x - this.position.x
+    );
+    const turn = Math.atan2(
+      Math.sin(wanted - this.rotation),
+      Math.cos(wanted - this.rotation)
+    );
+    const maxTurn = ORB_TURN_SPEED * (deltaTime / 1000);
+    this.rotation += Math.max(-maxTurn, Math.min(maxTurn, turn));
+    this.velocity = Vector2Utils.fromAngle(
+      this.rotation,
+      Vector2Utils.magnitude(this.velocity)
+    );
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.active) return;
+
+    const pulse = 1 + 0.2 * Math.sin(this.age / 100);
+    ctx.save();
+    ctx.translate(this.position.x, this.position.y);
+    this.renderGlow(ctx, "#cc66ff", this.radius * pulse);
+    ctx.restore();
+  }
+}
+
+export class SpreadPellet extends EnemyProjectile {
+  constructor(position: Vector2, angle: number) {
+    super(position, angle, EnemyWeapon.SPREAD_BURST, {
+      radius: 3,
+      speed: 200,
+      damage: 1,
+      hitPoints: 1,
+      lifetime: 2000,
+    });
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.active) return;
+
+    ctx.save();
+    ctx.translate(this.position.x, this.position.y);
+    this.renderGlow(ctx, "#ff9933", this.radius * 1.5);
+    ctx.restore();
+  }
+}
+
+/**
+ * ChargedBeam - Charges at the muzzle for a moment, harmless, then lances
+ * out fast. Too much energy to shoot down.
+ */
+export class ChargedBeam extends EnemyProjectile {
+  private speed: number;
+
+  constructor(position: Vector2, angle: number) {
+    const stats = {
+      radius: 5,
+      speed: 700,
+      damage: 3,
+      hitPoints: 0,
+      lifetime: BEAM_CHARGE_TIME + 2000,
+    };
+    super(position, angle, EnemyWeapon.CHARGED_BEAM, stats);
+    this.speed = stats.speed;
+    this.velocity = {x: 0, y: 0};
+  }
+
+  isCharging(): boolean {
+    return this.age < BEAM_CHARGE_TIME;
+  }
+
+  isHarmful(): boolean {
+    return this.active && !this.isCharging();
+  }
+
+  protected steer(_deltaTime: number): void {
+    if (!this.isCharging()) {
+      this.velocity = Vector2Utils.fromAngle(this.rotation, this.speed);
+    }
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.active) return;
+
+    ctx.save();
+    ctx.translate(this.position.x, this.position.y);
+    ctx.rotate(this.rotation);
+
+    if (this.isCharging()) {
+      // Growing glow, with a faint line showing where it will go
+      const charge = this.age / BEAM_CHARGE_TIME;
+      ctx.globalAlpha = 0.3 * charge;
+      ctx.strokeStyle = "#ff66ff";
+      ctx.lineWidth = 1;
+      ctx.setLineDash([6, 6]);
+      ctx.beginPath();
+      ctx.moveTo(0, 0);
+      ctx.lineTo(400, 0);
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+      this.renderGlow(ctx, "#ff66ff", this.radius * (0.5 + charge));
+    } else {
+      // A lance trailing behind its tip
+      ctx.globalAlpha = 0.5;
+      ctx.fillStyle = "#ff66ff";
+      ctx.fillRect(-BEAM_LENGTH, -this.radius, BEAM_LENGTH, this.radius * 2);
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(-BEAM_LENGTH, -1.5, BEAM_LENGTH, 3);
+    }
+
+    ctx.restore();
+  }
+}
+
+/**
+ * Create the shots for one firing of a weapon
+ * @param angle Direction the weapon points
+ */
+export function fireEnemyWeapon(
+  weapon: EnemyWeapon,
+  position: Vector2,
+  angle: number
+): EnemyProjectile[] {
+  switch (weapon) {
+    case EnemyWeapon.PLASMA_BOLT:
+      return [new PlasmaBolt(position, angle)];
+    case EnemyWeapon.HOMING_ORB:
+      return [new HomingOrb(position, angle)];
+    case EnemyWeapon.SPREAD_BURST: {
+      const pellets: EnemyProjectile[] = [];
+      for (let i = 0; i < SPREAD_PELLETS; i++) {
+        const offset = (i / (SPREAD_PELLETS - 1) - 0.5) * SPREAD_ARC;
+        pellets.push(new SpreadPellet(position, angle + offset));
+      }
+      return pellets;
+    }
+    case EnemyWeapon.CHARGED_BEAM:
+      return [new ChargedBeam(position, angle)];
+  }
+}
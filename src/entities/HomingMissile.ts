@@ -10,6 +10,7 @@ export class HomingMissile extends GameObject {
   private age: number = 0;
   private trailParticles: Vector2[] = [];
   private glowPhase: number = 0;
+  private ownerIndex: number = 0; // Player who launched it
 
   constructor(position: Vector2, rotation: number) {
     super(position, 3);
@@ -160,4 +161,12 @@ export class HomingMissile extends GameObject {
   getTarget(): GameObject | null {
     return this.target;
   }
+
+  setOwner(playerIndex: number): void {
+    this.ownerIndex = playerIndex;
+  }
+
+  getOwner(): number {
+    return this.ownerIndex;
+  }
 }
@@ -0,0 +1,86 @@
+import {GameObject} from "../core/GameObject";
+import type {RaySegment} from "../utils/Raycast";
+
+/**
+ * LaserBeam - One frame of a player's held laser, traced from the ship's
+ * nose through the screen wrap. Its position is where the beam ends, so it
+ * can stand in for the beam's tip in the usual collision checks.
+ */
+export class LaserBeam extends GameObject {
+  private segments: RaySegment[];
+  private color: string;
+  private width: number;
+  private striking: boolean; // Ends on a target rather than running out
+  private flicker: number;
+
+  constructor(
+    segments: RaySegment[],
+    width: number,
+    color: string,
+    striking: boolean,
+    time: number // For the flicker, so replays draw the same
+  ) {
+    const last = segments[segments.length - 1];
+    super({...last.end}, width / 2);
+    this.segments = segments;
+    this.width = width;
+    this.color = color;
+    this.striking = striking;
+    this.flicker = 0.85 + 0.15 * Math.sin(time / 25);
+  }
+
+  // Lives for one frame; the game casts a fresh beam each frame
+  update(
+    _deltaTime: number,
+    _canvasWidth: number,
+    _canvasHeight: number
+  ): void {}
+
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.active) return;
+
+    ctx.save();
+    ctx.lineCap = "round";
+
+    // Wide soft glow, the beam itself, then a white-hot core
+    const layers: Array<[string, number, number]> = [
+      [this.color, this.width * 3, 0.25],
+      [this.color, this.width, 0.9],
+      ["#ffffff", this.width / 3, 1],
+    ];
+    for (const [color, width, alpha] of layers) {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = width * this.flicker;
+      ctx.globalAlpha = alpha;
+      ctx.beginPath();
+      for (const segment of this.segments) {
+        ctx.moveTo(segment.start.x, segment.start.y);
+        ctx.lineTo(segment.end.x, segment.end.y);
+      }
+      ctx.stroke();
+    }
+
+    // Flare where it burns into a target
+    if (this.striking) {
+      const radius = this.width * 2 * this.flicker;
+      const gradient = ctx.createRadialGradient(
+        this.position.x,
+        this.position.y,
+        0,
+        this.position.x,
+        this.position.y,
+        radius
+      );
+      gradient.addColorStop(0, "#ffffff");
+      gradient.addColorStop(0.4, this.color);
+      gradient.addColorStop(1, this.color + "00");
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = gradient;
+      ctx.beginPath();
+      ctx.arc(this.position.x, this.position.y, radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    ctx.restore();
+  }
+}
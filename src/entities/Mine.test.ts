@@ -0,0 +1,34 @@
+import {describe, expect, it} from "vitest";
+import {Mine, MineType} from "./Mine";
+import {Bullet} from "./Bullet";
+
+describe("Mine", () => {
+  it("arms after a moment and fizzles out eventually", () => {
+    const mine = new Mine({x: 100, y: 100});
+    expect(mine.isArmed()).toBe(false);
+    mine.update(1000, 800, 600);
+    expect(mine.isArmed()).toBe(true);
+    mine.update(15000, 800, 600);
+    expect(mine.active).toBe(false);
+  });
+
+  it("lights a fuse for nearby ships when it's a proximity mine", () => {
+    const mine = new Mine({x: 100, y: 100}, MineType.PROXIMITY);
+    const nearby = new Bullet({x: 160, y: 100}, 0);
+    const faraway = new Bullet({x: 300, y: 100}, 0);
+    expect(mine.senses(nearby)).toBe(false); // Not armed yet
+
+    mine.update(1000, 800, 600);
+    expect(mine.senses(faraway)).toBe(false);
+    expect(mine.senses(nearby)).toBe(true);
+
+    mine.lightFuse();
+    expect(mine.isDue()).toBe(false);
+    mine.update(700, 800, 600);
+    expect(mine.isDue()).toBe(true);
+
+    const contact = new Mine({x: 100, y: 100});
+    contact.update(1000, 800, 600);
+    expect(contact.senses(nearby)).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import {GameObject} from "../core/GameObject";
+import type {Vector2} from "../utils/Vector2";
+
+export const MineType = {
+  CONTACT: "contact", // Goes off when a ship touches it
+  PROXIMITY: "proximity", // Lights a short fuse when a ship comes near
+} as const;
+
+export type MineType = (typeof MineType)[keyof typeof MineType];
+
+const ARM_TIME = 800; // Harmless while the layer pulls away
+const LIFETIME = 15000;
+const FADE_TIME = 2000; // Blinks faster before it fizzles out
+const TRIGGER_RANGE = 90; // From the mine to a proximity target's edge
+const FUSE_TIME = 600; // Long enough to boost clear
+export const MINE_BLAST_RADIUS = 70;
+
+/**
+ * Mine - Dropped by bombers and minelayers. It sits still, arms after a
+ * moment and blows up ships; a shot clears it. Contact mines go off on
+ * touch, proximity mines a moment after a ship comes near, catching
+ * everything in the blast. Players can lay proximity mines of their own,
+ * which hunt enemies and asteroids instead.
+ */
+export class Mine extends GameObject {
+  private mineType: MineType;
+  private age: number = 0;
+  private fuse: number | null = null; // Counting down once lit
+  private ownerIndex: number | null = null; // Player who laid it, if any
+
+  constructor(position: Vector2, type: MineType = MineType.CONTACT) {
+    super(position, 8);
+    this.mineType = type;
+  }
+
+  update(deltaTime: number, _canvasWidth: number, _canvasHeight: number): void {
+    this.age += deltaTime;
+    if (this.fuse !== null) {
+      this.fuse -= deltaTime;
+    } else if (this.age >= LIFETIME) {
+      this.destroy();
+    }
+  }
+
+  setOwner(playerIndex: number): void {
+    this.ownerIndex = playerIndex;
+  }
+
+  // Null for an enemy's mine
+  getOwner(): number | null {
+    return this.ownerIndex;
+  }
+
+  getType(): MineType {
+    return this.mineType;
+  }
+
+  isArmed(): boolean {
+    return this.active && this.age >= ARM_TIME;
+  }
+
+  // Whether an armed proximity mine should light its fuse for this object
+  senses(other: GameObject): boolean {
+    if (this.mineType !== MineType.PROXIMITY || !this.isArmed()) return false;
+    const dx = other.position.x - this.position.x;
+    const dy = other.position.y - this.position.y;
+    return Math.sqrt(dx * dx + dy * dy) < TRIGGER_RANGE + other.radius;
+  }
+
+  lightFuse(): void {
+    if (this.fuse === null) {
+      this.fuse = FUSE_TIME;
+    }
+  }
+
+  // A lit fuse has burned down and the mine should blow
+  isDue(): boolean {
+    return this.active && this.fuse !== null && this.fuse <= 0;
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.active) return;
+
+    const proximity = this.mineType === MineType.PROXIMITY;
+    let color = proximity ? "#ffaa00" : "#ff4444";
+    if (this.ownerIndex !== null) color = "#66ff99";
+
+    ctx.save();
+    ctx.translate(this.position.x, this.position.y);
+
+    // Faint ring showing how close is too close
+    if (proximity && this.isArmed()) {
+      ctx.strokeStyle = color;
+      ctx.globalAlpha = this.fuse !== null ? 0.5 : 0.12;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.arc(0, 0, TRIGGER_RANGE, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+    }
+
+    ctx.rotate(this.age / 600);
+
+    // Spiked casing
+    ctx.strokeStyle = this.isArmed() ? color : "#888888";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    for (let i = 0; i < 4; i++) {
+      const angle = (i * Math.PI) / 2;
+      ctx.moveTo(Math.cos(angle) * this.radius, Math.sin(angle) * this.radius);
+      ctx.lineTo(
+        Math.cos(angle) * this.radius * 1.5,
+        Math.sin(angle) * this.radius * 1.5
+      );
+    }
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(0, 0, this.radius, 0, Math.PI * 2);
+    ctx.stroke();
+
+    // Blinking light once armed, frantic once the fuse is lit
+    let blinkRate = this.age > LIFETIME - FADE_TIME ? 80 : 250;
+    if (this.fuse !== null) blinkRate = 50;
+    if (this.isArmed() && Math.floor(this.age / blinkRate) % 2 === 0) {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(0, 0, this.radius * 0.4, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    ctx.restore();
+  }
+}
@@ -1,6 +1,8 @@
 import {GameObject} from "../core/GameObject";
 import type {Vector2} from "../utils/Vector2";
 import {Vector2Utils} from "../utils/Vector2";
+import type {Random} from "../utils/Random";
+import {defaultRandom} from "../utils/Random";
 
 export const PowerUpType = {
   RAPID_FIRE: "rapidFire",
@@ -14,6 +16,12 @@ export const PowerUpType = {
   NUKE: "nuke",
   MAGNET: "magnet",
   INVINCIBILITY: "invincibility",
+  LASER: "laser",
+  FLAK: "flak",
+  RAILGUN: "railgun",
+  WEAPON_UPGRADE: "weaponUpgrade",
+  MINES: "mines",
+  EMP: "emp",
 } as const;
 
 export type PowerUpType = (typeof PowerUpType)[keyof typeof PowerUpType];
@@ -89,7 +97,7 @@ export const POWER_UP_CONFIGS: Record<PowerUpType, PowerUpConfig> = {
     name: "Homing Missile",
     color: "#ff9900",
     symbol: "◆",
-    duration: 30000, // 30 seconds (3 missiles)
+    duration: 0, // Ammo for the secondary weapon slot
     description: "Launch seeking missiles",
   },
   [PowerUpType.NUKE]: {
@@ -116,6 +124,54 @@ export const POWER_UP_CONFIGS: Record<PowerUpType, PowerUpConfig> = {
     duration: 8000, // 8 seconds
     description: "Complete invulnerability",
   },
+  [PowerUpType.LASER]: {
+    type: PowerUpType.LASER,
+    name: "Laser",
+    color: "#ff3333",
+    symbol: "L",
+    duration: 0, // Kept for the rest of the game
+    description: "Fast piercing bolts",
+  },
+  [PowerUpType.FLAK]: {
+    type: PowerUpType.FLAK,
+    name: "Flak Cannon",
+    color: "#ffaa33",
+    symbol: "F",
+    duration: 0,
+    description: "A short-range cone of pellets",
+  },
+  [PowerUpType.RAILGUN]: {
+    type: PowerUpType.RAILGUN,
+    name: "Railgun",
+    color: "#66ccff",
+    symbol: "|",
+    duration: 0,
+    description: "Heavy slugs that pierce everything",
+  },
+  [PowerUpType.WEAPON_UPGRADE]: {
+    type: PowerUpType.WEAPON_UPGRADE,
+    name: "Weapon Upgrade",
+    color: "#ffffff",
+    symbol: "+",
+    duration: 0,
+    description: "Levels up the equipped gun",
+  },
+  [PowerUpType.MINES]: {
+    type: PowerUpType.MINES,
+    name: "Mines",
+    color: "#ffaa00",
+    symbol: "✱",
+    duration: 0, // Ammo for the secondary weapon slot
+    description: "Proximity mines to drop behind you",
+  },
+  [PowerUpType.EMP]: {
+    type: PowerUpType.EMP,
+    name: "EMP",
+    color: "#88ffff",
+    symbol: "E",
+    duration: 0, // Ammo for the secondary weapon slot
+    description: "Stuns enemies and clears their shots",
+  },
 };
 
 export class PowerUp extends GameObject {
@@ -126,7 +182,11 @@ export class PowerUp extends GameObject {
   private glowPhase: number = 0;
   private baseY: number;
 
-  constructor(position: Vector2, type: PowerUpType) {
+  constructor(
+    position: Vector2,
+    type: PowerUpType,
+    rng: Random = defaultRandom
+  ) {
     super(position, 15);
     this.powerUpType = type;
     this.config = POWER_UP_CONFIGS[type];
@@ -135,8 +195,8 @@ export class PowerUp extends GameObject {
 
     // Add some random float to make them more visible
     this.velocity = {
-      x: (Math.random() - 0.5) * 20,
-      y: (Math.random() - 0.5) * 20,
+      x: (rng.next() - 0.5) * 20,
+      y: (rng.next() - 0.5) * 20,
     };
   }
 
@@ -226,9 +286,9 @@ export class PowerUp extends GameObject {
     return this.config;
   }
 
-  static createRandom(position: Vector2): PowerUp {
+  static createRandom(position: Vector2, rng: Random = defaultRandom): PowerUp {
     const types = Object.values(PowerUpType);
-    const randomType = types[Math.floor(Math.random() * types.length)];
-    return new PowerUp(position, randomType);
+    const randomType = rng.pick(types);
+    return new PowerUp(position, randomType, rng);
   }
 }
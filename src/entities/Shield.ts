@@ -33,8 +33,8 @@ export class Shield extends GameObject {
     this.pulsePhase += 4 * urgencyFactor * (deltaTime / 1000);
   }
 
-  takeDamage(): boolean {
-    this.health--;
+  takeDamage(amount: number = 1): boolean {
+    this.health -= amount;
     return this.health <= 0; // Return true if shield is destroyed
   }
 
@@ -12,9 +12,11 @@ export class Spaceship extends GameObject {
   private invulnerable: boolean = false;
   private invulnerabilityTime: number = 0;
   private maxInvulnerabilityTime: number = 1500; // Reduced to 1.5 seconds
+  private color: string;
 
-  constructor(position: Vector2) {
+  constructor(position: Vector2, color: string = "#ffffff") {
     super(position, 8);
+    this.color = color;
   }
 
   update(deltaTime: number, canvasWidth: number, canvasHeight: number): void {
@@ -73,13 +75,13 @@ export class Spaceship extends GameObject {
     ctx.rotate(this.rotation);
 
     // Make ship blink when invulnerable
-    if (this.invulnerable && Math.floor(Date.now() / 100) % 2) {
+    if (this.invulnerable && Math.floor(this.invulnerabilityTime / 100) % 2) {
       ctx.restore();
       return;
     }
 
     // Draw ship body
-    ctx.strokeStyle = "#ffffff";
+    ctx.strokeStyle = this.color;
     ctx.lineWidth = 2;
     ctx.beginPath();
     ctx.moveTo(10, 0);
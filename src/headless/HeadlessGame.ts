@@ -0,0 +1,230 @@
+import type {
+  AnalogInput,
+  IGameContext,
+  InputSnapshot,
+  InputSource,
+  PlayerControls,
+} from "../core/GameTypes";
+import {GameMode, GameState, NO_ANALOG_INPUT} from "../core/GameTypes";
+import {GameManager} from "../managers/GameManager";
+import {AchievementTracker} from "../systems/AchievementTracker";
+import {DifficultyManager, DifficultyLevel} from "../systems/DifficultyManager";
+import {ControlBindings} from "../systems/ControlBindings";
+import {
+  NullAchievementDisplay,
+  NullScreenShake,
+  NullSound,
+  NullTimeScale,
+  createNullRenderingContext,
+} from "./NullServices";
+
+// Input driven by code instead of keyboard events
+export class ScriptedInput implements InputSource {
+  private keys: Set<string> = new Set();
+  private keyPressed: Set<string> = new Set();
+  private characterInput: string[] = [];
+  private analog: AnalogInput = NO_ANALOG_INPUT;
+
+  // Replace the set of held keys; newly held keys count as pressed this frame
+  setKeys(keys: string[]): void {
+    for (const key of keys) {
+      if (!this.keys.has(key)) {
+        this.keyPressed.add(key);
+      }
+    }
+    this.keys = new Set(keys);
+  }
+
+  typeCharacters(chars: string[]): void {
+    this.characterInput.push(...chars);
+  }
+
+  setAnalog(analog: AnalogInput): void {
+    this.analog = {...analog};
+  }
+
+  isKeyDown(key: string): boolean {
+    return this.keys.has(key);
+  }
+
+  isKeyPressed(key: string): boolean {
+    return this.keyPressed.has(key);
+  }
+
+  getCharacterInput(): string[] {
+    return [...this.characterInput];
+  }
+
+  getAnalog(): AnalogInput {
+    return this.analog;
+  }
+
+  getSnapshot(): InputSnapshot {
+    return {
+      keys: [...this.keys],
+      pressed: [...this.keyPressed],
+      chars: [...this.characterInput],
+      analog: this.analog,
+    };
+  }
+
+  clearPressed(): void {
+    this.keyPressed.clear();
+    this.characterInput.length = 0;
+  }
+}
+
+export interface HeadlessGameOptions {
+  width?: number;
+  height?: number;
+  difficulty?: DifficultyLevel;
+  mode?: GameMode;
+  friendlyFire?: boolean;
+  // One input per player, as in online play; each player then uses the full
+  // default bindings instead of splitting the keyboard
+  playerInputs?: InputSource[];
+}
+
+export interface HeadlessRunResult {
+  seed: number;
+  score: number;
+  level: number;
+  wave: number;
+  frames: number;
+  simulatedTime: number;
+  gameOver: boolean;
+}
+
+// Chooses the keys to hold for the next frame
+export type HeadlessPolicy = (game: HeadlessGame, frame: number) => string[];
+
+/**
+ * HeadlessGame - IGameContext without canvas, DOM or audio.
+ * Steps GameManager directly so runs can be simulated from Node.
+ */
+export class HeadlessGame implements IGameContext {
+  public readonly canvasWidth: number;
+  public readonly canvasHeight: number;
+  public score: number = 0;
+  public lives: number = 3;
+  public level: number = 1;
+  public state: GameState = GameState.MENU;
+  public readonly mode: GameMode;
+  public readonly friendlyFire: boolean;
+
+  public readonly input: ScriptedInput = new ScriptedInput();
+  public readonly controls = new ControlBindings(false);
+  public readonly playerTwoControls = new ControlBindings(false, 2);
+  public readonly sound = new NullSound();
+  public readonly shake = new NullScreenShake();
+  public readonly time = new NullTimeScale();
+  public readonly achievements = new AchievementTracker();
+  public readonly achievementUI = new NullAchievementDisplay();
+  public readonly difficulty: DifficultyManager;
+  public readonly gameManager: GameManager;
+
+  private playerInputs: InputSource[] | null;
+  private frames: number = 0;
+  private simulatedTime: number = 0;
+
+  constructor(options: HeadlessGameOptions = {}) {
+    this.canvasWidth = options.width ?? 1280;
+    this.canvasHeight = options.height ?? 720;
+    this.mode = options.mode ?? GameMode.SINGLE;
+    this.friendlyFire = options.friendlyFire ?? false;
+    this.playerInputs = options.playerInputs ?? null;
+    this.difficulty = new DifficultyManager(false);
+    this.difficulty.setDifficulty(options.difficulty ?? DifficultyLevel.NORMAL);
+    this.gameManager = new GameManager(this);
+  }
+
+  start(seed?: number): void {
+    this.state = GameState.PLAYING;
+    this.score = 0;
+    this.lives = 3;
+    this.level = 1;
+    this.frames = 0;
+    this.simulatedTime = 0;
+    this.gameManager.startNewGame(seed);
+  }
+
+  /**
+   * Advance the simulation by one frame
+   * @param deltaTime Frame length in milliseconds
+   * @param keys Keys held during this frame (defaults to the previous frame's)
+   */
+  step(deltaTime: number, keys?: string[]): void {
+    if (keys) {
+      this.input.setKeys(keys);
+    }
+    this.gameManager.update(deltaTime);
+    this.input.clearPressed();
+    this.frames++;
+    this.simulatedTime += deltaTime;
+  }
+
+  /**
+   * Play until game over or the frame limit, asking the policy for input each frame
+   */
+  run(
+    policy: HeadlessPolicy,
+    maxFrames: number,
+    deltaTime: number = 1000 / 60
+  ): HeadlessRunResult {
+    while (this.state === GameState.PLAYING && this.frames < maxFrames) {
+      this.step(deltaTime, policy(this, this.frames));
+    }
+    return this.getResult();
+  }
+
+  // Exercise every render path against a canvas that draws nothing
+  render(): void {
+    this.gameManager.render(createNullRenderingContext());
+  }
+
+  getResult(): HeadlessRunResult {
+    return {
+      seed: this.gameManager.seed,
+      score: this.score,
+      level: this.level,
+      wave: this.gameManager.currentWave,
+      frames: this.frames,
+      simulatedTime: this.simulatedTime,
+      gameOver: this.state === GameState.GAME_OVER,
+    };
+  }
+
+  // Same keyboard split as the browser game: player two's keys are theirs alone
+  getPlayerControls(playerIndex: number): PlayerControls {
+    if (this.mode === GameMode.SINGLE || this.playerInputs) {
+      return this.controls;
+    }
+    return playerIndex === 0
+      ? this.controls.withoutKeys(this.playerTwoControls.getAllKeys())
+      : this.playerTwoControls;
+  }
+
+  getPlayerInput(playerIndex: number): InputSource {
+    return this.playerInputs?.[playerIndex] ?? this.input;
+  }
+
+  addScore(points: number): void {
+    this.score += points;
+  }
+
+  loseLife(): void {
+    this.lives--;
+    if (this.lives <= 0) {
+      this.gameOver();
+    }
+  }
+
+  gameOver(): void {
+    this.state = GameState.GAME_OVER;
+  }
+
+  // The warp tunnel is a separate bonus stage; skip straight past it
+  enterWarpTunnel(): void {
+    this.gameManager.completeWarpTunnel();
+  }
+}
@@ -0,0 +1,60 @@
+import type {IGameContext} from "../core/GameTypes";
+import type {Achievement} from "../systems/AchievementTracker";
+
+// No-op implementations of the browser-only parts of IGameContext
+
+type SoundService = IGameContext["sound"];
+type ShakeService = IGameContext["shake"];
+type TimeService = IGameContext["time"];
+type AchievementDisplay = IGameContext["achievementUI"];
+
+export class NullSound implements SoundService {
+  playSound(_type: string, _volume?: number, _pitch?: number): void {}
+}
+
+export class NullScreenShake implements ShakeService {
+  shake(_intensity: number, _duration: number): void {}
+}
+
+// Time dilation is a presentation effect, so headless runs always play at 1x
+export class NullTimeScale implements TimeService {
+  freeze(_duration: number, _scale?: number): void {}
+  setScale(_scale: number, _duration?: number): void {}
+  reset(): void {}
+  getScale(): number {
+    return 1;
+  }
+}
+
+export class NullAchievementDisplay implements AchievementDisplay {
+  showAchievement(_achievement: Achievement): void {}
+  showFloatingScore(_points: number, _x: number, _y: number): void {}
+  showKillStreakCounter(_streak: number, _x: number, _y: number): void {}
+  showComboMultiplier(_multiplier: number): void {}
+}
+
+// Canvas stand-in that accepts every drawing call and draws nothing
+export function createNullRenderingContext(): CanvasRenderingContext2D {
+  const noop = () => {};
+  const gradient = {addColorStop: noop};
+  return new Proxy({} as CanvasRenderingContext2D, {
+    get(target, property) {
+      if (property in target) {
+        return target[property as keyof CanvasRenderingContext2D];
+      }
+      if (
+        property === "createRadialGradient" ||
+        property === "createLinearGradient"
+      ) {
+        return () => gradient;
+      }
+      if (property === "measureText") {
+        return () => ({width: 0});
+      }
+      return noop;
+    },
+    set(target, property, value) {
+      return Reflect.set(target, property, value);
+    },
+  });
+}
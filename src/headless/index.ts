@@ -0,0 +1,15 @@
+// Entry point for the Node build (npm run build:headless)
+export {HeadlessGame, ScriptedInput} from "./HeadlessGame";
+export type {
+  HeadlessGameOptions,
+  HeadlessPolicy,
+  HeadlessRunResult,
+} from "./HeadlessGame";
+export {idlePolicy, spinAndShootPolicy} from "./policies";
+export {runNetPeer} from "./netPeer";
+export type {NetPeerResult} from "./netPeer";
+export {NetSession} from "../net/NetSession";
+export {RELAY_DEFAULT_PORT} from "../net/NetProtocol";
+export {DEFAULT_BINDINGS} from "../systems/ControlBindings";
+export {DifficultyLevel} from "../systems/DifficultyManager";
+export {GameMode} from "../core/GameTypes";
@@ -0,0 +1,77 @@
+import {GameMode, GameState} from "../core/GameTypes";
+import {NET_FRAME_TIME} from "../net/NetProtocol";
+import type {NetSession} from "../net/NetSession";
+import {NetSessionStatus} from "../net/NetSession";
+import type {HeadlessPolicy, HeadlessRunResult} from "./HeadlessGame";
+import {HeadlessGame, ScriptedInput} from "./HeadlessGame";
+
+export interface NetPeerResult extends HeadlessRunResult {
+  playerIndex: number;
+  checksum: number; // Final state fingerprint; matches on both peers when in sync
+  desyncFrame: number | null;
+  disconnected: string | null; // Why the session ended early, if it did
+}
+
+/**
+ * Play one side of an online co-op game without a browser: wait for the
+ * host's setup, then step in lockstep with the other player until game over
+ * or the frame limit
+ */
+export async function runNetPeer(
+  session: NetSession,
+  policy: HeadlessPolicy,
+  maxFrames: number
+): Promise<NetPeerResult> {
+  while (!session.isRunning()) {
+    if (session.getStatus() === NetSessionStatus.CLOSED) {
+      throw new Error(session.getCloseReason());
+    }
+    await session.waitForMessage();
+  }
+
+  const setup = session.getSetup()!;
+  const game = new HeadlessGame({
+    width: setup.canvasWidth,
+    height: setup.canvasHeight,
+    difficulty: setup.difficulty,
+    mode: GameMode.COOP,
+    friendlyFire: setup.friendlyFire,
+    playerInputs: setup.bindings.map((_, i) => session.getInput(i)),
+  });
+  game.start(setup.seed);
+
+  const localInput = new ScriptedInput();
+  let queuedFrames = 0;
+  let disconnected: string | null = null;
+
+  while (
+    game.state === GameState.PLAYING &&
+    game.getResult().frames < maxFrames
+  ) {
+    // Keep our input flowing ahead of the simulation
+    while (queuedFrames < maxFrames) {
+      localInput.setKeys(policy(game, queuedFrames));
+      if (!session.sendInput(localInput.getSnapshot())) break;
+      localInput.clearPressed();
+      queuedFrames++;
+    }
+
+    if (session.advance()) {
+      game.step(NET_FRAME_TIME);
+      session.reportChecksum(game.gameManager.stateChecksum);
+    } else if (session.getStatus() === NetSessionStatus.CLOSED) {
+      disconnected = session.getCloseReason();
+      break;
+    } else {
+      await session.waitForMessage();
+    }
+  }
+
+  return {
+    ...game.getResult(),
+    playerIndex: session.getPlayerIndex(),
+    checksum: game.gameManager.stateChecksum,
+    desyncFrame: session.getDesyncFrame(),
+    disconnected,
+  };
+}
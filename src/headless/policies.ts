@@ -0,0 +1,13 @@
+import type {HeadlessPolicy} from "./HeadlessGame";
+
+// Holds no keys; the ship drifts until something hits it
+export const idlePolicy: HeadlessPolicy = () => [];
+
+// Turns in place firing constantly, with short thrust bursts to dodge
+export const spinAndShootPolicy: HeadlessPolicy = (_game, frame) => {
+  const keys = ["ArrowLeft", "Space"];
+  if (frame % 180 < 20) {
+    keys.push("ArrowUp");
+  }
+  return keys;
+};
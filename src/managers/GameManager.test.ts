@@ -0,0 +1,117 @@
+import {beforeEach, describe, expect, it} from "vitest";
+import {HeadlessGame} from "../headless/HeadlessGame";
+import {Enemy, EnemyType} from "../entities/Enemy";
+import {Asteroid, AsteroidSize} from "../entities/Asteroid";
+import {PowerUpType} from "../entities/PowerUp";
+import {Vector2Utils} from "../utils/Vector2";
+
+// A quiet playfield: no asteroids or enemies but the ones a test puts there
+function clearField(game: HeadlessGame): void {
+  game.gameManager["asteroids"] = [];
+  game.gameManager["enemies"] = [];
+}
+
+// Somewhere straight ahead of the ship
+function ahead(game: HeadlessGame, distance: number) {
+  const ship = game.gameManager.currentPlayers[0].spaceship;
+  if (!ship) throw new Error("No ship");
+  return Vector2Utils.add(
+    ship.position,
+    Vector2Utils.fromAngle(ship.rotation, distance)
+  );
+}
+
+// A stunned enemy straight ahead, holding still for the shot
+function enemyAhead(
+  game: HeadlessGame,
+  type: EnemyType,
+  distance: number
+): Enemy {
+  const enemy = new Enemy(
+    ahead(game, distance),
+    type,
+    1,
+    game.gameManager.random
+  );
+  enemy.stun(5000);
+  return enemy;
+}
+
+// Fire one shot and let it fly
+function fireOnce(game: HeadlessGame, frames: number): void {
+  game.step(16, ["Space"]);
+  for (let i = 0; i < frames; i++) game.step(16, []);
+}
+
+describe("GameManager shots", () => {
+  let game: HeadlessGame;
+
+  beforeEach(() => {
+    game = new HeadlessGame({width: 1280, height: 720});
+    game.start(1);
+    clearField(game);
+  });
+
+  it("kills a 3 HP bomber with one railgun slug that flies on", () => {
+    game.gameManager.currentWeaponSystem.addPowerUp(PowerUpType.RAILGUN, 0);
+    const near = enemyAhead(game, EnemyType.BOMBER, 80);
+    const far = enemyAhead(game, EnemyType.BOMBER, 200);
+    game.gameManager["enemies"] = [near, far];
+
+    fireOnce(game, 12);
+    expect(game.gameManager["enemies"]).not.toContain(near);
+    expect(game.gameManager["enemies"]).not.toContain(far);
+  });
+
+  it("needs three blaster shots for the same bomber", () => {
+    const bomber = enemyAhead(game, EnemyType.BOMBER, 80);
+    game.gameManager["enemies"] = [bomber];
+
+    fireOnce(game, 16);
+    expect(game.gameManager["enemies"]).toContain(bomber);
+    expect(game.gameManager["bullets"]).toHaveLength(0); // Stopped by it
+  });
+
+  it("hits a bomber for 3 with Power Shot II and pierces it", () => {
+    const weapons = game.gameManager.currentWeaponSystem;
+    weapons.addPowerUp(PowerUpType.POWER_SHOT, 5000);
+    weapons.addPowerUp(PowerUpType.POWER_SHOT, 5000);
+    const bomber = enemyAhead(game, EnemyType.BOMBER, 80);
+    const scout = enemyAhead(game, EnemyType.SCOUT, 160);
+    game.gameManager["enemies"] = [bomber, scout];
+
+    fireOnce(game, 30);
+    expect(game.gameManager["enemies"]).toHaveLength(0);
+  });
+
+  it("sends the piercing fan's shots through a whole line", () => {
+    const weapons = game.gameManager.currentWeaponSystem;
+    weapons.addPowerUp(PowerUpType.SPREAD_SHOT, 5000);
+    weapons.addPowerUp(PowerUpType.POWER_SHOT, 5000);
+    const line = [60, 120, 180].map((distance) =>
+      enemyAhead(game, EnemyType.SCOUT, distance)
+    );
+    game.gameManager["enemies"] = [...line];
+
+    fireOnce(game, 30);
+    expect(game.gameManager["enemies"]).toHaveLength(0);
+  });
+
+  it("passes through an asteroid without hitting its fragments", () => {
+    game.gameManager.currentWeaponSystem.addPowerUp(PowerUpType.RAILGUN, 0);
+    const rock = new Asteroid(
+      ahead(game, 100),
+      {x: 0, y: 0},
+      AsteroidSize.LARGE
+    );
+    game.gameManager["asteroids"] = [rock];
+
+    fireOnce(game, 4);
+    const sizes = game.gameManager["asteroids"].map((asteroid) =>
+      asteroid.getSize()
+    );
+    expect(sizes.length).toBeGreaterThan(0);
+    expect(sizes.every((size) => size === AsteroidSize.MEDIUM)).toBe(true);
+    expect(game.gameManager["bullets"]).toHaveLength(1);
+  });
+});
@@ -1,52 +1,176 @@
 import type {IGameContext} from "../core/GameTypes";
-import {GameState} from "../core/GameTypes";
+import type {GameObject} from "../core/GameObject";
+import {GameMode, GameState} from "../core/GameTypes";
+import {Player} from "../core/Player";
 import {Spaceship} from "../entities/Spaceship";
 import {Asteroid} from "../entities/Asteroid";
 import {Bullet} from "../entities/Bullet";
-import {PowerUp} from "../entities/PowerUp";
+import {PowerUp, PowerUpType} from "../entities/PowerUp";
+import type {EnemyType} from "../entities/Enemy";
 import {Enemy} from "../entities/Enemy";
 import {HomingMissile} from "../entities/HomingMissile";
 import {Shield} from "../entities/Shield";
 import {Boss, BossType} from "../entities/Boss";
 import {BossProjectile} from "../entities/BossProjectile";
+import {BossLaser} from "../entities/BossLaser";
+import {LaserBeam} from "../entities/LaserBeam";
+import {Mine, MINE_BLAST_RADIUS, MineType} from "../entities/Mine";
+import type {EnemyProjectile} from "../entities/EnemyProjectile";
+import {EnemyWeapon} from "../entities/EnemyProjectile";
+import type {Vector2} from "../utils/Vector2";
 import {Vector2Utils} from "../utils/Vector2";
+import {castRay, wrapRay} from "../utils/Raycast";
+import {Random} from "../utils/Random";
+import {SimulationClock} from "../core/SimulationClock";
 import {ParticleSystem} from "../effects/ParticleSystem";
 import {FloatingTextManager} from "../effects/FloatingText";
-import {WeaponSystem} from "../systems/WeaponSystem";
+import type {WeaponSystem} from "../systems/WeaponSystem";
 import {WaveManager} from "../systems/WaveManager";
+import {
+  EMP_STUN_TIME,
+  PRIMARY_WEAPONS,
+  SECONDARY_WEAPONS,
+  SecondaryWeapon,
+} from "../systems/WeaponModules";
+import {
+  MAGNET_RANGE,
+  POWER_UP_COMBOS,
+  levelName,
+} from "../systems/PowerUpCombos";
+import type {WaveScript} from "../systems/WaveScript";
+import {DEFAULT_WAVE_SCRIPT} from "../systems/WaveScript";
+import {VersusMatch} from "../systems/VersusMatch";
+import {BossRush} from "../systems/BossRush";
+import type {BossMove} from "../systems/BossScript";
+import {BossMoveType, MAX_MINIONS} from "../systems/BossScript";
+import {
+  GameVariant,
+  SURVIVAL_MAX_ASTEROIDS,
+  SURVIVAL_POINTS_PER_SECOND,
+  TIME_ATTACK_DURATION,
+  getSurvivalSpawnInterval,
+} from "../systems/GameVariant";
+import type {SectorObjective} from "../systems/Campaign";
+import {
+  FAST_ENEMY_SPEED,
+  GameModifier,
+  allowsPowerUp,
+  doubleEnemies,
+} from "../systems/GameModifiers";
+import {GameAction} from "../systems/ControlBindings";
+
+const LEVIATHAN_PULL_RANGE = 260;
+const LEVIATHAN_PULL = 120; // Pixels per second, per second
+const LEVIATHAN_SPIT_SPEED = 260;
+const LEVIATHAN_FEED_INTERVAL = 4000;
+const LEVIATHAN_MAX_FOOD = 4;
+const MINE_SCORE = 25;
+const ENEMY_SHOT_SCORE = 10; // For shooting one down
+const PLAYER_MINE_DAMAGE = 3;
+const BEAM_BOSS_DAMAGE = 5; // Per point of beam damage, each tick
+const BULLET_BOSS_DAMAGE = 10; // Per point of bullet damage
+
+// Sound and pitch for each enemy weapon
+const ENEMY_FIRE_SOUNDS: Record<EnemyWeapon, [string, number]> = {
+  [EnemyWeapon.PLASMA_BOLT]: ["shoot", 0.7],
+  [EnemyWeapon.HOMING_ORB]: ["homingMissile", 0.6],
+  [EnemyWeapon.SPREAD_BURST]: ["shoot", 0.5],
+  [EnemyWeapon.CHARGED_BEAM]: ["shield", 1.5],
+};
 
 export class GameManager {
   private game: IGameContext;
-  private spaceship: Spaceship | null = null;
+  private mode: GameMode = GameMode.SINGLE;
+  private players: Player[];
   private asteroids: Asteroid[] = [];
   private bullets: Bullet[] = [];
+  private laserBeams: LaserBeam[] = []; // Cast afresh every frame
   private powerUps: PowerUp[] = [];
   private enemies: Enemy[] = [];
   private homingMissiles: HomingMissile[] = [];
   private boss: Boss | null = null;
   private bossProjectiles: BossProjectile[] = [];
-  private shield: Shield | null = null;
-  private weaponSystem: WeaponSystem = new WeaponSystem();
-  private waveManager: WaveManager = new WaveManager();
+  private bossLasers: BossLaser[] = [];
+  private minions: Set<Enemy> = new Set(); // Summoned, so not part of a wave
+  private mines: Mine[] = []; // Laid by bombers and minelayers
+  private enemyShots: EnemyProjectile[] = [];
+  private rng: Random = new Random();
+  private clock: SimulationClock = new SimulationClock();
+  private waveScript: WaveScript = DEFAULT_WAVE_SCRIPT;
+  private objective: SectorObjective | null = null; // Campaign runs only
+  private modifiers: readonly GameModifier[] = [];
+  private variant: GameVariant = GameVariant.CLASSIC;
+  private survivalSpawnTimer: number = 0;
+  private survivedSeconds: number = 0; // Already scored in Survival
+  private bossRush: BossRush | null = null;
+  private bossRushEndTimer: number = 0; // Lets the last boss explode first
+  private bossesFought: number = 0;
+  private leviathanFeedTimer: number = 0;
+  private waveManager: WaveManager = new WaveManager(this.rng);
   private particleSystem: ParticleSystem = new ParticleSystem();
   private floatingTextManager: FloatingTextManager = new FloatingTextManager();
   private spawnTimer: number = 0;
-  private respawnTimer: number = 0;
-  private isRespawning: boolean = false;
   private powerUpSpawnTimer: number = 0;
   private bossIntroTimer: number = 0;
   private showingBossIntro: boolean = false;
   private infiniteLives: boolean = false;
+  private versusMatch: VersusMatch | null = null;
+  private roundBreakTimer: number = 0; // Pause between versus rounds
 
   constructor(game: IGameContext) {
     this.game = game;
+    this.players = [new Player(0, game.controls, this.clock)];
   }
 
-  startNewGame(): void {
+  // Used from the next startNewGame on
+  setWaveScript(script: WaveScript): void {
+    this.waveScript = script;
+  }
+
+  // Goal for the next campaign run, or null for an endless game
+  setObjective(objective: SectorObjective | null): void {
+    this.objective = objective;
+  }
+
+  // Used from the next startNewGame on
+  setModifiers(modifiers: readonly GameModifier[]): void {
+    this.modifiers = modifiers;
+  }
+
+  // Used from the next startNewGame on
+  setVariant(variant: GameVariant): void {
+    this.variant = variant;
+  }
+
+  private hasModifier(modifier: GameModifier): boolean {
+    return this.modifiers.includes(modifier);
+  }
+
+  // Passing the same seed (with the same input sequence) reproduces a run exactly
+  startNewGame(seed: number = Random.createSeed()): void {
+    this.rng.reset(seed);
+    this.waveManager = new WaveManager(
+      this.rng,
+      this.hasModifier(GameModifier.DOUBLE_ENEMIES)
+        ? doubleEnemies(this.waveScript)
+        : this.waveScript
+    );
+    this.mode = this.game.mode;
+    if (
+      this.hasModifier(GameModifier.ONE_LIFE) ||
+      this.variant === GameVariant.SURVIVAL
+    ) {
+      this.game.lives = 1;
+    }
     this.resetGame();
-    this.spawnSpaceship();
-    this.spawnInitialAsteroids();
-    this.waveManager.startWave(1); // Start the first enemy wave
+    this.players.forEach((player) => this.spawnSpaceship(player));
+    if (this.hasAsteroidField) {
+      this.spawnInitialAsteroids();
+    }
+    if (this.hasWaves) {
+      this.waveManager.startWave(1); // Start the first enemy wave
+      this.spawnWaveExtras();
+    }
   }
 
   public completeWarpTunnel(): void {
@@ -72,32 +196,137 @@ export class GameManager {
   }
 
   private resetGame(): void {
-    this.spaceship = null;
+    const playerCount = this.mode === GameMode.SINGLE ? 1 : 2;
+    this.players = [];
+    for (let i = 0; i < playerCount; i++) {
+      const player = new Player(i, this.game.getPlayerControls(i), this.clock);
+      player.lives = this.game.lives;
+      if (this.hasModifier(GameModifier.SPREAD_SHOT_ONLY)) {
+        player.weaponSystem.lockWeapon(PowerUpType.SPREAD_SHOT);
+      }
+      this.players.push(player);
+    }
     this.asteroids = [];
     this.bullets = [];
+    this.laserBeams = [];
     this.powerUps = [];
     this.enemies = [];
     this.homingMissiles = [];
     this.boss = null;
     this.bossProjectiles = [];
-    this.shield = null;
+    this.bossLasers = [];
+    this.minions.clear();
+    this.mines = [];
+    this.enemyShots = [];
     this.bossIntroTimer = 0;
     this.showingBossIntro = false;
-    this.weaponSystem.reset();
     this.particleSystem.clear();
     this.floatingTextManager.clear();
+    this.clock.reset();
+    this.game.achievements.resetStreaks();
     this.spawnTimer = 0;
-    this.respawnTimer = 0;
-    this.isRespawning = false;
     this.powerUpSpawnTimer = 0;
+    this.versusMatch = this.isVersus ? new VersusMatch(playerCount) : null;
+    this.roundBreakTimer = 0;
+    this.survivalSpawnTimer = 0;
+    this.survivedSeconds = 0;
+    this.bossRush =
+      this.variant === GameVariant.BOSS_RUSH ? new BossRush() : null;
+    this.bossRushEndTimer = 0;
+    this.bossesFought = 0;
+    this.leviathanFeedTimer = 0;
   }
 
-  private spawnSpaceship(): void {
-    const centerX = this.game.canvasWidth / 2;
-    const centerY = this.game.canvasHeight / 2;
-    this.spaceship = new Spaceship({x: centerX, y: centerY});
-    this.spaceship.makeInvulnerable(); // Add invulnerability period when spawning
-    this.isRespawning = false;
+  private get isCoop(): boolean {
+    return this.mode === GameMode.COOP;
+  }
+
+  private get isVersus(): boolean {
+    return this.mode === GameMode.VERSUS;
+  }
+
+  // Versus, Survival and Boss Rush have no enemy waves
+  private get hasWaves(): boolean {
+    return (
+      !this.isVersus &&
+      this.variant !== GameVariant.SURVIVAL &&
+      this.variant !== GameVariant.BOSS_RUSH
+    );
+  }
+
+  // Boss rush is fought in open space
+  private get hasAsteroidField(): boolean {
+    return this.variant !== GameVariant.BOSS_RUSH;
+  }
+
+  // Ships start side by side around the center of the playfield;
+  // versus opponents start at opposite ends facing each other
+  private getSpawnPosition(player: Player): Vector2 {
+    if (this.isVersus) {
+      return {
+        x: (this.game.canvasWidth * (1 + 2 * player.index)) / 4,
+        y: this.game.canvasHeight / 2,
+      };
+    }
+
+    const offset = (player.index - (this.players.length - 1) / 2) * 160;
+    return {
+      x: this.game.canvasWidth / 2 + offset,
+      y: this.game.canvasHeight / 2,
+    };
+  }
+
+  private spawnSpaceship(player: Player): void {
+    player.spaceship = new Spaceship(
+      this.getSpawnPosition(player),
+      player.color
+    );
+    if (this.isVersus && player.index === 1) {
+      player.spaceship.rotation = Math.PI;
+    }
+    player.spaceship.makeInvulnerable(); // Add invulnerability period when spawning
+    player.isRespawning = false;
+  }
+
+  // Ships of everyone except the given player
+  private getOpponentShips(player: Player): Spaceship[] {
+    return this.players
+      .filter((other) => other !== player && other.activeShip)
+      .map((other) => other.activeShip!);
+  }
+
+  // Ships currently in play
+  private getShips(): Spaceship[] {
+    const ships: Spaceship[] = [];
+    for (const player of this.players) {
+      if (player.spaceship) ships.push(player.spaceship);
+    }
+    return ships;
+  }
+
+  private findNearestShip(position: Vector2): Spaceship | null {
+    let nearest: Spaceship | null = null;
+    let nearestDistance = Infinity;
+    for (const ship of this.getShips()) {
+      const distance = Vector2Utils.distance(position, ship.position);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = ship;
+      }
+    }
+    return nearest;
+  }
+
+  // Points count toward the shared score and the scoring player's own total;
+  // versus is decided on kills alone and survival on time
+  private awardScore(playerIndex: number, points: number): void {
+    if (this.isVersus || this.variant === GameVariant.SURVIVAL) return;
+
+    const player = this.players[playerIndex];
+    if (player) {
+      player.score += points;
+    }
+    this.game.addScore(points);
   }
 
   private spawnInitialAsteroids(): void {
@@ -114,121 +343,236 @@ export class GameManager {
     };
 
     for (let i = 0; i < numAsteroids; i++) {
-      const asteroid = Asteroid.createRandom(
+      let asteroid = Asteroid.createRandom(
         this.game.canvasWidth,
         this.game.canvasHeight,
         safeZone,
-        settings.asteroidSpeedMultiplier
+        settings.asteroidSpeedMultiplier,
+        this.rng
       );
+      // Versus ships sit away from the center, so keep new rocks clear of them
+      for (
+        let attempts = 0;
+        this.isVersus &&
+        attempts < 10 &&
+        !this.isClearOfShips(asteroid.position, 150);
+        attempts++
+      ) {
+        asteroid = Asteroid.createRandom(
+          this.game.canvasWidth,
+          this.game.canvasHeight,
+          safeZone,
+          settings.asteroidSpeedMultiplier,
+          this.rng
+        );
+      }
       this.asteroids.push(asteroid);
     }
   }
 
+  // Extra rocks and power-ups a scripted wave brings with it
+  private spawnWaveExtras(): void {
+    const config = this.waveManager.getCurrentWaveConfig();
+    if (!config) return;
+    const settings = this.game.difficulty.getCurrentSettings();
+    const width = this.game.canvasWidth;
+    const height = this.game.canvasHeight;
+
+    for (const placed of config.placedAsteroids) {
+      this.asteroids.push(
+        new Asteroid(
+          {x: placed.position.x * width, y: placed.position.y * height},
+          Vector2Utils.multiply(
+            placed.velocity,
+            settings.asteroidSpeedMultiplier
+          ),
+          placed.size,
+          this.rng
+        )
+      );
+    }
+    for (const placed of config.powerUps) {
+      if (!allowsPowerUp(this.modifiers, placed.type)) continue;
+      this.powerUps.push(
+        new PowerUp(
+          {x: placed.position.x * width, y: placed.position.y * height},
+          placed.type,
+          this.rng
+        )
+      );
+    }
+
+    for (let i = 0; i < config.asteroids; i++) {
+      this.spawnDriftingAsteroid();
+    }
+  }
+
+  // A large asteroid drifting in from the edge, kept clear of the ships
+  private spawnDriftingAsteroid(): void {
+    const settings = this.game.difficulty.getCurrentSettings();
+    let asteroid = Asteroid.createRandom(
+      this.game.canvasWidth,
+      this.game.canvasHeight,
+      undefined,
+      settings.asteroidSpeedMultiplier,
+      this.rng
+    );
+    for (
+      let attempts = 0;
+      attempts < 10 && !this.isClearOfShips(asteroid.position, 150);
+      attempts++
+    ) {
+      asteroid = Asteroid.createRandom(
+        this.game.canvasWidth,
+        this.game.canvasHeight,
+        undefined,
+        settings.asteroidSpeedMultiplier,
+        this.rng
+      );
+    }
+    this.asteroids.push(asteroid);
+  }
+
+  private isClearOfShips(position: Vector2, radius: number): boolean {
+    return this.getShips().every(
+      (ship) => Vector2Utils.distance(position, ship.position) >= radius
+    );
+  }
+
   update(deltaTime: number): void {
     if (this.game.state !== GameState.PLAYING) return;
 
+    // Advance simulation time
+    this.clock.advance(deltaTime);
+    this.objective?.update(deltaTime);
+
+    // Time Attack ends when the clock runs out
+    if (this.timeLeft === 0) {
+      this.game.gameOver();
+      return;
+    }
+
     // Update achievement tracker for combo decay
-    this.game.achievements.update(deltaTime, Date.now());
+    this.game.achievements.update(deltaTime, this.clock.now());
+
+    // Hold the arena between versus rounds
+    if (this.versusMatch && this.versusMatch.isRoundOver()) {
+      this.particleSystem.update(deltaTime);
+      this.floatingTextManager.update(deltaTime);
+      this.roundBreakTimer += deltaTime;
+      if (this.roundBreakTimer >= 3000) {
+        this.finishRound();
+      }
+      return;
+    }
 
     // Handle respawning
-    if (this.isRespawning) {
-      this.respawnTimer += deltaTime;
-      if (this.respawnTimer >= 3000) {
+    for (const player of this.players) {
+      if (!player.isRespawning) continue;
+
+      player.respawnTimer += deltaTime;
+      if (player.respawnTimer >= 3000) {
         // 3 second respawn delay
-        if (this.canSpawnSafely()) {
-          this.spawnSpaceship();
+        const spawnPosition = this.getSpawnPosition(player);
+        const opponents = this.isVersus ? this.getOpponentShips(player) : [];
+        if (this.canSpawnSafely(spawnPosition, opponents)) {
+          this.spawnSpaceship(player);
         } else {
-          this.respawnTimer = 2500; // Try again soon
+          player.respawnTimer = 2500; // Try again soon
         }
       }
     }
 
-    // Update spaceship
-    if (this.spaceship) {
-      this.handleInput();
-      this.spaceship.update(
+    // Update spaceships; beams are cast once the ship has moved, so they
+    // stay on its nose
+    this.laserBeams = [];
+    for (const player of this.players) {
+      if (!player.spaceship) continue;
+
+      this.handleInput(player);
+      player.spaceship.update(
         deltaTime,
         this.game.canvasWidth,
         this.game.canvasHeight
       );
+      this.fireBeam(player);
     }
 
-    // Update weapon system
-    this.weaponSystem.update(deltaTime);
-
-    // Update wave manager and spawn enemies
-    const playerPosition = this.spaceship ? this.spaceship.position : undefined;
-    const waveUpdate = this.waveManager.update(
-      deltaTime,
-      this.game.canvasWidth,
-      this.game.canvasHeight,
-      playerPosition
-    );
-    waveUpdate.enemiesToSpawn.forEach((enemy) => {
-      const settings = this.game.difficulty.getCurrentSettings();
-      const newEnemy = new Enemy(
-        enemy.position,
-        enemy.type,
-        settings.enemySpeedMultiplier
-      );
-      if (this.spaceship) {
-        newEnemy.setTarget(this.spaceship.position);
-      }
-      this.enemies.push(newEnemy);
-    });
+    // Update weapon systems
+    this.players.forEach((player) => player.weaponSystem.update(deltaTime));
 
-    // Check for boss wave
-    if (
-      this.waveManager.shouldSpawnBoss() &&
-      !this.showingBossIntro &&
-      !this.boss
-    ) {
-      this.startBossIntro();
+    if (this.hasWaves) {
+      this.updateWaves(deltaTime);
+    }
+    if (this.variant === GameVariant.SURVIVAL) {
+      this.updateSurvival(deltaTime);
+    }
+    if (this.bossRush) {
+      this.updateBossRush(deltaTime);
     }
 
-    // Update boss intro
-    if (this.showingBossIntro) {
-      this.bossIntroTimer += deltaTime;
-      if (this.bossIntroTimer >= 3000) {
-        // 3 second intro
-        this.spawnBoss();
-        this.showingBossIntro = false;
-        this.bossIntroTimer = 0;
+    // Update enemies; they steer around the players' shots
+    const launches: Array<{
+      carrier: Enemy;
+      type: EnemyType;
+      position: Vector2;
+    }> = [];
+    this.enemies.forEach((enemy) => {
+      const target = this.findNearestShip(enemy.position);
+      if (target) {
+        enemy.setTarget(target.position);
       }
-    }
+      enemy.setThreats(this.bullets);
+      enemy.update(deltaTime, this.game.canvasWidth, this.game.canvasHeight);
 
-    // Update boss
-    if (this.boss) {
-      this.boss.update(
-        deltaTime,
-        this.game.canvasWidth,
-        this.game.canvasHeight
-      );
+      const minePosition = enemy.layMine();
+      if (minePosition) {
+        this.mines.push(new Mine(minePosition, enemy.getMineType()));
+      }
 
-      // Boss attacks
-      if (this.boss.canAttack()) {
-        this.bossAttack();
-        this.boss.resetAttackTimer();
+      const shots = enemy.shoot();
+      if (shots.length > 0) {
+        this.enemyShots.push(...shots);
+        const [sound, pitch] = ENEMY_FIRE_SOUNDS[shots[0].getWeapon()];
+        this.game.sound.playSound(sound, 0.2, pitch);
+      }
+
+      const launch = enemy.launchDrone();
+      if (launch) {
+        launches.push({carrier: enemy, ...launch});
       }
+    });
+
+    // Drones don't count towards the wave, like a boss's summons
+    for (const {carrier, type, position} of launches) {
+      const drone = this.spawnEnemy(position, type);
+      this.minions.add(drone);
+      carrier.addDrone(drone);
     }
 
-    // Update boss projectiles
-    this.bossProjectiles.forEach((proj) => {
-      proj.update(deltaTime, this.game.canvasWidth, this.game.canvasHeight);
+    this.mines.forEach((mine) => {
+      mine.update(deltaTime, this.game.canvasWidth, this.game.canvasHeight);
     });
-    this.bossProjectiles = this.bossProjectiles.filter((proj) => proj.active);
+    this.mines = this.mines.filter((mine) => mine.active);
 
-    // Update enemies
-    this.enemies.forEach((enemy) => {
-      if (this.spaceship) {
-        enemy.setTarget(this.spaceship.position);
-      }
-      enemy.update(deltaTime, this.game.canvasWidth, this.game.canvasHeight);
+    this.enemyShots.forEach((shot) => {
+      shot.setTarget(this.findNearestShip(shot.position)?.position ?? null);
+      shot.update(deltaTime, this.game.canvasWidth, this.game.canvasHeight);
     });
+    this.enemyShots = this.enemyShots.filter((shot) => shot.active);
 
     // Update homing missiles with trail effects
     this.homingMissiles.forEach((missile) => {
-      missile.setTargets([...this.asteroids, ...this.enemies]);
+      // Versus missiles hunt the opposing ship instead of rocks
+      const owner = this.players[missile.getOwner()];
+      missile.setTargets(
+        this.isVersus && owner
+          ? this.getOpponentShips(owner)
+          : [
+              ...this.asteroids,
+              ...this.enemies.filter((enemy) => !enemy.isCloaked()),
+            ]
+      );
       missile.update(deltaTime, this.game.canvasWidth, this.game.canvasHeight);
 
       // Create missile trail particles
@@ -236,13 +580,15 @@ export class GameManager {
       this.particleSystem.createMissileTrail(missile.position, angle);
     });
 
-    // Update shield
-    if (this.shield && this.spaceship) {
-      this.shield.update(
-        deltaTime,
-        this.game.canvasWidth,
-        this.game.canvasHeight
-      );
+    // Update shields
+    for (const player of this.players) {
+      if (player.shield && player.spaceship) {
+        player.shield.update(
+          deltaTime,
+          this.game.canvasWidth,
+          this.game.canvasHeight
+        );
+      }
     }
 
     // Update asteroids
@@ -259,14 +605,18 @@ export class GameManager {
     this.powerUps.forEach((powerUp) => {
       powerUp.update(deltaTime, this.game.canvasWidth, this.game.canvasHeight);
 
-      // Magnet effect - attract power-ups to player
-      if (this.spaceship && this.weaponSystem.hasPowerUp("magnet")) {
-        const dx = this.spaceship.position.x - powerUp.position.x;
-        const dy = this.spaceship.position.y - powerUp.position.y;
+      // Magnet effect - attract power-ups to players holding a magnet
+      for (const player of this.players) {
+        const magnet = player.weaponSystem.getPowerUpLevel("magnet");
+        if (!player.spaceship || magnet === 0) {
+          continue;
+        }
+
+        const dx = player.spaceship.position.x - powerUp.position.x;
+        const dy = player.spaceship.position.y - powerUp.position.y;
         const distance = Math.sqrt(dx * dx + dy * dy);
 
-        if (distance < 300) {
-          // Magnet range
+        if (distance < MAGNET_RANGE[magnet - 1]) {
           const pullStrength = 200; // Pixels per second
           const nx = dx / distance;
           const ny = dy / distance;
@@ -292,12 +642,14 @@ export class GameManager {
       (missile) => missile.active
     );
 
-    // Remove shield if depleted or expired
-    if (
-      this.shield &&
-      (this.shield.getHealth() <= 0 || this.shield.isExpired())
-    ) {
-      this.shield = null;
+    // Remove shields that are depleted or expired
+    for (const player of this.players) {
+      if (
+        player.shield &&
+        (player.shield.getHealth() <= 0 || player.shield.isExpired())
+      ) {
+        player.shield = null;
+      }
     }
 
     // Power-up spawning - difficulty adjusted
@@ -313,75 +665,262 @@ export class GameManager {
     this.checkCollisions();
 
     // Check wave completion
-    if (this.enemies.length === 0 && this.waveManager.isWaveComplete()) {
+    if (
+      this.hasWaves &&
+      this.enemies.length === 0 &&
+      this.waveManager.isWaveComplete()
+    ) {
       const bonusScore = this.waveManager.completeWave();
       const currentWave = this.waveManager.getCurrentWave();
 
       // Show wave completion achievement
+      this.objective?.onWaveCleared();
       const achievement = this.game.achievements.onWaveCleared(currentWave);
       this.game.achievementUI.showAchievement(achievement);
       this.game.addScore(achievement.points + bonusScore);
     }
 
-    // Check win condition
-    if (this.asteroids.length === 0) {
-      this.nextLevel();
+    // Check win condition; versus and survival just refill the arena
+    if (this.asteroids.length === 0 && this.hasAsteroidField) {
+      if (this.isVersus || this.variant === GameVariant.SURVIVAL) {
+        this.spawnInitialAsteroids();
+      } else {
+        this.nextLevel();
+      }
     }
 
     // Spawn timer for potential future features
     this.spawnTimer += deltaTime;
   }
 
-  private handleInput(): void {
-    if (!this.spaceship) return;
+  // Survival scores every second survived and keeps adding asteroids,
+  // faster the longer the run lasts
+  private updateSurvival(deltaTime: number): void {
+    const seconds = Math.floor(this.clock.now() / 1000);
+    if (seconds > this.survivedSeconds) {
+      this.game.addScore(
+        (seconds - this.survivedSeconds) * SURVIVAL_POINTS_PER_SECOND
+      );
+      this.survivedSeconds = seconds;
+    }
+
+    this.survivalSpawnTimer += deltaTime;
+    if (this.survivalSpawnTimer >= getSurvivalSpawnInterval(this.clock.now())) {
+      this.survivalSpawnTimer = 0;
+      if (this.asteroids.length < SURVIVAL_MAX_ASTEROIDS) {
+        this.spawnDriftingAsteroid();
+      }
+    }
+  }
+
+  private spawnEnemy(position: Vector2, type: EnemyType): Enemy {
+    const settings = this.game.difficulty.getCurrentSettings();
+    const speed = this.hasModifier(GameModifier.FAST_ENEMIES)
+      ? settings.enemySpeedMultiplier * FAST_ENEMY_SPEED
+      : settings.enemySpeedMultiplier;
+    const enemy = new Enemy(position, type, speed, this.rng);
+    const target = this.findNearestShip(enemy.position);
+    if (target) {
+      enemy.setTarget(target.position);
+    }
+    this.enemies.push(enemy);
+    return enemy;
+  }
+
+  // A formation flies in behind its middle member, heading for the middle
+  // of the screen
+  private formUpSquad(squad: Enemy[]): void {
+    const leader = squad[Math.floor(squad.length / 2)];
+    leader.setHeading(
+      Math.atan2(
+        this.game.canvasHeight / 2 - leader.position.y,
+        this.game.canvasWidth / 2 - leader.position.x
+      )
+    );
+    squad.forEach((enemy) => {
+      if (enemy !== leader) {
+        enemy.joinFormation(leader);
+      }
+    });
+  }
+
+  // Summoned enemies don't count towards the wave
+  private enemyDestroyed(enemy: Enemy): void {
+    if (!this.minions.delete(enemy)) {
+      this.waveManager.enemyDestroyed();
+    }
+  }
+
+  // Enemy waves and their bosses, skipped in versus, survival and boss rush
+  private updateWaves(deltaTime: number): void {
+    // Update wave manager and spawn enemies
+    const firstShip = this.getShips()[0];
+    const playerPosition = firstShip ? firstShip.position : undefined;
+    const waveUpdate = this.waveManager.update(
+      deltaTime,
+      this.game.canvasWidth,
+      this.game.canvasHeight,
+      playerPosition
+    );
+    if (waveUpdate.newWave) {
+      this.spawnWaveExtras();
+    }
+    const squads = new Map<number, Enemy[]>();
+    waveUpdate.enemiesToSpawn.forEach((spawn) => {
+      const enemy = this.spawnEnemy(spawn.position, spawn.type);
+      if (spawn.squad !== undefined) {
+        const squad = squads.get(spawn.squad) ?? [];
+        squad.push(enemy);
+        squads.set(spawn.squad, squad);
+      }
+    });
+    squads.forEach((squad) => this.formUpSquad(squad));
+
+    // Check for boss wave
+    if (
+      this.waveManager.shouldSpawnBoss() &&
+      !this.showingBossIntro &&
+      !this.boss
+    ) {
+      this.startBossIntro();
+    }
+
+    this.updateBoss(deltaTime);
+  }
+
+  // Bosses one after another, then a short pause before the run ends
+  private updateBossRush(deltaTime: number): void {
+    const rush = this.bossRush!;
+    if (rush.isComplete()) {
+      this.bossRushEndTimer += deltaTime;
+      if (this.bossRushEndTimer >= 2000) {
+        this.game.gameOver();
+      }
+      return;
+    }
+
+    if (!this.boss && !this.showingBossIntro) {
+      this.startBossIntro();
+    }
+    this.updateBoss(deltaTime);
+  }
+
+  // Boss intro, movement, attacks, projectiles and lasers
+  private updateBoss(deltaTime: number): void {
+    // Update boss intro
+    if (this.showingBossIntro) {
+      this.bossIntroTimer += deltaTime;
+      if (this.bossIntroTimer >= 3000) {
+        // 3 second intro
+        this.spawnBoss();
+        this.showingBossIntro = false;
+        this.bossIntroTimer = 0;
+      }
+    }
+
+    // Update boss
+    if (this.boss) {
+      this.boss.update(
+        deltaTime,
+        this.game.canvasWidth,
+        this.game.canvasHeight
+      );
+
+      if (this.boss.getType() === BossType.LEVIATHAN) {
+        this.updateLeviathan(deltaTime);
+      }
+
+      // Boss attacks
+      if (this.boss.canAttack()) {
+        this.bossAttack();
+        this.boss.resetAttackTimer();
+      }
+    }
+
+    // Update boss projectiles
+    this.bossProjectiles.forEach((proj) => {
+      proj.update(deltaTime, this.game.canvasWidth, this.game.canvasHeight);
+    });
+    this.bossProjectiles = this.bossProjectiles.filter((proj) => proj.active);
+
+    this.bossLasers.forEach((laser) => {
+      laser.update(deltaTime, this.game.canvasWidth, this.game.canvasHeight);
+    });
+    this.bossLasers = this.bossLasers.filter((laser) => laser.active);
+  }
+
+  private handleInput(player: Player): void {
+    const spaceship = player.spaceship;
+    if (!spaceship) return;
 
-    const input = this.game.input;
+    const input = this.game.getPlayerInput(player.index);
+    const controls = player.controls;
+    const analog = input.getAnalog();
 
-    // Thrust
-    if (input.isKeyDown("ArrowUp") || input.isKeyDown("KeyW")) {
-      this.spaceship.setThrust(1);
+    // Thrust - full power from the binding, partial from the gamepad trigger
+    const thrust = controls.isActionDown(input, GameAction.THRUST)
+      ? 1
+      : analog.trigger;
+    if (thrust > 0) {
+      spaceship.setThrust(thrust);
 
       // Add thrust particles
       const thrustPosition = Vector2Utils.add(
-        this.spaceship.position,
-        Vector2Utils.fromAngle(this.spaceship.rotation + Math.PI, 10)
+        spaceship.position,
+        Vector2Utils.fromAngle(spaceship.rotation + Math.PI, 10)
       );
       this.particleSystem.createThrustParticles(
         thrustPosition,
-        this.spaceship.rotation
+        spaceship.rotation
       );
 
       // Play thrust sound (quieter and with slight pitch variation)
-      this.game.sound.playSound("thrust", 0.3, 0.9 + Math.random() * 0.2);
+      this.game.sound.playSound(
+        "thrust",
+        0.3 * thrust,
+        0.9 + Math.random() * 0.2
+      );
     }
 
     // Turn left
-    if (input.isKeyDown("ArrowLeft") || input.isKeyDown("KeyA")) {
-      this.spaceship.setTurnSpeed(-1);
+    if (controls.isActionDown(input, GameAction.TURN_LEFT)) {
+      spaceship.setTurnSpeed(-1);
     }
 
     // Turn right
-    if (input.isKeyDown("ArrowRight") || input.isKeyDown("KeyD")) {
-      this.spaceship.setTurnSpeed(1);
+    if (controls.isActionDown(input, GameAction.TURN_RIGHT)) {
+      spaceship.setTurnSpeed(1);
+    }
+
+    // Analog stick turns at a proportional rate when no turn key is held
+    if (
+      analog.stickX !== 0 &&
+      !controls.isActionDown(input, GameAction.TURN_LEFT) &&
+      !controls.isActionDown(input, GameAction.TURN_RIGHT)
+    ) {
+      spaceship.setTurnSpeed(analog.stickX);
     }
 
-    // Shoot - continuous firing while holding space
-    if (input.isKeyDown("Space")) {
-      this.shoot();
+    // Shoot - continuous firing while holding the fire key
+    if (controls.isActionDown(input, GameAction.FIRE)) {
+      this.shoot(player);
     }
 
-    // Launch homing missile
-    if (input.isKeyPressed("KeyX")) {
-      this.launchHomingMissile();
+    // Secondary weapon, and switching guns
+    if (controls.isActionPressed(input, GameAction.MISSILE)) {
+      this.fireSecondary(player);
+    }
+    if (controls.isActionPressed(input, GameAction.CYCLE_WEAPON)) {
+      this.cycleWeapon(player);
     }
 
     // Activate shield manually
-    if (input.isKeyPressed("KeyQ")) {
-      this.activateShield();
+    if (controls.isActionPressed(input, GameAction.SHIELD)) {
+      this.activateShield(player);
     }
 
-    // Toggle infinite lives cheat (I key)
-    if (input.isKeyPressed("KeyI")) {
+    // Toggle infinite lives cheat (I key), read once per frame
+    if (player.index === 0 && input.isKeyPressed("KeyI")) {
       this.infiniteLives = !this.infiniteLives;
       const message = this.infiniteLives
         ? "INFINITE LIVES ON"
@@ -396,54 +935,64 @@ export class GameManager {
     }
   }
 
-  private activateShield(): void {
-    if (!this.spaceship || !this.spaceship.active || this.shield) return;
+  private activateShield(player: Player): void {
+    const spaceship = player.activeShip;
+    if (!spaceship || player.shield) return;
+    if (this.hasModifier(GameModifier.NO_SHIELDS)) return;
 
     // Create shield with longer duration for manual activation
-    this.shield = new Shield(this.spaceship, 20000); // 20 seconds for manual activation
+    player.shield = new Shield(spaceship, 20000); // 20 seconds for manual activation
     this.game.sound.playSound("shield", 0.5);
-    this.particleSystem.createPowerUpEffect(this.spaceship.position, "#00ffff");
+    this.particleSystem.createPowerUpEffect(spaceship.position, "#00ffff");
   }
 
   private spawnPowerUp(): void {
     // Random spawn chance to balance gameplay
-    if (Math.random() > 0.7) return; // 30% chance to spawn
+    if (this.rng.next() > 0.7) return; // 30% chance to spawn
 
     // Random power-up type
-    const types = [
-      "rapidFire",
-      "tripleShot",
-      "spreadShot",
-      "powerShot",
-      "shield",
-      "hyperspace",
-      "slowMotion",
-      "homingMissile",
-      "nuke",
-      "magnet",
-      "invincibility",
-    ] as const;
-    const randomType = types[Math.floor(Math.random() * types.length)];
+    const types = (
+      [
+        "rapidFire",
+        "tripleShot",
+        "spreadShot",
+        "powerShot",
+        "shield",
+        "hyperspace",
+        "slowMotion",
+        "homingMissile",
+        "nuke",
+        "magnet",
+        "invincibility",
+        "laser",
+        "flak",
+        "railgun",
+        "weaponUpgrade",
+        "mines",
+        "emp",
+      ] as const
+    ).filter((type) => allowsPowerUp(this.modifiers, type));
+    if (types.length === 0) return; // Modifiers can rule out every drop
+    const randomType = this.rng.pick(types);
 
     // Spawn away from player to avoid instant pickup
     const margin = 150;
-    const x = Math.random() * (this.game.canvasWidth - margin * 2) + margin;
-    const y = Math.random() * (this.game.canvasHeight - margin * 2) + margin;
-
-    // Ensure minimum distance from player
-    if (this.spaceship) {
-      const dx = x - this.spaceship.position.x;
-      const dy = y - this.spaceship.position.y;
+    const x = this.rng.next() * (this.game.canvasWidth - margin * 2) + margin;
+    const y = this.rng.next() * (this.game.canvasHeight - margin * 2) + margin;
+
+    // Ensure minimum distance from players
+    const nearestShip = this.findNearestShip({x, y});
+    if (nearestShip) {
+      const dx = x - nearestShip.position.x;
+      const dy = y - nearestShip.position.y;
       const distance = Math.sqrt(dx * dx + dy * dy);
 
       if (distance < 200) {
         // Try again with better positioning
-        const angle = Math.random() * Math.PI * 2;
-        const spawnDistance = 250 + Math.random() * 150;
-        const newX =
-          this.spaceship.position.x + Math.cos(angle) * spawnDistance;
-        const newY =
-          this.spaceship.position.y + Math.sin(angle) * spawnDistance;
+        const angle = this.rng.angle();
+        const spawnDistance = 250 + this.rng.next() * 150;
+        const newX = nearestShip.position.x + Math.cos(angle) * spawnDistance;
+        const newY = nearestShip.position.y + Math.sin(angle) * spawnDistance;
 
         // Keep within bounds
         const clampedX = Math.max(
@@ -455,82 +1004,86 @@ export class GameManager {
           Math.min(this.game.canvasHeight - 50, newY)
         );
 
-        this.powerUps.push(new PowerUp({x: clampedX, y: clampedY}, randomType));
+        this.powerUps.push(
+          new PowerUp({x: clampedX, y: clampedY}, randomType, this.rng)
+        );
       } else {
-        this.powerUps.push(new PowerUp({x, y}, randomType));
+        this.powerUps.push(new PowerUp({x, y}, randomType, this.rng));
       }
     } else {
-      this.powerUps.push(new PowerUp({x, y}, randomType));
+      this.powerUps.push(new PowerUp({x, y}, randomType, this.rng));
     }
   }
 
   private spawnPowerUpAt(x: number, y: number): void {
     // Random power-up type
-    const types = [
-      "rapidFire",
-      "tripleShot",
-      "spreadShot",
-      "powerShot",
-      "shield",
-      "hyperspace",
-      "slowMotion",
-      "homingMissile",
-    ] as const;
-    const randomType = types[Math.floor(Math.random() * types.length)];
+    const types = (
+      [
+        "rapidFire",
+        "tripleShot",
+        "spreadShot",
+        "powerShot",
+        "shield",
+        "hyperspace",
+        "slowMotion",
+        "homingMissile",
+        "laser",
+        "flak",
+        "railgun",
+        "weaponUpgrade",
+        "mines",
+        "emp",
+      ] as const
+    ).filter((type) => allowsPowerUp(this.modifiers, type));
+    if (types.length === 0) return;
+    const randomType = this.rng.pick(types);
 
     // Spawn at the specified position (like where an asteroid was destroyed)
-    this.powerUps.push(new PowerUp({x, y}, randomType));
+    this.powerUps.push(new PowerUp({x, y}, randomType, this.rng));
   }
 
-  private handleSpecialPowerUps(config: any): void {
-    if (!this.spaceship) return;
+  private handleSpecialPowerUps(config: any, player: Player): void {
+    const spaceship = player.spaceship;
+    if (!spaceship) return;
 
     switch (config.type) {
       case "shield":
-        if (!this.shield) {
-          this.shield = new Shield(this.spaceship, 15000); // 15 second duration
+        if (!player.shield) {
+          player.shield = new Shield(spaceship, 15000); // 15 second duration
           this.game.sound.playSound("shield", 0.5);
           this.particleSystem.createPowerUpEffect(
-            this.spaceship.position,
+            spaceship.position,
             "#00ffff"
           );
         }
         break;
 
       case "hyperspace":
-        this.performHyperspace();
+        this.performHyperspace(player);
         break;
 
       case "slowMotion":
         this.game.sound.playSound("slowMotion", 0.4);
-        this.particleSystem.createPowerUpEffect(
-          this.spaceship.position,
-          "#ffff00"
-        );
+        this.particleSystem.createPowerUpEffect(spaceship.position, "#ffff00");
         break;
 
       case "nuke":
-        this.activateNuke();
+        this.activateNuke(player);
         break;
 
       case "magnet":
-        this.weaponSystem.addPowerUp("magnet", 12000); // Store magnet state in weapon system
+        player.weaponSystem.addPowerUp("magnet", 12000); // Store magnet state in weapon system
         break;
 
       case "invincibility":
-        if (this.spaceship) {
-          this.spaceship.makeInvulnerable(8000); // 8 seconds of invincibility
-          this.game.sound.playSound("powerUp", 0.7, 1.5);
-          this.particleSystem.createPowerUpEffect(
-            this.spaceship.position,
-            "#ffdd00"
-          );
-        }
+        spaceship.makeInvulnerable(8000); // 8 seconds of invincibility
+        this.game.sound.playSound("powerUp", 0.7, 1.5);
+        this.particleSystem.createPowerUpEffect(spaceship.position, "#ffdd00");
         break;
     }
   }
 
-  private activateNuke(): void {
+  private activateNuke(player: Player): void {
     // Destroy all asteroids on screen
     const asteroidsDestroyed = this.asteroids.length;
 
@@ -541,7 +1094,7 @@ export class GameManager {
       const score = this.game.difficulty.getScoreValue(
         baseScore * comboMultiplier
       );
-      this.game.addScore(score);
+      this.awardScore(player.index, score);
 
       // Create explosion effects
       this.particleSystem.createExplosion(
@@ -573,25 +1126,34 @@ export class GameManager {
     this.bossIntroTimer = 0;
     // Clear enemies to make space for boss
     this.enemies = [];
+    this.minions.clear();
+    this.mines = [];
+    this.enemyShots = [];
   }
 
   private spawnBoss(): void {
-    const wave = this.waveManager.getCurrentWave();
-    let bossType: BossType;
-
-    // Cycle through boss types
-    if (wave % 15 === 0) {
-      bossType = BossType.FORTRESS;
-    } else if (wave % 10 === 0) {
-      bossType = BossType.SWARM_COMMANDER;
-    } else {
-      bossType = BossType.MOTHERSHIP;
-    }
-
-    const centerX = this.game.canvasWidth / 2;
-    const centerY = this.game.canvasHeight / 2;
-
-    this.boss = new Boss({x: centerX, y: centerY}, bossType);
+    // Boss rush brings its own bosses, one tier tougher each time. Once
+    // the script starts repeating, its boss waves bring every boss in turn
+    // (campaign sectors keep the boss their goal names)
+    const looped =
+      this.waveManager.getCurrentWave() > this.waveScript.waves.length &&
+      !this.objective;
+    const rotation = Object.values(BossType);
+    const bossType =
+      this.bossRush?.getCurrentBoss() ??
+      (looped ? rotation[this.bossesFought % rotation.length] : null) ??
+      this.waveManager.getBossType() ??
+      BossType.MOTHERSHIP;
+    const tier = this.bossRush?.getTier() ?? 0;
+    this.bossesFought++;
+    this.leviathanFeedTimer = 0;
+
+    // Scripts can place the boss; otherwise it appears in the center
+    const placed = this.waveManager.getCurrentWaveConfig()?.bossPosition;
+    const centerX = this.game.canvasWidth * (placed ? placed.x : 0.5);
+    const centerY = this.game.canvasHeight * (placed ? placed.y : 0.5);
+
+    this.boss = new Boss({x: centerX, y: centerY}, bossType, this.rng, tier);
     this.waveManager.markBossSpawned();
 
     // Sound and effects
@@ -605,37 +1167,200 @@ export class GameManager {
     );
   }
 
+  // Carry out the next move of the boss's current phase
   private bossAttack(): void {
     if (!this.boss) return;
 
-    const patterns = this.boss.getAttackPattern();
-    const color =
-      this.boss.getType() === BossType.MOTHERSHIP
-        ? "#ff00ff"
-        : this.boss.getType() === BossType.FORTRESS
-        ? "#00ffff"
-        : "#ffff00";
-
-    patterns.forEach((direction) => {
-      const projectile = new BossProjectile(
-        {x: this.boss!.position.x, y: this.boss!.position.y},
-        direction,
-        color
-      );
-      this.bossProjectiles.push(projectile);
-    });
+    const move = this.boss.nextMove();
+    const target = this.findNearestShip(this.boss.position);
+    switch (move.type) {
+      case BossMoveType.LASER_SWEEP:
+        this.bossLaserSweep(move, target ? target.position : null);
+        break;
+      case BossMoveType.SUMMON:
+        this.summonMinions(move.enemy, move.count);
+        break;
+      case BossMoveType.SPIT_ASTEROIDS:
+        this.spitAsteroids(move.count, target ? target.position : null);
+        break;
+      default:
+        this.bossFire(move, target ? target.position : null);
+        break;
+    }
+  }
+
+  private bossFire(move: BossMove, target: Vector2 | null): void {
+    const boss = this.boss!;
+    // Core bursts come from each core, everything else from the middle
+    const origins =
+      move.type === BossMoveType.CORE_BURST
+        ? boss.getFiringPoints()
+        : [boss.position];
+    for (const origin of origins) {
+      boss.getMoveDirections(move, target, origin).forEach((direction) => {
+        const projectile = new BossProjectile(
+          {x: origin.x, y: origin.y},
+          direction,
+          boss.getColor()
+        );
+        this.bossProjectiles.push(projectile);
+      });
+    }
 
     this.game.sound.playSound("shoot", 0.3, 0.6);
   }
 
-  private bossDefeated(): void {
+  // The sweep is centred on the target, so it has to be outrun
+  private bossLaserSweep(
+    move: {arc: number; duration: number},
+    target: Vector2 | null
+  ): void {
+    const boss = this.boss!;
+    const arc = (move.arc * Math.PI) / 180;
+    this.bossLasers.push(
+      new BossLaser(
+        boss.position,
+        boss.getAimAngle(target) - arc / 2,
+        arc,
+        move.duration,
+        boss.getColor()
+      )
+    );
+    this.game.sound.playSound("rapidFire", 0.5, 0.4);
+  }
+
+  // The Leviathan coughs up what it has swallowed, straight at a ship
+  private spitAsteroids(count: number, target: Vector2 | null): void {
+    const boss = this.boss!;
+    const mouth = boss.getMouthPosition();
+    const aim = boss.getAimAngle(target, mouth);
+    for (let i = 0; i < count; i++) {
+      const size = boss.spitAsteroid();
+      if (!size) break;
+      // Later rocks fan out a little either side
+      const angle = aim + (i % 2 === 0 ? 1 : -1) * Math.ceil(i / 2) * 0.25;
+      const radius = Asteroid.getRadiusForSize(size);
+      const asteroid = new Asteroid(
+        Vector2Utils.add(mouth, Vector2Utils.fromAngle(angle, radius + 10)),
+        Vector2Utils.fromAngle(angle, LEVIATHAN_SPIT_SPEED),
+        size,
+        this.rng
+      );
+      this.asteroids.push(asteroid);
+      this.particleSystem.createDebris(mouth, 6);
+    }
+    this.game.sound.playSound("explosion", 0.4, 0.6);
+  }
+
+  // The Leviathan drags nearby asteroids in and swallows what reaches it
+  private updateLeviathan(deltaTime: number): void {
+    const boss = this.boss!;
+    const seconds = deltaTime / 1000;
+    for (const asteroid of this.asteroids) {
+      if (!asteroid.active) continue;
+      const dx = boss.position.x - asteroid.position.x;
+      const dy = boss.position.y - asteroid.position.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+
+      if (distance < boss.radius + asteroid.radius * 0.5) {
+        boss.swallow(asteroid.getSize());
+        asteroid.active = false;
+        this.particleSystem.createDebris(asteroid.position, 4);
+        this.floatingTextManager.addText(
+          {x: boss.position.x, y: boss.position.y - boss.radius - 40},
+          "+HP",
+          boss.getColor(),
+          18
+        );
+      } else if (distance < LEVIATHAN_PULL_RANGE) {
+        asteroid.velocity.x += (dx / distance) * LEVIATHAN_PULL * seconds;
+        asteroid.velocity.y += (dy / distance) * LEVIATHAN_PULL * seconds;
+      }
+    }
+
+    // Without an asteroid field (boss rush), rocks drift in to feed it
+    if (!this.hasAsteroidField) {
+      this.leviathanFeedTimer += deltaTime;
+      if (this.leviathanFeedTimer >= LEVIATHAN_FEED_INTERVAL) {
+        this.leviathanFeedTimer = 0;
+        if (this.asteroids.length < LEVIATHAN_MAX_FOOD) {
+          this.spawnDriftingAsteroid();
+        }
+      }
+    }
+  }
+
+  // Launch enemies from around the boss, up to the minion limit
+  private summonMinions(type: EnemyType, count: number): void {
+    const boss = this.boss!;
+    const room = Math.max(0, MAX_MINIONS - this.minions.size);
+    for (let i = 0; i < Math.min(count, room); i++) {
+      const angle = ((Math.PI * 2) / count) * i + boss.rotation;
+      const position = Vector2Utils.add(
+        boss.position,
+        Vector2Utils.fromAngle(angle, boss.radius + 20)
+      );
+      this.minions.add(this.spawnEnemy(position, type));
+      this.particleSystem.createPowerUpEffect(position, boss.getColor());
+    }
+    this.game.sound.playSound("hyperspace", 0.4, 1.4);
+  }
+
+  // One core down: the other has to follow before it grows back
+  private hydraCoreDown(position: Vector2): void {
+    const boss = this.boss!;
+    this.particleSystem.createExplosion(
+      position,
+      boss.getColor(),
+      30,
+      "massive"
+    );
+    this.particleSystem.createShockwave(position, boss.getColor(), 50);
+    this.floatingTextManager.addText(
+      {x: boss.position.x, y: boss.position.y - boss.radius - 40},
+      "CORE DOWN!",
+      "#ff0000",
+      28
+    );
+    this.game.shake.shake(10, 300);
+    this.game.sound.playSound("explosion", 0.7, 0.9);
+  }
+
+  // Effects as the boss powers up into its next phase
+  private bossPhaseChanged(): void {
+    const boss = this.boss!;
+    this.particleSystem.createShockwave(boss.position, boss.getColor(), 70);
+    this.particleSystem.createExplosion(
+      boss.position,
+      boss.getColor(),
+      25,
+      "bright"
+    );
+    this.floatingTextManager.addText(
+      {x: boss.position.x, y: boss.position.y - boss.radius - 40},
+      `PHASE ${boss.getPhase() + 1}`,
+      boss.getColor(),
+      32
+    );
+    this.game.shake.shake(12, 500);
+    this.game.sound.playSound("levelUp", 0.7, 0.5);
+    // Beams from the old phase stop with it
+    this.bossLasers = [];
+  }
+
+  private bossDefeated(playerIndex: number): void {
     if (!this.boss) return;
 
     const wave = this.waveManager.getCurrentWave();
-    const bossScore = 5000 * Math.floor(wave / 5);
+    // Scripted bosses can come before wave 5 and still pay out; boss rush
+    // adds a bonus for a fast split
+    const bossScore =
+      5000 * Math.max(1, Math.floor(wave / 5)) +
+      (this.bossRush?.recordDefeat(this.clock.now()) ?? 0);
+    this.objective?.onBossDefeated(this.boss.getType());
 
-    // Award score
-    this.game.addScore(bossScore);
+    // Award score to whoever landed the final hit
+    this.awardScore(playerIndex, bossScore);
 
     // Epic explosion with multiple effects
     this.particleSystem.createExplosion(
@@ -676,12 +1401,13 @@ export class GameManager {
     // Clear boss
     this.boss = null;
     this.bossProjectiles = [];
+    this.bossLasers = [];
   }
 
-  private performHyperspace(): void {
-    if (!this.spaceship) return;
+  private performHyperspace(player: Player): void {
+    if (!player.spaceship) return;
 
-    const oldPosition = {...this.spaceship.position};
+    const oldPosition = {...player.spaceship.position};
 
     // Find safe teleport location
     let attempts = 0;
@@ -689,14 +1415,14 @@ export class GameManager {
 
     do {
       newPosition = {
-        x: Math.random() * this.game.canvasWidth,
-        y: Math.random() * this.game.canvasHeight,
+        x: this.rng.next() * this.game.canvasWidth,
+        y: this.rng.next() * this.game.canvasHeight,
       };
       attempts++;
     } while (attempts < 10 && !this.isPositionSafe(newPosition, 100));
 
     // Teleport
-    this.spaceship.position = newPosition;
+    player.spaceship.position = newPosition;
 
     // Create effects
     this.particleSystem.createHyperspaceEffect(oldPosition, newPosition);
@@ -720,37 +1446,354 @@ export class GameManager {
     return true;
   }
 
-  private launchHomingMissile(): void {
-    if (!this.spaceship || !this.weaponSystem.canLaunchHomingMissile()) return;
+  private fireSecondary(player: Player): void {
+    const {spaceship, weaponSystem} = player;
+    if (!spaceship || !weaponSystem.canFireSecondary()) return;
+
+    const fired = weaponSystem.fireSecondary(
+      spaceship.getFrontPosition(),
+      spaceship.rotation
+    );
+    if (!fired) return;
+
+    switch (fired.weapon) {
+      case SecondaryWeapon.HOMING_MISSILES:
+        fired.missiles.forEach((missile) => missile.setOwner(player.index));
+        this.homingMissiles.push(...fired.missiles);
+        this.game.shake.shake(3, 150);
+        break;
+      case SecondaryWeapon.MINES:
+        fired.mines.forEach((mine) => mine.setOwner(player.index));
+        this.mines.push(...fired.mines);
+        break;
+      case SecondaryWeapon.EMP:
+        this.detonateEmp(player.index, spaceship.position, fired.radius);
+        break;
+    }
+    this.game.sound.playSound(SECONDARY_WEAPONS[fired.weapon].sound, 0.5);
+  }
 
-    const missile = this.weaponSystem.launchHomingMissile(
-      this.spaceship.getFrontPosition(),
-      this.spaceship.rotation
+  private cycleWeapon(player: Player): void {
+    const {spaceship, weaponSystem} = player;
+    if (!spaceship || weaponSystem.getOwnedPrimaries().length < 2) return;
+
+    const weapon = weaponSystem.cyclePrimary();
+    const config = PRIMARY_WEAPONS[weapon];
+    this.floatingTextManager.addText(
+      spaceship.position,
+      `${config.name} Lv${weaponSystem.getPrimaryLevel()}`,
+      config.color,
+      18
     );
+    this.game.sound.playSound("powerUp", 0.3, 1.8);
+  }
+
+  // Stuns and jolts every enemy in reach, and wipes out enemy shots and
+  // mines caught in the pulse
+  private detonateEmp(
+    ownerIndex: number,
+    position: Vector2,
+    radius: number
+  ): void {
+    const inReach = (object: GameObject) =>
+      Vector2Utils.distance(position, object.position) < radius + object.radius;
+
+    for (const enemy of this.enemies) {
+      if (inReach(enemy)) enemy.stun(EMP_STUN_TIME);
+    }
+    this.damageEnemiesNear(position, radius, 1, ownerIndex);
+    for (const shot of this.enemyShots) {
+      if (inReach(shot)) shot.destroy();
+    }
+    for (const mine of this.mines) {
+      if (mine.getOwner() === null && inReach(mine)) mine.destroy();
+    }
+
+    this.particleSystem.createShockwave(position, "#88ffff", radius);
+    this.game.shake.shake(8, 300);
+  }
 
-    if (missile) {
-      this.homingMissiles.push(missile);
-      this.game.sound.playSound("homingMissile", 0.5);
+  /**
+   * A player's blast: damage every enemy it reaches, scoring the kills
+   * for the player who set it off
+   */
+  private damageEnemiesNear(
+    position: Vector2,
+    radius: number,
+    damage: number,
+    ownerIndex: number
+  ): void {
+    for (let i = this.enemies.length - 1; i >= 0; i--) {
+      const enemy = this.enemies[i];
+      const distance = Vector2Utils.distance(position, enemy.position);
+      if (distance < radius + enemy.radius && enemy.takeDamage(damage)) {
+        this.destroyEnemy(enemy, ownerIndex);
+        this.enemies.splice(i, 1);
+      }
+    }
+  }
+
+  // Count a player's kill toward combos, kill streaks and achievements,
+  // with the fanfare that goes with them
+  private recordKill(
+    ownerIndex: number,
+    position: Vector2,
+    comboMultiplier: number
+  ): void {
+    // Check for achievements on kill
+    const achievement = this.game.achievements.onKill(this.clock.now());
+    if (achievement) {
+      this.game.achievementUI.showAchievement(achievement);
+      this.awardScore(ownerIndex, achievement.points);
+
+      // Play combo milestone sound for combo achievements
+      if (achievement.type === "combo") {
+        this.game.sound.playSound("comboMilestone", 0.6, 1.0);
+      }
+    }
+
+    const comboCount = this.game.achievements.getComboCount();
+
+    // Show combo multiplier and play sound if active
+    if (comboMultiplier > 1) {
+      this.game.achievementUI.showComboMultiplier(comboMultiplier);
+      // Play combo increase sound with pitch variation based on combo level
+      const pitch = 1.0 + comboCount * 0.05;
+      this.game.sound.playSound("comboIncrease", 0.4, Math.min(pitch, 2.0));
+
+      // Show combo text for milestones (every 5 kills)
+      if (comboCount % 5 === 0 && comboCount >= 5) {
+        this.floatingTextManager.addComboText(position, comboCount);
+      }
+
+      // Show multiplier text
+      if (comboMultiplier >= 2) {
+        this.floatingTextManager.addMultiplierText(position, comboMultiplier);
+      }
+
+      // Freeze frame effect for high combos (20+)
+      if (comboCount >= 20 && comboCount % 5 === 0) {
+        const freezeDuration = Math.min(50 + comboCount * 2, 150);
+        this.game.time.freeze(freezeDuration, 0.1);
+      }
+
+      // Screen shake scales with combo level
+      const shakeIntensity = Math.min(2 + comboCount * 0.2, 10);
+      const shakeDuration = Math.min(100 + comboCount * 5, 300);
+      this.game.shake.shake(shakeIntensity, shakeDuration);
+    }
+
+    // Show kill streak counter if applicable
+    const killStreak = this.game.achievements.getCurrentKillStreak();
+    if (killStreak >= 3) {
+      this.game.achievementUI.showKillStreakCounter(
+        killStreak,
+        position.x,
+        position.y
+      );
+    }
+
+    // Add combo burst for high combos
+    if (comboCount >= 10) {
+      this.particleSystem.createComboBurst(position, comboCount);
+    }
+  }
+
+  /**
+   * Score, blow up and break apart an asteroid a player destroyed, with a
+   * chance of a power-up drop
+   * @param heading Direction the shot was travelling, for the sparks
+   * @returns The fragments it broke into
+   */
+  private destroyAsteroid(
+    asteroid: Asteroid,
+    ownerIndex: number,
+    heading: number
+  ): Asteroid[] {
+    const comboMultiplier = this.game.achievements.getComboMultiplier();
+    const score = this.game.difficulty.getScoreValue(
+      asteroid.getScore() * comboMultiplier
+    );
+    this.awardScore(ownerIndex, score);
+    this.recordKill(ownerIndex, asteroid.position, comboMultiplier);
+    this.floatingTextManager.addScoreText(asteroid.position, score);
+
+    // Create explosion effect with enhanced visuals
+    this.particleSystem.createExplosion(asteroid.position, "#ffffff", 6);
+    this.particleSystem.createDebris(asteroid.position, 4);
+    this.particleSystem.createSparks(asteroid.position, heading, 3);
+
+    // Play explosion sound based on asteroid size
+    const size = asteroid.getSize();
+    if (size === "large") {
+      this.game.sound.playSound("explosion", 0.6, 0.8);
+      this.game.shake.shake(8, 300);
+      this.particleSystem.createShockwave(asteroid.position, "#ffffff", 25);
+    } else if (size === "medium") {
+      this.game.sound.playSound("explosion", 0.5, 1.0);
+      this.game.shake.shake(5, 200);
+      this.particleSystem.createShockwave(asteroid.position, "#ffffff", 15);
+    } else {
+      this.game.sound.playSound("smallExplosion", 0.4, 1.2);
       this.game.shake.shake(3, 150);
     }
+
+    // Replace it with its fragments
+    const settings = this.game.difficulty.getCurrentSettings();
+    const fragments = asteroid.split(settings.asteroidSpeedMultiplier);
+    this.asteroids = this.asteroids.filter((other) => other !== asteroid);
+    this.asteroids.push(...fragments);
+
+    // Chance to spawn power-up when asteroid is destroyed (difficulty adjusted)
+    if (this.game.difficulty.shouldSpawnPowerUp(0.15, this.rng)) {
+      this.spawnPowerUpAt(asteroid.position.x, asteroid.position.y);
+    }
+    return fragments;
   }
 
-  private shoot(): void {
-    if (!this.spaceship) return;
+  // Score and blow up an enemy a player destroyed; the caller takes it out
+  // of the list
+  private destroyEnemy(enemy: Enemy, ownerIndex: number): void {
+    const comboMultiplier = this.game.achievements.getComboMultiplier();
+    const score = this.game.difficulty.getScoreValue(
+      enemy.getScore() * comboMultiplier
+    );
+    this.awardScore(ownerIndex, score);
+    this.recordKill(ownerIndex, enemy.position, comboMultiplier);
+    this.floatingTextManager.addScoreText(enemy.position, score);
+    this.particleSystem.createEnemyExplosion(enemy.position, enemy.getType());
+    this.game.sound.playSound("explosion", 0.5, 1.0 + Math.random() * 0.2);
+    this.game.shake.shake(5, 200);
+    this.enemyDestroyed(enemy);
+  }
 
-    const bulletPosition = this.spaceship.getFrontPosition();
-    const newBullets = this.weaponSystem.shoot(
-      bulletPosition,
-      this.spaceship.rotation
+  /**
+   * A held laser: trace it from the nose through the screen wrap to the
+   * first thing in its way, and burn that on each damage tick. In versus,
+   * or co-op with friendly fire, the other ships are in the way too.
+   */
+  private fireBeam(player: Player): void {
+    const {spaceship, weaponSystem} = player;
+    const fired = weaponSystem.fireBeam();
+    if (!spaceship || !fired) return;
+
+    const targets: Array<Asteroid | Enemy | Boss | Spaceship> = [
+      ...this.asteroids,
+      ...this.enemies,
+    ];
+    if (this.boss && this.boss.active) targets.push(this.boss);
+    if (this.isVersus || (this.isCoop && this.game.friendlyFire)) {
+      targets.push(...this.getOpponentShips(player));
+    }
+
+    const segments = wrapRay(
+      spaceship.getFrontPosition(),
+      spaceship.rotation,
+      fired.range,
+      this.game.canvasWidth,
+      this.game.canvasHeight
     );
+    const hit = castRay(
+      segments,
+      targets,
+      (target) =>
+        target instanceof Boss
+          ? target.getBeamTargets()
+          : [{center: target.position, radius: target.radius}],
+      this.game.canvasWidth,
+      this.game.canvasHeight,
+      fired.width / 2
+    );
+    const beam = new LaserBeam(
+      hit ? hit.segments : segments,
+      fired.width,
+      fired.color,
+      hit !== null,
+      this.clock.now()
+    );
+    this.laserBeams.push(beam);
+
+    if (!hit || fired.damage === 0) return;
+    this.game.sound.playSound(weaponSystem.getSoundForCurrentWeapon(), 0.2);
+    const target = hit.target;
+    if (target instanceof Asteroid) {
+      this.destroyAsteroid(target, player.index, spaceship.rotation);
+    } else if (target instanceof Enemy) {
+      this.beamHitEnemy(target, beam, fired.damage, player.index);
+    } else if (target instanceof Boss) {
+      this.beamHitBoss(target, beam, fired.damage, player.index);
+    } else {
+      const victim = this.players.find((other) => other.activeShip === target);
+      if (victim && target.canTakeDamage()) {
+        this.hitShip(victim, beam.position, player.index);
+      }
+    }
+  }
+
+  private beamHitEnemy(
+    enemy: Enemy,
+    beam: LaserBeam,
+    damage: number,
+    ownerIndex: number
+  ): void {
+    if (enemy.blocksShot(beam.position)) {
+      this.particleSystem.createSparks(beam.position, enemy.rotation, 3);
+      return;
+    }
+    this.particleSystem.createSparks(beam.position, enemy.rotation, 2);
+    if (enemy.takeDamage(damage)) {
+      this.destroyEnemy(enemy, ownerIndex);
+      this.enemies = this.enemies.filter((other) => other !== enemy);
+    }
+  }
+
+  // Like a bullet, except a shield segment burns down tick by tick
+  private beamHitBoss(
+    boss: Boss,
+    beam: LaserBeam,
+    damage: number,
+    ownerIndex: number
+  ): void {
+    if (boss.hitShieldSegment(beam)) {
+      this.particleSystem.createShieldHitEffect(beam.position);
+      return;
+    }
+    const part = boss.findHitPart(beam);
+    if (part === -1 || boss.isInvulnerable()) {
+      this.particleSystem.createSparks(beam.position, boss.rotation, 2);
+      return;
+    }
+
+    const phase = boss.getPhase();
+    const coresDown = boss.getDownedCoreCount();
+    if (boss.takeDamage(damage * BEAM_BOSS_DAMAGE, part)) {
+      this.bossDefeated(ownerIndex);
+      return;
+    }
+    this.particleSystem.createSparks(beam.position, boss.rotation, 3);
+    if (boss.getDownedCoreCount() > coresDown) {
+      this.hydraCoreDown(beam.position);
+    }
+    if (boss.getPhase() !== phase) {
+      this.bossPhaseChanged();
+    }
+  }
+
+  private shoot(player: Player): void {
+    const {spaceship, weaponSystem} = player;
+    if (!spaceship) return;
+
+    const bulletPosition = spaceship.getFrontPosition();
+    const newBullets = weaponSystem.shoot(bulletPosition, spaceship.rotation);
 
     // Only process if bullets were actually fired (not on cooldown)
     if (newBullets.length > 0) {
       // Add bullets to the game
+      newBullets.forEach((bullet) => bullet.setOwner(player.index));
       this.bullets.push(...newBullets);
 
       // Play appropriate sound
-      const soundName = this.weaponSystem.getSoundForCurrentWeapon();
+      const soundName = weaponSystem.getSoundForCurrentWeapon();
       this.game.sound.playSound(soundName, 0.4, 0.9 + Math.random() * 0.2);
 
       // Screen shake
@@ -759,14 +1802,17 @@ export class GameManager {
     }
   }
   private checkCollisions(): void {
-    if (!this.spaceship || !this.spaceship.active) return;
+    if (!this.players.some((player) => player.activeShip)) return;
 
     try {
-      // Spaceship vs Asteroids
-      if (this.spaceship.canTakeDamage()) {
+      // Spaceships vs Asteroids
+      for (const player of this.players) {
+        const spaceship = player.activeShip;
+        if (!spaceship || !spaceship.canTakeDamage()) continue;
+
         for (const asteroid of this.asteroids) {
-          if (this.spaceship.checkCollision(asteroid)) {
-            this.spaceshipDestroyed();
+          if (spaceship.checkCollision(asteroid)) {
+            this.spaceshipDestroyed(player);
             break;
           }
         }
@@ -783,146 +1829,37 @@ export class GameManager {
     ) {
       const bullet = this.bullets[bulletIndex];
 
-      for (
-        let asteroidIndex = this.asteroids.length - 1;
-        asteroidIndex >= 0;
-        asteroidIndex--
-      ) {
-        const asteroid = this.asteroids[asteroidIndex];
-
-        if (bullet.checkCollision(asteroid)) {
-          const baseScore = asteroid.getScore();
-          const comboMultiplier = this.game.achievements.getComboMultiplier();
-          const score = this.game.difficulty.getScoreValue(
-            baseScore * comboMultiplier
-          );
-
-          // Add score
-          this.game.addScore(score);
-
-          // Check for achievements on kill
-          const achievement = this.game.achievements.onKill(Date.now());
-          if (achievement) {
-            this.game.achievementUI.showAchievement(achievement);
-            this.game.addScore(achievement.points);
-
-            // Play combo milestone sound for combo achievements
-            if (achievement.type === "combo") {
-              this.game.sound.playSound("comboMilestone", 0.6, 1.0);
-            }
-          }
-
-          // Show combo multiplier and play sound if active
-          if (comboMultiplier > 1) {
-            this.game.achievementUI.showComboMultiplier(comboMultiplier);
-            // Play combo increase sound with pitch variation based on combo level
-            const comboCount = this.game.achievements.getComboCount();
-            const pitch = 1.0 + comboCount * 0.05;
-            this.game.sound.playSound(
-              "comboIncrease",
-              0.4,
-              Math.min(pitch, 2.0)
-            );
-
-            // Show combo text for milestones (every 5 kills)
-            if (comboCount % 5 === 0 && comboCount >= 5) {
-              this.floatingTextManager.addComboText(
-                asteroid.position,
-                comboCount
-              );
-            }
-
-            // Show multiplier text
-            if (comboMultiplier >= 2) {
-              this.floatingTextManager.addMultiplierText(
-                asteroid.position,
-                comboMultiplier
-              );
-            }
-
-            // Freeze frame effect for high combos (20+)
-            if (comboCount >= 20 && comboCount % 5 === 0) {
-              const freezeDuration = Math.min(50 + comboCount * 2, 150);
-              this.game.time.freeze(freezeDuration, 0.1);
-            }
-
-            // Screen shake scales with combo level
-            const shakeIntensity = Math.min(2 + comboCount * 0.2, 10);
-            const shakeDuration = Math.min(100 + comboCount * 5, 300);
-            this.game.shake.shake(shakeIntensity, shakeDuration);
-          }
-
-          // Show kill streak counter if applicable
-          const killStreak = this.game.achievements.getCurrentKillStreak();
-          if (killStreak >= 3) {
-            this.game.achievementUI.showKillStreakCounter(
-              killStreak,
-              asteroid.position.x,
-              asteroid.position.y
-            );
-          }
-
-          // Add floating score text
-          this.floatingTextManager.addScoreText(asteroid.position, score);
-
-          // Create explosion effect with enhanced visuals
-          this.particleSystem.createExplosion(asteroid.position, "#ffffff", 6);
-          this.particleSystem.createDebris(asteroid.position, 4);
-          this.particleSystem.createSparks(
-            asteroid.position,
-            Math.atan2(bullet.velocity.y, bullet.velocity.x),
-            3
-          );
-
-          // Add combo burst for high combos
-          const comboCount = this.game.achievements.getComboCount();
-          if (comboCount >= 10) {
-            this.particleSystem.createComboBurst(asteroid.position, comboCount);
-          }
-
-          // Play explosion sound based on asteroid size
-          const size = asteroid.getSize();
-          if (size === "large") {
-            this.game.sound.playSound("explosion", 0.6, 0.8);
-            this.game.shake.shake(8, 300);
-            this.particleSystem.createShockwave(
-              asteroid.position,
-              "#ffffff",
-              25
-            );
-          } else if (size === "medium") {
-            this.game.sound.playSound("explosion", 0.5, 1.0);
-            this.game.shake.shake(5, 200);
-            this.particleSystem.createShockwave(
-              asteroid.position,
-              "#ffffff",
-              15
-            );
-          } else {
-            this.game.sound.playSound("smallExplosion", 0.4, 1.2);
-            this.game.shake.shake(3, 150);
-          }
-
-          // Create fragments
-          const settings = this.game.difficulty.getCurrentSettings();
-          const fragments = asteroid.split(settings.asteroidSpeedMultiplier);
-          this.asteroids.splice(asteroidIndex, 1); // Remove original asteroid
-          this.asteroids.push(...fragments); // Add fragments
+      for (
+        let asteroidIndex = this.asteroids.length - 1;
+        asteroidIndex >= 0;
+        asteroidIndex--
+      ) {
+        const asteroid = this.asteroids[asteroidIndex];
+        if (bullet.hasHitTarget(asteroid)) continue;
 
-          // Chance to spawn power-up when asteroid is destroyed (difficulty adjusted)
-          if (this.game.difficulty.shouldSpawnPowerUp(0.15)) {
-            this.spawnPowerUpAt(asteroid.position.x, asteroid.position.y);
-          }
+        if (bullet.checkCollision(asteroid)) {
+          const fragments = this.destroyAsteroid(
+            asteroid,
+            bullet.getOwner(),
+            Math.atan2(bullet.velocity.y, bullet.velocity.x)
+          );
 
-          // Remove bullet
-          this.bullets.splice(bulletIndex, 1);
-          break;
+          // Remove bullet, unless it pierces; then it flies on, clear of
+          // the fragments it just made
+          if (bullet.shouldDestroyOnHit()) {
+            this.bullets.splice(bulletIndex, 1);
+            break;
+          }
+          fragments.forEach((fragment) => bullet.addHitTarget(fragment));
         }
       }
     }
 
-    // Spaceship vs PowerUps
-    if (this.spaceship && this.spaceship.active) {
+    // Spaceships vs PowerUps
+    for (const player of this.players) {
+      const spaceship = player.activeShip;
+      if (!spaceship) continue;
+
       for (
         let powerUpIndex = this.powerUps.length - 1;
         powerUpIndex >= 0;
@@ -930,9 +1867,11 @@ export class GameManager {
       ) {
         const powerUp = this.powerUps[powerUpIndex];
 
-        if (this.spaceship.checkCollision(powerUp)) {
+        if (spaceship.checkCollision(powerUp)) {
           // Apply power-up effect
           const config = powerUp.getConfig();
+          const weapons = player.weaponSystem;
+          const combosBefore = weapons.getActiveCombos();
 
           // Handle special power-ups that don't use the weapon system
           if (
@@ -945,17 +1884,29 @@ export class GameManager {
               "invincibility",
             ].includes(config.type)
           ) {
-            this.handleSpecialPowerUps(config);
+            this.handleSpecialPowerUps(config, player);
           } else {
-            this.weaponSystem.addPowerUp(powerUp.getType(), config.duration);
+            player.weaponSystem.addPowerUp(powerUp.getType(), config.duration);
           }
 
           // Add floating text
           this.floatingTextManager.addPowerUpText(
             powerUp.position,
-            config.name
+            levelName(config.name, weapons.getPowerUpLevel(config.type))
           );
 
+          // Name any combo this pickup completed
+          for (const combo of weapons.getActiveCombos()) {
+            if (!combosBefore.includes(combo)) {
+              const {name, color} = POWER_UP_COMBOS[combo];
+              this.floatingTextManager.addPowerUpComboText(
+                {x: spaceship.position.x, y: spaceship.position.y - 40},
+                name,
+                color
+              );
+            }
+          }
+
           // Create pickup effect
           this.particleSystem.createPowerUpEffect(
             powerUp.position,
@@ -995,7 +1946,7 @@ export class GameManager {
           const achievement = this.game.achievements.onPowerUpCollected();
           if (achievement) {
             this.game.achievementUI.showAchievement(achievement);
-            this.game.addScore(achievement.points);
+            this.awardScore(player.index, achievement.points);
           }
 
           // Remove power-up
@@ -1004,24 +1955,14 @@ export class GameManager {
       }
     }
 
-    // Spaceship vs Enemies (with shield check)
-    if (
-      this.spaceship &&
-      this.spaceship.active &&
-      this.spaceship.canTakeDamage()
-    ) {
+    // Spaceships vs Enemies (with shield check)
+    for (const player of this.players) {
+      const spaceship = player.activeShip;
+      if (!spaceship || !spaceship.canTakeDamage()) continue;
+
       for (const enemy of this.enemies) {
-        if (this.spaceship.checkCollision(enemy)) {
-          if (this.shield) {
-            if (this.shield.takeDamage()) {
-              this.shield = null;
-              this.particleSystem.createShieldHitEffect(enemy.position);
-              this.game.sound.playSound("shield", 0.5);
-            }
-          } else {
-            this.spaceshipDestroyed();
-            break;
-          }
+        if (spaceship.checkCollision(enemy)) {
+          if (!this.hitShip(player, enemy.position)) break;
         }
       }
     }
@@ -1040,89 +1981,37 @@ export class GameManager {
         enemyIndex--
       ) {
         const enemy = this.enemies[enemyIndex];
+        if (bullet.hasHitTarget(enemy)) continue;
 
         if (bullet.checkCollision(enemy)) {
-          if (enemy.takeDamage()) {
-            // Enemy destroyed
-            const baseScore = enemy.getScore();
-            const comboMultiplier = this.game.achievements.getComboMultiplier();
-            const score = this.game.difficulty.getScoreValue(
-              baseScore * comboMultiplier
-            );
-            this.game.addScore(score);
-
-            // Check for achievements on enemy kill
-            const achievement = this.game.achievements.onKill(Date.now());
-            if (achievement) {
-              this.game.achievementUI.showAchievement(achievement);
-              this.game.addScore(achievement.points);
-
-              // Play combo milestone sound for combo achievements
-              if (achievement.type === "combo") {
-                this.game.sound.playSound("comboMilestone", 0.6, 1.0);
-              }
-            }
-
-            // Show combo multiplier and play sound if active
-            if (comboMultiplier > 1) {
-              this.game.achievementUI.showComboMultiplier(comboMultiplier);
-              // Play combo increase sound with pitch variation based on combo level
-              const comboCount = this.game.achievements.getComboCount();
-              const pitch = 1.0 + comboCount * 0.05;
-              this.game.sound.playSound(
-                "comboIncrease",
-                0.4,
-                Math.min(pitch, 2.0)
-              );
-
-              // Screen shake scales with combo level
-              const shakeIntensity = Math.min(2 + comboCount * 0.2, 10);
-              const shakeDuration = Math.min(100 + comboCount * 5, 300);
-              this.game.shake.shake(shakeIntensity, shakeDuration);
-            }
-
-            // Show kill streak counter if applicable
-            const killStreak = this.game.achievements.getCurrentKillStreak();
-            if (killStreak >= 3) {
-              this.game.achievementUI.showKillStreakCounter(
-                killStreak,
-                enemy.position.x,
-                enemy.position.y
-              );
-            }
-
-            this.floatingTextManager.addScoreText(
-              enemy.position,
-              enemy.getScore()
-            );
-            this.particleSystem.createEnemyExplosion(
-              enemy.position,
-              enemy.getType()
-            );
-
-            // Add combo burst for high combos
-            const comboCount = this.game.achievements.getComboCount();
-            if (comboCount >= 10) {
-              this.particleSystem.createComboBurst(enemy.position, comboCount);
-            }
-
-            this.game.sound.playSound(
-              "explosion",
-              0.5,
-              1.0 + Math.random() * 0.2
-            );
-            this.game.shake.shake(5, 200);
-            this.waveManager.enemyDestroyed();
+          if (enemy.blocksShot(bullet.position)) {
+            this.deflectShot(bullet);
+            this.bullets.splice(bulletIndex, 1);
+            break;
+          }
+          if (enemy.takeDamage(bullet.getDamage())) {
+            this.destroyEnemy(enemy, bullet.getOwner());
             this.enemies.splice(enemyIndex, 1);
           }
 
-          // Remove bullet
-          this.bullets.splice(bulletIndex, 1);
-          break;
+          // Remove bullet, unless it pierces on to the next target
+          if (bullet.shouldDestroyOnHit()) {
+            this.bullets.splice(bulletIndex, 1);
+            break;
+          }
+          bullet.addHitTarget(enemy);
         }
       }
     }
 
+    this.checkMineCollisions();
+    this.checkEnemyShots();
+
+    // Shots vs other players' ships
+    if (this.isVersus || (this.isCoop && this.game.friendlyFire)) {
+      this.checkShipHits();
+    }
+
     // Boss Collisions
     if (this.boss && this.boss.active) {
       // Bullets vs Boss
@@ -1135,12 +2024,51 @@ export class GameManager {
         // Check boss still exists before collision check
         if (!this.boss || !this.boss.active) break;
 
-        if (bullet && bullet.active && bullet.checkCollision(this.boss)) {
-          const defeated = this.boss.takeDamage(10);
+        if (!bullet || !bullet.active || bullet.hasHitTarget(this.boss)) {
+          continue;
+        }
+
+        // Shield segments stop shots on their way in
+        if (this.boss.hitShieldSegment(bullet)) {
           this.bullets.splice(bulletIndex, 1);
+          this.particleSystem.createShieldHitEffect(bullet.position);
+          if (!this.boss.isShielded()) {
+            this.particleSystem.createShockwave(
+              this.boss.position,
+              this.boss.getColor(),
+              50
+            );
+            this.game.sound.playSound("explosion", 0.6, 1.4);
+          } else {
+            this.game.sound.playSound("hit", 0.3, 1.6);
+          }
+          continue;
+        }
+
+        const part = this.boss.findHitPart(bullet);
+        if (part !== -1) {
+          if (bullet.shouldDestroyOnHit() || this.boss.isInvulnerable()) {
+            this.bullets.splice(bulletIndex, 1);
+          } else {
+            bullet.addHitTarget(this.boss); // Pierces through, hitting once
+          }
+          if (this.boss.isInvulnerable()) {
+            // Deflected by the shield or the phase change
+            this.particleSystem.createSparks(
+              bullet.position,
+              Math.atan2(-bullet.velocity.y, -bullet.velocity.x),
+              3
+            );
+            continue;
+          }
+
+          const phase = this.boss.getPhase();
+          const coresDown = this.boss.getDownedCoreCount();
+          const damage = bullet.getDamage() * BULLET_BOSS_DAMAGE;
+          const defeated = this.boss.takeDamage(damage, part);
 
           if (defeated) {
-            this.bossDefeated();
+            this.bossDefeated(bullet.getOwner());
             break; // Exit loop after boss is defeated
           } else {
             // Boss hit but not defeated
@@ -1155,7 +2083,7 @@ export class GameManager {
               Math.atan2(bullet.velocity.y, bullet.velocity.x),
               5
             );
-            this.floatingTextManager.addDamageText(bullet.position, 10);
+            this.floatingTextManager.addDamageText(bullet.position, damage);
 
             // Show critical text occasionally (20% chance)
             if (Math.random() < 0.2) {
@@ -1164,47 +2092,63 @@ export class GameManager {
 
             this.game.sound.playSound("hit", 0.4, 1.2);
             this.game.shake.shake(4, 150);
+
+            if (this.boss.getDownedCoreCount() > coresDown) {
+              this.hydraCoreDown(bullet.position);
+            }
+            if (this.boss.getPhase() !== phase) {
+              this.bossPhaseChanged();
+            }
           }
         }
       }
 
-      // Boss vs Spaceship
-      if (
-        this.boss &&
-        this.boss.active &&
-        this.spaceship &&
-        this.spaceship.active &&
-        this.spaceship.canTakeDamage()
-      ) {
-        if (this.spaceship.checkCollision(this.boss)) {
-          this.spaceshipDestroyed();
+      // Boss vs Spaceships
+      for (const player of this.players) {
+        const spaceship = player.activeShip;
+        if (
+          this.boss &&
+          this.boss.active &&
+          spaceship &&
+          spaceship.canTakeDamage() &&
+          this.boss.touches(spaceship)
+        ) {
+          this.spaceshipDestroyed(player);
         }
       }
     }
 
-    // Boss Projectiles vs Spaceship
-    if (
-      this.spaceship &&
-      this.spaceship.active &&
-      this.spaceship.canTakeDamage()
-    ) {
+    // Boss Projectiles vs Spaceships
+    for (const player of this.players) {
+      const spaceship = player.activeShip;
+      if (!spaceship || !spaceship.canTakeDamage()) continue;
+
       for (let i = this.bossProjectiles.length - 1; i >= 0; i--) {
         const projectile = this.bossProjectiles[i];
-        if (projectile && projectile.active) {
-          // Check spaceship still exists before collision check
-          if (
-            this.spaceship &&
-            this.spaceship.active &&
-            this.spaceship.checkCollision(projectile)
-          ) {
-            this.spaceshipDestroyed();
-            this.bossProjectiles.splice(i, 1);
-            break; // Exit loop after spaceship destruction
-          }
+        if (
+          projectile &&
+          projectile.active &&
+          spaceship.checkCollision(projectile)
+        ) {
+          this.spaceshipDestroyed(player);
+          this.bossProjectiles.splice(i, 1);
+          break; // Exit loop after spaceship destruction
         }
       }
     }
 
+    // Boss Lasers vs Spaceships
+    for (const player of this.players) {
+      const spaceship = player.activeShip;
+      if (
+        spaceship &&
+        spaceship.canTakeDamage() &&
+        this.bossLasers.some((laser) => laser.hits(spaceship))
+      ) {
+        this.spaceshipDestroyed(player);
+      }
+    }
+
     // Homing Missiles vs Targets
     for (
       let missileIndex = this.homingMissiles.length - 1;
@@ -1229,7 +2173,7 @@ export class GameManager {
           const score = this.game.difficulty.getScoreValue(
             baseScore * comboMultiplier
           );
-          this.game.addScore(score);
+          this.awardScore(missile.getOwner(), score);
           this.floatingTextManager.addScoreText(asteroid.position, score);
           this.particleSystem.createExplosion(
             asteroid.position,
@@ -1260,6 +2204,11 @@ export class GameManager {
         if (!enemy || !enemy.active) continue;
 
         if (missile.checkCollision(enemy)) {
+          if (enemy.blocksShot(missile.position)) {
+            this.deflectShot(missile);
+            this.homingMissiles.splice(missileIndex, 1);
+            break;
+          }
           if (enemy.takeDamage(2)) {
             // Homing missiles do more damage
             const baseScore = enemy.getScore() * 2;
@@ -1267,13 +2216,13 @@ export class GameManager {
             const score = this.game.difficulty.getScoreValue(
               baseScore * comboMultiplier
             );
-            this.game.addScore(score);
+            this.awardScore(missile.getOwner(), score);
             this.floatingTextManager.addScoreText(enemy.position, score);
             this.particleSystem.createEnemyExplosion(
               enemy.position,
               enemy.getType()
             );
-            this.waveManager.enemyDestroyed();
+            this.enemyDestroyed(enemy);
             this.enemies.splice(enemyIndex, 1);
           }
 
@@ -1286,74 +2235,395 @@ export class GameManager {
     }
   }
 
-  private spaceshipDestroyed(): void {
-    if (!this.spaceship || !this.spaceship.active) return; // Prevent double destruction
+  // Bullets and missiles hit opponents in versus, or teammates with friendly fire on
+  private checkShipHits(): void {
+    for (
+      let bulletIndex = this.bullets.length - 1;
+      bulletIndex >= 0;
+      bulletIndex--
+    ) {
+      const bullet = this.bullets[bulletIndex];
+
+      for (const player of this.players) {
+        const spaceship = player.activeShip;
+        if (
+          !spaceship ||
+          player.index === bullet.getOwner() ||
+          !spaceship.canTakeDamage()
+        ) {
+          continue;
+        }
+
+        if (bullet.checkCollision(spaceship)) {
+          this.bullets.splice(bulletIndex, 1);
+          this.hitShip(player, bullet.position, bullet.getOwner());
+          break;
+        }
+      }
+    }
+
+    for (
+      let missileIndex = this.homingMissiles.length - 1;
+      missileIndex >= 0;
+      missileIndex--
+    ) {
+      const missile = this.homingMissiles[missileIndex];
+
+      for (const player of this.players) {
+        const spaceship = player.activeShip;
+        if (
+          !spaceship ||
+          player.index === missile.getOwner() ||
+          !spaceship.canTakeDamage()
+        ) {
+          continue;
+        }
+
+        if (missile.checkCollision(spaceship)) {
+          this.homingMissiles.splice(missileIndex, 1);
+          this.particleSystem.createExplosion(
+            missile.position,
+            "#ff9900",
+            10,
+            "bright"
+          );
+          this.hitShip(player, missile.position, missile.getOwner());
+          break;
+        }
+      }
+    }
+  }
+
+  // Armed contact mines blow up ships that touch them, and proximity mines
+  // catch every ship in the blast once their fuse burns down. Any shot
+  // clears an enemy's mine.
+  private checkMineCollisions(): void {
+    for (const mine of this.mines) {
+      const ownerIndex = mine.getOwner();
+      if (ownerIndex !== null) {
+        this.checkPlayerMine(mine, ownerIndex);
+        continue;
+      }
+
+      const ships = this.players.flatMap((player) => {
+        const spaceship = player.activeShip;
+        return spaceship && spaceship.canTakeDamage()
+          ? [{player, spaceship}]
+          : [];
+      });
+
+      if (mine.getType() === MineType.CONTACT) {
+        for (const {player, spaceship} of ships) {
+          if (mine.isArmed() && spaceship.checkCollision(mine)) {
+            this.detonateMine(mine);
+            this.hitShip(player, mine.position);
+          }
+        }
+      } else if (mine.isDue()) {
+        this.detonateMine(mine);
+        this.particleSystem.createShockwave(
+          mine.position,
+          "#ffaa00",
+          MINE_BLAST_RADIUS
+        );
+        for (const {player, spaceship} of ships) {
+          const distance = Vector2Utils.distance(
+            mine.position,
+            spaceship.position
+          );
+          if (distance < MINE_BLAST_RADIUS + spaceship.radius) {
+            this.hitShip(player, mine.position);
+          }
+        }
+      } else if (ships.some(({spaceship}) => mine.senses(spaceship))) {
+        mine.lightFuse();
+      }
+
+      const bulletIndex = this.bullets.findIndex((bullet) =>
+        bullet.checkCollision(mine)
+      );
+      if (bulletIndex !== -1) {
+        const bullet = this.bullets[bulletIndex];
+        this.bullets.splice(bulletIndex, 1);
+        this.detonateMine(mine);
+        this.awardScore(bullet.getOwner(), MINE_SCORE);
+        this.floatingTextManager.addScoreText(mine.position, MINE_SCORE);
+      }
+    }
+    this.mines = this.mines.filter((mine) => mine.active);
+  }
+
+  // A player's mine lights for enemies and asteroids, and its blast hurts
+  // enemies and breaks up asteroids; ships are safe from it
+  private checkPlayerMine(mine: Mine, ownerIndex: number): void {
+    if (mine.isDue()) {
+      this.detonateMine(mine);
+      this.particleSystem.createShockwave(
+        mine.position,
+        "#66ff99",
+        MINE_BLAST_RADIUS
+      );
+      this.damageEnemiesNear(
+        mine.position,
+        MINE_BLAST_RADIUS,
+        PLAYER_MINE_DAMAGE,
+        ownerIndex
+      );
+
+      const caught = this.asteroids.filter(
+        (asteroid) =>
+          Vector2Utils.distance(mine.position, asteroid.position) <
+          MINE_BLAST_RADIUS + asteroid.radius
+      );
+      for (const asteroid of caught) {
+        const away = Vector2Utils.subtract(asteroid.position, mine.position);
+        this.destroyAsteroid(asteroid, ownerIndex, Math.atan2(away.y, away.x));
+      }
+    } else if (
+      this.enemies.some((enemy) => mine.senses(enemy)) ||
+      this.asteroids.some((asteroid) => mine.senses(asteroid))
+    ) {
+      mine.lightFuse();
+    }
+  }
+
+  // Shots off an interceptor's frontal shield
+  private deflectShot(shot: GameObject): void {
+    this.particleSystem.createSparks(
+      shot.position,
+      Math.atan2(-shot.velocity.y, -shot.velocity.x),
+      4
+    );
+    this.game.sound.playSound("hit", 0.3, 1.8);
+  }
+
+  // Enemy shots hit a ship's shield bubble first, costing it as many hits
+  // as the shot's damage, and the players can shoot most of them down
+  private checkEnemyShots(): void {
+    for (const shot of this.enemyShots) {
+      for (const player of this.players) {
+        const spaceship = player.activeShip;
+        if (!shot.isHarmful() || !spaceship || !spaceship.canTakeDamage()) {
+          continue;
+        }
+
+        const shield = player.shield;
+        if (shield && shot.checkCollision(shield)) {
+          shot.destroy();
+          this.particleSystem.createShieldHitEffect(shot.position);
+          if (shield.takeDamage(shot.getDamage())) {
+            player.shield = null;
+            this.game.sound.playSound("shield", 0.5);
+          }
+        } else if (spaceship.checkCollision(shot)) {
+          shot.destroy();
+          this.hitShip(player, shot.position);
+        }
+      }
+
+      if (!shot.canBeShotDown()) continue;
+      const bulletIndex = this.bullets.findIndex((bullet) =>
+        bullet.checkCollision(shot)
+      );
+      if (bulletIndex !== -1) {
+        const bullet = this.bullets[bulletIndex];
+        if (bullet.shouldDestroyOnHit()) {
+          this.bullets.splice(bulletIndex, 1);
+        }
+        if (shot.takeHit()) {
+          this.particleSystem.createSparks(shot.position, shot.rotation, 4);
+          this.game.sound.playSound("hit", 0.3, 1.4);
+          this.awardScore(bullet.getOwner(), ENEMY_SHOT_SCORE);
+        }
+      }
+    }
+    this.enemyShots = this.enemyShots.filter((shot) => shot.active);
+  }
+
+  private detonateMine(mine: Mine): void {
+    if (!mine.active) return;
+    mine.destroy();
+    this.particleSystem.createExplosion(mine.position, "#ff4444", 10);
+    this.game.sound.playSound("explosion", 0.4, 1.3);
+    this.game.shake.shake(4, 150);
+  }
+
+  /**
+   * A hit the shield can absorb
+   * @returns false if the ship was destroyed
+   */
+  private hitShip(
+    player: Player,
+    hitPosition: Vector2,
+    attackerIndex?: number
+  ): boolean {
+    if (!player.shield) {
+      this.spaceshipDestroyed(player, attackerIndex);
+      return false;
+    }
+
+    if (player.shield.takeDamage()) {
+      player.shield = null;
+      this.particleSystem.createShieldHitEffect(hitPosition);
+      this.game.sound.playSound("shield", 0.5);
+    }
+    return true;
+  }
+
+  private spaceshipDestroyed(player: Player, attackerIndex?: number): void {
+    const spaceship = player.spaceship;
+    if (!spaceship || !spaceship.active) return; // Prevent double destruction
 
     try {
       // Mark spaceship as inactive to prevent double destruction
-      this.spaceship.active = false;
+      spaceship.active = false;
 
       // Create explosion effect
-      this.particleSystem.createExplosion(
-        this.spaceship.position,
-        "#ff6600",
-        12
-      );
-      this.particleSystem.createDebris(this.spaceship.position, 8);
+      this.particleSystem.createExplosion(spaceship.position, "#ff6600", 12);
+      this.particleSystem.createDebris(spaceship.position, 8);
 
       // Play explosion sound and strong screen shake
       this.game.sound.playSound("explosion", 0.8, 0.7);
       this.game.shake.shake(15, 500);
 
-      this.spaceship.destroy();
-      this.spaceship = null;
+      spaceship.destroy();
+      player.spaceship = null;
 
       // Reset shield on death
-      this.shield = null;
+      player.shield = null;
 
-      // Lose a life (unless infinite lives cheat is active)
-      if (!this.infiniteLives) {
-        this.game.loseLife();
+      if (this.isVersus) {
+        this.recordVersusKill(player, spaceship.position, attackerIndex);
       }
 
+      // Lose a life (unless infinite lives cheat is active)
+      const hasLivesLeft = this.loseLife(player);
+
       // Reset achievement streaks on death
       this.game.achievements.resetStreaks();
 
-      if (this.game.lives <= 0 && !this.infiniteLives) {
+      if (!hasLivesLeft) {
         // Play game over sound
         this.game.sound.playSound("gameOver", 0.6);
       } else {
-        this.isRespawning = true;
-        this.respawnTimer = 0;
+        player.isRespawning = true;
+        player.respawnTimer = 0;
       }
     } catch (error) {
       console.error("Error in spaceshipDestroyed:", error);
       // Ensure cleanup even if there's an error
-      if (this.spaceship) {
-        this.spaceship.destroy();
-        this.spaceship = null;
+      if (player.spaceship) {
+        player.spaceship.destroy();
+        player.spaceship = null;
       }
-      this.isRespawning = true;
-      this.respawnTimer = 0;
+      player.isRespawning = true;
+      player.respawnTimer = 0;
     }
   }
-  private canSpawnSafely(): boolean {
-    const centerX = this.game.canvasWidth / 2;
-    const centerY = this.game.canvasHeight / 2;
+
+  /**
+   * Take a life from the player; in co-op the game ends once nobody has any left
+   * and versus ships always respawn
+   * @returns false if the player is out of lives
+   */
+  private loseLife(player: Player): boolean {
+    if (this.infiniteLives || this.isVersus) return true;
+
+    if (!this.isCoop) {
+      this.game.loseLife();
+      player.lives = this.game.lives;
+      return this.game.lives > 0;
+    }
+
+    player.lives--;
+    if (this.players.every((other) => other.lives <= 0)) {
+      this.game.gameOver();
+    }
+    return player.lives > 0;
+  }
+
+  private canSpawnSafely(
+    position: Vector2,
+    avoidShips: Spaceship[] = []
+  ): boolean {
     const safeRadius = 100;
 
     for (const asteroid of this.asteroids) {
-      const distance = Vector2Utils.distance(
-        {x: centerX, y: centerY},
-        asteroid.position
-      );
+      const distance = Vector2Utils.distance(position, asteroid.position);
       if (distance < safeRadius) {
         return false;
       }
     }
+
+    // Don't drop a ship right in front of an opponent
+    for (const ship of avoidShips) {
+      const distance = Vector2Utils.distance(position, ship.position);
+      if (distance < safeRadius * 2) {
+        return false;
+      }
+    }
     return true;
   }
 
+  // Every death scores for the opponent; crashing into a rock counts too
+  private recordVersusKill(
+    victim: Player,
+    position: Vector2,
+    attackerIndex?: number
+  ): void {
+    if (!this.versusMatch) return;
+
+    const scorer =
+      attackerIndex !== undefined && attackerIndex !== victim.index
+        ? this.players[attackerIndex]
+        : this.players.find((other) => other !== victim);
+    if (!scorer) return;
+
+    const wonRound = this.versusMatch.recordKill(scorer.index);
+    const kills = this.versusMatch.getKills()[scorer.index];
+    this.floatingTextManager.addText(
+      {x: position.x, y: position.y - 30},
+      `${scorer.label} +1 (${kills}/${this.versusMatch.getKillsToWinRound()})`,
+      scorer.color,
+      24
+    );
+
+    if (wonRound) {
+      this.roundBreakTimer = 0;
+      this.game.sound.playSound("levelUp", 0.6);
+    }
+  }
+
+  // Start the next round, or end the game once the match is decided
+  private finishRound(): void {
+    if (!this.versusMatch) return;
+
+    if (this.versusMatch.isMatchOver()) {
+      this.game.gameOver();
+      return;
+    }
+
+    this.versusMatch.startNextRound();
+    this.resetArena();
+  }
+
+  // Fresh rocks and ships for a new versus round
+  private resetArena(): void {
+    this.bullets = [];
+    this.laserBeams = [];
+    this.homingMissiles = [];
+    this.powerUps = [];
+    this.asteroids = [];
+    this.powerUpSpawnTimer = 0;
+    this.roundBreakTimer = 0;
+    for (const player of this.players) {
+      player.shield = null;
+      player.weaponSystem.reset();
+      this.spawnSpaceship(player);
+    }
+    this.spawnInitialAsteroids();
+  }
+
   private nextLevel(): void {
     this.game.level++;
 
@@ -1388,6 +2658,9 @@ export class GameManager {
     // Render asteroids
     this.asteroids.forEach((asteroid) => asteroid.render(ctx));
 
+    // Render mines under the enemies that lay them
+    this.mines.forEach((mine) => mine.render(ctx));
+
     // Render enemies
     this.enemies.forEach((enemy) => enemy.render(ctx));
 
@@ -1396,11 +2669,14 @@ export class GameManager {
       this.boss.render(ctx);
     }
 
-    // Render boss projectiles
+    // Render boss and enemy projectiles, and lasers
     this.bossProjectiles.forEach((projectile) => projectile.render(ctx));
+    this.enemyShots.forEach((shot) => shot.render(ctx));
+    this.bossLasers.forEach((laser) => laser.render(ctx));
 
     // Render bullets
     this.bullets.forEach((bullet) => bullet.render(ctx));
+    this.laserBeams.forEach((beam) => beam.render(ctx));
 
     // Render homing missiles
     this.homingMissiles.forEach((missile) => missile.render(ctx));
@@ -1414,14 +2690,14 @@ export class GameManager {
     // Render floating text
     this.floatingTextManager.render(ctx);
 
-    // Render spaceship
-    if (this.spaceship) {
-      this.spaceship.render(ctx);
-    }
-
-    // Render shield
-    if (this.shield) {
-      this.shield.render(ctx);
+    // Render spaceships and their shields
+    for (const player of this.players) {
+      if (player.spaceship) {
+        player.spaceship.render(ctx);
+      }
+      if (player.shield) {
+        player.shield.render(ctx);
+      }
     }
 
     // Render boss intro warning
@@ -1441,18 +2717,75 @@ export class GameManager {
       ctx.restore();
     }
 
-    // Render respawn message
-    if (this.isRespawning) {
-      ctx.fillStyle = "#ffffff";
+    // Render respawn messages where each ship will reappear
+    for (const player of this.players) {
+      if (!player.isRespawning) continue;
+
+      const twoPlayer = this.mode !== GameMode.SINGLE;
+      ctx.fillStyle = twoPlayer ? player.color : "#ffffff";
       ctx.font = "24px Arial";
       ctx.textAlign = "center";
-      const timeLeft = Math.ceil((3000 - this.respawnTimer) / 1000);
+      const timeLeft = Math.ceil((3000 - player.respawnTimer) / 1000);
+      const message = twoPlayer
+        ? `${player.label} respawning in ${timeLeft}...`
+        : `Respawning in ${timeLeft}...`;
+      const position = this.getSpawnPosition(player);
+      ctx.fillText(message, position.x, position.y);
+    }
+
+    // Announce the versus round winner during the break
+    const match = this.versusMatch;
+    const winnerIndex = match?.getLastRoundWinner();
+    if (match && match.isRoundOver() && winnerIndex != null) {
+      const winner = this.players[winnerIndex];
+      const message = match.isMatchOver()
+        ? `${winner.label} WINS THE MATCH`
+        : `${winner.label} WINS ROUND ${match.getRound()}`;
+      ctx.save();
+      ctx.fillStyle = winner.color;
+      ctx.font = "bold 48px Arial";
+      ctx.textAlign = "center";
       ctx.fillText(
-        `Respawning in ${timeLeft}...`,
+        message,
         this.game.canvasWidth / 2,
         this.game.canvasHeight / 2
       );
+      ctx.restore();
+    }
+  }
+
+  // Cheap fingerprint of the simulation, compared between online peers to catch desyncs
+  public get stateChecksum(): number {
+    let hash = Math.round(this.clock.now());
+    const mix = (value: number) => {
+      hash = (Math.imul(hash, 31) + Math.round(value * 100)) | 0;
+    };
+    for (const ship of this.getShips()) {
+      mix(ship.position.x);
+      mix(ship.position.y);
+      mix(ship.rotation);
+    }
+    for (const asteroid of this.asteroids) {
+      mix(asteroid.position.x);
+      mix(asteroid.position.y);
+    }
+    for (const enemy of this.enemies) {
+      mix(enemy.position.x);
+      mix(enemy.position.y);
     }
+    this.players.forEach((player) => mix(player.score));
+    mix(this.game.lives);
+    return hash >>> 0;
+  }
+
+  // Seed of the current run, enough to reproduce it with the same inputs
+  public get seed(): number {
+    return this.rng.getSeed();
+  }
+
+  // Simulation RNG, shared with systems outside the manager (e.g. warp tunnel)
+  public get random(): Random {
+    return this.rng;
   }
 
   // Public getter methods for HUD
@@ -1465,7 +2798,36 @@ export class GameManager {
   }
 
   public get currentWeaponSystem(): WeaponSystem {
-    return this.weaponSystem;
+    return this.players[0].weaponSystem;
+  }
+
+  // Per-player state, one entry per ship in the current mode
+  public get currentPlayers(): readonly Player[] {
+    return this.players;
+  }
+
+  // Round scoring, only set during versus games
+  public get currentVersusMatch(): VersusMatch | null {
+    return this.versusMatch;
+  }
+
+  public get currentObjective(): SectorObjective | null {
+    return this.objective;
+  }
+
+  // Milliseconds left in a Time Attack run, or null in other games
+  public get timeLeft(): number | null {
+    if (this.variant !== GameVariant.TIME_ATTACK) return null;
+    return Math.max(0, TIME_ATTACK_DURATION - this.clock.now());
+  }
+
+  public get currentBossRush(): BossRush | null {
+    return this.bossRush;
+  }
+
+  // Milliseconds of play so far this game
+  public get elapsedTime(): number {
+    return this.clock.now();
   }
 
   public get currentWaveManager(): WaveManager {
@@ -1473,10 +2835,12 @@ export class GameManager {
   }
 
   public get shieldHealth(): number | undefined {
-    return this.shield ? this.shield.getHealth() : undefined;
+    const shield = this.players[0].shield;
+    return shield ? shield.getHealth() : undefined;
   }
 
   public get maxShieldHealth(): number | undefined {
-    return this.shield ? this.shield.getMaxHealth() : undefined;
+    const shield = this.players[0].shield;
+    return shield ? shield.getMaxHealth() : undefined;
   }
 }
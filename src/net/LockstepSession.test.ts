@@ -0,0 +1,59 @@
+import {describe, expect, it} from "vitest";
+import type {InputSnapshot} from "../core/GameTypes";
+import {NO_ANALOG_INPUT} from "../core/GameTypes";
+import {LockstepSession} from "./LockstepSession";
+
+function holding(...keys: string[]): InputSnapshot {
+  return {keys, pressed: [], chars: [], analog: NO_ANALOG_INPUT};
+}
+
+describe("LockstepSession", () => {
+  it("runs the delay frames before any input arrives", () => {
+    const session = new LockstepSession(0, 2, 2);
+    expect(session.advance()).toBe(true);
+    expect(session.advance()).toBe(true);
+    expect(session.advance()).toBe(false);
+    expect(session.getFrame()).toBe(2);
+  });
+
+  it("waits for every player's input before stepping", () => {
+    const session = new LockstepSession(0, 2, 1);
+    session.advance();
+
+    expect(session.queueLocalInput(holding("Space"))).toBe(1);
+    expect(session.isFrameReady()).toBe(false);
+
+    session.receiveInput(1, 1, holding("ArrowLeft"));
+    expect(session.advance()).toBe(true);
+    expect(session.getInput(0).isKeyDown("Space")).toBe(true);
+    expect(session.getInput(1).isKeyDown("ArrowLeft")).toBe(true);
+    expect(session.getInput(1).isKeyDown("Space")).toBe(false);
+  });
+
+  it("limits how far local input can run ahead", () => {
+    const session = new LockstepSession(1, 2, 2);
+    let queued = 0;
+    while (session.canQueueLocalInput()) {
+      session.queueLocalInput(holding());
+      queued++;
+    }
+    expect(queued).toBe(2);
+
+    // Once the other player catches up there is room again
+    session.advance();
+    expect(session.canQueueLocalInput()).toBe(true);
+  });
+
+  it("flags the first frame where checksums differ", () => {
+    const session = new LockstepSession(0);
+    session.recordLocalChecksum(60, 123);
+    session.receiveChecksum(60, 123);
+    expect(session.getDesyncFrame()).toBeNull();
+
+    session.receiveChecksum(120, 456);
+    session.recordLocalChecksum(120, 789);
+    session.recordLocalChecksum(180, 1);
+    session.receiveChecksum(180, 2);
+    expect(session.getDesyncFrame()).toBe(120);
+  });
+});
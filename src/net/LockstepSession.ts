@@ -0,0 +1,164 @@
+import type {AnalogInput, InputSnapshot, InputSource} from "../core/GameTypes";
+import {NO_ANALOG_INPUT} from "../core/GameTypes";
+
+const EMPTY_INPUT: InputSnapshot = {
+  keys: [],
+  pressed: [],
+  chars: [],
+  analog: NO_ANALOG_INPUT,
+};
+
+// One player's input for the frame currently being simulated
+export class FrameInput implements InputSource {
+  private keys: Set<string> = new Set();
+  private keyPressed: Set<string> = new Set();
+  private characterInput: string[] = [];
+  private analog: AnalogInput = NO_ANALOG_INPUT;
+
+  load(snapshot: InputSnapshot): void {
+    this.keys = new Set(snapshot.keys);
+    this.keyPressed = new Set(snapshot.pressed);
+    this.characterInput = [...snapshot.chars];
+    this.analog = snapshot.analog;
+  }
+
+  isKeyDown(key: string): boolean {
+    return this.keys.has(key);
+  }
+
+  isKeyPressed(key: string): boolean {
+    return this.keyPressed.has(key);
+  }
+
+  getCharacterInput(): string[] {
+    return [...this.characterInput];
+  }
+
+  getAnalog(): AnalogInput {
+    return this.analog;
+  }
+}
+
+/**
+ * LockstepSession - Input exchange for deterministic online play.
+ * Every peer runs the same simulation and only steps a frame once it holds
+ * every player's input for it. Local input is scheduled a few frames ahead
+ * so it can reach the other peers before it is needed.
+ */
+export class LockstepSession {
+  public static readonly DEFAULT_INPUT_DELAY = 4;
+
+  private readonly localPlayer: number;
+  private readonly inputDelay: number;
+  private readonly pending: Map<number, InputSnapshot>[] = [];
+  private readonly frameInputs: FrameInput[] = [];
+  private frame: number = 0; // Next frame to simulate
+  private nextLocalFrame: number;
+  private localChecksums: Map<number, number> = new Map();
+  private remoteChecksums: Map<number, number> = new Map();
+  private desyncFrame: number | null = null;
+
+  constructor(
+    localPlayer: number,
+    playerCount: number = 2,
+    inputDelay: number = LockstepSession.DEFAULT_INPUT_DELAY
+  ) {
+    this.localPlayer = localPlayer;
+    this.inputDelay = inputDelay;
+    this.nextLocalFrame = inputDelay;
+
+    for (let player = 0; player < playerCount; player++) {
+      // Nobody's input can arrive in time for the first few frames
+      const pending = new Map<number, InputSnapshot>();
+      for (let frame = 0; frame < inputDelay; frame++) {
+        pending.set(frame, EMPTY_INPUT);
+      }
+      this.pending.push(pending);
+      this.frameInputs.push(new FrameInput());
+    }
+  }
+
+  // Local input may run at most one extra delay ahead while waiting on peers
+  canQueueLocalInput(): boolean {
+    return this.nextLocalFrame < this.frame + this.inputDelay * 2;
+  }
+
+  /**
+   * Schedule the local player's input
+   * @returns the frame it applies to, for sending to the other peers
+   */
+  queueLocalInput(snapshot: InputSnapshot): number {
+    const frame = this.nextLocalFrame++;
+    this.pending[this.localPlayer].set(frame, snapshot);
+    return frame;
+  }
+
+  receiveInput(
+    playerIndex: number,
+    frame: number,
+    snapshot: InputSnapshot
+  ): void {
+    const pending = this.pending[playerIndex];
+    if (!pending || playerIndex === this.localPlayer || frame < this.frame) {
+      return;
+    }
+    pending.set(frame, snapshot);
+  }
+
+  // Every player's input for the next frame has arrived
+  isFrameReady(): boolean {
+    return this.pending.every((pending) => pending.has(this.frame));
+  }
+
+  /**
+   * Load every player's input for the next frame
+   * @returns false if some input is still missing
+   */
+  advance(): boolean {
+    if (!this.isFrameReady()) return false;
+
+    this.pending.forEach((pending, player) => {
+      this.frameInputs[player].load(pending.get(this.frame)!);
+      pending.delete(this.frame);
+    });
+    this.frame++;
+    return true;
+  }
+
+  // Input source for one player, updated in place on every advance
+  getInput(playerIndex: number): InputSource {
+    return this.frameInputs[playerIndex];
+  }
+
+  // Frames simulated so far
+  getFrame(): number {
+    return this.frame;
+  }
+
+  recordLocalChecksum(frame: number, value: number): void {
+    this.localChecksums.set(frame, value);
+    this.compareChecksums(frame);
+  }
+
+  receiveChecksum(frame: number, value: number): void {
+    this.remoteChecksums.set(frame, value);
+    this.compareChecksums(frame);
+  }
+
+  // First frame where the peers' simulations disagreed, if any
+  getDesyncFrame(): number | null {
+    return this.desyncFrame;
+  }
+
+  private compareChecksums(frame: number): void {
+    const local = this.localChecksums.get(frame);
+    const remote = this.remoteChecksums.get(frame);
+    if (local === undefined || remote === undefined) return;
+
+    this.localChecksums.delete(frame);
+    this.remoteChecksums.delete(frame);
+    if (local !== remote && this.desyncFrame === null) {
+      this.desyncFrame = frame;
+    }
+  }
+}
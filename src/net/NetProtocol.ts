@@ -0,0 +1,67 @@
+import type {InputSnapshot} from "../core/GameTypes";
+import type {DifficultyLevel} from "../systems/DifficultyManager";
+import type {KeyBindings} from "../systems/ControlBindings";
+
+// Keep in sync with scripts/relay-server.mjs
+export const RELAY_DEFAULT_PORT = 8787;
+export const RELAY_ROOM_SIZE = 2;
+
+// Fixed simulation step shared by every peer
+export const NET_FRAME_TIME = 1000 / 60;
+
+// Everything both peers need to start the same deterministic run
+export interface NetGameSetup {
+  seed: number;
+  difficulty: DifficultyLevel;
+  canvasWidth: number;
+  canvasHeight: number;
+  friendlyFire: boolean;
+  bindings: KeyBindings[]; // One set per player, indexed by player
+}
+
+// Handled by the relay itself
+export type RelayMessage =
+  | {type: "join"; room: string}
+  | {type: "joined"; room: string; playerIndex: number}
+  | {type: "peer-joined"; playerIndex: number}
+  | {type: "peer-left"; playerIndex: number}
+  | {type: "error"; message: string};
+
+// Passed through the relay untouched to the other player in the room
+export type PeerMessage =
+  | {type: "hello"; playerIndex: number; bindings: KeyBindings}
+  | {type: "start"; setup: NetGameSetup}
+  | {type: "input"; playerIndex: number; frame: number; input: InputSnapshot}
+  | {type: "checksum"; frame: number; value: number};
+
+export type NetMessage = RelayMessage | PeerMessage;
+
+const MESSAGE_TYPES: ReadonlyArray<NetMessage["type"]> = [
+  "join",
+  "joined",
+  "peer-joined",
+  "peer-left",
+  "error",
+  "hello",
+  "start",
+  "input",
+  "checksum",
+];
+
+export function parseNetMessage(text: string): NetMessage {
+  let data: {type?: unknown};
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Network message is not valid JSON");
+  }
+
+  if (
+    !data ||
+    typeof data.type !== "string" ||
+    !MESSAGE_TYPES.includes(data.type as NetMessage["type"])
+  ) {
+    throw new Error(`Unknown network message type "${data?.type}"`);
+  }
+  return data as NetMessage;
+}
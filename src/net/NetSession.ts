@@ -0,0 +1,274 @@
+import type {InputSnapshot, InputSource} from "../core/GameTypes";
+import type {KeyBindings} from "../systems/ControlBindings";
+import type {NetGameSetup, NetMessage} from "./NetProtocol";
+import {parseNetMessage} from "./NetProtocol";
+import {LockstepSession} from "./LockstepSession";
+
+// Browsers use the built-in WebSocket; Node clients pass the `ws` package's
+export type SocketFactory = (url: string) => WebSocket;
+
+export const NetSessionStatus = {
+  CONNECTING: "connecting",
+  WAITING: "waiting", // In a room, waiting for the other player
+  PLAYING: "playing",
+  CLOSED: "closed",
+} as const;
+
+export type NetSessionStatus =
+  (typeof NetSessionStatus)[keyof typeof NetSessionStatus];
+
+// Settings the host picks for the run; bindings are gathered from both players
+export type NetHostOptions = Omit<NetGameSetup, "bindings">;
+
+/**
+ * NetSession - One player's connection to an online co-op game.
+ * Joins a relay room, agrees on the run's setup with the other player and
+ * exchanges per-frame input through a LockstepSession. The first player in
+ * the room hosts and chooses the seed, difficulty and playfield size.
+ */
+export class NetSession {
+  public static readonly CHECKSUM_INTERVAL = 60; // Frames between desync checks
+
+  private socket: WebSocket;
+  private readonly room: string;
+  private readonly localBindings: KeyBindings;
+  private status: NetSessionStatus = NetSessionStatus.CONNECTING;
+  private playerIndex: number = -1;
+  private setup: NetGameSetup | null = null;
+  private lockstep: LockstepSession | null = null;
+  private hostOptions: (() => NetHostOptions) | null = null;
+  private closeReason: string = "";
+  private onStart: ((setup: NetGameSetup) => void) | null = null;
+  private onClose: ((reason: string) => void) | null = null;
+  private messageWaiters: Array<() => void> = [];
+
+  constructor(
+    url: string,
+    room: string,
+    bindings: KeyBindings,
+    createSocket: SocketFactory = (socketUrl) => new WebSocket(socketUrl)
+  ) {
+    this.room = room;
+    this.localBindings = bindings;
+    this.socket = createSocket(url);
+    this.socket.onopen = () => this.send({type: "join", room});
+    this.socket.onmessage = (event) => this.receive(String(event.data));
+    this.socket.onerror = () => {
+      this.closeReason ||= `Could not reach the relay at ${url}`;
+    };
+    this.socket.onclose = () =>
+      this.finish(this.closeReason || "Connection to the relay closed");
+  }
+
+  setOnStart(callback: (setup: NetGameSetup) => void): void {
+    this.onStart = callback;
+  }
+
+  setOnClose(callback: (reason: string) => void): void {
+    this.onClose = callback;
+  }
+
+  // Called on the host when the second player arrives
+  setHostOptions(options: () => NetHostOptions): void {
+    this.hostOptions = options;
+  }
+
+  private send(message: NetMessage): void {
+    if (this.socket.readyState === this.socket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private receive(text: string): void {
+    let message: NetMessage;
+    try {
+      message = parseNetMessage(text);
+    } catch (error) {
+      console.warn("Ignoring network message:", error);
+      return;
+    }
+
+    switch (message.type) {
+      case "joined":
+        this.playerIndex = message.playerIndex;
+        this.status = NetSessionStatus.WAITING;
+        // Only reaches a player who is already in the room
+        this.send({
+          type: "hello",
+          playerIndex: this.playerIndex,
+          bindings: this.localBindings,
+        });
+        break;
+
+      case "hello":
+        if (this.isHost() && this.status === NetSessionStatus.WAITING) {
+          this.hostGame(message.bindings);
+        }
+        break;
+
+      case "start":
+        if (!this.isHost() && this.status === NetSessionStatus.WAITING) {
+          this.begin(message.setup);
+        }
+        break;
+
+      case "input":
+        this.lockstep?.receiveInput(
+          message.playerIndex,
+          message.frame,
+          message.input
+        );
+        break;
+
+      case "checksum":
+        this.lockstep?.receiveChecksum(message.frame, message.value);
+        break;
+
+      case "peer-left":
+        // A host keeps the room open for someone else until the game starts
+        if (this.isHost() && this.status === NetSessionStatus.WAITING) break;
+        this.closeReason = "The other player left";
+        this.socket.close();
+        break;
+
+      case "error":
+        this.closeReason = message.message;
+        this.socket.close();
+        break;
+    }
+
+    this.notifyWaiters();
+  }
+
+  private hostGame(guestBindings: KeyBindings): void {
+    if (!this.hostOptions) return;
+
+    const setup: NetGameSetup = {
+      ...this.hostOptions(),
+      bindings: [this.localBindings, guestBindings],
+    };
+    this.send({type: "start", setup});
+    this.begin(setup);
+  }
+
+  private begin(setup: NetGameSetup): void {
+    this.setup = setup;
+    this.lockstep = new LockstepSession(
+      this.playerIndex,
+      setup.bindings.length
+    );
+    this.status = NetSessionStatus.PLAYING;
+    this.onStart?.(setup);
+  }
+
+  private finish(reason: string): void {
+    if (this.status === NetSessionStatus.CLOSED) return;
+
+    this.status = NetSessionStatus.CLOSED;
+    this.closeReason = reason;
+    this.onClose?.(reason);
+    this.notifyWaiters();
+  }
+
+  // Leave the room; the other player is told by the relay
+  close(): void {
+    this.closeReason ||= "Left the game";
+    this.status = NetSessionStatus.CLOSED;
+    this.socket.close();
+    this.notifyWaiters();
+  }
+
+  /**
+   * Send the local player's input for an upcoming frame
+   * @returns false if we are too far ahead of the other player to queue more
+   */
+  sendInput(snapshot: InputSnapshot): boolean {
+    const lockstep = this.lockstep;
+    if (!lockstep || !lockstep.canQueueLocalInput()) return false;
+
+    const frame = lockstep.queueLocalInput(snapshot);
+    this.send({
+      type: "input",
+      playerIndex: this.playerIndex,
+      frame,
+      input: snapshot,
+    });
+    return true;
+  }
+
+  isFrameReady(): boolean {
+    return this.isRunning() && this.lockstep!.isFrameReady();
+  }
+
+  // Load both players' input for the next frame
+  advance(): boolean {
+    return this.isRunning() && this.lockstep!.advance();
+  }
+
+  // Share a fingerprint of the simulation every CHECKSUM_INTERVAL frames
+  reportChecksum(value: number): void {
+    const lockstep = this.lockstep;
+    if (!lockstep) return;
+
+    const frame = lockstep.getFrame();
+    if (frame % NetSession.CHECKSUM_INTERVAL !== 0) return;
+
+    lockstep.recordLocalChecksum(frame, value);
+    this.send({type: "checksum", frame, value});
+  }
+
+  getDesyncFrame(): number | null {
+    return this.lockstep ? this.lockstep.getDesyncFrame() : null;
+  }
+
+  getInput(playerIndex: number): InputSource {
+    if (!this.lockstep) {
+      throw new Error("Online game has not started");
+    }
+    return this.lockstep.getInput(playerIndex);
+  }
+
+  // Resolves on the next message from the relay or when the session closes
+  waitForMessage(): Promise<void> {
+    if (this.status === NetSessionStatus.CLOSED) return Promise.resolve();
+    return new Promise((resolve) => this.messageWaiters.push(resolve));
+  }
+
+  private notifyWaiters(): void {
+    const waiters = this.messageWaiters;
+    this.messageWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  isHost(): boolean {
+    return this.playerIndex === 0;
+  }
+
+  isRunning(): boolean {
+    return this.status === NetSessionStatus.PLAYING;
+  }
+
+  getStatus(): NetSessionStatus {
+    return this.status;
+  }
+
+  getCloseReason(): string {
+    return this.closeReason;
+  }
+
+  getPlayerIndex(): number {
+    return this.playerIndex;
+  }
+
+  getRoom(): string {
+    return this.room;
+  }
+
+  getSetup(): NetGameSetup | null {
+    return this.setup;
+  }
+
+  getFrame(): number {
+    return this.lockstep ? this.lockstep.getFrame() : 0;
+  }
+}
@@ -17,6 +17,7 @@ export class AchievementTracker {
   private comboMultiplier: number = 1;
   private lastComboTime: number = 0;
   private comboDecayTimer: number = 0;
+  private currentTime: number = 0; // Latest time passed to update()
 
   // Streak thresholds
   private readonly KILL_STREAK_THRESHOLDS = [10, 20, 30, 50, 80, 100];
@@ -27,6 +28,8 @@ export class AchievementTracker {
   private readonly COMBO_THRESHOLDS = [5, 10, 15, 25, 50, 100];
 
   update(deltaTime: number, currentTime: number): void {
+    this.currentTime = currentTime;
+
     // Decay combo if no kills
     if (currentTime - this.lastComboTime > this.COMBO_TIMEOUT) {
       this.comboDecayTimer += deltaTime;
@@ -134,6 +137,8 @@ export class AchievementTracker {
     this.comboCount = 0;
     this.comboMultiplier = 1;
     this.lastComboTime = 0;
+    this.lastKillTime = 0;
+    this.comboDecayTimer = 0;
   }
 
   private updateComboMultiplier(): void {
@@ -237,7 +242,7 @@ export class AchievementTracker {
 
   getComboProgress(): number {
     // Returns 0-1 progress until combo breaks
-    const timeSinceLastKill = Date.now() - this.lastComboTime;
+    const timeSinceLastKill = this.currentTime - this.lastComboTime;
     return Math.max(0, 1 - timeSinceLastKill / this.COMBO_TIMEOUT);
   }
 }
@@ -0,0 +1,39 @@
+import {describe, expect, it} from "vitest";
+import {BOSS_RUSH_ORDER, BossRush, formatSplit} from "./BossRush";
+import {Boss, BossType} from "../entities/Boss";
+import {Random} from "../utils/Random";
+
+describe("BossRush", () => {
+  it("brings each boss in turn and records splits between defeats", () => {
+    const rush = new BossRush();
+    expect(rush.getCurrentBoss()).toBe(BossType.MOTHERSHIP);
+
+    expect(rush.recordDefeat(20000)).toBe(4000);
+    expect(rush.getCurrentBoss()).toBe(BOSS_RUSH_ORDER[1]);
+    expect(rush.getTier()).toBe(1);
+
+    rush.recordDefeat(50000);
+    expect(rush.recordDefeat(130000)).toBe(0); // Slower than par
+    rush.recordDefeat(170000);
+    expect(rush.isComplete()).toBe(false);
+    rush.recordDefeat(200000);
+    expect(rush.isComplete()).toBe(true);
+    expect(rush.getCurrentBoss()).toBeNull();
+    expect(rush.getSplits()).toEqual([20000, 30000, 80000, 40000, 30000]);
+    expect(rush.getRunTime(210000)).toBe(200000);
+  });
+
+  it("formats splits to a tenth of a second", () => {
+    expect(formatSplit(83456)).toBe("1:23.4");
+    expect(formatSplit(5000)).toBe("0:05.0");
+  });
+
+  it("gives later tiers more health and a later starting phase", () => {
+    const position = {x: 0, y: 0};
+    const first = new Boss(position, BossType.FORTRESS, new Random(1));
+    const third = new Boss(position, BossType.FORTRESS, new Random(1), 2);
+    expect(third.getMaxHealth()).toBe(first.getMaxHealth() * 2);
+    expect(first.getPhase()).toBe(0);
+    expect(third.getPhase()).toBe(2);
+  });
+});
@@ -0,0 +1,71 @@
+import {BossType} from "../entities/Boss";
+
+// Every boss, back to back; each stage is one tier tougher than the last
+export const BOSS_RUSH_ORDER: readonly BossType[] = [
+  BossType.MOTHERSHIP,
+  BossType.FORTRESS,
+  BossType.SWARM_COMMANDER,
+  BossType.LEVIATHAN,
+  BossType.HYDRA,
+];
+
+export const BOSS_RUSH_PAR_TIME = 60000; // Per boss; faster splits earn a bonus
+
+// Milliseconds as m:ss.t
+export function formatSplit(milliseconds: number): string {
+  const tenths = Math.floor(Math.max(0, milliseconds) / 100);
+  const seconds = Math.floor(tenths / 10);
+  const padded = String(seconds % 60).padStart(2, "0");
+  return `${Math.floor(seconds / 60)}:${padded}.${tenths % 10}`;
+}
+
+/**
+ * BossRush - Keeps the order, clock and split times of a boss rush.
+ * A split runs from the previous boss falling (or the start) to the next
+ * one falling, so the splits add up to the run's time.
+ */
+export class BossRush {
+  private splits: number[] = [];
+  private lastSplitAt: number = 0;
+
+  // The boss to fight now, or null once the rush is complete
+  getCurrentBoss(): BossType | null {
+    return BOSS_RUSH_ORDER[this.splits.length] ?? null;
+  }
+
+  // 0 for the first boss; later bosses have more health and start in a
+  // later attack phase
+  getTier(): number {
+    return this.splits.length;
+  }
+
+  getStageCount(): number {
+    return BOSS_RUSH_ORDER.length;
+  }
+
+  isComplete(): boolean {
+    return this.splits.length >= BOSS_RUSH_ORDER.length;
+  }
+
+  /**
+   * Close the current split
+   * @param now Run time in milliseconds
+   * @returns The split's time bonus
+   */
+  recordDefeat(now: number): number {
+    if (this.isComplete()) return 0;
+    const split = now - this.lastSplitAt;
+    this.splits.push(split);
+    this.lastSplitAt = now;
+    return Math.max(0, Math.round((BOSS_RUSH_PAR_TIME - split) / 10));
+  }
+
+  getSplits(): number[] {
+    return [...this.splits];
+  }
+
+  // The run's clock, which stops when the last boss falls
+  getRunTime(now: number): number {
+    return this.isComplete() ? this.lastSplitAt : now;
+  }
+}
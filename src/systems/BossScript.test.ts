@@ -0,0 +1,75 @@
+import {describe, expect, it} from "vitest";
+import {BossType} from "../entities/Boss";
+import {getPhaseAt, parseBossScripts} from "./BossScript";
+import bossData from "../data/bosses.json";
+
+const TYPES = Object.values(BossType);
+
+function withMothership(phases: unknown[]): unknown {
+  return {...bossData, mothership: {phases}};
+}
+
+describe("parseBossScripts", () => {
+  it("loads the built-in scripts", () => {
+    const scripts = parseBossScripts(bossData, TYPES);
+    expect(scripts.fortress.phases[0].shield).toEqual({
+      segments: 4,
+      health: 3,
+    });
+    expect(scripts.swarmCommander.phases[0].moves).toContainEqual({
+      type: "summon",
+      enemy: "scout",
+      count: 2,
+    });
+  });
+
+  it("names the boss, phase and move at fault", () => {
+    expect(() =>
+      parseBossScripts(
+        withMothership([
+          {threshold: 1, attackCooldown: 1000, moves: [{type: "ring"}]},
+        ]),
+        TYPES
+      )
+    ).toThrow("Boss scripts, mothership, phase 1, move 1: count must be");
+    expect(() =>
+      parseBossScripts(
+        withMothership([
+          {threshold: 1, attackCooldown: 1000, moves: [{type: "dance"}]},
+        ]),
+        TYPES
+      )
+    ).toThrow('unknown move "dance"');
+    expect(() => parseBossScripts({mothership: {phases: []}}, TYPES)).toThrow(
+      '"phases" must be a non-empty list'
+    );
+  });
+
+  it("needs thresholds that start at 1 and fall", () => {
+    const ring = [{type: "ring", count: 4}];
+    expect(() =>
+      parseBossScripts(
+        withMothership([{threshold: 0.8, attackCooldown: 1000, moves: ring}]),
+        TYPES
+      )
+    ).toThrow("the first phase must have threshold 1");
+    expect(() =>
+      parseBossScripts(
+        withMothership([
+          {threshold: 1, attackCooldown: 1000, moves: ring},
+          {threshold: 0.3, attackCooldown: 1000, moves: ring},
+          {threshold: 0.6, attackCooldown: 1000, moves: ring},
+        ]),
+        TYPES
+      )
+    ).toThrow("phase 3: threshold must be lower than the phase before");
+  });
+
+  it("finds the phase for a share of health", () => {
+    const script = parseBossScripts(bossData, TYPES).mothership;
+    expect(getPhaseAt(script, 1)).toBe(0);
+    expect(getPhaseAt(script, 0.5)).toBe(0);
+    expect(getPhaseAt(script, 0.4)).toBe(1);
+    expect(getPhaseAt(script, 0.1)).toBe(2);
+  });
+});
@@ -0,0 +1,262 @@
+import {EnemyType} from "../entities/Enemy";
+import {checkFields, formatValue, isRecord} from "../utils/validation";
+
+// What a boss can do on one attack
+export const BossMoveType = {
+  RING: "ring", // count bullets evenly around the boss, turning with it
+  CROSS: "cross", // Bullets along the four axes, plus diagonals if asked
+  SPREAD: "spread", // count bullets in random directions
+  AIMED_BURST: "aimedBurst", // A fan of count bullets at the nearest ship
+  LASER_SWEEP: "laserSweep", // A beam swung across the nearest ship
+  SUMMON: "summon", // count enemies launched from the boss
+  SPIT_ASTEROIDS: "spitAsteroids", // Up to count swallowed asteroids, aimed
+  CORE_BURST: "coreBurst", // An aimed burst from each of the boss's cores
+} as const;
+
+export type BossMoveType = (typeof BossMoveType)[keyof typeof BossMoveType];
+
+// Angles are written in degrees, durations in milliseconds
+export type BossMove =
+  | {type: typeof BossMoveType.RING; count: number}
+  | {type: typeof BossMoveType.CROSS; diagonals: boolean}
+  | {type: typeof BossMoveType.SPREAD; count: number}
+  | {type: typeof BossMoveType.AIMED_BURST; count: number; spread: number}
+  | {type: typeof BossMoveType.LASER_SWEEP; arc: number; duration: number}
+  | {type: typeof BossMoveType.SUMMON; enemy: EnemyType; count: number}
+  | {type: typeof BossMoveType.SPIT_ASTEROIDS; count: number}
+  | {type: typeof BossMoveType.CORE_BURST; count: number; spread: number};
+
+// Segments orbiting the boss; it can't be hurt until all are shot down
+export interface BossShield {
+  segments: number;
+  health: number; // Hits each segment takes
+}
+
+export interface BossPhase {
+  threshold: number; // Starts below this fraction of health; 1 for the first
+  attackCooldown: number;
+  moves: BossMove[]; // Used in turn, one per attack
+  shield: BossShield | null; // Raised when the phase begins
+}
+
+export interface BossScript {
+  phases: BossPhase[];
+}
+
+// Summoned enemies alive at once, so a long fight can't flood the screen
+export const MAX_MINIONS = 6;
+
+const PHASE_FIELDS = ["threshold", "attackCooldown", "moves", "shield"];
+
+const MOVE_FIELDS: Record<BossMoveType, string[]> = {
+  [BossMoveType.RING]: ["count"],
+  [BossMoveType.CROSS]: ["diagonals"],
+  [BossMoveType.SPREAD]: ["count"],
+  [BossMoveType.AIMED_BURST]: ["count", "spread"],
+  [BossMoveType.LASER_SWEEP]: ["arc", "duration"],
+  [BossMoveType.SUMMON]: ["enemy", "count"],
+  [BossMoveType.SPIT_ASTEROIDS]: ["count"],
+  [BossMoveType.CORE_BURST]: ["count", "spread"],
+};
+
+function parseCount(value: unknown, where: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw new Error(
+      `${where}: count must be a whole number of at least 1 (got ${formatValue(
+        value
+      )})`
+    );
+  }
+  return value;
+}
+
+function parseAmount(
+  value: unknown,
+  field: string,
+  unit: string,
+  where: string
+): number {
+  if (typeof value !== "number" || !(value > 0)) {
+    throw new Error(
+      `${where}: ${field} must be a positive number of ${unit} (got ${formatValue(
+        value
+      )})`
+    );
+  }
+  return value;
+}
+
+function parseBurst(
+  data: Record<string, unknown>,
+  where: string
+): {count: number; spread: number} {
+  return {
+    count: parseCount(data.count, where),
+    spread:
+      data.spread === undefined
+        ? 0
+        : parseAmount(data.spread, "spread", "degrees", where),
+  };
+}
+
+function parseMove(data: unknown, where: string): BossMove {
+  if (!isRecord(data)) {
+    throw new Error(`${where}: expected an object`);
+  }
+  const {type, ...fields} = data;
+  const allowed = Object.values(BossMoveType);
+  if (!allowed.includes(type as BossMoveType)) {
+    throw new Error(
+      `${where}: unknown move ${formatValue(type)} (expected ${allowed
+        .map((option) => `"${option}"`)
+        .join(", ")})`
+    );
+  }
+  checkFields(fields, MOVE_FIELDS[type as BossMoveType], where);
+
+  switch (type as BossMoveType) {
+    case BossMoveType.RING:
+      return {type: BossMoveType.RING, count: parseCount(data.count, where)};
+    case BossMoveType.CROSS:
+      if (data.diagonals !== undefined && typeof data.diagonals !== "boolean") {
+        throw new Error(`${where}: diagonals must be true or false`);
+      }
+      return {type: BossMoveType.CROSS, diagonals: data.diagonals === true};
+    case BossMoveType.SPREAD:
+      return {type: BossMoveType.SPREAD, count: parseCount(data.count, where)};
+    case BossMoveType.AIMED_BURST:
+      return {type: BossMoveType.AIMED_BURST, ...parseBurst(data, where)};
+    case BossMoveType.CORE_BURST:
+      return {type: BossMoveType.CORE_BURST, ...parseBurst(data, where)};
+    case BossMoveType.LASER_SWEEP:
+      return {
+        type: BossMoveType.LASER_SWEEP,
+        arc: parseAmount(data.arc, "arc", "degrees", where),
+        duration: parseAmount(data.duration, "duration", "milliseconds", where),
+      };
+    case BossMoveType.SUMMON: {
+      const enemies = Object.values(EnemyType);
+      if (!enemies.includes(data.enemy as EnemyType)) {
+        throw new Error(
+          `${where}: unknown enemy type ${formatValue(data.enemy)}`
+        );
+      }
+      return {
+        type: BossMoveType.SUMMON,
+        enemy: data.enemy as EnemyType,
+        count: parseCount(data.count, where),
+      };
+    }
+    case BossMoveType.SPIT_ASTEROIDS:
+      return {
+        type: BossMoveType.SPIT_ASTEROIDS,
+        count: parseCount(data.count, where),
+      };
+  }
+}
+
+function parseShield(data: unknown, where: string): BossShield | null {
+  if (data === undefined) return null;
+  if (!isRecord(data)) {
+    throw new Error(`${where}: "shield" must be an object`);
+  }
+  checkFields(data, ["segments", "health"], `${where}, shield`);
+  return {
+    segments: parseCount(data.segments, `${where}, shield segments`),
+    health: parseCount(data.health, `${where}, shield health`),
+  };
+}
+
+function parsePhase(data: unknown, where: string): BossPhase {
+  if (!isRecord(data)) {
+    throw new Error(`${where}: expected an object`);
+  }
+  checkFields(data, PHASE_FIELDS, where);
+
+  const threshold = data.threshold;
+  if (typeof threshold !== "number" || !(threshold > 0 && threshold <= 1)) {
+    throw new Error(
+      `${where}: threshold must be a fraction of health above 0 and at most 1 (got ${formatValue(
+        threshold
+      )})`
+    );
+  }
+  if (!Array.isArray(data.moves) || data.moves.length === 0) {
+    throw new Error(`${where}: "moves" must be a non-empty list`);
+  }
+  return {
+    threshold,
+    attackCooldown: parseAmount(
+      data.attackCooldown,
+      "attackCooldown",
+      "milliseconds",
+      where
+    ),
+    moves: data.moves.map((move, i) =>
+      parseMove(move, `${where}, move ${i + 1}`)
+    ),
+    shield: parseShield(data.shield, where),
+  };
+}
+
+function parseScript(data: unknown, where: string): BossScript {
+  if (!isRecord(data)) {
+    throw new Error(`${where}: expected an object with a "phases" list`);
+  }
+  checkFields(data, ["phases"], where);
+  if (!Array.isArray(data.phases) || data.phases.length === 0) {
+    throw new Error(`${where}: "phases" must be a non-empty list`);
+  }
+  const phases = data.phases.map((phase, i) =>
+    parsePhase(phase, `${where}, phase ${i + 1}`)
+  );
+
+  if (phases[0].threshold !== 1) {
+    throw new Error(`${where}: the first phase must have threshold 1`);
+  }
+  for (let i = 1; i < phases.length; i++) {
+    if (phases[i].threshold >= phases[i - 1].threshold) {
+      throw new Error(
+        `${where}, phase ${
+          i + 1
+        }: threshold must be lower than the phase before`
+      );
+    }
+  }
+  return {phases};
+}
+
+/**
+ * Validate boss scripts loaded from JSON, one per boss type
+ * @throws Error naming the boss, phase and move at fault
+ */
+export function parseBossScripts<T extends string>(
+  data: unknown,
+  bossTypes: readonly T[],
+  name = "Boss scripts"
+): Record<T, BossScript> {
+  if (!isRecord(data)) {
+    throw new Error(`${name}: expected an object keyed by boss type`);
+  }
+  checkFields(data, [...bossTypes], name);
+
+  const scripts = {} as Record<T, BossScript>;
+  for (const type of bossTypes) {
+    if (data[type] === undefined) {
+      throw new Error(`${name}: no script for "${type}"`);
+    }
+    scripts[type] = parseScript(data[type], `${name}, ${type}`);
+  }
+  return scripts;
+}
+
+// Index of the phase a boss is in at the given fraction of its health
+export function getPhaseAt(script: BossScript, healthFraction: number): number {
+  let phase = 0;
+  script.phases.forEach((candidate, i) => {
+    if (healthFraction < candidate.threshold) {
+      phase = i;
+    }
+  });
+  return phase;
+}
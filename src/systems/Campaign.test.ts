@@ -0,0 +1,99 @@
+import {describe, expect, it} from "vitest";
+import {
+  CAMPAIGN_SECTORS,
+  SectorObjective,
+  describeGoal,
+  parseCampaign,
+  rateSector,
+} from "./Campaign";
+
+const waves = {
+  waves: [{bonusScore: 0, enemies: [{type: "scout", count: 1, spawnDelay: 0}]}],
+};
+
+function sector(fields: Record<string, unknown>): Record<string, unknown> {
+  return {
+    id: "test",
+    name: "Test",
+    description: "A test sector",
+    goal: {type: "clearWaves", waves: 1},
+    stars: [100, 200],
+    waves,
+    ...fields,
+  };
+}
+
+describe("parseCampaign", () => {
+  it("loads the built-in sectors", () => {
+    expect(CAMPAIGN_SECTORS.length).toBeGreaterThan(1);
+    expect(CAMPAIGN_SECTORS[0].waves.waves.length).toBeGreaterThan(0);
+  });
+
+  it("rejects bad sectors, naming the one at fault", () => {
+    const bad: [Record<string, unknown>, string][] = [
+      [sector({name: ""}), '"name" must be'],
+      [sector({goal: {type: "escort"}}), "unknown goal type"],
+      [sector({goal: {type: "survive", seconds: 0}}), '"seconds"'],
+      [sector({goal: {type: "defeatBoss", boss: "kraken"}}), "boss type"],
+      [
+        sector({goal: {type: "defeatBoss", boss: "fortress"}}),
+        "no wave brings the Fortress",
+      ],
+      [sector({stars: [300, 200]}), "lowest first"],
+      [sector({waves: {waves: []}}), '"waves" must be a non-empty list'],
+    ];
+    for (const [data, message] of bad) {
+      expect(() => parseCampaign({sectors: [data]})).toThrow(message);
+    }
+    expect(() =>
+      parseCampaign({sectors: [sector({goal: {type: "escort"}})]})
+    ).toThrow('Campaign, sector 1 "test": unknown goal type "escort"');
+  });
+
+  it("rejects duplicate sector ids", () => {
+    expect(() => parseCampaign({sectors: [sector({}), sector({})]})).toThrow(
+      'sector id "test" is used twice'
+    );
+  });
+});
+
+describe("rateSector", () => {
+  it("gives a star for clearing and one per score threshold", () => {
+    const [parsed] = parseCampaign({sectors: [sector({})]});
+    expect(rateSector(parsed, 0)).toBe(1);
+    expect(rateSector(parsed, 100)).toBe(2);
+    expect(rateSector(parsed, 250)).toBe(3);
+  });
+});
+
+describe("SectorObjective", () => {
+  it("counts cleared waves", () => {
+    const objective = new SectorObjective({type: "clearWaves", waves: 2});
+    objective.onWaveCleared();
+    expect(objective.isComplete()).toBe(false);
+    expect(objective.getStatusText()).toBe("Waves cleared: 1/2");
+    objective.onWaveCleared();
+    expect(objective.isComplete()).toBe(true);
+  });
+
+  it("only completes for the named boss", () => {
+    const objective = new SectorObjective({
+      type: "defeatBoss",
+      boss: "fortress",
+    });
+    objective.onBossDefeated("mothership");
+    expect(objective.isComplete()).toBe(false);
+    objective.onBossDefeated("fortress");
+    expect(objective.isComplete()).toBe(true);
+  });
+
+  it("counts down the survival timer", () => {
+    const goal = {type: "survive", seconds: 90} as const;
+    const objective = new SectorObjective(goal);
+    expect(describeGoal(goal)).toBe("Survive for 1:30");
+    objective.update(30500);
+    expect(objective.getStatusText()).toBe("Survive: 1:00 left");
+    objective.update(59500);
+    expect(objective.isComplete()).toBe(true);
+  });
+});
@@ -0,0 +1,228 @@
+import {BossType} from "../entities/Boss";
+import type {WaveScript} from "./WaveScript";
+import {parseWaveScript} from "./WaveScript";
+import {formatTime} from "../utils/formatTime";
+import campaignData from "../data/campaign.json";
+import {isRecord} from "../utils/validation";
+
+export const CampaignGoalType = {
+  CLEAR_WAVES: "clearWaves",
+  DEFEAT_BOSS: "defeatBoss",
+  SURVIVE: "survive",
+} as const;
+
+export type CampaignGoalType =
+  (typeof CampaignGoalType)[keyof typeof CampaignGoalType];
+
+export type CampaignGoal =
+  | {type: typeof CampaignGoalType.CLEAR_WAVES; waves: number}
+  | {type: typeof CampaignGoalType.DEFEAT_BOSS; boss: BossType}
+  | {type: typeof CampaignGoalType.SURVIVE; seconds: number};
+
+export interface CampaignSector {
+  id: string;
+  name: string;
+  description: string;
+  goal: CampaignGoal;
+  stars: [number, number]; // Scores for the second and third star
+  waves: WaveScript;
+}
+
+const BOSS_NAMES: Record<BossType, string> = {
+  [BossType.MOTHERSHIP]: "Mothership",
+  [BossType.FORTRESS]: "Fortress",
+  [BossType.SWARM_COMMANDER]: "Swarm Commander",
+  [BossType.LEVIATHAN]: "Leviathan",
+  [BossType.HYDRA]: "Hydra",
+};
+
+export const MAX_STARS = 3;
+
+function isPositiveWholeNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1;
+}
+
+function parseGoal(data: unknown, where: string): CampaignGoal {
+  if (!isRecord(data)) {
+    throw new Error(`${where}: "goal" must be an object`);
+  }
+  switch (data.type) {
+    case CampaignGoalType.CLEAR_WAVES:
+      if (!isPositiveWholeNumber(data.waves)) {
+        throw new Error(`${where}: goal needs a number of "waves" to clear`);
+      }
+      return {type: data.type, waves: data.waves};
+    case CampaignGoalType.DEFEAT_BOSS:
+      if (!Object.values(BossType).includes(data.boss as BossType)) {
+        throw new Error(
+          `${where}: unknown boss type ${JSON.stringify(data.boss)}`
+        );
+      }
+      return {type: data.type, boss: data.boss as BossType};
+    case CampaignGoalType.SURVIVE:
+      if (!isPositiveWholeNumber(data.seconds)) {
+        throw new Error(
+          `${where}: goal needs a number of "seconds" to survive`
+        );
+      }
+      return {type: data.type, seconds: data.seconds};
+    default:
+      throw new Error(
+        `${where}: unknown goal type ${JSON.stringify(
+          data.type
+        )} (expected ${Object.values(CampaignGoalType)
+          .map((type) => `"${type}"`)
+          .join(", ")})`
+      );
+  }
+}
+
+function parseSector(data: unknown, where: string): CampaignSector {
+  if (!isRecord(data)) {
+    throw new Error(`${where}: expected an object`);
+  }
+  for (const field of ["id", "name", "description"]) {
+    if (typeof data[field] !== "string" || data[field] === "") {
+      throw new Error(`${where}: "${field}" must be a non-empty string`);
+    }
+  }
+  const id = data.id as string;
+  const at = `${where} "${id}"`;
+
+  const stars = data.stars;
+  if (
+    !Array.isArray(stars) ||
+    stars.length !== 2 ||
+    !stars.every((score) => typeof score === "number" && score >= 0) ||
+    stars[0] > stars[1]
+  ) {
+    throw new Error(
+      `${at}: "stars" must be two scores, lowest first, for the second and third star`
+    );
+  }
+
+  const goal = parseGoal(data.goal, at);
+  const waves = parseWaveScript(data.waves, at);
+  if (
+    goal.type === CampaignGoalType.DEFEAT_BOSS &&
+    !waves.waves.some((wave) => wave.boss === goal.boss)
+  ) {
+    throw new Error(`${at}: no wave brings the ${BOSS_NAMES[goal.boss]}`);
+  }
+
+  return {
+    id,
+    name: data.name as string,
+    description: data.description as string,
+    goal,
+    stars: [stars[0], stars[1]],
+    waves,
+  };
+}
+
+/**
+ * Validate the campaign loaded from JSON
+ * @throws Error naming the sector and field at fault
+ */
+export function parseCampaign(
+  data: unknown,
+  name = "Campaign"
+): CampaignSector[] {
+  if (!isRecord(data) || !Array.isArray(data.sectors)) {
+    throw new Error(`${name}: expected an object with a "sectors" list`);
+  }
+  const sectors = data.sectors.map((sector, i) =>
+    parseSector(sector, `${name}, sector ${i + 1}`)
+  );
+  const ids = new Set<string>();
+  for (const sector of sectors) {
+    if (ids.has(sector.id)) {
+      throw new Error(`${name}: sector id "${sector.id}" is used twice`);
+    }
+    ids.add(sector.id);
+  }
+  return sectors;
+}
+
+// Checked when the module loads, like the built-in wave script
+export const CAMPAIGN_SECTORS = parseCampaign(
+  campaignData,
+  "src/data/campaign.json"
+);
+
+export function describeGoal(goal: CampaignGoal): string {
+  switch (goal.type) {
+    case CampaignGoalType.CLEAR_WAVES:
+      return `Clear ${goal.waves} waves`;
+    case CampaignGoalType.DEFEAT_BOSS:
+      return `Defeat the ${BOSS_NAMES[goal.boss]}`;
+    case CampaignGoalType.SURVIVE:
+      return `Survive for ${formatTime(goal.seconds)}`;
+  }
+}
+
+// One star for meeting the goal, more for a high enough score
+export function rateSector(sector: CampaignSector, score: number): number {
+  return 1 + sector.stars.filter((threshold) => score >= threshold).length;
+}
+
+/**
+ * SectorObjective - Tracks one campaign run towards its sector's goal.
+ * GameManager reports waves and bosses as they fall; time only passes
+ * while the game is being played.
+ */
+export class SectorObjective {
+  private goal: CampaignGoal;
+  private wavesCleared: number = 0;
+  private bossDefeated: boolean = false;
+  private elapsed: number = 0; // milliseconds
+
+  constructor(goal: CampaignGoal) {
+    this.goal = goal;
+  }
+
+  update(deltaTime: number): void {
+    this.elapsed += deltaTime;
+  }
+
+  onWaveCleared(): void {
+    this.wavesCleared++;
+  }
+
+  onBossDefeated(type: BossType): void {
+    if (
+      this.goal.type === CampaignGoalType.DEFEAT_BOSS &&
+      type === this.goal.boss
+    ) {
+      this.bossDefeated = true;
+    }
+  }
+
+  isComplete(): boolean {
+    switch (this.goal.type) {
+      case CampaignGoalType.CLEAR_WAVES:
+        return this.wavesCleared >= this.goal.waves;
+      case CampaignGoalType.DEFEAT_BOSS:
+        return this.bossDefeated;
+      case CampaignGoalType.SURVIVE:
+        return this.elapsed >= this.goal.seconds * 1000;
+    }
+  }
+
+  // Short progress line for the HUD
+  getStatusText(): string {
+    switch (this.goal.type) {
+      case CampaignGoalType.CLEAR_WAVES:
+        return `Waves cleared: ${Math.min(
+          this.wavesCleared,
+          this.goal.waves
+        )}/${this.goal.waves}`;
+      case CampaignGoalType.DEFEAT_BOSS:
+        return describeGoal(this.goal);
+      case CampaignGoalType.SURVIVE:
+        return `Survive: ${formatTime(
+          this.goal.seconds - this.elapsed / 1000
+        )} left`;
+    }
+  }
+}
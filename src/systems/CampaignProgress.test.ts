@@ -0,0 +1,43 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {CampaignProgress} from "./CampaignProgress";
+import {CAMPAIGN_SECTORS} from "./Campaign";
+import {installMemoryStorage} from "../test/memoryStorage";
+
+const [first, second, third] = CAMPAIGN_SECTORS;
+
+describe("CampaignProgress", () => {
+  beforeEach(() => {
+    installMemoryStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("unlocks sectors in order as they are cleared", () => {
+    const progress = new CampaignProgress(CAMPAIGN_SECTORS);
+    expect(progress.isUnlocked(first.id)).toBe(true);
+    expect(progress.isUnlocked(second.id)).toBe(false);
+
+    progress.recordClear(first.id, 1, 1000);
+    expect(progress.isUnlocked(second.id)).toBe(true);
+    expect(progress.isUnlocked(third.id)).toBe(false);
+    expect(progress.isUnlocked("no-such-sector")).toBe(false);
+  });
+
+  it("keeps the best stars and score", () => {
+    const progress = new CampaignProgress(CAMPAIGN_SECTORS);
+    expect(progress.recordClear(first.id, 2, 5000).newBest).toBe(true);
+    expect(progress.recordClear(first.id, 3, 4000).newBest).toBe(false);
+    expect(progress.getRecord(first.id)).toEqual({stars: 3, bestScore: 5000});
+    progress.recordClear(second.id, 1, 100);
+    expect(progress.getTotalStars()).toBe(4);
+  });
+
+  it("persists progress between sessions", () => {
+    new CampaignProgress(CAMPAIGN_SECTORS).recordClear(first.id, 2, 3000);
+    const reloaded = new CampaignProgress(CAMPAIGN_SECTORS);
+    expect(reloaded.getRecord(first.id)).toEqual({stars: 2, bestScore: 3000});
+    expect(reloaded.isUnlocked(second.id)).toBe(true);
+  });
+});
@@ -0,0 +1,76 @@
+import type {CampaignSector} from "./Campaign";
+
+export interface SectorRecord {
+  stars: number;
+  bestScore: number;
+}
+
+export interface SectorResult {
+  stars: number;
+  newBest: boolean;
+}
+
+export class CampaignProgress {
+  private static readonly STORAGE_KEY = "asteroids_campaign";
+  private sectors: readonly CampaignSector[];
+  private records: Record<string, SectorRecord> = {};
+
+  constructor(sectors: readonly CampaignSector[]) {
+    this.sectors = sectors;
+    this.loadFromStorage();
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(CampaignProgress.STORAGE_KEY);
+      if (stored) {
+        this.records = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.warn("Failed to load campaign progress from storage:", error);
+      this.records = {};
+    }
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(
+        CampaignProgress.STORAGE_KEY,
+        JSON.stringify(this.records)
+      );
+    } catch (error) {
+      console.warn("Failed to save campaign progress to storage:", error);
+    }
+  }
+
+  getRecord(sectorId: string): SectorRecord | null {
+    return this.records[sectorId] ?? null;
+  }
+
+  // The first sector is always open; each later one opens when the one
+  // before it has been cleared
+  isUnlocked(sectorId: string): boolean {
+    const index = this.sectors.findIndex((sector) => sector.id === sectorId);
+    if (index <= 0) return index === 0;
+    return this.getRecord(this.sectors[index - 1].id) !== null;
+  }
+
+  getTotalStars(): number {
+    return this.sectors.reduce(
+      (total, sector) => total + (this.getRecord(sector.id)?.stars ?? 0),
+      0
+    );
+  }
+
+  // Keep the best stars and score from a cleared sector
+  recordClear(sectorId: string, stars: number, score: number): SectorResult {
+    const previous = this.getRecord(sectorId);
+    const newBest = !previous || score > previous.bestScore;
+    this.records[sectorId] = {
+      stars: Math.max(stars, previous?.stars ?? 0),
+      bestScore: Math.max(score, previous?.bestScore ?? 0),
+    };
+    this.saveToStorage();
+    return {stars, newBest};
+  }
+}
@@ -0,0 +1,117 @@
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {
+  ControlBindings,
+  DEFAULT_BINDINGS,
+  GameAction,
+  PLAYER_TWO_BINDINGS,
+  formatKey,
+} from "./ControlBindings";
+import {ScriptedInput} from "../headless/HeadlessGame";
+import {installMemoryStorage} from "../test/memoryStorage";
+
+describe("ControlBindings", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("maps actions to any of their keys", () => {
+    const controls = new ControlBindings(false);
+    const input = new ScriptedInput();
+
+    input.setKeys(["KeyW"]);
+    expect(controls.isActionDown(input, GameAction.THRUST)).toBe(true);
+    expect(controls.isActionPressed(input, GameAction.THRUST)).toBe(true);
+    expect(controls.isActionDown(input, GameAction.FIRE)).toBe(false);
+
+    input.clearPressed();
+    expect(controls.isActionPressed(input, GameAction.THRUST)).toBe(false);
+  });
+
+  it("replaces the primary key and keeps alternates", () => {
+    const controls = new ControlBindings(false);
+    expect(controls.rebind(GameAction.THRUST, "KeyI")).toBe(true);
+    expect(controls.getKeys(GameAction.THRUST)).toEqual(["KeyI", "KeyW"]);
+
+    // Promoting the alternate does not duplicate it
+    controls.rebind(GameAction.THRUST, "KeyW");
+    expect(controls.getKeys(GameAction.THRUST)).toEqual(["KeyW"]);
+  });
+
+  it("rejects keys already bound to another action", () => {
+    const controls = new ControlBindings(false);
+    expect(controls.findConflict(GameAction.FIRE, "KeyQ")).toBe(
+      GameAction.SHIELD
+    );
+    expect(controls.rebind(GameAction.FIRE, "KeyQ")).toBe(false);
+    expect(controls.getKeys(GameAction.FIRE)).toEqual(
+      DEFAULT_BINDINGS[GameAction.FIRE]
+    );
+    expect(controls.findConflict(GameAction.THRUST, "KeyW")).toBeNull();
+  });
+
+  it("persists bindings and resets to defaults", () => {
+    installMemoryStorage();
+    new ControlBindings().rebind(GameAction.FIRE, "KeyF");
+    const reloaded = new ControlBindings();
+    expect(reloaded.getKeys(GameAction.FIRE)).toEqual([
+      "KeyF",
+      ...DEFAULT_BINDINGS[GameAction.FIRE].slice(1),
+    ]);
+
+    reloaded.resetToDefaults();
+    expect(reloaded.getBindings()).toEqual(DEFAULT_BINDINGS);
+    expect(new ControlBindings().getBindings()).toEqual(DEFAULT_BINDINGS);
+  });
+
+  it("falls back to defaults for malformed stored bindings", () => {
+    const storage = installMemoryStorage();
+    storage.setItem(
+      "asteroids_controls",
+      JSON.stringify({fire: "Space", shield: ["KeyE"]})
+    );
+    const controls = new ControlBindings();
+    expect(controls.getKeys(GameAction.FIRE)).toEqual(
+      DEFAULT_BINDINGS[GameAction.FIRE]
+    );
+    expect(controls.getKeys(GameAction.SHIELD)).toEqual(["KeyE"]);
+  });
+
+  it("keeps player two's bindings separately", () => {
+    installMemoryStorage();
+    const playerTwo = new ControlBindings(true, 2);
+    expect(playerTwo.getBindings()).toEqual(PLAYER_TWO_BINDINGS);
+
+    playerTwo.rebind(GameAction.FIRE, "KeyP");
+    expect(new ControlBindings(true, 2).getKeys(GameAction.FIRE)[0]).toBe(
+      "KeyP"
+    );
+    expect(new ControlBindings().getBindings()).toEqual(DEFAULT_BINDINGS);
+  });
+
+  it("drops keys claimed by another player on the same keyboard", () => {
+    const playerTwo = new ControlBindings(false, 2);
+    const playerOne = new ControlBindings(false).withoutKeys(
+      playerTwo.getAllKeys()
+    );
+    const input = new ScriptedInput();
+
+    input.setKeys(["ArrowUp"]);
+    expect(playerOne.isActionDown(input, GameAction.THRUST)).toBe(false);
+    expect(playerTwo.isActionDown(input, GameAction.THRUST)).toBe(true);
+
+    input.setKeys(["KeyW"]);
+    expect(playerOne.isActionDown(input, GameAction.THRUST)).toBe(true);
+    expect(playerOne.getKeys(GameAction.FIRE)).toEqual(
+      DEFAULT_BINDINGS[GameAction.FIRE]
+    );
+  });
+
+  it("formats key codes for display", () => {
+    expect(formatKey("KeyW")).toBe("W");
+    expect(formatKey("ArrowLeft")).toBe("LEFT");
+    expect(formatKey("Digit3")).toBe("3");
+    expect(formatKey("ShiftLeft")).toBe("LEFT SHIFT");
+    expect(formatKey("Space")).toBe("SPACE");
+    expect(formatKey("GamepadStart")).toBe("PAD START");
+  });
+});
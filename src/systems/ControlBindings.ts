@@ -0,0 +1,202 @@
+import type {InputSource} from "../core/GameTypes";
+
+export const GameAction = {
+  THRUST: "thrust",
+  TURN_LEFT: "turnLeft",
+  TURN_RIGHT: "turnRight",
+  MOVE_DOWN: "moveDown",
+  FIRE: "fire",
+  MISSILE: "missile", // Fires the selected secondary weapon
+  CYCLE_WEAPON: "cycleWeapon",
+  SHIELD: "shield",
+  PAUSE: "pause",
+} as const;
+
+export type GameAction = (typeof GameAction)[keyof typeof GameAction];
+
+export type KeyBindings = Record<GameAction, string[]>;
+
+export const ACTION_LABELS: Record<GameAction, string> = {
+  [GameAction.THRUST]: "Thrust / Up",
+  [GameAction.TURN_LEFT]: "Turn Left",
+  [GameAction.TURN_RIGHT]: "Turn Right",
+  [GameAction.MOVE_DOWN]: "Down (Warp Tunnel)",
+  [GameAction.FIRE]: "Fire",
+  [GameAction.MISSILE]: "Secondary Weapon",
+  [GameAction.CYCLE_WEAPON]: "Cycle Weapon",
+  [GameAction.SHIELD]: "Shield",
+  [GameAction.PAUSE]: "Pause",
+};
+
+// The first key of each action is its primary binding, the rest are alternates.
+// Gamepad and on-screen buttons use InputManager's "Gamepad*" and "Touch*" codes;
+// thrust and analog turning also come from the right trigger and the sticks.
+export const DEFAULT_BINDINGS: KeyBindings = {
+  [GameAction.THRUST]: ["ArrowUp", "KeyW"],
+  [GameAction.TURN_LEFT]: ["ArrowLeft", "KeyA", "GamepadLeft"],
+  [GameAction.TURN_RIGHT]: ["ArrowRight", "KeyD", "GamepadRight"],
+  [GameAction.MOVE_DOWN]: ["ArrowDown", "KeyS"],
+  [GameAction.FIRE]: ["Space", "GamepadA", "TouchFire"],
+  [GameAction.MISSILE]: ["KeyX", "GamepadX", "TouchMissile"],
+  [GameAction.CYCLE_WEAPON]: ["KeyE", "GamepadRB", "TouchCycle"],
+  [GameAction.SHIELD]: ["KeyQ", "GamepadY", "TouchShield"],
+  [GameAction.PAUSE]: ["Escape", "GamepadStart", "TouchPause"],
+};
+
+// Player two shares the keyboard in co-op, so its defaults stay clear of WASD
+export const PLAYER_TWO_BINDINGS: KeyBindings = {
+  [GameAction.THRUST]: ["ArrowUp"],
+  [GameAction.TURN_LEFT]: ["ArrowLeft"],
+  [GameAction.TURN_RIGHT]: ["ArrowRight"],
+  [GameAction.MOVE_DOWN]: ["ArrowDown"],
+  [GameAction.FIRE]: ["Enter", "Numpad0"],
+  [GameAction.MISSILE]: ["ShiftRight"],
+  [GameAction.CYCLE_WEAPON]: ["Period"],
+  [GameAction.SHIELD]: ["Slash"],
+  [GameAction.PAUSE]: ["Escape"],
+};
+
+// Short display name for a KeyboardEvent.code
+export function formatKey(code: string): string {
+  if (code.startsWith("Gamepad")) return `PAD ${code.slice(7).toUpperCase()}`;
+  if (code.startsWith("Touch")) return `TOUCH ${code.slice(5).toUpperCase()}`;
+  if (code.startsWith("Key")) return code.slice(3);
+  if (code.startsWith("Digit")) return code.slice(5);
+  if (code.startsWith("Arrow")) return code.slice(5).toUpperCase();
+  if (code.startsWith("Shift")) return `${code.slice(5).toUpperCase()} SHIFT`;
+  if (code.startsWith("Control")) return `${code.slice(7).toUpperCase()} CTRL`;
+  if (code.startsWith("Alt")) return `${code.slice(3).toUpperCase()} ALT`;
+  if (code === "Escape") return "ESC";
+  return code.toUpperCase();
+}
+
+function copyBindings(bindings: KeyBindings): KeyBindings {
+  const copy = {} as KeyBindings;
+  for (const action of Object.values(GameAction)) {
+    copy[action] = [...bindings[action]];
+  }
+  return copy;
+}
+
+export class ControlBindings {
+  private static readonly STORAGE_KEY = "asteroids_controls";
+  private static readonly PLAYER_TWO_STORAGE_KEY = "asteroids_controls_p2";
+  private bindings: KeyBindings;
+  private defaults: KeyBindings;
+  private storageKey: string;
+  private persistent: boolean;
+
+  // Non-persistent bindings never touch localStorage (e.g. replays, headless runs)
+  constructor(persistent: boolean = true, player: 1 | 2 = 1) {
+    this.persistent = persistent;
+    this.defaults = player === 2 ? PLAYER_TWO_BINDINGS : DEFAULT_BINDINGS;
+    this.storageKey =
+      player === 2
+        ? ControlBindings.PLAYER_TWO_STORAGE_KEY
+        : ControlBindings.STORAGE_KEY;
+    this.bindings = copyBindings(this.defaults);
+    if (this.persistent) {
+      this.loadFromStorage();
+    }
+  }
+
+  // Bindings a replay was recorded with
+  static fromBindings(bindings: KeyBindings): ControlBindings {
+    const controls = new ControlBindings(false);
+    controls.bindings = copyBindings(bindings);
+    return controls;
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return;
+
+      const parsed = JSON.parse(stored);
+      for (const action of Object.values(GameAction)) {
+        const keys = parsed?.[action];
+        // Ignore malformed entries and keep the default for that action
+        if (
+          Array.isArray(keys) &&
+          keys.length > 0 &&
+          keys.every((key) => typeof key === "string")
+        ) {
+          this.bindings[action] = keys;
+        }
+      }
+    } catch (error) {
+      console.warn("Failed to load controls from storage:", error);
+    }
+  }
+
+  private saveToStorage(): void {
+    if (!this.persistent) return;
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.bindings));
+    } catch (error) {
+      console.warn("Failed to save controls to storage:", error);
+    }
+  }
+
+  isActionDown(input: InputSource, action: GameAction): boolean {
+    return this.bindings[action].some((key) => input.isKeyDown(key));
+  }
+
+  isActionPressed(input: InputSource, action: GameAction): boolean {
+    return this.bindings[action].some((key) => input.isKeyPressed(key));
+  }
+
+  getKeys(action: GameAction): string[] {
+    return [...this.bindings[action]];
+  }
+
+  getBindings(): KeyBindings {
+    return copyBindings(this.bindings);
+  }
+
+  getAllKeys(): string[] {
+    return [...new Set(Object.values(this.bindings).flat())];
+  }
+
+  // Copy that ignores the given keys, e.g. those another player on the same keyboard uses
+  withoutKeys(keys: string[]): ControlBindings {
+    const excluded = new Set(keys);
+    const controls = new ControlBindings(false);
+    for (const action of Object.values(GameAction)) {
+      controls.bindings[action] = this.bindings[action].filter(
+        (key) => !excluded.has(key)
+      );
+    }
+    return controls;
+  }
+
+  // Returns the other action already using this key, if any
+  findConflict(action: GameAction, key: string): GameAction | null {
+    for (const other of Object.values(GameAction)) {
+      if (other !== action && this.bindings[other].includes(key)) {
+        return other;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Make key the primary binding for action
+   * @returns false if another action already uses the key
+   */
+  rebind(action: GameAction, key: string): boolean {
+    if (this.findConflict(action, key)) return false;
+
+    const alternates = this.bindings[action]
+      .slice(1)
+      .filter((existing) => existing !== key);
+    this.bindings[action] = [key, ...alternates];
+    this.saveToStorage();
+    return true;
+  }
+
+  resetToDefaults(): void {
+    this.bindings = copyBindings(this.defaults);
+    this.saveToStorage();
+  }
+}
@@ -0,0 +1,42 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {DailyAttempts, getDailyChallenge} from "./DailyChallenge";
+import {installMemoryStorage} from "../test/memoryStorage";
+
+describe("getDailyChallenge", () => {
+  it("gives everyone the same run on the same UTC day", () => {
+    const morning = getDailyChallenge(new Date("2024-05-01T00:30:00Z"));
+    const evening = getDailyChallenge(new Date("2024-05-01T23:30:00Z"));
+    expect(morning.date).toBe("2024-05-01");
+    expect(evening).toEqual(morning);
+  });
+
+  it("changes the seed and draws distinct modifiers each day", () => {
+    const seeds = new Set<number>();
+    for (let day = 1; day <= 28; day++) {
+      const date = `2024-02-${String(day).padStart(2, "0")}T12:00:00Z`;
+      const challenge = getDailyChallenge(new Date(date));
+      seeds.add(challenge.seed);
+      expect(challenge.modifiers).toHaveLength(2);
+      expect(new Set(challenge.modifiers).size).toBe(2);
+    }
+    expect(seeds.size).toBe(28);
+  });
+});
+
+describe("DailyAttempts", () => {
+  beforeEach(() => {
+    installMemoryStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("allows one attempt per day and remembers it", () => {
+    new DailyAttempts().markAttempted("2024-05-01");
+
+    const attempts = new DailyAttempts();
+    expect(attempts.hasAttempted("2024-05-01")).toBe(true);
+    expect(attempts.hasAttempted("2024-05-02")).toBe(false);
+  });
+});
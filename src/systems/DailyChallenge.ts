@@ -0,0 +1,80 @@
+import {Random} from "../utils/Random";
+import {DifficultyLevel} from "./DifficultyManager";
+import {GameModifier} from "./GameModifiers";
+
+export interface DailyChallenge {
+  date: string; // UTC day, YYYY-MM-DD
+  seed: number;
+  difficulty: DifficultyLevel; // The same for everyone
+  modifiers: GameModifier[];
+}
+
+const MODIFIERS_PER_DAY = 2;
+
+// FNV-1a, so a day's seed is the same on every machine
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * The challenge for the day containing the given time. Days follow UTC so
+ * players in different time zones get the same run at the same moment.
+ */
+export function getDailyChallenge(now: Date = new Date()): DailyChallenge {
+  const date = now.toISOString().slice(0, 10);
+  const seed = hashString(`daily-${date}`);
+
+  const rng = new Random(seed);
+  const pool: GameModifier[] = Object.values(GameModifier);
+  const modifiers: GameModifier[] = [];
+  while (modifiers.length < MODIFIERS_PER_DAY) {
+    modifiers.push(...pool.splice(rng.int(pool.length), 1));
+  }
+  return {date, seed, difficulty: DifficultyLevel.NORMAL, modifiers};
+}
+
+/**
+ * DailyAttempts - Remembers the last day a challenge was started, so each
+ * day's challenge can only be played once.
+ */
+export class DailyAttempts {
+  private static readonly STORAGE_KEY = "asteroids_daily_attempt";
+  private lastAttempt: string | null = null;
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  private loadFromStorage(): void {
+    try {
+      this.lastAttempt = localStorage.getItem(DailyAttempts.STORAGE_KEY);
+    } catch (error) {
+      console.warn("Failed to load daily challenge from storage:", error);
+      this.lastAttempt = null;
+    }
+  }
+
+  private saveToStorage(): void {
+    try {
+      if (this.lastAttempt) {
+        localStorage.setItem(DailyAttempts.STORAGE_KEY, this.lastAttempt);
+      }
+    } catch (error) {
+      console.warn("Failed to save daily challenge to storage:", error);
+    }
+  }
+
+  hasAttempted(date: string): boolean {
+    return this.lastAttempt === date;
+  }
+
+  markAttempted(date: string): void {
+    this.lastAttempt = date;
+    this.saveToStorage();
+  }
+}
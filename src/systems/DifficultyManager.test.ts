@@ -0,0 +1,85 @@
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {DifficultyLevel, DifficultyManager} from "./DifficultyManager";
+import {Random} from "../utils/Random";
+import {installMemoryStorage} from "../test/memoryStorage";
+
+function createManager(level: DifficultyLevel): DifficultyManager {
+  const difficulty = new DifficultyManager(false);
+  difficulty.setDifficulty(level);
+  return difficulty;
+}
+
+describe("DifficultyManager multipliers", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("leaves values unchanged on Normal", () => {
+    const difficulty = createManager(DifficultyLevel.NORMAL);
+    expect(difficulty.getAsteroidSpeed(100)).toBe(100);
+    expect(difficulty.getScoreValue(100)).toBe(100);
+    expect(difficulty.getPlayerMaxHealth(3)).toBe(3);
+    expect(difficulty.getShieldDuration(1000)).toBe(1000);
+    expect(difficulty.getWaveProgressionRate(1)).toBe(1);
+  });
+
+  it("applies each level's settings", () => {
+    const cases: Array<[DifficultyLevel, number, number, number]> = [
+      // level, asteroid speed, score, health
+      [DifficultyLevel.EASY, 70, 80, 5],
+      [DifficultyLevel.HARD, 130, 130, 2],
+      [DifficultyLevel.INSANE, 160, 180, 2],
+    ];
+    for (const [level, speed, score, health] of cases) {
+      const difficulty = createManager(level);
+      expect(difficulty.getAsteroidSpeed(100)).toBeCloseTo(speed);
+      expect(difficulty.getScoreValue(100)).toBe(score);
+      expect(difficulty.getPlayerMaxHealth(3)).toBe(health);
+    }
+  });
+
+  it("rounds score values", () => {
+    expect(createManager(DifficultyLevel.INSANE).getScoreValue(25)).toBe(45);
+    expect(createManager(DifficultyLevel.EASY).getScoreValue(15)).toBe(12);
+  });
+
+  it("makes rewards grow with difficulty", () => {
+    const levels = new DifficultyManager(false).getAllDifficulties();
+    const scores = levels.map((level) =>
+      createManager(level).getScoreValue(1000)
+    );
+    expect(scores).toEqual([...scores].sort((a, b) => a - b));
+  });
+
+  it("scales the power-up chance", () => {
+    // The same roll succeeds on Easy but fails on Insane
+    const roll = new Random(3).next();
+    const baseChance = roll + 0.01;
+    expect(
+      createManager(DifficultyLevel.EASY).shouldSpawnPowerUp(
+        baseChance,
+        new Random(3)
+      )
+    ).toBe(true);
+    expect(
+      createManager(DifficultyLevel.INSANE).shouldSpawnPowerUp(
+        baseChance,
+        new Random(3)
+      )
+    ).toBe(false);
+  });
+
+  it("cycles through every level", () => {
+    const difficulty = createManager(DifficultyLevel.INSANE);
+    difficulty.cycleDifficulty();
+    expect(difficulty.getCurrentDifficulty()).toBe(DifficultyLevel.EASY);
+  });
+
+  it("remembers the chosen level when persistent", () => {
+    installMemoryStorage();
+    new DifficultyManager().setDifficulty(DifficultyLevel.HARD);
+    expect(new DifficultyManager().getCurrentDifficulty()).toBe(
+      DifficultyLevel.HARD
+    );
+  });
+});
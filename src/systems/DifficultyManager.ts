@@ -1,3 +1,6 @@
+import type {Random} from "../utils/Random";
+import {defaultRandom} from "../utils/Random";
+
 export const DifficultyLevel = {
   EASY: "Easy",
   NORMAL: "Normal",
@@ -25,6 +28,7 @@ export interface DifficultySettings {
 export class DifficultyManager {
   private static readonly STORAGE_KEY = "asteroids_difficulty";
   private currentDifficulty: DifficultyLevel = DifficultyLevel.NORMAL;
+  private persistent: boolean;
 
   private readonly difficultySettings: Record<
     DifficultyLevel,
@@ -84,8 +88,12 @@ export class DifficultyManager {
     },
   };
 
-  constructor() {
-    this.loadFromStorage();
+  // Non-persistent managers never touch localStorage (e.g. headless runs)
+  constructor(persistent: boolean = true) {
+    this.persistent = persistent;
+    if (this.persistent) {
+      this.loadFromStorage();
+    }
   }
 
   private loadFromStorage(): void {
@@ -116,7 +124,9 @@ export class DifficultyManager {
 
   public setDifficulty(difficulty: DifficultyLevel): void {
     this.currentDifficulty = difficulty;
-    this.saveToStorage();
+    if (this.persistent) {
+      this.saveToStorage();
+    }
   }
 
   public getCurrentDifficulty(): DifficultyLevel {
@@ -167,10 +177,13 @@ export class DifficultyManager {
     return Math.round(baseScore * this.getCurrentSettings().scoreMultiplier);
   }
 
-  public shouldSpawnPowerUp(baseChance: number): boolean {
+  public shouldSpawnPowerUp(
+    baseChance: number,
+    rng: Random = defaultRandom
+  ): boolean {
     const adjustedChance =
       baseChance * this.getCurrentSettings().powerUpSpawnRate;
-    return Math.random() < adjustedChance;
+    return rng.chance(adjustedChance);
   }
 
   public getPlayerMaxHealth(baseHealth: number): number {
@@ -0,0 +1,26 @@
+import {describe, expect, it} from "vitest";
+import {GameModifier, allowsPowerUp, doubleEnemies} from "./GameModifiers";
+import {DEFAULT_WAVE_SCRIPT} from "./WaveScript";
+import {PowerUpType} from "../entities/PowerUp";
+
+describe("GameModifiers", () => {
+  it("doubles every enemy group without touching the original", () => {
+    const doubled = doubleEnemies(DEFAULT_WAVE_SCRIPT);
+    const firstGroup = DEFAULT_WAVE_SCRIPT.waves[0].enemies[0];
+    expect(doubled.waves[0].enemies[0].count).toBe(firstGroup.count * 2);
+    expect(doubled.loopFrom).toBe(DEFAULT_WAVE_SCRIPT.loopFrom);
+  });
+
+  it("keeps power-ups that would undo a modifier from dropping", () => {
+    expect(allowsPowerUp([], PowerUpType.SHIELD)).toBe(true);
+    expect(allowsPowerUp([GameModifier.NO_SHIELDS], PowerUpType.SHIELD)).toBe(
+      false
+    );
+    const spreadOnly = [GameModifier.SPREAD_SHOT_ONLY];
+    expect(allowsPowerUp(spreadOnly, PowerUpType.TRIPLE_SHOT)).toBe(false);
+    expect(allowsPowerUp(spreadOnly, PowerUpType.RAPID_FIRE)).toBe(true);
+    expect(
+      allowsPowerUp([GameModifier.NO_POWER_UPS], PowerUpType.RAPID_FIRE)
+    ).toBe(false);
+  });
+});
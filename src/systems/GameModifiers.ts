@@ -0,0 +1,83 @@
+import {PowerUpType} from "../entities/PowerUp";
+import type {WaveScript} from "./WaveScript";
+
+// Rule changes layered over a normal game, as used by the daily challenge
+export const GameModifier = {
+  NO_SHIELDS: "noShields",
+  DOUBLE_ENEMIES: "doubleEnemies",
+  SPREAD_SHOT_ONLY: "spreadShotOnly",
+  FAST_ENEMIES: "fastEnemies",
+  ONE_LIFE: "oneLife",
+  NO_POWER_UPS: "noPowerUps",
+} as const;
+
+export type GameModifier = (typeof GameModifier)[keyof typeof GameModifier];
+
+export const MODIFIER_NAMES: Record<GameModifier, string> = {
+  [GameModifier.NO_SHIELDS]: "No Shields",
+  [GameModifier.DOUBLE_ENEMIES]: "Double Enemies",
+  [GameModifier.SPREAD_SHOT_ONLY]: "Spread Shot Only",
+  [GameModifier.FAST_ENEMIES]: "Fast Enemies",
+  [GameModifier.ONE_LIFE]: "One Life",
+  [GameModifier.NO_POWER_UPS]: "No Power-Ups",
+};
+
+export const FAST_ENEMY_SPEED = 1.5;
+
+// Power-ups that would undo a modifier never drop
+const BLOCKED_POWER_UPS: Partial<Record<GameModifier, PowerUpType[]>> = {
+  [GameModifier.NO_SHIELDS]: [PowerUpType.SHIELD],
+  [GameModifier.SPREAD_SHOT_ONLY]: [
+    PowerUpType.TRIPLE_SHOT,
+    PowerUpType.SPREAD_SHOT,
+    PowerUpType.POWER_SHOT,
+    PowerUpType.LASER,
+    PowerUpType.FLAK,
+    PowerUpType.RAILGUN,
+    PowerUpType.WEAPON_UPGRADE,
+  ],
+};
+
+export function allowsPowerUp(
+  modifiers: readonly GameModifier[],
+  type: PowerUpType
+): boolean {
+  if (modifiers.includes(GameModifier.NO_POWER_UPS)) return false;
+  return !modifiers.some((modifier) =>
+    BLOCKED_POWER_UPS[modifier]?.includes(type)
+  );
+}
+
+export function describeModifiers(modifiers: readonly GameModifier[]): string {
+  return modifiers.map((modifier) => MODIFIER_NAMES[modifier]).join(", ");
+}
+
+// The same script with twice as many enemies in every group
+export function doubleEnemies(script: WaveScript): WaveScript {
+  return {
+    ...script,
+    waves: script.waves.map((wave) => ({
+      ...wave,
+      enemies: wave.enemies.map((group) => ({
+        ...group,
+        count: group.count * 2,
+      })),
+    })),
+  };
+}
+
+/**
+ * Validate a list of modifiers read from a file
+ * @throws Error naming the unknown modifier
+ */
+export function parseModifiers(data: unknown, name: string): GameModifier[] {
+  if (!Array.isArray(data)) {
+    throw new Error(`${name}: modifiers must be a list`);
+  }
+  for (const modifier of data) {
+    if (!Object.values(GameModifier).includes(modifier)) {
+      throw new Error(`${name}: unknown modifier ${JSON.stringify(modifier)}`);
+    }
+  }
+  return data;
+}
@@ -0,0 +1,11 @@
+import {describe, expect, it} from "vitest";
+import {getSurvivalSpawnInterval} from "./GameVariant";
+
+describe("getSurvivalSpawnInterval", () => {
+  it("brings asteroids in faster the longer a run lasts", () => {
+    expect(getSurvivalSpawnInterval(0)).toBe(8000);
+    expect(getSurvivalSpawnInterval(120000)).toBe(4000);
+    expect(getSurvivalSpawnInterval(240000)).toBe(2000);
+    expect(getSurvivalSpawnInterval(600000)).toBe(1500);
+  });
+});
@@ -0,0 +1,29 @@
+// Single-player rule sets, picked from the New Game menu
+export const GameVariant = {
+  CLASSIC: "classic",
+  TIME_ATTACK: "timeAttack", // Best score before the clock runs out
+  SURVIVAL: "survival", // One life against ever more asteroids, scored on time
+  BOSS_RUSH: "bossRush", // Every boss back to back against the clock
+} as const;
+
+export type GameVariant = (typeof GameVariant)[keyof typeof GameVariant];
+
+export const VARIANT_NAMES: Record<GameVariant, string> = {
+  [GameVariant.CLASSIC]: "Classic",
+  [GameVariant.TIME_ATTACK]: "Time Attack",
+  [GameVariant.SURVIVAL]: "Survival",
+  [GameVariant.BOSS_RUSH]: "Boss Rush",
+};
+
+export const TIME_ATTACK_DURATION = 180000; // 3 minutes
+export const SURVIVAL_POINTS_PER_SECOND = 10;
+export const SURVIVAL_MAX_ASTEROIDS = 60; // Keeps late runs playable
+
+/**
+ * Time between extra asteroids drifting into a Survival run: every 8
+ * seconds at first, halving every two minutes down to 1.5 seconds
+ * @param elapsed Milliseconds survived so far
+ */
+export function getSurvivalSpawnInterval(elapsed: number): number {
+  return Math.max(1500, 8000 * Math.pow(0.5, elapsed / 120000));
+}
@@ -0,0 +1,126 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {LeaderboardManager} from "./LeaderboardManager";
+import {GameVariant} from "./GameVariant";
+import {installMemoryStorage} from "../test/memoryStorage";
+
+function fillLeaderboard(leaderboard: LeaderboardManager): void {
+  // Scores 1000, 900, ... 100
+  for (let i = 10; i >= 1; i--) {
+    leaderboard.addScore(i * 100, i, `P${i}`);
+  }
+}
+
+describe("LeaderboardManager", () => {
+  beforeEach(() => {
+    installMemoryStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps entries sorted by score", () => {
+    const leaderboard = new LeaderboardManager();
+    leaderboard.addScore(300, 2, "B");
+    leaderboard.addScore(900, 5, "A");
+    leaderboard.addScore(100, 1, "C");
+    expect(leaderboard.getEntries().map((entry) => entry.name)).toEqual([
+      "A",
+      "B",
+      "C",
+    ]);
+    expect(leaderboard.getHighScore()).toBe(900);
+  });
+
+  it("truncates long names", () => {
+    const leaderboard = new LeaderboardManager();
+    leaderboard.addScore(100, 1, "x".repeat(40));
+    expect(leaderboard.getEntries()[0].name).toHaveLength(20);
+  });
+
+  it("keeps only the top ten and reports whether a score made it", () => {
+    const leaderboard = new LeaderboardManager();
+    fillLeaderboard(leaderboard);
+    expect(leaderboard.addScore(50, 1, "Low")).toBe(false);
+    expect(leaderboard.addScore(550, 6, "Mid")).toBe(true);
+
+    const entries = leaderboard.getEntries();
+    expect(entries).toHaveLength(10);
+    expect(entries[5].name).toBe("Mid");
+    expect(entries.some((entry) => entry.score === 100)).toBe(false);
+  });
+
+  it("ranks scores against the table", () => {
+    const leaderboard = new LeaderboardManager();
+    expect(leaderboard.getScoreRank(10)).toBe(1);
+
+    fillLeaderboard(leaderboard);
+    expect(leaderboard.getScoreRank(5000)).toBe(1);
+    expect(leaderboard.getScoreRank(950)).toBe(2);
+    expect(leaderboard.getScoreRank(150)).toBe(10);
+    expect(leaderboard.getScoreRank(100)).toBe(0);
+    expect(leaderboard.getScoreRank(50)).toBe(0);
+  });
+
+  it("ranks any score while the table has free slots", () => {
+    const leaderboard = new LeaderboardManager();
+    leaderboard.addScore(500, 3, "A");
+    expect(leaderboard.getScoreRank(10)).toBe(2);
+  });
+
+  it("persists entries between instances", () => {
+    new LeaderboardManager().addScore(700, 4, "Saved");
+    const reloaded = new LeaderboardManager();
+    expect(reloaded.getEntries()[0]).toMatchObject({
+      name: "Saved",
+      score: 700,
+      wave: 4,
+    });
+  });
+
+  it("ranks Time Attack and Survival in tables of their own", () => {
+    const leaderboard = new LeaderboardManager();
+    leaderboard.addScore(900, 5, "Classic");
+    leaderboard.addScore(400, 3, "Timed", GameVariant.TIME_ATTACK);
+    leaderboard.addScore(1200, 1, "Survivor", GameVariant.SURVIVAL);
+
+    const reloaded = new LeaderboardManager();
+    expect(reloaded.getEntries().map((entry) => entry.name)).toEqual([
+      "Classic",
+    ]);
+    expect(
+      reloaded.getEntries(GameVariant.TIME_ATTACK).map((entry) => entry.name)
+    ).toEqual(["Timed"]);
+    expect(reloaded.getScoreRank(500, GameVariant.TIME_ATTACK)).toBe(1);
+    expect(reloaded.getScoreRank(500, GameVariant.SURVIVAL)).toBe(2);
+  });
+
+  it("keeps daily challenge scores in their own table per day", () => {
+    const leaderboard = new LeaderboardManager();
+    leaderboard.addScore(900, 5, "Regular");
+    leaderboard.addDailyScore("2024-05-01", 300, 2, "B");
+    leaderboard.addDailyScore("2024-05-01", 800, 4, "A");
+    leaderboard.addDailyScore("2024-05-02", 100, 1, "C");
+
+    const reloaded = new LeaderboardManager();
+    expect(
+      reloaded.getDailyEntries("2024-05-01").map((entry) => entry.name)
+    ).toEqual(["A", "B"]);
+    expect(reloaded.getDailyEntries("2024-05-02")).toHaveLength(1);
+    expect(reloaded.getEntries().map((entry) => entry.name)).toEqual([
+      "Regular",
+    ]);
+    expect(reloaded.getDailyScoreRank("2024-05-01", 500)).toBe(2);
+    expect(reloaded.getDailyScoreRank("2024-05-03", 10)).toBe(1);
+  });
+
+  it("forgets daily tables after a month", () => {
+    const leaderboard = new LeaderboardManager();
+    for (let day = 1; day <= 31; day++) {
+      const date = `2024-01-${String(day).padStart(2, "0")}`;
+      leaderboard.addDailyScore(date, 100, 1, "P");
+    }
+    expect(leaderboard.getDailyEntries("2024-01-01")).toEqual([]);
+    expect(leaderboard.getDailyEntries("2024-01-02")).toHaveLength(1);
+  });
+});
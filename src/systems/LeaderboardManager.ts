@@ -1,18 +1,31 @@
+import {GameVariant} from "./GameVariant";
+
 export interface LeaderboardEntry {
   name: string;
   score: number;
   wave: number;
   date: string;
   timestamp: number;
+  splits?: number[]; // Boss rush split times in milliseconds
 }
 
 export class LeaderboardManager {
   private static readonly STORAGE_KEY = "asteroids_leaderboard";
+  private static readonly DAILY_STORAGE_KEY = "asteroids_daily_leaderboard";
+  private static readonly VARIANT_STORAGE_KEY =
+    "asteroids_variant_leaderboards";
   private static readonly MAX_ENTRIES = 10;
-  private entries: LeaderboardEntry[] = [];
+  private static readonly MAX_DAILY_TABLES = 30; // Most recent days kept
+  private entries: LeaderboardEntry[] = []; // Classic games
+  // Time Attack and Survival each rank in a table of their own
+  private variantTables: Partial<Record<GameVariant, LeaderboardEntry[]>> = {};
+  // Daily challenge scores, one table per challenge date
+  private dailyTables: Record<string, LeaderboardEntry[]> = {};
 
   constructor() {
     this.loadFromStorage();
+    this.loadDailyFromStorage();
+    this.loadVariantsFromStorage();
   }
 
   private loadFromStorage(): void {
@@ -40,18 +53,95 @@ export class LeaderboardManager {
     }
   }
 
-  addScore(
+  private loadDailyFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(LeaderboardManager.DAILY_STORAGE_KEY);
+      if (stored) {
+        this.dailyTables = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.warn("Failed to load daily leaderboard from storage:", error);
+      this.dailyTables = {};
+    }
+  }
+
+  private saveDailyToStorage(): void {
+    try {
+      localStorage.setItem(
+        LeaderboardManager.DAILY_STORAGE_KEY,
+        JSON.stringify(this.dailyTables)
+      );
+    } catch (error) {
+      console.warn("Failed to save daily leaderboard to storage:", error);
+    }
+  }
+
+  private loadVariantsFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(
+        LeaderboardManager.VARIANT_STORAGE_KEY
+      );
+      if (stored) {
+        this.variantTables = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.warn("Failed to load mode leaderboards from storage:", error);
+      this.variantTables = {};
+    }
+  }
+
+  private saveVariantsToStorage(): void {
+    try {
+      localStorage.setItem(
+        LeaderboardManager.VARIANT_STORAGE_KEY,
+        JSON.stringify(this.variantTables)
+      );
+    } catch (error) {
+      console.warn("Failed to save mode leaderboards to storage:", error);
+    }
+  }
+
+  private createEntry(
     score: number,
     wave: number,
-    playerName: string = "Anonymous"
-  ): boolean {
-    const entry: LeaderboardEntry = {
+    playerName: string,
+    splits?: number[]
+  ): LeaderboardEntry {
+    return {
       name: playerName.substring(0, 20), // Limit name length
       score,
       wave,
       date: new Date().toLocaleDateString(),
       timestamp: Date.now(),
+      ...(splits && {splits}),
     };
+  }
+
+  // The top entries once a new one is added, highest score first
+  private static withEntry(
+    entries: LeaderboardEntry[],
+    entry: LeaderboardEntry
+  ): LeaderboardEntry[] {
+    return [...entries, entry]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, LeaderboardManager.MAX_ENTRIES);
+  }
+
+  addScore(
+    score: number,
+    wave: number,
+    playerName: string = "Anonymous",
+    variant: GameVariant = GameVariant.CLASSIC,
+    splits?: number[]
+  ): boolean {
+    const entry = this.createEntry(score, wave, playerName, splits);
+
+    if (variant !== GameVariant.CLASSIC) {
+      const table = LeaderboardManager.withEntry(this.getTable(variant), entry);
+      this.variantTables[variant] = table;
+      this.saveVariantsToStorage();
+      return table.includes(entry);
+    }
 
     // Add entry
     this.entries.push(entry);
@@ -78,15 +168,29 @@ export class LeaderboardManager {
   }
 
   getRank(score: number): number {
-    const rank = this.entries.findIndex((entry) => score > entry.score);
-    return rank === -1 ? this.entries.length + 1 : rank + 1;
+    return LeaderboardManager.rankIn(this.entries, score);
+  }
+
+  private static rankIn(entries: LeaderboardEntry[], score: number): number {
+    const rank = entries.findIndex((entry) => score > entry.score);
+    return rank === -1 ? entries.length + 1 : rank + 1;
   }
 
-  getScoreRank(score: number): number {
-    // Returns the rank if the score qualifies for leaderboard, 0 if it doesn't
-    const rank = this.getRank(score);
+  getScoreRank(
+    score: number,
+    variant: GameVariant = GameVariant.CLASSIC
+  ): number {
+    return LeaderboardManager.qualifyingRankIn(this.getTable(variant), score);
+  }
+
+  // Returns the rank if the score qualifies for the table, 0 if it doesn't
+  private static qualifyingRankIn(
+    entries: LeaderboardEntry[],
+    score: number
+  ): number {
+    const rank = LeaderboardManager.rankIn(entries, score);
     if (
-      this.entries.length < LeaderboardManager.MAX_ENTRIES ||
+      entries.length < LeaderboardManager.MAX_ENTRIES ||
       rank <= LeaderboardManager.MAX_ENTRIES
     ) {
       return rank;
@@ -94,8 +198,49 @@ export class LeaderboardManager {
     return 0; // Doesn't qualify for leaderboard
   }
 
-  getEntries(): LeaderboardEntry[] {
-    return [...this.entries]; // Return copy to prevent external modification
+  getEntries(variant: GameVariant = GameVariant.CLASSIC): LeaderboardEntry[] {
+    // Return copy to prevent external modification
+    return [...this.getTable(variant)];
+  }
+
+  private getTable(variant: GameVariant): LeaderboardEntry[] {
+    if (variant === GameVariant.CLASSIC) return this.entries;
+    return this.variantTables[variant] ?? [];
+  }
+
+  // Same rules as addScore, kept apart from the regular table
+  addDailyScore(
+    date: string,
+    score: number,
+    wave: number,
+    playerName: string = "Anonymous"
+  ): boolean {
+    const entry = this.createEntry(score, wave, playerName);
+    const table = LeaderboardManager.withEntry(
+      this.getDailyEntries(date),
+      entry
+    );
+    this.dailyTables[date] = table;
+
+    // Drop the oldest days; dates are YYYY-MM-DD so they sort as strings
+    const dates = Object.keys(this.dailyTables).sort().reverse();
+    for (const old of dates.slice(LeaderboardManager.MAX_DAILY_TABLES)) {
+      delete this.dailyTables[old];
+    }
+
+    this.saveDailyToStorage();
+    return table.includes(entry);
+  }
+
+  getDailyScoreRank(date: string, score: number): number {
+    return LeaderboardManager.qualifyingRankIn(
+      this.getDailyEntries(date),
+      score
+    );
+  }
+
+  getDailyEntries(date: string): LeaderboardEntry[] {
+    return [...(this.dailyTables[date] ?? [])];
   }
 
   clearLeaderboard(): void {
@@ -0,0 +1,48 @@
+// Options for two-player games
+export class MultiplayerSettings {
+  private static readonly STORAGE_KEY = "asteroids_multiplayer";
+  private friendlyFire: boolean = false;
+  private persistent: boolean;
+
+  constructor(persistent: boolean = true) {
+    this.persistent = persistent;
+    if (this.persistent) {
+      this.loadFromStorage();
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(MultiplayerSettings.STORAGE_KEY);
+      if (!stored) return;
+
+      const parsed = JSON.parse(stored);
+      if (typeof parsed?.friendlyFire === "boolean") {
+        this.friendlyFire = parsed.friendlyFire;
+      }
+    } catch (error) {
+      console.warn("Failed to load multiplayer settings:", error);
+    }
+  }
+
+  private saveToStorage(): void {
+    if (!this.persistent) return;
+    try {
+      localStorage.setItem(
+        MultiplayerSettings.STORAGE_KEY,
+        JSON.stringify({friendlyFire: this.friendlyFire})
+      );
+    } catch (error) {
+      console.warn("Failed to save multiplayer settings:", error);
+    }
+  }
+
+  isFriendlyFireEnabled(): boolean {
+    return this.friendlyFire;
+  }
+
+  setFriendlyFire(enabled: boolean): void {
+    this.friendlyFire = enabled;
+    this.saveToStorage();
+  }
+}
@@ -0,0 +1,71 @@
+import {PowerUpType} from "../entities/PowerUp";
+
+// Timed power-ups collected again while still running go up a level
+export const MAX_POWER_UP_LEVEL = 3;
+
+// Fraction of the gun's cooldown left with rapid fire, by level
+export const RAPID_FIRE_COOLDOWN = [0.3, 0.22, 0.15];
+
+// Triple shot adds shots out of the ship's tail at higher levels
+export const TRIPLE_SHOT_FANS = [
+  [-0.2, 0, 0.2],
+  [-0.2, 0, 0.2, Math.PI],
+  [-0.2, 0, 0.2, Math.PI - 0.3, Math.PI + 0.3],
+];
+
+// Spread shot fans out five, seven, then nine shots
+const SPREAD_STEP = 0.15;
+export const SPREAD_SHOT_FANS = [5, 7, 9].map((count) =>
+  Array.from({length: count}, (_, i) => (i - (count - 1) / 2) * SPREAD_STEP)
+);
+
+export const POWER_SHOT_DAMAGE = [2, 3, 4];
+export const MAGNET_RANGE = [300, 400, 500];
+
+export const PowerUpCombo = {
+  PIERCING_FAN: "piercingFan", // Power shot + spread shot
+  MISSILE_SWARM: "missileSwarm", // Magnet + homing missiles
+  BULLET_STORM: "bulletStorm", // Rapid fire + triple shot
+} as const;
+
+export type PowerUpCombo = (typeof PowerUpCombo)[keyof typeof PowerUpCombo];
+
+export interface PowerUpComboConfig {
+  name: string;
+  color: string;
+  requires: readonly PowerUpType[]; // All held at once
+  overriddenBy?: readonly PowerUpType[]; // No combo while any is held
+  description: string;
+}
+
+export const POWER_UP_COMBOS: Record<PowerUpCombo, PowerUpComboConfig> = {
+  [PowerUpCombo.PIERCING_FAN]: {
+    name: "Piercing Fan",
+    color: "#ff66ff",
+    requires: [PowerUpType.POWER_SHOT, PowerUpType.SPREAD_SHOT],
+    overriddenBy: [PowerUpType.TRIPLE_SHOT], // Fires instead of the spread
+    description: "A wider spread of faster piercing shots",
+  },
+  [PowerUpCombo.MISSILE_SWARM]: {
+    name: "Missile Swarm",
+    color: "#ffcc33",
+    requires: [PowerUpType.MAGNET, PowerUpType.HOMING_MISSILE],
+    description: "Two extra missiles with every launch",
+  },
+  [PowerUpCombo.BULLET_STORM]: {
+    name: "Bullet Storm",
+    color: "#ff8844",
+    requires: [PowerUpType.RAPID_FIRE, PowerUpType.TRIPLE_SHOT],
+    description: "Rapid fire cycles faster still",
+  },
+};
+
+export const PIERCING_FAN_WIDTH = 1.5; // Times spread shot's arc
+export const PIERCING_FAN_SPEED = 1.5; // Times the gun's shot speed
+export const SWARM_EXTRA_MISSILES = 2;
+export const BULLET_STORM_COOLDOWN = 0.75; // On top of rapid fire
+
+// "Rapid Fire", "Rapid Fire II", "Rapid Fire III"
+export function levelName(name: string, level: number): string {
+  return level > 1 ? `${name} ${"I".repeat(level)}` : name;
+}
@@ -0,0 +1,67 @@
+import {describe, expect, it} from "vitest";
+import {REPLAY_FORMAT, REPLAY_VERSION, parseReplay} from "./Replay";
+import {
+  DEFAULT_BINDINGS,
+  GameAction,
+  PLAYER_TWO_BINDINGS,
+} from "./ControlBindings";
+import type {KeyBindings} from "./ControlBindings";
+
+// Bindings as saved before the weapon cycle key existed
+function withoutCycleKey(bindings: KeyBindings): Record<string, string[]> {
+  const {[GameAction.CYCLE_WEAPON]: _cycle, ...older} = bindings;
+  return older;
+}
+
+function replayText(version: number, extra: Record<string, unknown> = {}) {
+  return JSON.stringify({
+    format: REPLAY_FORMAT,
+    version,
+    seed: 1,
+    difficulty: "Normal",
+    canvas: [800, 600],
+    bindings: withoutCycleKey(DEFAULT_BINDINGS),
+    recordedAt: 0,
+    finalScore: 0,
+    keyTable: ["KeyE"],
+    frames: [[16, [0], [0]]],
+    ...extra,
+  });
+}
+
+describe("parseReplay", () => {
+  it.each([2, 5, 6])(
+    "gives version %i replays no weapon cycle key",
+    (version) => {
+      const replay = parseReplay(replayText(version));
+      expect(replay.bindings[GameAction.CYCLE_WEAPON]).toEqual([]);
+      expect(replay.bindings[GameAction.FIRE]).toEqual(
+        DEFAULT_BINDINGS[GameAction.FIRE]
+      );
+    }
+  );
+
+  it("upgrades player two's bindings too", () => {
+    const replay = parseReplay(
+      replayText(6, {
+        multiplayer: {
+          mode: "coop",
+          bindings: withoutCycleKey(PLAYER_TWO_BINDINGS),
+          friendlyFire: false,
+        },
+      })
+    );
+    expect(replay.multiplayer?.bindings[GameAction.CYCLE_WEAPON]).toEqual([]);
+  });
+
+  it("strips the cycle key from a version 1 replay's default bindings", () => {
+    const replay = parseReplay(replayText(1, {bindings: undefined}));
+    expect(replay.bindings[GameAction.CYCLE_WEAPON]).toEqual([]);
+  });
+
+  it("still requires every binding in a current replay", () => {
+    expect(() => parseReplay(replayText(REPLAY_VERSION))).toThrow(
+      'missing the key binding for "cycleWeapon"'
+    );
+  });
+});
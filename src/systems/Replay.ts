@@ -0,0 +1,355 @@
+import type {AnalogInput, InputSnapshot, InputSource} from "../core/GameTypes";
+import {GameMode, NO_ANALOG_INPUT} from "../core/GameTypes";
+import {DifficultyLevel} from "./DifficultyManager";
+import type {KeyBindings} from "./ControlBindings";
+import {DEFAULT_BINDINGS, GameAction} from "./ControlBindings";
+import type {WaveScript} from "./WaveScript";
+import {parseWaveScript, serializeWaveScript} from "./WaveScript";
+import type {GameModifier} from "./GameModifiers";
+import {parseModifiers} from "./GameModifiers";
+import {GameVariant} from "./GameVariant";
+
+export const REPLAY_FORMAT = "asteroids-replay";
+export const REPLAY_VERSION = 7;
+
+// Version 1 replays predate rebindable controls and always used the defaults;
+// version 2 predates co-op and versus and is always single player; version 3
+// predates custom wave scripts; version 4 predates game modifiers; version 5
+// predates Time Attack and Survival and version 6 predates the weapon cycle key
+const LEGACY_REPLAY_VERSIONS = [1, 2, 3, 4, 5, 6];
+
+// The version that introduced each action added since bindings were recorded
+const ACTION_VERSIONS: Partial<Record<GameAction, number>> = {
+  [GameAction.CYCLE_WEAPON]: 7,
+};
+
+// Older replays could not have used later actions, so those get no keys;
+// a key that did nothing when recorded must do nothing on playback
+function upgradeBindings(bindings: KeyBindings, version: number): KeyBindings {
+  const upgraded = {...bindings};
+  for (const action of Object.values(GameAction)) {
+    const added = ACTION_VERSIONS[action];
+    if (added !== undefined && version < added) upgraded[action] = [];
+  }
+  return upgraded;
+}
+
+export interface ReplayFrame extends InputSnapshot {
+  deltaTime: number;
+}
+
+// Second player's setup, present only for two-player runs
+export interface ReplayMultiplayerSettings {
+  mode: GameMode;
+  bindings: KeyBindings;
+  friendlyFire: boolean;
+}
+
+export interface ReplayData {
+  version: number;
+  seed: number;
+  difficulty: DifficultyLevel;
+  canvasWidth: number;
+  canvasHeight: number;
+  bindings: KeyBindings;
+  multiplayer?: ReplayMultiplayerSettings;
+  waveScript?: WaveScript; // Present only for runs with custom waves
+  modifiers?: GameModifier[]; // Present only for modified runs
+  variant?: GameVariant; // Absent for classic games
+  recordedAt: number;
+  finalScore: number;
+  frames: ReplayFrame[];
+}
+
+// On-disk frame: [deltaTime, keysDown?, keysPressed?, chars?, analog?] with
+// key-table indices instead of key codes and analog as [stickX, stickY, trigger];
+// trailing empty entries are omitted
+type EncodedFrame = [
+  number,
+  number[]?,
+  number[]?,
+  string[]?,
+  [number, number, number]?
+];
+
+interface EncodedReplay {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  seed: number;
+  difficulty: DifficultyLevel;
+  canvas: [number, number];
+  bindings?: KeyBindings;
+  multiplayer?: ReplayMultiplayerSettings;
+  waveScript?: unknown;
+  modifiers?: unknown;
+  variant?: GameVariant;
+  recordedAt: number;
+  finalScore: number;
+  keyTable: string[];
+  frames: EncodedFrame[];
+}
+
+// Everything needed to restart a run the same way
+export type ReplaySetup = Omit<
+  ReplayData,
+  "frames" | "finalScore" | "version" | "recordedAt"
+>;
+
+export class ReplayRecorder {
+  private recording: boolean = false;
+  private header: Omit<ReplayData, "frames" | "finalScore" | "version"> | null =
+    null;
+  private frames: ReplayFrame[] = [];
+
+  start(setup: ReplaySetup): void {
+    this.header = {...setup, recordedAt: Date.now()};
+    this.frames = [];
+    this.recording = true;
+  }
+
+  recordFrame(deltaTime: number, input: InputSnapshot): void {
+    if (!this.recording) return;
+    this.frames.push({deltaTime, ...input});
+  }
+
+  stop(finalScore: number): ReplayData | null {
+    if (!this.recording || !this.header) return null;
+
+    this.recording = false;
+    const replay: ReplayData = {
+      version: REPLAY_VERSION,
+      ...this.header,
+      finalScore,
+      frames: this.frames,
+    };
+    this.header = null;
+    this.frames = [];
+    return replay;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+}
+
+// Feeds recorded frames back into the game in place of live keyboard input
+export class ReplayPlayer implements InputSource {
+  private replay: ReplayData;
+  private frameIndex: number = 0;
+  private keys: Set<string> = new Set();
+  private keyPressed: Set<string> = new Set();
+  private characterInput: string[] = [];
+  private analog: AnalogInput = NO_ANALOG_INPUT;
+
+  constructor(replay: ReplayData) {
+    this.replay = replay;
+  }
+
+  // Load the next frame's input and return its delta time, or null when done
+  nextFrame(): number | null {
+    const frame = this.replay.frames[this.frameIndex];
+    if (!frame) return null;
+
+    this.frameIndex++;
+    this.keys = new Set(frame.keys);
+    this.keyPressed = new Set(frame.pressed);
+    this.characterInput = [...frame.chars];
+    this.analog = frame.analog;
+    return frame.deltaTime;
+  }
+
+  isKeyDown(key: string): boolean {
+    return this.keys.has(key);
+  }
+
+  isKeyPressed(key: string): boolean {
+    return this.keyPressed.has(key);
+  }
+
+  getCharacterInput(): string[] {
+    return [...this.characterInput];
+  }
+
+  getAnalog(): AnalogInput {
+    return this.analog;
+  }
+
+  getReplay(): ReplayData {
+    return this.replay;
+  }
+
+  getProgress(): number {
+    const total = this.replay.frames.length;
+    if (total === 0) return 1;
+    return this.frameIndex / total;
+  }
+}
+
+export function serializeReplay(replay: ReplayData): string {
+  const keyTable: string[] = [];
+  const keyIndex = new Map<string, number>();
+  const encodeKeys = (keys: string[]): number[] =>
+    keys.map((key) => {
+      let index = keyIndex.get(key);
+      if (index === undefined) {
+        index = keyTable.length;
+        keyTable.push(key);
+        keyIndex.set(key, index);
+      }
+      return index;
+    });
+
+  const frames = replay.frames.map((frame) => {
+    const keys = encodeKeys(frame.keys);
+    const pressed = encodeKeys(frame.pressed);
+
+    const {stickX, stickY, trigger} = frame.analog;
+    const hasAnalog = stickX !== 0 || stickY !== 0 || trigger !== 0;
+
+    // Drop trailing empty lists to keep idle frames tiny
+    const encoded: EncodedFrame = [frame.deltaTime];
+    if (hasAnalog) {
+      encoded.push(keys, pressed, frame.chars, [stickX, stickY, trigger]);
+    } else if (frame.chars.length > 0) {
+      encoded.push(keys, pressed, frame.chars);
+    } else if (pressed.length > 0) {
+      encoded.push(keys, pressed);
+    } else if (keys.length > 0) {
+      encoded.push(keys);
+    }
+    return encoded;
+  });
+
+  const data: EncodedReplay = {
+    format: REPLAY_FORMAT,
+    version: replay.version,
+    seed: replay.seed,
+    difficulty: replay.difficulty,
+    canvas: [replay.canvasWidth, replay.canvasHeight],
+    bindings: replay.bindings,
+    multiplayer: replay.multiplayer,
+    waveScript: replay.waveScript && serializeWaveScript(replay.waveScript),
+    modifiers: replay.modifiers,
+    variant: replay.variant,
+    recordedAt: replay.recordedAt,
+    finalScore: replay.finalScore,
+    keyTable,
+    frames,
+  };
+  return JSON.stringify(data);
+}
+
+export function parseReplay(text: string): ReplayData {
+  let data: Partial<EncodedReplay>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Replay file is not valid JSON");
+  }
+
+  if (!data || data.format !== REPLAY_FORMAT) {
+    throw new Error("Not an Asteroids replay file");
+  }
+  const version = data.version;
+  if (
+    typeof version !== "number" ||
+    (version !== REPLAY_VERSION && !LEGACY_REPLAY_VERSIONS.includes(version))
+  ) {
+    throw new Error(
+      `Unsupported replay version ${data.version} (expected ${REPLAY_VERSION})`
+    );
+  }
+  if (
+    typeof data.seed !== "number" ||
+    !Array.isArray(data.canvas) ||
+    !Array.isArray(data.keyTable) ||
+    !Array.isArray(data.frames)
+  ) {
+    throw new Error("Replay file is missing required fields");
+  }
+  if (
+    !Object.values(DifficultyLevel).includes(data.difficulty as DifficultyLevel)
+  ) {
+    throw new Error(`Unknown replay difficulty "${data.difficulty}"`);
+  }
+
+  const multiplayer = data.multiplayer && {
+    ...data.multiplayer,
+    bindings: upgradeBindings(data.multiplayer.bindings, version),
+  };
+  if (
+    multiplayer &&
+    (multiplayer.mode === GameMode.SINGLE ||
+      !Object.values(GameMode).includes(multiplayer.mode))
+  ) {
+    throw new Error(`Unknown replay game mode "${multiplayer.mode}"`);
+  }
+
+  if (
+    data.variant !== undefined &&
+    !Object.values(GameVariant).includes(data.variant)
+  ) {
+    throw new Error(`Unknown replay game variant "${data.variant}"`);
+  }
+
+  const bindings = upgradeBindings(data.bindings ?? DEFAULT_BINDINGS, version);
+  const playerTwoBindings = multiplayer?.bindings;
+  for (const action of Object.values(GameAction)) {
+    if (!Array.isArray(bindings[action])) {
+      throw new Error(`Replay is missing the key binding for "${action}"`);
+    }
+    if (playerTwoBindings && !Array.isArray(playerTwoBindings[action])) {
+      throw new Error(
+        `Replay is missing player two's key binding for "${action}"`
+      );
+    }
+  }
+
+  const keyTable = data.keyTable;
+  const decodeKeys = (indices: number[] = []): string[] =>
+    indices.map((index) => {
+      const key = keyTable[index];
+      if (key === undefined) {
+        throw new Error(`Replay frame references unknown key ${index}`);
+      }
+      return key;
+    });
+
+  const frames: ReplayFrame[] = data.frames.map((frame) => {
+    if (!Array.isArray(frame) || typeof frame[0] !== "number") {
+      throw new Error("Replay contains a malformed frame");
+    }
+    const analog = frame[4];
+    return {
+      deltaTime: frame[0],
+      keys: decodeKeys(frame[1]),
+      pressed: decodeKeys(frame[2]),
+      chars: frame[3] ?? [],
+      analog: analog
+        ? {stickX: analog[0], stickY: analog[1], trigger: analog[2]}
+        : NO_ANALOG_INPUT,
+    };
+  });
+
+  return {
+    version,
+    seed: data.seed,
+    difficulty: data.difficulty as DifficultyLevel,
+    canvasWidth: data.canvas[0],
+    canvasHeight: data.canvas[1],
+    bindings,
+    multiplayer,
+    waveScript:
+      data.waveScript === undefined
+        ? undefined
+        : parseWaveScript(data.waveScript, "Replay wave script"),
+    modifiers:
+      data.modifiers === undefined
+        ? undefined
+        : parseModifiers(data.modifiers, "Replay"),
+    variant: data.variant,
+    recordedAt: data.recordedAt ?? 0,
+    finalScore: data.finalScore ?? 0,
+    frames,
+  };
+}
@@ -0,0 +1,66 @@
+import type {ReplayData} from "./Replay";
+import {parseReplay, serializeReplay} from "./Replay";
+
+export class ReplayManager {
+  private static readonly STORAGE_KEY = "asteroids_last_replay";
+
+  saveReplay(replay: ReplayData): void {
+    const serialized = serializeReplay(replay);
+
+    // Keep a copy for "Watch Replay" and hand the file to the player for sharing
+    try {
+      localStorage.setItem(ReplayManager.STORAGE_KEY, serialized);
+    } catch (error) {
+      console.warn("Failed to save replay to storage:", error);
+    }
+    this.downloadReplay(serialized, replay.recordedAt);
+  }
+
+  hasSavedReplay(): boolean {
+    try {
+      return localStorage.getItem(ReplayManager.STORAGE_KEY) !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  loadSavedReplay(): ReplayData | null {
+    try {
+      const stored = localStorage.getItem(ReplayManager.STORAGE_KEY);
+      return stored ? parseReplay(stored) : null;
+    } catch (error) {
+      console.warn("Failed to load replay from storage:", error);
+      return null;
+    }
+  }
+
+  openReplayFile(): Promise<ReplayData> {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement("input");
+      input.type = "file";
+      input.accept = ".json,application/json";
+      input.addEventListener("change", () => {
+        const file = input.files?.[0];
+        if (!file) {
+          reject(new Error("No replay file selected"));
+          return;
+        }
+        file
+          .text()
+          .then((text) => resolve(parseReplay(text)))
+          .catch(reject);
+      });
+      input.click();
+    });
+  }
+
+  private downloadReplay(serialized: string, recordedAt: number): void {
+    const blob = new Blob([serialized], {type: "application/json"});
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `asteroids-replay-${recordedAt}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,55 @@
+import {describe, expect, it} from "vitest";
+import {VersusMatch} from "./VersusMatch";
+
+function winRound(match: VersusMatch, playerIndex: number): void {
+  for (let i = 0; i < match.getKillsToWinRound(); i++) {
+    match.recordKill(playerIndex);
+  }
+}
+
+describe("VersusMatch", () => {
+  it("ends a round when a player reaches the kill target", () => {
+    const match = new VersusMatch(2, 3, 2);
+    expect(match.recordKill(0)).toBe(false);
+    expect(match.recordKill(1)).toBe(false);
+    expect(match.recordKill(0)).toBe(false);
+    expect(match.recordKill(0)).toBe(true);
+
+    expect(match.isRoundOver()).toBe(true);
+    expect(match.getLastRoundWinner()).toBe(0);
+    expect(match.getRoundWins()).toEqual([1, 0]);
+    expect(match.getResults()).toEqual([{round: 1, winner: 0, kills: [3, 1]}]);
+  });
+
+  it("ignores kills between rounds", () => {
+    const match = new VersusMatch(2, 1, 2);
+    match.recordKill(1);
+    expect(match.recordKill(0)).toBe(false);
+    expect(match.getKills()).toEqual([0, 1]);
+
+    match.startNextRound();
+    expect(match.getRound()).toBe(2);
+    expect(match.getKills()).toEqual([0, 0]);
+    expect(match.isRoundOver()).toBe(false);
+  });
+
+  it("declares the match winner after enough rounds", () => {
+    const match = new VersusMatch(2, 2, 2);
+    winRound(match, 1);
+    match.startNextRound();
+    winRound(match, 0);
+    match.startNextRound();
+    expect(match.isMatchOver()).toBe(false);
+
+    winRound(match, 1);
+    expect(match.isMatchOver()).toBe(true);
+    expect(match.getMatchWinner()).toBe(1);
+    expect(match.getResults().map((result) => result.winner)).toEqual([
+      1, 0, 1,
+    ]);
+
+    // No further rounds once the match is decided
+    match.startNextRound();
+    expect(match.getRound()).toBe(3);
+  });
+});
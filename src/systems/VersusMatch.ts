@@ -0,0 +1,104 @@
+export interface VersusRoundResult {
+  round: number;
+  winner: number;
+  kills: number[]; // Kills per player when the round ended
+}
+
+/**
+ * VersusMatch - Round scoring for head-to-head games.
+ * Each kill scores a point; the first to killsToWinRound takes the round,
+ * and the first to roundsToWin takes the match.
+ */
+export class VersusMatch {
+  public static readonly DEFAULT_KILLS_TO_WIN_ROUND = 3;
+  public static readonly DEFAULT_ROUNDS_TO_WIN = 2;
+
+  private readonly playerCount: number;
+  private readonly killsToWinRound: number;
+  private readonly roundsToWin: number;
+  private round: number = 1;
+  private kills: number[];
+  private roundWins: number[];
+  private results: VersusRoundResult[] = [];
+
+  constructor(
+    playerCount: number = 2,
+    killsToWinRound: number = VersusMatch.DEFAULT_KILLS_TO_WIN_ROUND,
+    roundsToWin: number = VersusMatch.DEFAULT_ROUNDS_TO_WIN
+  ) {
+    this.playerCount = playerCount;
+    this.killsToWinRound = killsToWinRound;
+    this.roundsToWin = roundsToWin;
+    this.kills = new Array(playerCount).fill(0);
+    this.roundWins = new Array(playerCount).fill(0);
+  }
+
+  /**
+   * Score a kill for a player
+   * @returns true if the kill won the round
+   */
+  recordKill(playerIndex: number): boolean {
+    if (this.isMatchOver() || this.isRoundOver()) return false;
+    if (playerIndex < 0 || playerIndex >= this.playerCount) return false;
+
+    this.kills[playerIndex]++;
+    if (this.kills[playerIndex] < this.killsToWinRound) return false;
+
+    this.roundWins[playerIndex]++;
+    this.results.push({
+      round: this.round,
+      winner: playerIndex,
+      kills: [...this.kills],
+    });
+    return true;
+  }
+
+  // The current round has a winner and the next one has not started yet
+  isRoundOver(): boolean {
+    return this.results.length === this.round;
+  }
+
+  startNextRound(): void {
+    if (!this.isRoundOver() || this.isMatchOver()) return;
+    this.round++;
+    this.kills.fill(0);
+  }
+
+  isMatchOver(): boolean {
+    return this.getMatchWinner() !== null;
+  }
+
+  getMatchWinner(): number | null {
+    const winner = this.roundWins.findIndex((wins) => wins >= this.roundsToWin);
+    return winner === -1 ? null : winner;
+  }
+
+  // Winner of the most recently finished round
+  getLastRoundWinner(): number | null {
+    const last = this.results[this.results.length - 1];
+    return last ? last.winner : null;
+  }
+
+  getRound(): number {
+    return this.round;
+  }
+
+  getKills(): number[] {
+    return [...this.kills];
+  }
+
+  getRoundWins(): number[] {
+    return [...this.roundWins];
+  }
+
+  getKillsToWinRound(): number {
+    return this.killsToWinRound;
+  }
+
+  getResults(): VersusRoundResult[] {
+    return this.results.map((result) => ({
+      ...result,
+      kills: [...result.kills],
+    }));
+  }
+}
@@ -0,0 +1,78 @@
+import {describe, expect, it} from "vitest";
+import {WaveDraft, cellToPosition, positionToCell} from "./WaveDraft";
+import {DEFAULT_WAVE_SCRIPT} from "./WaveScript";
+
+const cell = {column: 3, row: 4};
+const scouts = {type: "scout", count: 2, spawnDelay: 300} as const;
+
+describe("WaveDraft", () => {
+  it("maps grid cells to playfield fractions and back", () => {
+    expect(cellToPosition({column: 0, row: 0})).toEqual({
+      x: 1 / 32,
+      y: 1 / 18,
+    });
+    expect(positionToCell(cellToPosition(cell))).toEqual(cell);
+    expect(positionToCell({x: 1, y: 1})).toEqual({column: 15, row: 8});
+  });
+
+  it("replaces whatever was in a cell", () => {
+    const draft = new WaveDraft();
+    draft.placeAsteroid(cell, "medium", {x: 10.4, y: -20.6});
+    expect(draft.getWave().placedAsteroids).toEqual([
+      {
+        position: cellToPosition(cell),
+        size: "medium",
+        velocity: {x: 10, y: -21},
+      },
+    ]);
+
+    draft.placeEnemyGroup(cell, scouts);
+    expect(draft.getWave().placedAsteroids).toEqual([]);
+    expect(draft.getWave().enemies).toEqual([
+      {...scouts, position: cellToPosition(cell)},
+    ]);
+
+    draft.erase(cell);
+    expect(draft.getWave().enemies).toEqual([]);
+  });
+
+  it("keeps one boss per wave", () => {
+    const draft = new WaveDraft();
+    draft.placeBoss({column: 1, row: 1}, "mothership");
+    draft.placeBoss(cell, "fortress");
+    expect(draft.getWave().boss).toBe("fortress");
+    expect(draft.getWave().bossPosition).toEqual(cellToPosition(cell));
+
+    draft.erase(cell);
+    expect(draft.getWave().boss).toBeNull();
+  });
+
+  it("validates the draft when turning it into a script", () => {
+    const draft = new WaveDraft();
+    draft.placePowerUp(cell, "shield");
+    expect(() => draft.toScript()).toThrow(
+      "Waves, wave 1: a wave needs enemies, a boss or asteroids"
+    );
+
+    draft.placeEnemyGroup({column: 0, row: 0}, scouts);
+    draft.addWave();
+    draft.placeBoss(cell, "swarmCommander");
+    const script = draft.toScript();
+    expect(script.waves.length).toBe(2);
+    expect(script.waves[0].powerUps).toEqual([
+      {type: "shield", position: cellToPosition(cell)},
+    ]);
+    expect(draft.toPreviewScript()).toEqual({
+      waves: [script.waves[1]],
+      loopFrom: 1,
+    });
+  });
+
+  it("edits a copy of a loaded script", () => {
+    const draft = new WaveDraft(DEFAULT_WAVE_SCRIPT);
+    draft.clearWave();
+    draft.placeAsteroid(cell, "large", {x: 0, y: 0});
+    expect(DEFAULT_WAVE_SCRIPT.waves[0].enemies.length).toBeGreaterThan(0);
+    expect(draft.toScript().loopFrom).toBe(DEFAULT_WAVE_SCRIPT.loopFrom);
+  });
+});
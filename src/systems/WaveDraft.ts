@@ -0,0 +1,181 @@
+import type {AsteroidSize} from "../entities/Asteroid";
+import type {BossType} from "../entities/Boss";
+import type {PowerUpType} from "../entities/PowerUp";
+import type {Vector2} from "../utils/Vector2";
+import type {WaveDefinition, WaveEnemyGroup, WaveScript} from "./WaveScript";
+import {
+  MAX_BONUS_SCORE,
+  parseWaveScript,
+  serializeWaveScript,
+} from "./WaveScript";
+
+export const GRID_COLUMNS = 16;
+export const GRID_ROWS = 9;
+
+export interface GridCell {
+  column: number;
+  row: number;
+}
+
+// Center of a grid cell as a fraction of the playfield
+export function cellToPosition(cell: GridCell): Vector2 {
+  return {
+    x: (cell.column + 0.5) / GRID_COLUMNS,
+    y: (cell.row + 0.5) / GRID_ROWS,
+  };
+}
+
+export function positionToCell(position: Vector2): GridCell {
+  return {
+    column: Math.min(GRID_COLUMNS - 1, Math.floor(position.x * GRID_COLUMNS)),
+    row: Math.min(GRID_ROWS - 1, Math.floor(position.y * GRID_ROWS)),
+  };
+}
+
+function isInCell(position: Vector2 | null | undefined, cell: GridCell) {
+  if (!position) return false;
+  const other = positionToCell(position);
+  return other.column === cell.column && other.row === cell.row;
+}
+
+function emptyWave(waveNumber: number): WaveDefinition {
+  return {
+    enemies: [],
+    bonusScore: Math.min(MAX_BONUS_SCORE, waveNumber * 500),
+    boss: null,
+    bossPosition: null,
+    asteroids: 0,
+    placedAsteroids: [],
+    powerUps: [],
+  };
+}
+
+/**
+ * WaveDraft - The wave editor's working copy of a wave script.
+ * Everything is placed on a grid cell; placing into an occupied cell
+ * replaces what was there. Drafts may be incomplete until exported.
+ */
+export class WaveDraft {
+  private waves: WaveDefinition[];
+  private loopFrom: number | null; // Null repeats the last wave
+  private currentIndex: number = 0;
+
+  constructor(script?: WaveScript) {
+    this.waves = script
+      ? script.waves.map((wave) => structuredClone(wave))
+      : [emptyWave(1)];
+    this.loopFrom = script?.loopFrom ?? null;
+  }
+
+  getWave(): WaveDefinition {
+    return this.waves[this.currentIndex];
+  }
+
+  getWaveNumber(): number {
+    return this.currentIndex + 1;
+  }
+
+  getWaveCount(): number {
+    return this.waves.length;
+  }
+
+  selectWave(waveNumber: number): void {
+    this.currentIndex = Math.max(
+      0,
+      Math.min(this.waves.length - 1, waveNumber - 1)
+    );
+  }
+
+  // Insert an empty wave after the current one and switch to it
+  addWave(): void {
+    this.waves.splice(
+      this.currentIndex + 1,
+      0,
+      emptyWave(this.currentIndex + 2)
+    );
+    this.currentIndex++;
+  }
+
+  removeWave(): void {
+    if (this.waves.length === 1) {
+      this.waves[0] = emptyWave(1);
+      return;
+    }
+    this.waves.splice(this.currentIndex, 1);
+    this.currentIndex = Math.min(this.currentIndex, this.waves.length - 1);
+  }
+
+  clearWave(): void {
+    this.waves[this.currentIndex] = {
+      ...emptyWave(this.getWaveNumber()),
+      bonusScore: this.getWave().bonusScore,
+    };
+  }
+
+  placeAsteroid(cell: GridCell, size: AsteroidSize, velocity: Vector2): void {
+    this.erase(cell);
+    this.getWave().placedAsteroids.push({
+      position: cellToPosition(cell),
+      size,
+      velocity: {x: Math.round(velocity.x), y: Math.round(velocity.y)},
+    });
+  }
+
+  // Groups spawn in the order they were placed
+  placeEnemyGroup(cell: GridCell, group: Omit<WaveEnemyGroup, "position">) {
+    this.erase(cell);
+    this.getWave().enemies.push({...group, position: cellToPosition(cell)});
+  }
+
+  placePowerUp(cell: GridCell, type: PowerUpType): void {
+    this.erase(cell);
+    this.getWave().powerUps.push({type, position: cellToPosition(cell)});
+  }
+
+  // One boss per wave; placing another moves it
+  placeBoss(cell: GridCell, type: BossType): void {
+    this.erase(cell);
+    const wave = this.getWave();
+    wave.boss = type;
+    wave.bossPosition = cellToPosition(cell);
+  }
+
+  erase(cell: GridCell): void {
+    const wave = this.getWave();
+    wave.placedAsteroids = wave.placedAsteroids.filter(
+      (asteroid) => !isInCell(asteroid.position, cell)
+    );
+    wave.enemies = wave.enemies.filter(
+      (group) => !isInCell(group.position, cell)
+    );
+    wave.powerUps = wave.powerUps.filter(
+      (powerUp) => !isInCell(powerUp.position, cell)
+    );
+    if (isInCell(wave.bossPosition, cell)) {
+      wave.boss = null;
+      wave.bossPosition = null;
+    }
+  }
+
+  /**
+   * The draft as a playable script
+   * @throws Error describing the first problem, as when loading a file
+   */
+  toScript(): WaveScript {
+    return parseWaveScript(
+      serializeWaveScript({
+        waves: this.waves,
+        loopFrom: Math.min(
+          this.loopFrom ?? this.waves.length,
+          this.waves.length
+        ),
+      }),
+      "Waves"
+    );
+  }
+
+  // Just the wave being edited, for previewing on its own
+  toPreviewScript(): WaveScript {
+    return {waves: [this.toScript().waves[this.currentIndex]], loopFrom: 1};
+  }
+}
@@ -0,0 +1,189 @@
+import {describe, expect, it} from "vitest";
+import {WaveManager} from "./WaveManager";
+import {EnemyType} from "../entities/Enemy";
+import {BossType} from "../entities/Boss";
+import {Random} from "../utils/Random";
+import {parseWaveScript} from "./WaveScript";
+
+function startWave(waveNumber: number): WaveManager {
+  const waves = new WaveManager(new Random(1));
+  waves.startWave(waveNumber);
+  return waves;
+}
+
+// Run the spawner until every enemy in the wave has been emitted
+function spawnAll(waves: WaveManager): number {
+  let spawned = 0;
+  for (let i = 0; i < 1000 && spawned < waves.getTotalEnemiesInWave(); i++) {
+    spawned += waves.update(100, 800, 600).enemiesToSpawn.length;
+  }
+  return spawned;
+}
+
+describe("WaveManager wave configs", () => {
+  it("sends mostly scouts in the first waves", () => {
+    const config = startWave(1).getCurrentWaveConfig();
+    expect(config?.totalEnemies).toBe(4);
+    expect(config?.bonusScore).toBe(500);
+    expect(config?.enemies).toEqual([
+      {type: EnemyType.SCOUT, count: 4, spawnDelay: 800},
+    ]);
+  });
+
+  it("adds fighters and bombers as waves progress", () => {
+    const types = startWave(3)
+      .getCurrentWaveConfig()
+      ?.enemies.map((group) => group.type);
+    expect(types).toEqual([
+      EnemyType.SCOUT,
+      EnemyType.FIGHTER,
+      EnemyType.BOMBER,
+    ]);
+  });
+
+  it("caps the number of enemies per wave", () => {
+    expect(startWave(12).getTotalEnemiesInWave()).toBe(15);
+    expect(startWave(40).getTotalEnemiesInWave()).toBe(15);
+  });
+
+  it("keeps group counts consistent with the wave total", () => {
+    for (let wave = 1; wave <= 20; wave++) {
+      const config = startWave(wave).getCurrentWaveConfig();
+      const sum = config?.enemies.reduce((total, g) => total + g.count, 0);
+      expect(sum).toBe(config?.totalEnemies);
+      expect(config?.bonusScore).toBe(wave * 500);
+    }
+  });
+
+  it("flags every fifth wave as a boss wave", () => {
+    expect(startWave(4).isBossWaveActive()).toBe(false);
+    expect(startWave(5).shouldSpawnBoss()).toBe(true);
+    expect(startWave(10).isBossWaveActive()).toBe(true);
+  });
+});
+
+describe("WaveManager scripts", () => {
+  const script = parseWaveScript({
+    loopFrom: 2,
+    waves: [
+      {bonusScore: 100, enemies: [{type: "scout", count: 1, spawnDelay: 0}]},
+      {
+        bonusScore: 200,
+        boss: "fortress",
+        enemies: [
+          {
+            type: "fighter",
+            count: 3,
+            spawnDelay: 100,
+            formation: "line",
+            spawnEdge: "left",
+          },
+        ],
+      },
+      {bonusScore: 300, asteroids: 2, enemies: []},
+    ],
+  });
+
+  it("takes bosses and asteroids from the script", () => {
+    const waves = new WaveManager(new Random(1), script);
+    waves.startWave(2);
+    expect(waves.getBossType()).toBe(BossType.FORTRESS);
+    expect(waves.shouldSpawnBoss()).toBe(true);
+
+    waves.startWave(3);
+    expect(waves.isBossWaveActive()).toBe(false);
+    expect(waves.getCurrentWaveConfig()?.asteroids).toBe(2);
+  });
+
+  it("spawns a formation all at once from its edge", () => {
+    const waves = new WaveManager(new Random(1), script);
+    waves.startWave(2);
+    const spawned = waves.update(100, 800, 600).enemiesToSpawn;
+    expect(spawned).toHaveLength(3);
+    expect(spawned.every((enemy) => enemy.position.x === -50)).toBe(true);
+    expect(spawned[1].position.y - spawned[0].position.y).toBe(60);
+    // One squad, so the group flies in formation
+    expect(new Set(spawned.map((enemy) => enemy.squad)).size).toBe(1);
+    expect(spawned[0].squad).toBeDefined();
+  });
+
+  it("spawns placed groups at their point on the playfield", () => {
+    const placed = parseWaveScript({
+      waves: [
+        {
+          bonusScore: 0,
+          enemies: [
+            {type: "scout", count: 1, spawnDelay: 0, at: [0.25, 0.5]},
+            {
+              type: "bomber",
+              count: 3,
+              spawnDelay: 0,
+              formation: "v",
+              at: [0.5, 0.5],
+            },
+          ],
+        },
+      ],
+    });
+    const waves = new WaveManager(new Random(1), placed);
+    waves.startWave(1);
+    const spawned = [
+      ...waves.update(100, 800, 600).enemiesToSpawn,
+      ...waves.update(100, 800, 600).enemiesToSpawn,
+    ];
+    expect(spawned.map((enemy) => enemy.position)).toContainEqual({
+      x: 200,
+      y: 300,
+    });
+    // The V is led by the middle of the group, on the point itself
+    expect(spawned.map((enemy) => enemy.position)).toContainEqual({
+      x: 400,
+      y: 300,
+    });
+  });
+
+  it("repeats from loopFrom with a growing bonus", () => {
+    const waves = new WaveManager(new Random(1), script);
+    waves.startWave(4);
+    expect(waves.getBossType()).toBe(BossType.FORTRESS);
+    expect(waves.getCurrentWaveConfig()?.bonusScore).toBe(400);
+    waves.startWave(5);
+    expect(waves.getCurrentWaveConfig()?.bonusScore).toBe(500);
+  });
+});
+
+describe("WaveManager.isWaveComplete", () => {
+  it("waits until every enemy is spawned and destroyed", () => {
+    const waves = startWave(2);
+    const total = waves.getTotalEnemiesInWave();
+    expect(waves.isWaveComplete()).toBe(false);
+
+    // Destroying enemies before the rest have spawned is not enough
+    for (let i = 0; i < total; i++) waves.enemyDestroyed();
+    expect(waves.isWaveComplete()).toBe(false);
+
+    expect(spawnAll(waves)).toBe(total);
+    expect(waves.isWaveComplete()).toBe(true);
+  });
+
+  it("is not complete while enemies are still alive", () => {
+    const waves = startWave(1);
+    spawnAll(waves);
+    waves.enemyDestroyed();
+    expect(waves.isWaveComplete()).toBe(false);
+  });
+
+  it("starts the next wave after the break", () => {
+    const waves = startWave(1);
+    spawnAll(waves);
+    for (let i = 0; i < waves.getTotalEnemiesInWave(); i++) {
+      waves.enemyDestroyed();
+    }
+    expect(waves.completeWave()).toBe(500);
+    expect(waves.isWaveComplete()).toBe(false);
+
+    expect(waves.update(2900, 800, 600).newWave).toBe(false);
+    expect(waves.update(100, 800, 600).newWave).toBe(true);
+    expect(waves.getCurrentWave()).toBe(2);
+  });
+});
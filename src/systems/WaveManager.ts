@@ -1,17 +1,31 @@
-import {EnemyType} from "../entities/Enemy";
+import type {EnemyType} from "../entities/Enemy";
+import type {BossType} from "../entities/Boss";
 import type {Vector2} from "../utils/Vector2";
+import type {Random} from "../utils/Random";
+import {defaultRandom} from "../utils/Random";
+import type {WaveDefinition, WaveScript} from "./WaveScript";
+import {DEFAULT_WAVE_SCRIPT, SpawnEdge, WaveFormation} from "./WaveScript";
+
+// Members of one formation share a squad number
+export interface EnemySpawn {
+  type: EnemyType;
+  position: Vector2;
+  squad?: number;
+}
 
-export interface WaveConfig {
+export interface WaveConfig extends WaveDefinition {
   waveNumber: number;
-  enemies: Array<{
-    type: EnemyType;
-    count: number;
-    spawnDelay: number; // milliseconds between spawning each enemy
-  }>;
   totalEnemies: number;
-  bonusScore: number;
 }
 
+// Indexed by a random roll when a group has no fixed edge
+const EDGE_ORDER: SpawnEdge[] = [
+  SpawnEdge.TOP,
+  SpawnEdge.RIGHT,
+  SpawnEdge.BOTTOM,
+  SpawnEdge.LEFT,
+];
+
 export class WaveManager {
   private currentWave: number = 0;
   private enemiesRemaining: number = 0;
@@ -22,8 +36,13 @@ export class WaveManager {
   private currentWaveConfig: WaveConfig | null = null;
   private isBossWave: boolean = false;
   private bossSpawned: boolean = false;
+  private nextWaveTimer: number = 0; // Countdown until the next wave starts
+  private rng: Random;
+  private script: WaveScript;
 
-  constructor() {
+  constructor(rng: Random = defaultRandom, script = DEFAULT_WAVE_SCRIPT) {
+    this.rng = rng;
+    this.script = script;
     this.generateWaveConfig(1);
   }
 
@@ -33,16 +52,25 @@ export class WaveManager {
     canvasHeight: number,
     playerPosition?: Vector2
   ): {
-    enemiesToSpawn: Array<{type: EnemyType; position: Vector2}>;
+    enemiesToSpawn: EnemySpawn[];
     waveComplete: boolean;
     newWave: boolean;
   } {
     const result = {
-      enemiesToSpawn: [] as Array<{type: EnemyType; position: Vector2}>,
+      enemiesToSpawn: [] as EnemySpawn[],
       waveComplete: false,
       newWave: false,
     };
 
+    // Count down the break between waves
+    if (this.nextWaveTimer > 0) {
+      this.nextWaveTimer -= deltaTime;
+      if (this.nextWaveTimer <= 0) {
+        this.startWave(this.currentWave + 1);
+        result.newWave = true;
+      }
+    }
+
     if (!this.isWaveActive || !this.currentWaveConfig) {
       return result;
     }
@@ -53,18 +81,45 @@ export class WaveManager {
     const currentGroup = this.currentWaveConfig.enemies[this.currentSpawnGroup];
     if (currentGroup && this.enemiesSpawnedInGroup < currentGroup.count) {
       if (this.spawnTimer >= currentGroup.spawnDelay) {
-        // Spawn enemy at random edge position with proper distance from player
-        const position = this.getRandomSpawnPosition(
-          canvasWidth,
-          canvasHeight,
-          playerPosition
-        );
-        result.enemiesToSpawn.push({
-          type: currentGroup.type,
-          position,
-        });
-
-        this.enemiesSpawnedInGroup++;
+        const edge = currentGroup.spawnEdge ?? SpawnEdge.RANDOM;
+        const formation = currentGroup.formation ?? WaveFormation.SCATTERED;
+
+        if (formation === WaveFormation.SCATTERED) {
+          // Spawn enemy at its placed point, or at an edge position with
+          // proper distance from player
+          const placed = currentGroup.position;
+          const position = placed
+            ? {x: placed.x * canvasWidth, y: placed.y * canvasHeight}
+            : this.getRandomSpawnPosition(
+                canvasWidth,
+                canvasHeight,
+                edge,
+                playerPosition
+              );
+          result.enemiesToSpawn.push({
+            type: currentGroup.type,
+            position,
+          });
+          this.enemiesSpawnedInGroup++;
+        } else {
+          // Formations arrive all at once, as one squad
+          const squad = this.currentSpawnGroup;
+          this.getFormationPositions(
+            currentGroup.count,
+            formation,
+            edge,
+            currentGroup.position,
+            canvasWidth,
+            canvasHeight
+          ).forEach((position) =>
+            result.enemiesToSpawn.push({
+              type: currentGroup.type,
+              position,
+              squad,
+            })
+          );
+          this.enemiesSpawnedInGroup = currentGroup.count;
+        }
         this.spawnTimer = 0;
 
         // Move to next group if current group is complete
@@ -83,9 +138,35 @@ export class WaveManager {
     return result;
   }
 
+  private pickEdge(edge: SpawnEdge): SpawnEdge {
+    return edge === SpawnEdge.RANDOM ? EDGE_ORDER[this.rng.int(4)] : edge;
+  }
+
+  // A point just outside the playfield; along is a fraction of the edge
+  private getEdgePosition(
+    edge: SpawnEdge,
+    along: number,
+    offset: number,
+    depth: number,
+    canvasWidth: number,
+    canvasHeight: number
+  ): Vector2 {
+    switch (edge) {
+      case SpawnEdge.RIGHT:
+        return {x: canvasWidth + depth, y: along * canvasHeight + offset};
+      case SpawnEdge.BOTTOM:
+        return {x: along * canvasWidth + offset, y: canvasHeight + depth};
+      case SpawnEdge.LEFT:
+        return {x: -depth, y: along * canvasHeight + offset};
+      default:
+        return {x: along * canvasWidth + offset, y: -depth};
+    }
+  }
+
   private getRandomSpawnPosition(
     canvasWidth: number,
     canvasHeight: number,
+    spawnEdge: SpawnEdge,
     playerPosition?: Vector2
   ): Vector2 {
     const margin = 50;
@@ -95,26 +176,15 @@ export class WaveManager {
     const maxAttempts = 20;
 
     while (attempts < maxAttempts) {
-      // Spawn from random edge
-      const edge = Math.floor(Math.random() * 4);
-      let position: Vector2;
-
-      switch (edge) {
-        case 0: // Top
-          position = {x: Math.random() * canvasWidth, y: -margin};
-          break;
-        case 1: // Right
-          position = {x: canvasWidth + margin, y: Math.random() * canvasHeight};
-          break;
-        case 2: // Bottom
-          position = {x: Math.random() * canvasWidth, y: canvasHeight + margin};
-          break;
-        case 3: // Left
-          position = {x: -margin, y: Math.random() * canvasHeight};
-          break;
-        default:
-          position = {x: canvasWidth / 2, y: -margin};
-      }
+      const edge = this.pickEdge(spawnEdge);
+      const position = this.getEdgePosition(
+        edge,
+        this.rng.next(),
+        0,
+        margin,
+        canvasWidth,
+        canvasHeight
+      );
 
       // Check distance from player if player position is provided
       if (playerPosition) {
@@ -138,11 +208,56 @@ export class WaveManager {
     return {x: canvasWidth / 2, y: -margin};
   }
 
+  private getFormationPositions(
+    count: number,
+    formation: WaveFormation,
+    spawnEdge: SpawnEdge,
+    placed: Vector2 | undefined,
+    canvasWidth: number,
+    canvasHeight: number
+  ): Vector2[] {
+    const margin = 50;
+    const spacing = 60;
+
+    // Offset of each member along the line, and how far it trails the leader
+    const slots: Array<{along: number; behind: number}> = [];
+    for (let i = 0; i < count; i++) {
+      const slot = i - (count - 1) / 2;
+      slots.push({
+        along: slot * spacing,
+        behind: formation === WaveFormation.V ? Math.abs(slot) * 40 : 0,
+      });
+    }
+
+    // A placed formation forms up around its point with the wings trailing up
+    if (placed) {
+      const x = placed.x * canvasWidth;
+      const y = placed.y * canvasHeight;
+      return slots.map((slot) => ({x: x + slot.along, y: y - slot.behind}));
+    }
+
+    const edge = this.pickEdge(spawnEdge);
+    // Keep the group's center away from the corners
+    const along = 0.2 + this.rng.next() * 0.6;
+    return slots.map((slot) =>
+      // V wings trail further outside the edge than the leader
+      this.getEdgePosition(
+        edge,
+        along,
+        slot.along,
+        margin + slot.behind,
+        canvasWidth,
+        canvasHeight
+      )
+    );
+  }
+
   startWave(waveNumber: number): void {
     this.currentWave = waveNumber;
-    this.isBossWave = waveNumber % 5 === 0; // Boss every 5 waves
     this.bossSpawned = false;
+    this.nextWaveTimer = 0;
     this.generateWaveConfig(waveNumber);
+    this.isBossWave = this.getBossType() !== null;
     this.isWaveActive = true;
     this.spawnTimer = 0;
     this.currentSpawnGroup = 0;
@@ -150,99 +265,26 @@ export class WaveManager {
   }
 
   private generateWaveConfig(waveNumber: number): void {
+    const waves = this.script.waves;
+
+    // Past the end, the script repeats from loopFrom
+    let sourceWave = waveNumber;
+    if (waveNumber > waves.length) {
+      const loopLength = waves.length - this.script.loopFrom + 1;
+      sourceWave =
+        this.script.loopFrom + ((waveNumber - waves.length - 1) % loopLength);
+    }
+    const definition = waves[sourceWave - 1];
+
     const config: WaveConfig = {
+      ...definition,
       waveNumber,
-      enemies: [],
+      enemies: definition.enemies.map((group) => ({...group})),
       totalEnemies: 0,
-      bonusScore: waveNumber * 500,
+      // Repeated waves are worth more the later they come
+      bonusScore: Math.round((definition.bonusScore * waveNumber) / sourceWave),
     };
 
-    // Progressive difficulty scaling
-    const baseEnemies = Math.min(3 + waveNumber, 15); // Cap at 15 enemies
-    let enemiesLeft = baseEnemies;
-
-    // Wave 1-3: Mostly scouts
-    if (waveNumber <= 2) {
-      const scouts = Math.ceil(enemiesLeft * 0.8);
-      const fighters = enemiesLeft - scouts;
-
-      if (scouts > 0) {
-        config.enemies.push({
-          type: EnemyType.SCOUT,
-          count: scouts,
-          spawnDelay: 800,
-        });
-      }
-
-      if (fighters > 0) {
-        config.enemies.push({
-          type: EnemyType.FIGHTER,
-          count: fighters,
-          spawnDelay: 1200,
-        });
-      }
-    }
-    // Wave 4-7: Mix of scouts and fighters
-    else if (waveNumber <= 4) {
-      const scouts = Math.ceil(enemiesLeft * 0.5);
-      const fighters = Math.ceil(enemiesLeft * 0.4);
-      const bombers = Math.max(1, enemiesLeft - scouts - fighters);
-
-      if (scouts > 0) {
-        config.enemies.push({
-          type: EnemyType.SCOUT,
-          count: scouts,
-          spawnDelay: 600,
-        });
-      }
-
-      if (fighters > 0) {
-        config.enemies.push({
-          type: EnemyType.FIGHTER,
-          count: fighters,
-          spawnDelay: 1000,
-        });
-      }
-
-      if (bombers > 0) {
-        config.enemies.push({
-          type: EnemyType.BOMBER,
-          count: bombers,
-          spawnDelay: 1500,
-        });
-      }
-    }
-    // Wave 8+: Varied composition with more bombers
-    else {
-      const scouts = Math.ceil(enemiesLeft * 0.3);
-      const fighters = Math.ceil(enemiesLeft * 0.4);
-      const bombers = enemiesLeft - scouts - fighters;
-
-      if (scouts > 0) {
-        config.enemies.push({
-          type: EnemyType.SCOUT,
-          count: scouts,
-          spawnDelay: 500,
-        });
-      }
-
-      if (fighters > 0) {
-        config.enemies.push({
-          type: EnemyType.FIGHTER,
-          count: fighters,
-          spawnDelay: 800,
-        });
-      }
-
-      if (bombers > 0) {
-        config.enemies.push({
-          type: EnemyType.BOMBER,
-          count: bombers,
-          spawnDelay: 1200,
-        });
-      }
-    }
-
     config.totalEnemies = config.enemies.reduce(
       (sum, group) => sum + group.count,
       0
@@ -268,10 +310,7 @@ export class WaveManager {
     const bonusScore = this.currentWaveConfig?.bonusScore ?? 0;
 
     // Prepare for next wave
-    const nextWave = this.currentWave + 1;
-    setTimeout(() => {
-      this.startWave(nextWave);
-    }, 3000); // 3 second delay between waves
+    this.nextWaveTimer = 3000; // 3 second delay between waves
 
     return bonusScore;
   }
@@ -288,6 +327,10 @@ export class WaveManager {
     return this.isWaveActive;
   }
 
+  getCurrentWaveConfig(): WaveConfig | null {
+    return this.currentWaveConfig;
+  }
+
   getTotalEnemiesInWave(): number {
     return this.currentWaveConfig?.totalEnemies ?? 0;
   }
@@ -296,6 +339,10 @@ export class WaveManager {
     return this.isBossWave;
   }
 
+  getBossType(): BossType | null {
+    return this.currentWaveConfig?.boss ?? null;
+  }
+
   shouldSpawnBoss(): boolean {
     return this.isBossWave && !this.bossSpawned;
   }
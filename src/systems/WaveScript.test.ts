@@ -0,0 +1,138 @@
+import {describe, expect, it} from "vitest";
+import {
+  DEFAULT_WAVE_SCRIPT,
+  parseWaveScript,
+  serializeWaveScript,
+} from "./WaveScript";
+
+const scout = {type: "scout", count: 2, spawnDelay: 500};
+
+function scriptWith(wave: Record<string, unknown>): unknown {
+  return {waves: [{bonusScore: 100, enemies: [scout]}, wave]};
+}
+
+describe("parseWaveScript", () => {
+  it("loads the built-in script", () => {
+    expect(DEFAULT_WAVE_SCRIPT.waves.length).toBeGreaterThan(0);
+    expect(DEFAULT_WAVE_SCRIPT.waves[4].boss).toBe("mothership");
+  });
+
+  it("fills in defaults for optional fields", () => {
+    const script = parseWaveScript({
+      waves: [{bonusScore: 0, enemies: [scout]}],
+    });
+    expect(script.loopFrom).toBe(1);
+    expect(script.waves[0]).toEqual({
+      enemies: [scout],
+      bonusScore: 0,
+      boss: null,
+      bossPosition: null,
+      asteroids: 0,
+      placedAsteroids: [],
+      powerUps: [],
+    });
+  });
+
+  it("names the wave and group at fault", () => {
+    expect(() =>
+      parseWaveScript(
+        scriptWith({
+          bonusScore: 100,
+          enemies: [scout, {type: "sniper", count: 1, spawnDelay: 0}],
+        })
+      )
+    ).toThrow(
+      'Wave script, wave 2, enemy group 2: unknown enemy type "sniper" (expected "scout", "fighter", "bomber", "minelayer", "stalker", "carrier", "drone", "interceptor")'
+    );
+  });
+
+  it("rejects bad values and misspelled fields", () => {
+    const bad: [Record<string, unknown>, string][] = [
+      [{bonusScore: 100, enemies: [{...scout, count: 0}]}, "count must be"],
+      [
+        {bonusScore: 100, enemies: [{...scout, spawndelay: 5}]},
+        'field "spawndelay"',
+      ],
+      [{bonusScore: 100, enemies: [{...scout, formation: "box"}]}, "formation"],
+      [{bonusScore: 100, enemies: [{...scout, spawnEdge: "up"}]}, "spawn edge"],
+      [{bonusScore: 100, enemies: [], boss: "kraken"}, "boss type"],
+      [{bonusScore: 100, enemies: [], asteroids: 1.5}, "asteroids must be"],
+      [{bonusScore: 100, enemies: []}, "needs enemies"],
+      [{enemies: [scout]}, "bonusScore must be"],
+      [{bonusScore: 1e9, enemies: [scout]}, "up to 10000"],
+      [{bonusScore: 2.5, enemies: [scout]}, "bonusScore must be"],
+      [
+        {bonusScore: 100, enemies: [{...scout, at: [0.5, 1.5]}]},
+        '"at" must be [x, y]',
+      ],
+      [
+        {bonusScore: 100, enemies: [{...scout, at: [0, 0], spawnEdge: "top"}]},
+        "not both",
+      ],
+      [{bonusScore: 100, enemies: [scout], bossAt: [0.5, 0.5]}, "needs a boss"],
+      [
+        {
+          bonusScore: 100,
+          enemies: [],
+          placedAsteroids: [{at: [0, 0], size: 3}],
+        },
+        "unknown size",
+      ],
+      [
+        {bonusScore: 100, enemies: [scout], powerUps: [{type: "deathRay"}]},
+        "power-up type",
+      ],
+    ];
+    for (const [wave, message] of bad) {
+      expect(() => parseWaveScript(scriptWith(wave))).toThrow(message);
+    }
+  });
+
+  it("reads placed asteroids, power-ups and positions", () => {
+    const script = parseWaveScript({
+      waves: [
+        {
+          bonusScore: 0,
+          enemies: [{...scout, at: [0.25, 0.5]}],
+          boss: "fortress",
+          bossAt: [0.5, 0.2],
+          placedAsteroids: [{at: [0.1, 0.9], velocity: [30, -40]}],
+          powerUps: [{type: "shield", at: [0.75, 0.75]}],
+        },
+      ],
+    });
+    const [wave] = script.waves;
+    expect(wave.enemies[0].position).toEqual({x: 0.25, y: 0.5});
+    expect(wave.bossPosition).toEqual({x: 0.5, y: 0.2});
+    expect(wave.placedAsteroids).toEqual([
+      {position: {x: 0.1, y: 0.9}, size: "large", velocity: {x: 30, y: -40}},
+    ]);
+    expect(wave.powerUps).toEqual([
+      {type: "shield", position: {x: 0.75, y: 0.75}},
+    ]);
+  });
+
+  it("checks loopFrom against the number of waves", () => {
+    expect(() =>
+      parseWaveScript({waves: [{bonusScore: 0, enemies: [scout]}], loopFrom: 2})
+    ).toThrow("loopFrom must be a wave number from 1 to 1 (got 2)");
+  });
+});
+
+describe("serializeWaveScript", () => {
+  it("writes a file that loads back as the same script", () => {
+    const json = JSON.parse(
+      JSON.stringify(serializeWaveScript(DEFAULT_WAVE_SCRIPT))
+    );
+    expect(parseWaveScript(json)).toEqual(DEFAULT_WAVE_SCRIPT);
+  });
+
+  it("leaves out default values", () => {
+    const script = parseWaveScript({
+      waves: [{bonusScore: 0, enemies: [scout]}],
+    });
+    expect(serializeWaveScript(script)).toEqual({
+      waves: [{bonusScore: 0, enemies: [scout]}],
+    });
+  });
+});
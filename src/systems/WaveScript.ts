@@ -0,0 +1,353 @@
+import {EnemyType} from "../entities/Enemy";
+import {BossType} from "../entities/Boss";
+import {AsteroidSize} from "../entities/Asteroid";
+import {PowerUpType} from "../entities/PowerUp";
+import type {Vector2} from "../utils/Vector2";
+import defaultWaves from "../data/waves.json";
+import {checkFields, formatValue, isRecord} from "../utils/validation";
+
+// How the enemies in a group arrive
+export const WaveFormation = {
+  SCATTERED: "scattered", // One at a time, spawnDelay apart
+  LINE: "line", // The whole group side by side along the edge
+  V: "v", // The whole group in a V pointing into the playfield
+} as const;
+
+export type WaveFormation = (typeof WaveFormation)[keyof typeof WaveFormation];
+
+export const SpawnEdge = {
+  RANDOM: "random",
+  TOP: "top",
+  RIGHT: "right",
+  BOTTOM: "bottom",
+  LEFT: "left",
+} as const;
+
+export type SpawnEdge = (typeof SpawnEdge)[keyof typeof SpawnEdge];
+
+// Above any built-in wave's bonus, so a wave file can't hand out a huge one
+export const MAX_BONUS_SCORE = 10000;
+
+// Placed things sit at fractions of the playfield (0-1), written [x, y] in
+// files, so a layout fits any screen size
+export interface WaveEnemyGroup {
+  type: EnemyType;
+  count: number;
+  spawnDelay: number; // milliseconds between spawning each enemy
+  formation?: WaveFormation; // Defaults to scattered
+  spawnEdge?: SpawnEdge; // Defaults to random
+  position?: Vector2; // Spawn here instead of at an edge
+}
+
+export interface WaveAsteroid {
+  position: Vector2;
+  size: AsteroidSize;
+  velocity: Vector2; // Pixels per second
+}
+
+export interface WavePowerUp {
+  type: PowerUpType;
+  position: Vector2;
+}
+
+// One wave as authored in a script; the wave number is its position
+export interface WaveDefinition {
+  enemies: WaveEnemyGroup[];
+  bonusScore: number;
+  boss: BossType | null;
+  bossPosition: Vector2 | null; // Defaults to the center
+  asteroids: number; // Extra large asteroids that drift in when the wave starts
+  placedAsteroids: WaveAsteroid[];
+  powerUps: WavePowerUp[];
+}
+
+export interface WaveScript {
+  waves: WaveDefinition[];
+  loopFrom: number; // Wave the script repeats from once it runs out
+}
+
+const WAVE_FIELDS = [
+  "enemies",
+  "bonusScore",
+  "boss",
+  "bossAt",
+  "asteroids",
+  "placedAsteroids",
+  "powerUps",
+];
+const GROUP_FIELDS = [
+  "type",
+  "count",
+  "spawnDelay",
+  "formation",
+  "spawnEdge",
+  "at",
+];
+
+function isWholeNumber(value: unknown, min: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= min;
+}
+
+function oneOf<T extends string>(
+  value: unknown,
+  options: Record<string, T>,
+  what: string,
+  where: string
+): T {
+  const allowed = Object.values(options);
+  if (!allowed.includes(value as T)) {
+    throw new Error(
+      `${where}: unknown ${what} ${formatValue(value)} (expected ${allowed
+        .map((option) => `"${option}"`)
+        .join(", ")})`
+    );
+  }
+  return value as T;
+}
+
+function parsePosition(value: unknown, where: string): Vector2 {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 2 ||
+    !value.every((n) => typeof n === "number" && n >= 0 && n <= 1)
+  ) {
+    throw new Error(
+      `${where}: "at" must be [x, y] with both between 0 and 1 (got ${formatValue(
+        value
+      )})`
+    );
+  }
+  return {x: value[0], y: value[1]};
+}
+
+function parseList<T>(
+  value: unknown,
+  field: string,
+  where: string,
+  parseItem: (item: unknown, where: string) => T
+): T[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`${where}: "${field}" must be a list`);
+  }
+  return value.map((item, i) => parseItem(item, `${where}, ${field} ${i + 1}`));
+}
+
+function parseAsteroid(data: unknown, where: string): WaveAsteroid {
+  if (!isRecord(data)) {
+    throw new Error(`${where}: expected an object`);
+  }
+  checkFields(data, ["at", "size", "velocity"], where);
+
+  const velocity = data.velocity ?? [0, 0];
+  if (
+    !Array.isArray(velocity) ||
+    velocity.length !== 2 ||
+    !velocity.every((n) => typeof n === "number" && Number.isFinite(n))
+  ) {
+    throw new Error(
+      `${where}: velocity must be [x, y] in pixels per second (got ${formatValue(
+        velocity
+      )})`
+    );
+  }
+  return {
+    position: parsePosition(data.at, where),
+    size: oneOf(data.size ?? AsteroidSize.LARGE, AsteroidSize, "size", where),
+    velocity: {x: velocity[0], y: velocity[1]},
+  };
+}
+
+function parsePowerUp(data: unknown, where: string): WavePowerUp {
+  if (!isRecord(data)) {
+    throw new Error(`${where}: expected an object`);
+  }
+  checkFields(data, ["type", "at"], where);
+  return {
+    type: oneOf(data.type, PowerUpType, "power-up type", where),
+    position: parsePosition(data.at, where),
+  };
+}
+
+function parseGroup(data: unknown, where: string): WaveEnemyGroup {
+  if (!isRecord(data)) {
+    throw new Error(`${where}: expected an object`);
+  }
+  checkFields(data, GROUP_FIELDS, where);
+
+  const group: WaveEnemyGroup = {
+    type: oneOf(data.type, EnemyType, "enemy type", where),
+    count: 0,
+    spawnDelay: 0,
+  };
+  if (!isWholeNumber(data.count, 1)) {
+    throw new Error(
+      `${where}: count must be a whole number of at least 1 (got ${formatValue(
+        data.count
+      )})`
+    );
+  }
+  group.count = data.count;
+  if (typeof data.spawnDelay !== "number" || !(data.spawnDelay >= 0)) {
+    throw new Error(
+      `${where}: spawnDelay must be a number of milliseconds (got ${formatValue(
+        data.spawnDelay
+      )})`
+    );
+  }
+  group.spawnDelay = data.spawnDelay;
+  if (data.formation !== undefined) {
+    group.formation = oneOf(data.formation, WaveFormation, "formation", where);
+  }
+  if (data.spawnEdge !== undefined) {
+    group.spawnEdge = oneOf(data.spawnEdge, SpawnEdge, "spawn edge", where);
+  }
+  if (data.at !== undefined) {
+    if (group.spawnEdge !== undefined) {
+      throw new Error(`${where}: use either "at" or "spawnEdge", not both`);
+    }
+    group.position = parsePosition(data.at, where);
+  }
+  return group;
+}
+
+function parseWave(data: unknown, where: string): WaveDefinition {
+  if (!isRecord(data)) {
+    throw new Error(`${where}: expected an object`);
+  }
+  checkFields(data, WAVE_FIELDS, where);
+
+  if (!Array.isArray(data.enemies)) {
+    throw new Error(`${where}: "enemies" must be a list of enemy groups`);
+  }
+  const enemies = data.enemies.map((group, i) =>
+    parseGroup(group, `${where}, enemy group ${i + 1}`)
+  );
+
+  if (!isWholeNumber(data.bonusScore, 0) || data.bonusScore > MAX_BONUS_SCORE) {
+    throw new Error(
+      `${where}: bonusScore must be a whole number of points up to ${MAX_BONUS_SCORE} (got ${formatValue(
+        data.bonusScore
+      )})`
+    );
+  }
+
+  const boss =
+    data.boss === undefined || data.boss === null
+      ? null
+      : oneOf(data.boss, BossType, "boss type", where);
+  if (data.bossAt !== undefined && !boss) {
+    throw new Error(`${where}: "bossAt" needs a boss`);
+  }
+  const bossPosition =
+    data.bossAt === undefined ? null : parsePosition(data.bossAt, where);
+
+  const asteroids = data.asteroids ?? 0;
+  if (!isWholeNumber(asteroids, 0)) {
+    throw new Error(
+      `${where}: asteroids must be a whole number (got ${formatValue(
+        asteroids
+      )})`
+    );
+  }
+
+  const placedAsteroids = parseList(
+    data.placedAsteroids,
+    "placedAsteroids",
+    where,
+    parseAsteroid
+  );
+  const powerUps = parseList(data.powerUps, "powerUps", where, parsePowerUp);
+
+  if (
+    enemies.length === 0 &&
+    !boss &&
+    asteroids === 0 &&
+    placedAsteroids.length === 0
+  ) {
+    throw new Error(`${where}: a wave needs enemies, a boss or asteroids`);
+  }
+
+  return {
+    enemies,
+    bonusScore: data.bonusScore,
+    boss,
+    bossPosition,
+    asteroids,
+    placedAsteroids,
+    powerUps,
+  };
+}
+
+/**
+ * Validate a wave script loaded from JSON
+ * @throws Error naming the wave and field at fault
+ */
+export function parseWaveScript(
+  data: unknown,
+  name = "Wave script"
+): WaveScript {
+  if (!isRecord(data)) {
+    throw new Error(`${name}: expected an object with a "waves" list`);
+  }
+  checkFields(data, ["waves", "loopFrom"], name);
+
+  if (!Array.isArray(data.waves) || data.waves.length === 0) {
+    throw new Error(`${name}: "waves" must be a non-empty list`);
+  }
+  const waves = data.waves.map((wave, i) =>
+    parseWave(wave, `${name}, wave ${i + 1}`)
+  );
+
+  const loopFrom = data.loopFrom ?? waves.length;
+  if (!isWholeNumber(loopFrom, 1) || loopFrom > waves.length) {
+    throw new Error(
+      `${name}: loopFrom must be a wave number from 1 to ${
+        waves.length
+      } (got ${formatValue(loopFrom)})`
+    );
+  }
+
+  return {waves, loopFrom};
+}
+
+const toPair = (position: Vector2): [number, number] => [
+  position.x,
+  position.y,
+];
+
+// The file form of a script, leaving out fields that have their default value
+export function serializeWaveScript(script: WaveScript): object {
+  const waves = script.waves.map((wave) => {
+    const data: Record<string, unknown> = {bonusScore: wave.bonusScore};
+    if (wave.boss) data.boss = wave.boss;
+    if (wave.bossPosition) data.bossAt = toPair(wave.bossPosition);
+    if (wave.asteroids > 0) data.asteroids = wave.asteroids;
+    if (wave.placedAsteroids.length > 0) {
+      data.placedAsteroids = wave.placedAsteroids.map((asteroid) => ({
+        at: toPair(asteroid.position),
+        size: asteroid.size,
+        velocity: toPair(asteroid.velocity),
+      }));
+    }
+    if (wave.powerUps.length > 0) {
+      data.powerUps = wave.powerUps.map((powerUp) => ({
+        type: powerUp.type,
+        at: toPair(powerUp.position),
+      }));
+    }
+    data.enemies = wave.enemies.map(({position, ...group}) =>
+      position ? {...group, at: toPair(position)} : group
+    );
+    return data;
+  });
+  return script.loopFrom === script.waves.length
+    ? {waves}
+    : {loopFrom: script.loopFrom, waves};
+}
+
+// Checked when the module loads, so a broken script fails at startup
+export const DEFAULT_WAVE_SCRIPT = parseWaveScript(
+  defaultWaves,
+  "src/data/waves.json"
+);
@@ -0,0 +1,75 @@
+import type {WaveScript} from "./WaveScript";
+import {parseWaveScript, serializeWaveScript} from "./WaveScript";
+
+export class WaveScriptManager {
+  private static readonly STORAGE_KEY = "asteroids_wave_draft";
+
+  // The editor's work in progress, kept between visits
+  saveDraft(script: WaveScript): void {
+    try {
+      localStorage.setItem(
+        WaveScriptManager.STORAGE_KEY,
+        JSON.stringify(serializeWaveScript(script))
+      );
+    } catch (error) {
+      console.warn("Failed to save wave draft to storage:", error);
+    }
+  }
+
+  hasDraft(): boolean {
+    try {
+      return localStorage.getItem(WaveScriptManager.STORAGE_KEY) !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  loadDraft(): WaveScript | null {
+    try {
+      const stored = localStorage.getItem(WaveScriptManager.STORAGE_KEY);
+      return stored ? parseWaveScript(JSON.parse(stored), "Saved waves") : null;
+    } catch (error) {
+      console.warn("Failed to load wave draft from storage:", error);
+      return null;
+    }
+  }
+
+  exportFile(script: WaveScript): void {
+    const serialized = JSON.stringify(serializeWaveScript(script), null, 2);
+    const blob = new Blob([serialized], {type: "application/json"});
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "asteroids-waves.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  openFile(): Promise<WaveScript> {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement("input");
+      input.type = "file";
+      input.accept = ".json,application/json";
+      input.addEventListener("change", () => {
+        const file = input.files?.[0];
+        if (!file) {
+          reject(new Error("No wave file selected"));
+          return;
+        }
+        file
+          .text()
+          .then((text) => {
+            let data: unknown;
+            try {
+              data = JSON.parse(text);
+            } catch {
+              throw new Error(`${file.name} is not valid JSON`);
+            }
+            resolve(parseWaveScript(data, file.name));
+          })
+          .catch(reject);
+      });
+      input.click();
+    });
+  }
+}
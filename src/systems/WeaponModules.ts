@@ -0,0 +1,183 @@
+import {PowerUpType} from "../entities/PowerUp";
+
+export const PrimaryWeapon = {
+  BLASTER: "blaster", // The ship's own gun, always carried
+  LASER: "laser", // A continuous beam, held on target
+  FLAK: "flak", // A short-range cone of pellets
+  RAILGUN: "railgun", // Slow to cycle, but punches through everything
+} as const;
+
+export type PrimaryWeapon = (typeof PrimaryWeapon)[keyof typeof PrimaryWeapon];
+
+export const SecondaryWeapon = {
+  HOMING_MISSILES: "homingMissiles",
+  MINES: "mines", // Proximity mines left behind the ship
+  EMP: "emp", // Stuns enemies and clears their shots around the ship
+} as const;
+
+export type SecondaryWeapon =
+  (typeof SecondaryWeapon)[keyof typeof SecondaryWeapon];
+
+export const MAX_WEAPON_LEVEL = 3;
+
+interface WeaponLevel {
+  cooldown: number; // Milliseconds between shots, or a beam's damage ticks
+  damage: number;
+}
+
+// What one pull of the trigger does at a given level
+export interface ShotLevel extends WeaponLevel {
+  spread: number[]; // One shot per angle, relative to the ship's heading
+}
+
+export interface BeamLevel extends WeaponLevel {
+  drain: number; // Energy per second while the beam is on
+}
+
+interface WeaponBase {
+  name: string;
+  color: string;
+  sound: string;
+}
+
+export interface ShotWeaponConfig extends WeaponBase {
+  kind: "shots";
+  speed: number; // Shot speed in pixels per second
+  lifetime: number; // Milliseconds before a shot fizzles
+  piercing: boolean;
+  trail: number; // Length of the streak drawn behind each shot
+  levels: [ShotLevel, ShotLevel, ShotLevel];
+}
+
+// Fires for as long as the trigger is held, raycast rather than flown
+export interface BeamWeaponConfig extends WeaponBase {
+  kind: "beam";
+  range: number; // Pixels, following the screen wrap
+  width: number;
+  levels: [BeamLevel, BeamLevel, BeamLevel];
+}
+
+export type PrimaryWeaponConfig = ShotWeaponConfig | BeamWeaponConfig;
+
+export interface SecondaryWeaponConfig {
+  name: string;
+  color: string;
+  sound: string;
+  ammoPerPickup: number;
+  maxAmmo: number;
+}
+
+// Evenly spaced angles across an arc, for flak
+function fan(count: number, arc: number): number[] {
+  return Array.from({length: count}, (_, i) => (i / (count - 1) - 0.5) * arc);
+}
+
+export const PRIMARY_WEAPONS: Record<PrimaryWeapon, PrimaryWeaponConfig> = {
+  [PrimaryWeapon.BLASTER]: {
+    name: "Blaster",
+    color: "#ffffff",
+    sound: "shoot",
+    kind: "shots",
+    speed: 400,
+    lifetime: 2000,
+    piercing: false,
+    trail: 0,
+    levels: [
+      {cooldown: 250, spread: [0], damage: 1},
+      {cooldown: 250, spread: [-0.04, 0.04], damage: 1}, // Twin shots
+      {cooldown: 180, spread: [-0.04, 0.04], damage: 1},
+    ],
+  },
+  [PrimaryWeapon.LASER]: {
+    name: "Laser",
+    color: "#ff3333",
+    sound: "laser",
+    kind: "beam",
+    range: 700,
+    width: 6,
+    levels: [
+      {cooldown: 150, damage: 1, drain: 30},
+      {cooldown: 120, damage: 1, drain: 25},
+      {cooldown: 120, damage: 2, drain: 20},
+    ],
+  },
+  [PrimaryWeapon.FLAK]: {
+    name: "Flak",
+    color: "#ffaa33",
+    sound: "flak",
+    kind: "shots",
+    speed: 350,
+    lifetime: 450,
+    piercing: false,
+    trail: 0,
+    levels: [
+      {cooldown: 450, spread: fan(5, 0.6), damage: 1},
+      {cooldown: 400, spread: fan(7, 0.7), damage: 1},
+      {cooldown: 350, spread: fan(9, 0.8), damage: 1},
+    ],
+  },
+  [PrimaryWeapon.RAILGUN]: {
+    name: "Railgun",
+    color: "#66ccff",
+    sound: "railgun",
+    kind: "shots",
+    speed: 1400,
+    lifetime: 800,
+    piercing: true,
+    trail: 40,
+    levels: [
+      {cooldown: 900, spread: [0], damage: 3},
+      {cooldown: 800, spread: [0], damage: 4},
+      {cooldown: 700, spread: [0], damage: 5},
+    ],
+  },
+};
+
+export const SECONDARY_WEAPONS: Record<SecondaryWeapon, SecondaryWeaponConfig> =
+  {
+    [SecondaryWeapon.HOMING_MISSILES]: {
+      name: "Homing Missiles", // One more missile per launch each level
+      color: "#ff9900",
+      sound: "homingMissile",
+      ammoPerPickup: 3,
+      maxAmmo: 9,
+    },
+    [SecondaryWeapon.MINES]: {
+      name: "Mines", // One more mine per drop each level
+      color: "#ffaa00",
+      sound: "mineDrop",
+      ammoPerPickup: 4,
+      maxAmmo: 12,
+    },
+    [SecondaryWeapon.EMP]: {
+      name: "EMP", // Wider pulse each level
+      color: "#88ffff",
+      sound: "emp",
+      ammoPerPickup: 1,
+      maxAmmo: 3,
+    },
+  };
+
+// The beam's energy meter: it drains while the beam is on and recharges
+// shortly after it stops. Run it dry and it must recharge a little before
+// the beam will fire again.
+export const MAX_BEAM_ENERGY = 100;
+export const BEAM_RECHARGE = 20; // Per second
+export const BEAM_RECHARGE_DELAY = 600;
+export const BEAM_RESTART = 25;
+
+export const EMP_RADIUS = [200, 260, 320]; // By level
+export const EMP_STUN_TIME = 2500;
+
+// Drops that equip a weapon rather than start a timed power-up
+export const PRIMARY_DROPS: Partial<Record<PowerUpType, PrimaryWeapon>> = {
+  [PowerUpType.LASER]: PrimaryWeapon.LASER,
+  [PowerUpType.FLAK]: PrimaryWeapon.FLAK,
+  [PowerUpType.RAILGUN]: PrimaryWeapon.RAILGUN,
+};
+
+export const SECONDARY_DROPS: Partial<Record<PowerUpType, SecondaryWeapon>> = {
+  [PowerUpType.HOMING_MISSILE]: SecondaryWeapon.HOMING_MISSILES,
+  [PowerUpType.MINES]: SecondaryWeapon.MINES,
+  [PowerUpType.EMP]: SecondaryWeapon.EMP,
+};
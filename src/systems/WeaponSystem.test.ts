@@ -0,0 +1,309 @@
+import {beforeEach, describe, expect, it} from "vitest";
+import {WeaponSystem} from "./WeaponSystem";
+import {PowerUpType} from "../entities/PowerUp";
+import {SimulationClock} from "../core/SimulationClock";
+import {PrimaryWeapon, SecondaryWeapon} from "./WeaponModules";
+import type {Bullet} from "../entities/Bullet";
+
+const origin = {x: 100, y: 100};
+
+function directions(bullets: Bullet[]): number[] {
+  return bullets.map((bullet) =>
+    Math.atan2(bullet.velocity.y, bullet.velocity.x)
+  );
+}
+
+describe("WeaponSystem.shoot", () => {
+  let clock: SimulationClock;
+  let weapons: WeaponSystem;
+
+  beforeEach(() => {
+    clock = new SimulationClock();
+    weapons = new WeaponSystem(clock);
+  });
+
+  it("fires a single bullet by default", () => {
+    const bullets = weapons.shoot(origin, 0);
+    expect(bullets).toHaveLength(1);
+    expect(directions(bullets)[0]).toBeCloseTo(0);
+    expect(bullets[0].getIsPiercing()).toBe(false);
+    expect(weapons.getSoundForCurrentWeapon()).toBe("shoot");
+  });
+
+  it("enforces the base cooldown", () => {
+    expect(weapons.shoot(origin, 0)).toHaveLength(1);
+    clock.advance(200);
+    expect(weapons.shoot(origin, 0)).toHaveLength(0);
+    clock.advance(50);
+    expect(weapons.shoot(origin, 0)).toHaveLength(1);
+  });
+
+  it("shortens the cooldown with rapid fire", () => {
+    weapons.addPowerUp(PowerUpType.RAPID_FIRE, 5000);
+    expect(weapons.shoot(origin, 0)).toHaveLength(1);
+    clock.advance(75);
+    expect(weapons.shoot(origin, 0)).toHaveLength(1);
+    expect(weapons.getSoundForCurrentWeapon()).toBe("rapidFire");
+  });
+
+  it("fires three bullets with triple shot", () => {
+    weapons.addPowerUp(PowerUpType.TRIPLE_SHOT, 5000);
+    const angles = directions(weapons.shoot(origin, 1));
+    expect(angles).toHaveLength(3);
+    [0.8, 1, 1.2].forEach((expected, i) =>
+      expect(angles[i]).toBeCloseTo(expected)
+    );
+  });
+
+  it("fires a five bullet fan with spread shot", () => {
+    weapons.addPowerUp(PowerUpType.SPREAD_SHOT, 5000);
+    const angles = directions(weapons.shoot(origin, 1));
+    expect(angles).toHaveLength(5);
+    [0.7, 0.85, 1, 1.15, 1.3].forEach((expected, i) =>
+      expect(angles[i]).toBeCloseTo(expected)
+    );
+  });
+
+  it("makes every bullet piercing with power shot", () => {
+    weapons.addPowerUp(PowerUpType.POWER_SHOT, 5000);
+    weapons.addPowerUp(PowerUpType.SPREAD_SHOT, 5000);
+    const bullets = weapons.shoot(origin, 0);
+    expect(bullets).toHaveLength(5);
+    for (const bullet of bullets) {
+      expect(bullet.getIsPiercing()).toBe(true);
+      expect(bullet.getDamage()).toBe(2);
+    }
+  });
+
+  it("prefers triple shot over spread shot", () => {
+    weapons.addPowerUp(PowerUpType.SPREAD_SHOT, 5000);
+    weapons.addPowerUp(PowerUpType.TRIPLE_SHOT, 5000);
+    expect(weapons.shoot(origin, 0)).toHaveLength(3);
+  });
+
+  it("drops power-ups once they expire", () => {
+    weapons.addPowerUp(PowerUpType.TRIPLE_SHOT, 1000);
+    weapons.update(1000);
+    expect(weapons.hasPowerUp(PowerUpType.TRIPLE_SHOT)).toBe(false);
+    expect(weapons.shoot(origin, 0)).toHaveLength(1);
+  });
+
+  it("keeps a locked weapon after power-ups expire and resets", () => {
+    weapons.lockWeapon(PowerUpType.SPREAD_SHOT);
+    weapons.update(60000);
+    weapons.reset();
+    expect(weapons.hasPowerUp(PowerUpType.SPREAD_SHOT)).toBe(true);
+    expect(weapons.shoot(origin, 0)).toHaveLength(5);
+  });
+
+  it("limits homing missiles to three launches", () => {
+    weapons.addPowerUp(PowerUpType.HOMING_MISSILE, 10000);
+    expect(weapons.getSecondaryAmmo()).toBe(3);
+    for (let i = 0; i < 3; i++) {
+      expect(weapons.fireSecondary(origin, 0)).not.toBeNull();
+    }
+    expect(weapons.canFireSecondary()).toBe(false);
+    expect(weapons.fireSecondary(origin, 0)).toBeNull();
+  });
+});
+
+describe("WeaponSystem loadout", () => {
+  let clock: SimulationClock;
+  let weapons: WeaponSystem;
+
+  beforeEach(() => {
+    clock = new SimulationClock();
+    weapons = new WeaponSystem(clock);
+  });
+
+  it("equips a picked-up gun and levels it up on a second pickup", () => {
+    weapons.addPowerUp(PowerUpType.RAILGUN, 0);
+    expect(weapons.getPrimaryWeapon()).toBe(PrimaryWeapon.RAILGUN);
+    expect(weapons.getSoundForCurrentWeapon()).toBe("railgun");
+    const [slug] = weapons.shoot(origin, 0);
+    expect(slug.getIsPiercing()).toBe(true);
+    expect(slug.getDamage()).toBe(3);
+
+    weapons.addPowerUp(PowerUpType.RAILGUN, 0);
+    clock.advance(1000);
+    expect(weapons.getPrimaryLevel()).toBe(2);
+    expect(weapons.shoot(origin, 0)[0].getDamage()).toBe(4);
+  });
+
+  it("caps levels and upgrades whichever gun is equipped", () => {
+    for (let i = 0; i < 5; i++) {
+      weapons.addPowerUp(PowerUpType.WEAPON_UPGRADE, 0);
+    }
+    expect(weapons.getPrimaryLevel(PrimaryWeapon.BLASTER)).toBe(3);
+    expect(weapons.shoot(origin, 0)).toHaveLength(2); // Twin shots
+  });
+
+  it("cycles through the guns held in pickup order", () => {
+    weapons.addPowerUp(PowerUpType.FLAK, 0);
+    weapons.addPowerUp(PowerUpType.LASER, 0);
+    expect(weapons.getOwnedPrimaries()).toEqual([
+      PrimaryWeapon.BLASTER,
+      PrimaryWeapon.FLAK,
+      PrimaryWeapon.LASER,
+    ]);
+    expect(weapons.cyclePrimary()).toBe(PrimaryWeapon.BLASTER);
+    expect(weapons.cyclePrimary()).toBe(PrimaryWeapon.FLAK);
+    expect(weapons.shoot(origin, 0)).toHaveLength(5);
+  });
+
+  it("fans out a gun's pattern with triple shot and keeps rapid fire", () => {
+    weapons.addPowerUp(PowerUpType.FLAK, 0);
+    weapons.addPowerUp(PowerUpType.TRIPLE_SHOT, 5000);
+    weapons.addPowerUp(PowerUpType.RAPID_FIRE, 5000);
+    expect(weapons.shoot(origin, 0)).toHaveLength(15);
+    clock.advance(135); // 30% of flak's 450ms
+    expect(weapons.shoot(origin, 0)).toHaveLength(15);
+  });
+
+  it("stacks secondary ammo to a cap and levels it up", () => {
+    for (let i = 0; i < 4; i++) {
+      weapons.addPowerUp(PowerUpType.HOMING_MISSILE, 0);
+    }
+    expect(weapons.getSecondaryAmmo()).toBe(9);
+    expect(weapons.getSecondaryLevel()).toBe(3);
+    const fired = weapons.fireSecondary(origin, 0);
+    expect(fired?.weapon).toBe(SecondaryWeapon.HOMING_MISSILES);
+    if (fired?.weapon === SecondaryWeapon.HOMING_MISSILES) {
+      expect(fired.missiles).toHaveLength(3);
+    }
+    expect(weapons.getSecondaryAmmo()).toBe(8);
+  });
+
+  it("switches to the next secondary when one runs dry", () => {
+    weapons.addPowerUp(PowerUpType.MINES, 0);
+    weapons.addPowerUp(PowerUpType.EMP, 0);
+    expect(weapons.getSecondaryWeapon()).toBe(SecondaryWeapon.EMP);
+    const pulse = weapons.fireSecondary(origin, 0);
+    expect(pulse).toEqual({weapon: SecondaryWeapon.EMP, radius: 200});
+    expect(weapons.getSecondaryWeapon()).toBe(SecondaryWeapon.MINES);
+    expect(weapons.getSecondaryAmmo()).toBe(4);
+  });
+
+  it("holds the laser on as a beam that ticks damage", () => {
+    weapons.addPowerUp(PowerUpType.LASER, 0);
+    expect(weapons.isBeamEquipped()).toBe(true);
+    expect(weapons.fireBeam()).toBeNull(); // Trigger not held
+
+    expect(weapons.shoot(origin, 0)).toHaveLength(0);
+    expect(weapons.fireBeam()?.damage).toBe(1);
+    weapons.update(16);
+
+    clock.advance(50);
+    weapons.shoot(origin, 0);
+    expect(weapons.fireBeam()?.damage).toBe(0); // Between ticks
+  });
+
+  it("overheats the beam until its energy recharges", () => {
+    weapons.addPowerUp(PowerUpType.LASER, 0);
+    for (let i = 0; i < 4; i++) {
+      weapons.shoot(origin, 0);
+      weapons.update(1000); // Drains 30 a second
+    }
+    expect(weapons.getBeamEnergy()).toBe(0);
+    expect(weapons.isOverheated()).toBe(true);
+    weapons.shoot(origin, 0);
+    expect(weapons.fireBeam()).toBeNull();
+    weapons.update(16);
+
+    weapons.update(600); // The pause before recharging
+    weapons.update(1250); // 20 a second, back to the restart level
+    expect(weapons.isOverheated()).toBe(false);
+    weapons.shoot(origin, 0);
+    expect(weapons.fireBeam()).not.toBeNull();
+  });
+
+  it("drops picked-up weapons on reset", () => {
+    weapons.addPowerUp(PowerUpType.LASER, 0);
+    weapons.addPowerUp(PowerUpType.MINES, 0);
+    weapons.reset();
+    expect(weapons.getOwnedPrimaries()).toEqual([PrimaryWeapon.BLASTER]);
+    expect(weapons.getSecondaryWeapon()).toBeNull();
+  });
+});
+
+describe("WeaponSystem power-up levels and combos", () => {
+  let clock: SimulationClock;
+  let weapons: WeaponSystem;
+
+  beforeEach(() => {
+    clock = new SimulationClock();
+    weapons = new WeaponSystem(clock);
+  });
+
+  it("raises a power-up's level on a repeat pickup and refreshes it", () => {
+    weapons.addPowerUp(PowerUpType.RAPID_FIRE, 5000);
+    weapons.update(4000);
+    for (let i = 0; i < 3; i++) {
+      weapons.addPowerUp(PowerUpType.RAPID_FIRE, 5000);
+    }
+    expect(weapons.getPowerUpLevel(PowerUpType.RAPID_FIRE)).toBe(3);
+    expect(weapons.getActivePowerUps()[0].timeRemaining).toBe(5000);
+
+    // Rapid Fire III cycles the blaster in under 40ms
+    expect(weapons.shoot(origin, 0)).toHaveLength(1);
+    clock.advance(38);
+    expect(weapons.shoot(origin, 0)).toHaveLength(1);
+  });
+
+  it("widens spread shot and adds tail shots to triple shot", () => {
+    weapons.addPowerUp(PowerUpType.SPREAD_SHOT, 5000);
+    weapons.addPowerUp(PowerUpType.SPREAD_SHOT, 5000);
+    expect(weapons.shoot(origin, 0)).toHaveLength(7);
+
+    weapons.addPowerUp(PowerUpType.TRIPLE_SHOT, 5000);
+    weapons.addPowerUp(PowerUpType.TRIPLE_SHOT, 5000);
+    clock.advance(250);
+    const angles = directions(weapons.shoot(origin, 0));
+    expect(angles).toHaveLength(4);
+    expect(Math.abs(angles[3])).toBeCloseTo(Math.PI);
+  });
+
+  it("fires a wider, faster piercing fan with power and spread shot", () => {
+    weapons.addPowerUp(PowerUpType.SPREAD_SHOT, 5000);
+    const plain = weapons.shoot(origin, 0);
+    weapons.addPowerUp(PowerUpType.POWER_SHOT, 5000);
+    expect(weapons.getActiveCombos()).toEqual(["piercingFan"]);
+
+    clock.advance(250);
+    const fan = weapons.shoot(origin, 0);
+    expect(directions(fan)[0]).toBeCloseTo(-0.45);
+    expect(fan[0].velocity.x).toBeGreaterThan(plain[0].velocity.x);
+  });
+
+  it("has no piercing fan while triple shot replaces the spread", () => {
+    weapons.addPowerUp(PowerUpType.SPREAD_SHOT, 5000);
+    weapons.addPowerUp(PowerUpType.POWER_SHOT, 5000);
+    weapons.addPowerUp(PowerUpType.TRIPLE_SHOT, 1000);
+    expect(weapons.getActiveCombos()).toEqual([]);
+    const angles = directions(weapons.shoot(origin, 0));
+    expect(angles).toHaveLength(3);
+    expect(angles[0]).toBeCloseTo(-0.2);
+
+    weapons.update(1000);
+    expect(weapons.getActiveCombos()).toEqual(["piercingFan"]);
+  });
+
+  it("adds two missiles to each launch in a missile swarm", () => {
+    weapons.addPowerUp(PowerUpType.HOMING_MISSILE, 0);
+    weapons.addPowerUp(PowerUpType.MAGNET, 12000);
+    expect(weapons.hasCombo("missileSwarm")).toBe(true);
+    const fired = weapons.fireSecondary(origin, 0);
+    if (fired?.weapon !== SecondaryWeapon.HOMING_MISSILES) {
+      throw new Error("Expected a missile launch");
+    }
+    expect(fired.missiles).toHaveLength(3);
+  });
+
+  it("ends a combo when one of its parts runs out", () => {
+    weapons.addPowerUp(PowerUpType.RAPID_FIRE, 1000);
+    weapons.addPowerUp(PowerUpType.TRIPLE_SHOT, 5000);
+    expect(weapons.getActiveCombos()).toEqual(["bulletStorm"]);
+    weapons.update(1000);
+    expect(weapons.getActiveCombos()).toEqual([]);
+  });
+});
@@ -1,18 +1,94 @@
 import {Bullet} from "../entities/Bullet";
 import {HomingMissile} from "../entities/HomingMissile";
+import {Mine, MineType} from "../entities/Mine";
 import {PowerUpType} from "../entities/PowerUp";
 import type {Vector2} from "../utils/Vector2";
+import {Vector2Utils} from "../utils/Vector2";
+import type {SimulationClock} from "../core/SimulationClock";
+import {
+  BEAM_RECHARGE,
+  BEAM_RECHARGE_DELAY,
+  BEAM_RESTART,
+  EMP_RADIUS,
+  MAX_BEAM_ENERGY,
+  MAX_WEAPON_LEVEL,
+  PRIMARY_DROPS,
+  PRIMARY_WEAPONS,
+  PrimaryWeapon,
+  SECONDARY_DROPS,
+  SECONDARY_WEAPONS,
+  SecondaryWeapon,
+} from "./WeaponModules";
+import {
+  BULLET_STORM_COOLDOWN,
+  MAX_POWER_UP_LEVEL,
+  PIERCING_FAN_SPEED,
+  PIERCING_FAN_WIDTH,
+  POWER_SHOT_DAMAGE,
+  POWER_UP_COMBOS,
+  PowerUpCombo,
+  RAPID_FIRE_COOLDOWN,
+  SPREAD_SHOT_FANS,
+  SWARM_EXTRA_MISSILES,
+  TRIPLE_SHOT_FANS,
+} from "./PowerUpCombos";
 
 export interface ActivePowerUp {
   type: PowerUpType;
   timeRemaining: number;
-  usesRemaining?: number; // For limited-use power-ups like homing missiles
+  level: number; // Raised by collecting it again while it runs
 }
 
+interface HeldSecondary {
+  level: number;
+  ammo: number;
+}
+
+// What one press of the secondary fire button let loose
+export type SecondaryFire =
+  | {weapon: typeof SecondaryWeapon.HOMING_MISSILES; missiles: HomingMissile[]}
+  | {weapon: typeof SecondaryWeapon.MINES; mines: Mine[]}
+  | {weapon: typeof SecondaryWeapon.EMP; radius: number};
+
+// The beam for one frame of a held trigger
+export interface BeamFire {
+  range: number;
+  width: number;
+  color: string;
+  damage: number; // 0 between damage ticks
+}
+
+const MISSILE_SPREAD = 0.3; // Radians between missiles in one launch
+const MINE_SPACING = 24; // Between mines laid side by side
+const MINE_DROP_DISTANCE = 20; // Behind the ship's nose
+
+/**
+ * WeaponSystem - A player's loadout: the primary guns they have picked up
+ * (one equipped at a time, cycled with a key), the secondary weapons with
+ * their ammo, and the timed shot power-ups that modify whichever gun is
+ * equipped. Picking up a weapon or power-up already held levels it up, to
+ * a cap, and some power-ups held together form a combo (PowerUpCombos).
+ */
 export class WeaponSystem {
   private activePowerUps: ActivePowerUp[] = [];
-  private lastShotTime: number = 0;
-  private baseShotCooldown: number = 250; // Base cooldown in milliseconds
+  private lastShotTime: number = -Infinity;
+  private lockedWeapon: PowerUpType | null = null; // Never runs out
+  private clock: SimulationClock;
+  // Levels of the guns held, in the order they were picked up
+  private primaries = new Map<PrimaryWeapon, number>([
+    [PrimaryWeapon.BLASTER, 1],
+  ]);
+  private primary: PrimaryWeapon = PrimaryWeapon.BLASTER;
+  private secondaries = new Map<SecondaryWeapon, HeldSecondary>();
+  private secondary: SecondaryWeapon | null = null;
+  private beamEnergy: number = MAX_BEAM_ENERGY;
+  private beamHeld: boolean = false; // Trigger held this frame
+  private beamIdle: number = 0; // Time since the beam was last on
+  private overheated: boolean = false; // Ran dry; waiting to recharge
+
+  constructor(clock: SimulationClock) {
+    this.clock = clock;
+  }
 
   update(deltaTime: number): void {
     // Update power-up timers
@@ -20,83 +96,357 @@ export class WeaponSystem {
       powerUp.timeRemaining -= deltaTime;
       return powerUp.timeRemaining > 0;
     });
+
+    // Drain the beam's energy while it is on, recharge it after a pause
+    const drain = this.getBeamDrain();
+    if (this.beamHeld && drain !== null && !this.overheated) {
+      this.beamEnergy = Math.max(
+        0,
+        this.beamEnergy - drain * (deltaTime / 1000)
+      );
+      this.beamIdle = 0;
+      this.overheated = this.beamEnergy <= 0;
+    } else {
+      this.beamIdle += deltaTime;
+      if (this.beamIdle >= BEAM_RECHARGE_DELAY) {
+        this.beamEnergy = Math.min(
+          MAX_BEAM_ENERGY,
+          this.beamEnergy + BEAM_RECHARGE * (deltaTime / 1000)
+        );
+      }
+      if (this.beamEnergy >= BEAM_RESTART) this.overheated = false;
+    }
+    this.beamHeld = false;
+  }
+
+  private getBeamDrain(): number | null {
+    const config = PRIMARY_WEAPONS[this.primary];
+    if (config.kind !== "beam") return null;
+    return config.levels[this.getPrimaryLevel() - 1].drain;
   }
 
   canShoot(): boolean {
-    const currentTime = Date.now();
+    const currentTime = this.clock.now();
     const cooldown = this.getCurrentShotCooldown();
     return currentTime - this.lastShotTime >= cooldown;
   }
 
   private getCurrentShotCooldown(): number {
-    if (this.hasPowerUp(PowerUpType.RAPID_FIRE)) {
-      return this.baseShotCooldown * 0.3; // 70% faster
-    }
-    return this.baseShotCooldown;
+    const cooldown = this.getPrimaryStats().cooldown;
+    const rapidFire = this.getPowerUpLevel(PowerUpType.RAPID_FIRE);
+    if (rapidFire === 0) return cooldown;
+
+    const storm = this.hasCombo(PowerUpCombo.BULLET_STORM)
+      ? BULLET_STORM_COOLDOWN
+      : 1;
+    return cooldown * RAPID_FIRE_COOLDOWN[rapidFire - 1] * storm;
   }
 
+  private getPrimaryStats() {
+    return PRIMARY_WEAPONS[this.primary].levels[this.getPrimaryLevel() - 1];
+  }
+
+  /**
+   * Pull the trigger for a frame. A beam weapon fires no bullets; holding
+   * the trigger keeps the beam on, and fireBeam says what it does.
+   */
   shoot(position: Vector2, direction: number): Bullet[] {
+    const config = PRIMARY_WEAPONS[this.primary];
+    if (config.kind === "beam") {
+      this.beamHeld = true;
+      return [];
+    }
     if (!this.canShoot()) return [];
 
-    this.lastShotTime = Date.now();
-    const bullets: Bullet[] = [];
+    this.lastShotTime = this.clock.now();
+    const stats = config.levels[this.getPrimaryLevel() - 1];
 
-    if (this.hasPowerUp(PowerUpType.TRIPLE_SHOT)) {
-      // Fire three bullets
-      bullets.push(new Bullet(position, direction - 0.2)); // Left
-      bullets.push(new Bullet(position, direction)); // Center
-      bullets.push(new Bullet(position, direction + 0.2)); // Right
-    } else if (this.hasPowerUp(PowerUpType.SPREAD_SHOT)) {
-      // Fire five bullets in spread pattern
-      const spreadAngle = 0.15;
-      for (let i = -2; i <= 2; i++) {
-        bullets.push(new Bullet(position, direction + i * spreadAngle));
+    // Triple and spread shot repeat the gun's pattern across a fan
+    let fan = [0];
+    let speed = config.speed;
+    const triple = this.getPowerUpLevel(PowerUpType.TRIPLE_SHOT);
+    const spread = this.getPowerUpLevel(PowerUpType.SPREAD_SHOT);
+    if (triple > 0) {
+      fan = TRIPLE_SHOT_FANS[triple - 1];
+    } else if (spread > 0) {
+      fan = SPREAD_SHOT_FANS[spread - 1];
+      if (this.hasCombo(PowerUpCombo.PIERCING_FAN)) {
+        fan = fan.map((angle) => angle * PIERCING_FAN_WIDTH);
+        speed *= PIERCING_FAN_SPEED;
+      }
+    }
+
+    const bullets: Bullet[] = [];
+    for (const fanAngle of fan) {
+      for (const offset of stats.spread) {
+        const bullet = new Bullet(position, direction + fanAngle + offset);
+        bullet.setSpeed(speed);
+        bullet.setLifetime(config.lifetime);
+        bullet.setDamage(stats.damage);
+        bullet.setColor(config.color);
+        bullet.setTrail(config.trail);
+        bullet.setPiercing(config.piercing);
+        bullets.push(bullet);
       }
-    } else {
-      // Normal single shot
-      bullets.push(new Bullet(position, direction));
     }
 
     // Apply power shot effect if active
-    if (this.hasPowerUp(PowerUpType.POWER_SHOT)) {
+    const power = this.getPowerUpLevel(PowerUpType.POWER_SHOT);
+    if (power > 0) {
       bullets.forEach((bullet) => {
         bullet.setPiercing(true);
-        bullet.setDamage(2);
+        bullet.setDamage(
+          Math.max(POWER_SHOT_DAMAGE[power - 1], bullet.getDamage())
+        );
+        bullet.setColor("#ff00ff");
       });
     }
 
     return bullets;
   }
 
-  addPowerUp(type: PowerUpType, duration: number): void {
-    // Remove existing power-up of the same type
-    this.activePowerUps = this.activePowerUps.filter(
-      (powerUp) => powerUp.type !== type
-    );
+  /**
+   * The beam this frame, if the trigger is held on a beam weapon with
+   * energy to spare. Damage ticks come at the weapon's cooldown, faster
+   * with rapid fire; power shot makes them hit harder.
+   */
+  fireBeam(): BeamFire | null {
+    const config = PRIMARY_WEAPONS[this.primary];
+    if (config.kind !== "beam" || !this.beamHeld || this.overheated) {
+      return null;
+    }
 
-    // Add new power-up
-    const newPowerUp: ActivePowerUp = {
-      type,
-      timeRemaining: duration,
+    let damage = 0;
+    if (this.canShoot()) {
+      this.lastShotTime = this.clock.now();
+      damage = config.levels[this.getPrimaryLevel() - 1].damage;
+      const power = this.getPowerUpLevel(PowerUpType.POWER_SHOT);
+      if (power > 0) {
+        damage = Math.max(POWER_SHOT_DAMAGE[power - 1], damage);
+      }
+    }
+    return {
+      range: config.range,
+      width: config.width,
+      color: config.color,
+      damage,
     };
+  }
+
+  isBeamEquipped(): boolean {
+    return PRIMARY_WEAPONS[this.primary].kind === "beam";
+  }
+
+  // 0 to 1
+  getBeamEnergy(): number {
+    return this.beamEnergy / MAX_BEAM_ENERGY;
+  }
+
+  isOverheated(): boolean {
+    return this.overheated;
+  }
 
-    // Special handling for power-ups with limited uses
-    if (type === PowerUpType.HOMING_MISSILE) {
-      newPowerUp.usesRemaining = 3; // 3 homing missiles
+  /**
+   * Collect a drop. Guns are equipped (or levelled up if already held),
+   * secondary weapons are selected and gain ammo, and the rest start a
+   * timed power-up, or restart it a level higher if it is still running.
+   */
+  addPowerUp(type: PowerUpType, duration: number): void {
+    const primary = PRIMARY_DROPS[type];
+    if (primary) {
+      this.equipPrimary(primary);
+      return;
+    }
+    const secondary = SECONDARY_DROPS[type];
+    if (secondary) {
+      this.addSecondary(secondary);
+      return;
     }
+    if (type === PowerUpType.WEAPON_UPGRADE) {
+      this.primaries.set(this.primary, this.levelUp(this.getPrimaryLevel()));
+      return;
+    }
+
+    const active = this.activePowerUps.find((powerUp) => powerUp.type === type);
+    if (active) {
+      active.level = Math.min(MAX_POWER_UP_LEVEL, active.level + 1);
+      active.timeRemaining = duration;
+    } else {
+      this.activePowerUps.push({type, timeRemaining: duration, level: 1});
+    }
+  }
 
-    this.activePowerUps.push(newPowerUp);
+  private levelUp(level: number): number {
+    return Math.min(MAX_WEAPON_LEVEL, level + 1);
+  }
+
+  // A beam pickup also tops up the energy meter
+  private equipPrimary(weapon: PrimaryWeapon): void {
+    const level = this.primaries.get(weapon);
+    this.primaries.set(weapon, level ? this.levelUp(level) : 1);
+    this.primary = weapon;
+    if (PRIMARY_WEAPONS[weapon].kind === "beam") {
+      this.beamEnergy = MAX_BEAM_ENERGY;
+      this.overheated = false;
+    }
+  }
+
+  // A second pickup of the same weapon adds ammo (to its cap) and a level
+  private addSecondary(weapon: SecondaryWeapon): void {
+    const config = SECONDARY_WEAPONS[weapon];
+    const held = this.secondaries.get(weapon);
+    if (held) {
+      held.level = this.levelUp(held.level);
+      held.ammo = Math.min(config.maxAmmo, held.ammo + config.ammoPerPickup);
+    } else {
+      this.secondaries.set(weapon, {level: 1, ammo: config.ammoPerPickup});
+    }
+    this.secondary = weapon;
   }
 
   hasPowerUp(type: PowerUpType): boolean {
-    return this.activePowerUps.some((powerUp) => powerUp.type === type);
+    return (
+      type === this.lockedWeapon ||
+      this.activePowerUps.some((powerUp) => powerUp.type === type)
+    );
+  }
+
+  // 0 when not running; a locked weapon counts as level 1
+  getPowerUpLevel(type: PowerUpType): number {
+    const active = this.activePowerUps.find((powerUp) => powerUp.type === type);
+    return Math.max(active?.level ?? 0, type === this.lockedWeapon ? 1 : 0);
+  }
+
+  // Secondary weapons count while they have ammo
+  private holds(type: PowerUpType): boolean {
+    const secondary = SECONDARY_DROPS[type];
+    return secondary ? this.secondaries.has(secondary) : this.hasPowerUp(type);
+  }
+
+  hasCombo(combo: PowerUpCombo): boolean {
+    const {requires, overriddenBy = []} = POWER_UP_COMBOS[combo];
+    return (
+      requires.every((type) => this.holds(type)) &&
+      !overriddenBy.some((type) => this.holds(type))
+    );
+  }
+
+  getActiveCombos(): PowerUpCombo[] {
+    return Object.values(PowerUpCombo).filter((combo) => this.hasCombo(combo));
+  }
+
+  // Keep a shot power-up for the rest of the game (the Spread Shot Only
+  // modifier); it survives reset
+  lockWeapon(type: PowerUpType | null): void {
+    this.lockedWeapon = type;
   }
 
   getActivePowerUps(): ActivePowerUp[] {
     return [...this.activePowerUps];
   }
 
+  getPrimaryWeapon(): PrimaryWeapon {
+    return this.primary;
+  }
+
+  getPrimaryLevel(weapon: PrimaryWeapon = this.primary): number {
+    return this.primaries.get(weapon) ?? 0;
+  }
+
+  getOwnedPrimaries(): PrimaryWeapon[] {
+    return [...this.primaries.keys()];
+  }
+
+  // Equip the next gun held, wrapping round; returns the one now equipped
+  cyclePrimary(): PrimaryWeapon {
+    const owned = this.getOwnedPrimaries();
+    this.primary = owned[(owned.indexOf(this.primary) + 1) % owned.length];
+    return this.primary;
+  }
+
+  getSecondaryWeapon(): SecondaryWeapon | null {
+    return this.secondary;
+  }
+
+  getSecondaryLevel(): number {
+    return this.secondary
+      ? this.secondaries.get(this.secondary)?.level ?? 0
+      : 0;
+  }
+
+  getSecondaryAmmo(): number {
+    return this.secondary ? this.secondaries.get(this.secondary)?.ammo ?? 0 : 0;
+  }
+
+  canFireSecondary(): boolean {
+    return this.getSecondaryAmmo() > 0;
+  }
+
+  /**
+   * Use one round of the selected secondary weapon. Higher levels launch
+   * more missiles, lay more mines or pulse wider for the same round, and a
+   * missile swarm adds more missiles still. When the ammo runs out the
+   * next secondary held is selected.
+   * @param position The ship's nose
+   */
+  fireSecondary(position: Vector2, direction: number): SecondaryFire | null {
+    const weapon = this.secondary;
+    const held = weapon ? this.secondaries.get(weapon) : undefined;
+    if (!weapon || !held || held.ammo <= 0) return null;
+
+    const count =
+      weapon === SecondaryWeapon.HOMING_MISSILES &&
+      this.hasCombo(PowerUpCombo.MISSILE_SWARM)
+        ? held.level + SWARM_EXTRA_MISSILES
+        : held.level;
+    held.ammo--;
+    if (held.ammo <= 0) {
+      this.secondaries.delete(weapon);
+      this.secondary = this.secondaries.keys().next().value ?? null;
+    }
+
+    // Side by side, centred on the heading
+    const offsets = Array.from({length: count}, (_, i) => i - (count - 1) / 2);
+    switch (weapon) {
+      case SecondaryWeapon.HOMING_MISSILES:
+        return {
+          weapon,
+          missiles: offsets.map(
+            (offset) =>
+              new HomingMissile(position, direction + offset * MISSILE_SPREAD)
+          ),
+        };
+      case SecondaryWeapon.MINES: {
+        const behind = Vector2Utils.add(
+          position,
+          Vector2Utils.fromAngle(direction + Math.PI, MINE_DROP_DISTANCE)
+        );
+        return {
+          weapon,
+          mines: offsets.map(
+            (offset) =>
+              new Mine(
+                Vector2Utils.add(
+                  behind,
+                  Vector2Utils.fromAngle(
+                    direction + Math.PI / 2,
+                    offset * MINE_SPACING
+                  )
+                ),
+                MineType.PROXIMITY
+              )
+          ),
+        };
+      }
+      case SecondaryWeapon.EMP:
+        return {weapon, radius: EMP_RADIUS[held.level - 1]};
+    }
+  }
+
   getSoundForCurrentWeapon(): string {
+    if (this.primary !== PrimaryWeapon.BLASTER) {
+      return PRIMARY_WEAPONS[this.primary].sound;
+    }
     if (this.hasPowerUp(PowerUpType.RAPID_FIRE)) {
       return "rapidFire";
     } else if (
@@ -104,42 +454,10 @@ export class WeaponSystem {
       this.hasPowerUp(PowerUpType.SPREAD_SHOT)
     ) {
       return "tripleFire";
-    } else if (this.hasPowerUp(PowerUpType.HOMING_MISSILE)) {
-      return "homingMissile";
     }
     return "shoot";
   }
 
-  canLaunchHomingMissile(): boolean {
-    const powerUp = this.activePowerUps.find(
-      (p) => p.type === PowerUpType.HOMING_MISSILE
-    );
-    return powerUp !== undefined && (powerUp.usesRemaining ?? 0) > 0;
-  }
-
-  launchHomingMissile(
-    position: Vector2,
-    direction: number
-  ): HomingMissile | null {
-    const powerUp = this.activePowerUps.find(
-      (p) => p.type === PowerUpType.HOMING_MISSILE
-    );
-    if (!powerUp || (powerUp.usesRemaining ?? 0) <= 0) {
-      return null;
-    }
-
-    // Decrease uses
-    if (powerUp.usesRemaining) {
-      powerUp.usesRemaining--;
-      if (powerUp.usesRemaining <= 0) {
-        // Remove power-up when no uses left
-        this.activePowerUps = this.activePowerUps.filter((p) => p !== powerUp);
-      }
-    }
-
-    return new HomingMissile(position, direction);
-  }
-
   hasSlowMotion(): boolean {
     return this.hasPowerUp(PowerUpType.SLOW_MOTION);
   }
@@ -148,15 +466,16 @@ export class WeaponSystem {
     return this.hasPowerUp(PowerUpType.SHIELD);
   }
 
-  getHomingMissileCount(): number {
-    const powerUp = this.activePowerUps.find(
-      (p) => p.type === PowerUpType.HOMING_MISSILE
-    );
-    return powerUp?.usesRemaining ?? 0;
-  }
-
+  // Back to the bare blaster; a locked weapon stays
   reset(): void {
     this.activePowerUps = [];
-    this.lastShotTime = 0;
+    this.lastShotTime = -Infinity;
+    this.primaries = new Map([[PrimaryWeapon.BLASTER, 1]]);
+    this.primary = PrimaryWeapon.BLASTER;
+    this.secondaries.clear();
+    this.secondary = null;
+    this.beamEnergy = MAX_BEAM_ENERGY;
+    this.beamHeld = false;
+    this.overheated = false;
   }
 }
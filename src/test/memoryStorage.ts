@@ -0,0 +1,22 @@
+import {vi} from "vitest";
+
+// Installs an in-memory localStorage for tests running under Node
+export function installMemoryStorage(): Storage {
+  const data = new Map<string, string>();
+  const storage: Storage = {
+    get length() {
+      return data.size;
+    },
+    clear: () => data.clear(),
+    getItem: (key) => data.get(key) ?? null,
+    key: (index) => [...data.keys()][index] ?? null,
+    removeItem: (key) => {
+      data.delete(key);
+    },
+    setItem: (key, value) => {
+      data.set(key, String(value));
+    },
+  };
+  vi.stubGlobal("localStorage", storage);
+  return storage;
+}
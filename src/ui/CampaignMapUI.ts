@@ -0,0 +1,293 @@
+import type {CampaignSector} from "../systems/Campaign";
+import {MAX_STARS, describeGoal} from "../systems/Campaign";
+import type {CampaignProgress} from "../systems/CampaignProgress";
+
+// How the last campaign run went, shown over the map until dismissed
+export interface CampaignRunResult {
+  sector: CampaignSector;
+  cleared: boolean;
+  score: number;
+  stars: number;
+  newBest: boolean;
+}
+
+const NODE_RADIUS = 28;
+
+function formatStars(stars: number): string {
+  return "★".repeat(stars) + "☆".repeat(MAX_STARS - stars);
+}
+
+// Sector-select screen: the sectors as a route across the map
+export class CampaignMapUI {
+  private canvas: HTMLCanvasElement;
+  private sectors: readonly CampaignSector[];
+  private progress: CampaignProgress;
+  private selectedIndex: number = 0;
+  private result: CampaignRunResult | null = null;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    sectors: readonly CampaignSector[],
+    progress: CampaignProgress
+  ) {
+    this.canvas = canvas;
+    this.sectors = sectors;
+    this.progress = progress;
+  }
+
+  // Start on the furthest sector that is open
+  public open(): void {
+    const unlocked = this.sectors.filter((sector) =>
+      this.progress.isUnlocked(sector.id)
+    );
+    this.selectedIndex = Math.max(0, unlocked.length - 1);
+  }
+
+  public showResult(result: CampaignRunResult): void {
+    this.result = result;
+    this.selectedIndex = Math.max(0, this.sectors.indexOf(result.sector));
+  }
+
+  // Dismiss the result banner; returns false if none was showing
+  public dismissResult(): boolean {
+    if (!this.result) return false;
+    this.result = null;
+    return true;
+  }
+
+  public moveNext(): void {
+    this.selectedIndex = Math.min(
+      this.sectors.length - 1,
+      this.selectedIndex + 1
+    );
+  }
+
+  public movePrevious(): void {
+    this.selectedIndex = Math.max(0, this.selectedIndex - 1);
+  }
+
+  public selectIndex(index: number): void {
+    if (this.sectors[index]) {
+      this.selectedIndex = index;
+    }
+  }
+
+  public getSelectedIndex(): number {
+    return this.selectedIndex;
+  }
+
+  // The chosen sector, or null while it is still locked
+  public getSelectedSector(): CampaignSector | null {
+    const sector = this.sectors[this.selectedIndex];
+    return sector && this.progress.isUnlocked(sector.id) ? sector : null;
+  }
+
+  // Sectors wind across the middle of the screen, left to right
+  private getNodePosition(index: number): {x: number; y: number} {
+    const margin = 120;
+    const span = this.canvas.width - margin * 2;
+    const step = this.sectors.length > 1 ? span / (this.sectors.length - 1) : 0;
+    return {
+      x:
+        this.sectors.length > 1 ? margin + index * step : this.canvas.width / 2,
+      y: this.canvas.height / 2 - 60 + Math.sin(index * 1.3) * 70,
+    };
+  }
+
+  // Index of the sector drawn at a canvas position (for touch), or -1
+  public getSectorIndexAt(position: {x: number; y: number}): number {
+    return this.sectors.findIndex((_sector, index) => {
+      const node = this.getNodePosition(index);
+      return (
+        Math.hypot(position.x - node.x, position.y - node.y) < NODE_RADIUS * 1.5
+      );
+    });
+  }
+
+  public render(ctx: CanvasRenderingContext2D): void {
+    const centerX = this.canvas.width / 2;
+
+    ctx.save();
+    ctx.textAlign = "center";
+    ctx.fillStyle = "#ffffff";
+    ctx.font = "48px Arial";
+    ctx.fillText("CAMPAIGN", centerX, 80);
+
+    ctx.fillStyle = "#ffff00";
+    ctx.font = "20px Arial";
+    ctx.fillText(
+      `★ ${this.progress.getTotalStars()} / ${this.sectors.length * MAX_STARS}`,
+      centerX,
+      115
+    );
+
+    this.renderRoute(ctx);
+    this.sectors.forEach((sector, index) =>
+      this.renderNode(ctx, sector, index)
+    );
+    this.renderDetails(ctx);
+    if (this.result) {
+      this.renderResult(ctx, this.result);
+    }
+
+    ctx.fillStyle = "#888888";
+    ctx.font = "16px Arial";
+    ctx.textAlign = "center";
+    ctx.fillText(
+      this.result
+        ? "Press ENTER to continue"
+        : "LEFT/RIGHT to choose a sector, ENTER to launch, ESC to return to menu",
+      centerX,
+      this.canvas.height - 30
+    );
+    ctx.restore();
+  }
+
+  private renderRoute(ctx: CanvasRenderingContext2D): void {
+    ctx.lineWidth = 3;
+    for (let i = 1; i < this.sectors.length; i++) {
+      const from = this.getNodePosition(i - 1);
+      const to = this.getNodePosition(i);
+      const open = this.progress.isUnlocked(this.sectors[i].id);
+      ctx.strokeStyle = open ? "#4488ff" : "#333333";
+      ctx.setLineDash(open ? [] : [8, 8]);
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+  }
+
+  private renderNode(
+    ctx: CanvasRenderingContext2D,
+    sector: CampaignSector,
+    index: number
+  ): void {
+    const {x, y} = this.getNodePosition(index);
+    const unlocked = this.progress.isUnlocked(sector.id);
+    const record = this.progress.getRecord(sector.id);
+    const selected = index === this.selectedIndex;
+
+    // Cleared sectors are green, open ones white, locked ones grey
+    const color = record ? "#00ff88" : unlocked ? "#ffffff" : "#555555";
+    ctx.fillStyle = "#000000";
+    ctx.strokeStyle = color;
+    ctx.lineWidth = selected ? 4 : 2;
+    ctx.beginPath();
+    ctx.arc(x, y, NODE_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+
+    if (selected) {
+      ctx.strokeStyle = "#ffff00";
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(x, y, NODE_RADIUS + 8, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    ctx.fillStyle = color;
+    ctx.font = "bold 22px Arial";
+    ctx.fillText(String(index + 1), x, y + 8);
+
+    ctx.font = "14px Arial";
+    ctx.fillText(unlocked ? sector.name : "LOCKED", x, y + NODE_RADIUS + 22);
+    if (unlocked) {
+      ctx.fillStyle = "#ffff00";
+      ctx.fillText(formatStars(record?.stars ?? 0), x, y + NODE_RADIUS + 40);
+    }
+  }
+
+  private renderDetails(ctx: CanvasRenderingContext2D): void {
+    const sector = this.sectors[this.selectedIndex];
+    if (!sector) return;
+
+    const centerX = this.canvas.width / 2;
+    const y = this.canvas.height / 2 + 120;
+    const record = this.progress.getRecord(sector.id);
+
+    ctx.textAlign = "center";
+    if (!this.progress.isUnlocked(sector.id)) {
+      ctx.fillStyle = "#888888";
+      ctx.font = "24px Arial";
+      ctx.fillText("Clear the previous sector to unlock", centerX, y);
+      return;
+    }
+
+    ctx.fillStyle = "#ffffff";
+    ctx.font = "bold 28px Arial";
+    ctx.fillText(
+      `Sector ${this.selectedIndex + 1}: ${sector.name}`,
+      centerX,
+      y
+    );
+
+    ctx.fillStyle = "#cccccc";
+    ctx.font = "18px Arial";
+    ctx.fillText(sector.description, centerX, y + 32);
+
+    ctx.fillStyle = "#00ffff";
+    ctx.font = "bold 20px Arial";
+    ctx.fillText(`Goal: ${describeGoal(sector.goal)}`, centerX, y + 66);
+
+    ctx.fillStyle = "#888888";
+    ctx.font = "16px Arial";
+    const [twoStars, threeStars] = sector.stars;
+    ctx.fillText(
+      `★★ ${twoStars.toLocaleString()} points   ★★★ ${threeStars.toLocaleString()} points` +
+        (record ? `   Best: ${record.bestScore.toLocaleString()}` : ""),
+      centerX,
+      y + 94
+    );
+  }
+
+  private renderResult(
+    ctx: CanvasRenderingContext2D,
+    result: CampaignRunResult
+  ): void {
+    const centerX = this.canvas.width / 2;
+    const centerY = this.canvas.height / 2 - 60;
+
+    ctx.fillStyle = "rgba(0, 0, 0, 0.85)";
+    ctx.fillRect(centerX - 260, centerY - 90, 520, 180);
+    ctx.strokeStyle = result.cleared ? "#00ff88" : "#ff4444";
+    ctx.lineWidth = 2;
+    ctx.strokeRect(centerX - 260, centerY - 90, 520, 180);
+
+    ctx.textAlign = "center";
+    ctx.fillStyle = result.cleared ? "#00ff88" : "#ff4444";
+    ctx.font = "bold 36px Arial";
+    ctx.fillText(
+      result.cleared ? "SECTOR CLEARED" : "SECTOR FAILED",
+      centerX,
+      centerY - 40
+    );
+
+    ctx.fillStyle = "#ffffff";
+    ctx.font = "22px Arial";
+    ctx.fillText(
+      `${result.sector.name} - ${result.score.toLocaleString()} points`,
+      centerX,
+      centerY
+    );
+
+    if (result.cleared) {
+      ctx.fillStyle = "#ffff00";
+      ctx.font = "36px Arial";
+      ctx.fillText(formatStars(result.stars), centerX, centerY + 45);
+      if (result.newBest) {
+        ctx.font = "bold 16px Arial";
+        ctx.fillText("NEW BEST!", centerX, centerY + 75);
+      }
+    } else {
+      ctx.fillStyle = "#cccccc";
+      ctx.font = "18px Arial";
+      ctx.fillText(
+        `Goal: ${describeGoal(result.sector.goal)}`,
+        centerX,
+        centerY + 45
+      );
+    }
+  }
+}
@@ -1,6 +1,27 @@
 import {WeaponSystem} from "../systems/WeaponSystem";
 import {WaveManager} from "../systems/WaveManager";
 import {PowerUpType} from "../entities/PowerUp";
+import {formatTime} from "../utils/formatTime";
+import {
+  PRIMARY_WEAPONS,
+  PrimaryWeapon,
+  SECONDARY_WEAPONS,
+} from "../systems/WeaponModules";
+import {POWER_UP_COMBOS, levelName} from "../systems/PowerUpCombos";
+import type {BossRush} from "../systems/BossRush";
+import {formatSplit} from "../systems/BossRush";
+
+// One player's panel in the split co-op/versus HUD
+export interface PlayerHUDData {
+  label: string;
+  color: string;
+  score: number; // Kills this round in versus
+  lives: number;
+  roundWins?: number; // Versus only, shown in place of lives
+  weaponSystem: WeaponSystem;
+  shieldHealth?: number;
+  maxShieldHealth?: number;
+}
 
 export class HUD {
   private canvas: HTMLCanvasElement;
@@ -16,6 +37,8 @@ export class HUD {
   }
 
   render(gameData: {
+    players?: PlayerHUDData[];
+    versus?: {round: number; killsToWinRound: number};
     score: number;
     lives: number;
     level: number;
@@ -26,17 +49,70 @@ export class HUD {
     comboCount?: number;
     comboMultiplier?: number;
     comboProgress?: number;
+    objective?: string; // Campaign goal progress
+    timeLeft?: number; // Time Attack countdown in milliseconds
+    survived?: number; // Survival time in milliseconds, shown instead of waves
+    bossRush?: {rush: BossRush; time: number}; // Also shown instead of waves
   }): void {
+    // Co-op: player 1 on the left, player 2 on the right, team score in the middle
+    if (gameData.players && gameData.players.length > 1) {
+      gameData.players.slice(0, 2).forEach((player, i) => {
+        this.renderPlayerPanel(player, i === 0 ? "left" : "right");
+      });
+      if (gameData.versus) {
+        this.renderVersusRound(
+          gameData.versus.round,
+          gameData.versus.killsToWinRound
+        );
+        return;
+      }
+      this.renderWaveInfo(gameData.waveManager);
+      this.renderTeamScore(gameData.score);
+      this.renderComboIfActive(gameData);
+      return;
+    }
+
     // Top-left: Score and Lives
     this.renderScoreAndLives(gameData.score, gameData.lives);
 
-    // Top-center: Wave information
-    this.renderWaveInfo(gameData.waveManager);
+    // Top-center: Wave information, or the clock in Survival
+    if (gameData.survived !== undefined) {
+      this.renderSurvivalTime(gameData.survived);
+    } else if (gameData.bossRush) {
+      this.renderBossRush(gameData.bossRush.rush, gameData.bossRush.time);
+    } else {
+      this.renderWaveInfo(gameData.waveManager);
+    }
+    if (gameData.timeLeft !== undefined) {
+      this.renderCountdown(gameData.timeLeft);
+    }
+    if (gameData.objective) {
+      this.renderObjective(gameData.objective);
+    }
 
     // Top-right: Active power-ups
     this.renderActivePowerUps(gameData.weaponSystem);
 
     // Center-right: Combo display (if active)
+    this.renderComboIfActive(gameData);
+
+    // Bottom-left: Shield status (if active)
+    if (
+      gameData.shieldHealth !== undefined &&
+      gameData.maxShieldHealth !== undefined
+    ) {
+      this.renderShieldStatus(gameData.shieldHealth, gameData.maxShieldHealth);
+    }
+
+    // Bottom-right: Weapon status
+    this.renderWeaponStatus(gameData.weaponSystem);
+  }
+
+  private renderComboIfActive(gameData: {
+    comboCount?: number;
+    comboMultiplier?: number;
+    comboProgress?: number;
+  }): void {
     if (
       gameData.comboCount !== undefined &&
       gameData.comboMultiplier !== undefined &&
@@ -49,17 +125,155 @@ export class HUD {
         gameData.comboProgress
       );
     }
+  }
+
+  // Score, lives, power-ups, shield and weapon for one co-op or versus player
+  private renderPlayerPanel(
+    player: PlayerHUDData,
+    side: "left" | "right"
+  ): void {
+    const align = side;
+    const x = side === "left" ? 20 : this.canvas.width - 20;
+    const y = 30;
+
+    this.ctx.save();
+    this.ctx.fillStyle = player.color;
+    this.ctx.font = "bold 20px Arial";
+    this.ctx.textAlign = align;
+    if (player.roundWins !== undefined) {
+      // Versus ships respawn forever, so track kills and rounds instead
+      this.ctx.fillText(`${player.label} KILLS: ${player.score}`, x, y);
+      this.ctx.font = "16px Arial";
+      this.ctx.fillText(`ROUNDS: ${player.roundWins}`, x, y + 25);
+    } else {
+      this.ctx.fillText(
+        `${player.label}: ${player.score.toLocaleString()}`,
+        x,
+        y
+      );
+
+      this.ctx.font = "16px Arial";
+      this.ctx.fillText(`LIVES: ${player.lives}`, x, y + 25);
+
+      // Life icons grow inward from the label
+      const iconStart = side === "left" ? x + 70 : x - 80;
+      const iconStep = side === "left" ? 20 : -20;
+      for (let i = 0; i < player.lives; i++) {
+        this.drawLifeIcon(iconStart + i * iconStep, y + 15);
+      }
+    }
+    this.ctx.restore();
+
+    this.renderActivePowerUps(player.weaponSystem, x, y + 55, align);
 
-    // Bottom-left: Shield status (if active)
     if (
-      gameData.shieldHealth !== undefined &&
-      gameData.maxShieldHealth !== undefined
+      player.shieldHealth !== undefined &&
+      player.maxShieldHealth !== undefined
     ) {
-      this.renderShieldStatus(gameData.shieldHealth, gameData.maxShieldHealth);
+      const shieldX = side === "left" ? x : x - 150;
+      this.renderShieldStatus(
+        player.shieldHealth,
+        player.maxShieldHealth,
+        shieldX,
+        this.canvas.height - 90
+      );
     }
 
-    // Bottom-right: Weapon status
-    this.renderWeaponStatus(gameData.weaponSystem);
+    this.renderWeaponStatus(
+      player.weaponSystem,
+      x,
+      this.canvas.height - 40,
+      align
+    );
+  }
+
+  private renderVersusRound(round: number, killsToWinRound: number): void {
+    const centerX = this.canvas.width / 2;
+    const y = 30;
+
+    this.ctx.save();
+    this.ctx.fillStyle = "#ffff00";
+    this.ctx.font = "bold 24px Arial";
+    this.ctx.textAlign = "center";
+    this.ctx.fillText(`ROUND ${round}`, centerX, y);
+
+    this.ctx.font = "16px Arial";
+    this.ctx.fillStyle = "#ffffff";
+    this.ctx.fillText(`First to ${killsToWinRound} kills`, centerX, y + 25);
+    this.ctx.restore();
+  }
+
+  private renderTeamScore(score: number): void {
+    this.ctx.save();
+    this.ctx.fillStyle = "#ffffff";
+    this.ctx.font = "bold 18px Arial";
+    this.ctx.textAlign = "center";
+    this.ctx.fillText(
+      `TEAM: ${score.toLocaleString()}`,
+      this.canvas.width / 2,
+      95
+    );
+    this.ctx.restore();
+  }
+
+  private renderObjective(objective: string): void {
+    this.ctx.save();
+    this.ctx.fillStyle = "#00ffff";
+    this.ctx.font = "bold 18px Arial";
+    this.ctx.textAlign = "center";
+    this.ctx.fillText(objective, this.canvas.width / 2, 95);
+    this.ctx.restore();
+  }
+
+  // Turns red for the last ten seconds
+  private renderCountdown(timeLeft: number): void {
+    this.ctx.save();
+    this.ctx.fillStyle = timeLeft <= 10000 ? "#ff4444" : "#ffffff";
+    this.ctx.font = "bold 28px Arial";
+    this.ctx.textAlign = "center";
+    this.ctx.fillText(formatTime(timeLeft / 1000), this.canvas.width / 2, 100);
+    this.ctx.restore();
+  }
+
+  private renderSurvivalTime(survived: number): void {
+    this.ctx.save();
+    this.ctx.fillStyle = "#ffff00";
+    this.ctx.font = "bold 24px Arial";
+    this.ctx.textAlign = "center";
+    this.ctx.fillText(
+      `SURVIVED ${formatTime(Math.floor(survived / 1000))}`,
+      this.canvas.width / 2,
+      30
+    );
+    this.ctx.restore();
+  }
+
+  // Stage, run clock and the splits so far
+  private renderBossRush(rush: BossRush, time: number): void {
+    const centerX = this.canvas.width / 2;
+    const stage = Math.min(rush.getTier() + 1, rush.getStageCount());
+
+    this.ctx.save();
+    this.ctx.textAlign = "center";
+    this.ctx.fillStyle = "#ffff00";
+    this.ctx.font = "bold 24px Arial";
+    this.ctx.fillText(`BOSS ${stage}/${rush.getStageCount()}`, centerX, 30);
+
+    this.ctx.fillStyle = "#ffffff";
+    this.ctx.font = "bold 20px Arial";
+    this.ctx.fillText(formatSplit(time), centerX, 55);
+
+    const splits = rush.getSplits();
+    if (splits.length > 0) {
+      this.ctx.fillStyle = "#aaaaaa";
+      this.ctx.font = "14px Arial";
+      this.ctx.fillText(
+        splits.map((split, i) => `${i + 1}: ${formatSplit(split)}`).join("   "),
+        centerX,
+        75
+      );
+    }
+    this.ctx.restore();
   }
 
   private renderScoreAndLives(score: number, lives: number): void {
@@ -159,12 +373,14 @@ export class HUD {
     this.ctx.strokeRect(centerX - barWidth / 2, y, barWidth, barHeight);
   }
 
-  private renderActivePowerUps(weaponSystem: WeaponSystem): void {
-    const x = this.canvas.width - 20;
-    const y = 30;
-
+  private renderActivePowerUps(
+    weaponSystem: WeaponSystem,
+    x: number = this.canvas.width - 20,
+    y: number = 30,
+    align: CanvasTextAlign = "right"
+  ): void {
     this.ctx.save();
-    this.ctx.textAlign = "right";
+    this.ctx.textAlign = align;
     this.ctx.font = "14px Arial";
 
     let yOffset = 0;
@@ -183,19 +399,31 @@ export class HUD {
 
       switch (powerUp.type) {
         case PowerUpType.RAPID_FIRE:
-          displayText = `Rapid Fire (${timeLeft}s)`;
+          displayText = `${levelName(
+            "Rapid Fire",
+            powerUp.level
+          )} (${timeLeft}s)`;
           color = "#ff6600";
           break;
         case PowerUpType.TRIPLE_SHOT:
-          displayText = `Triple Shot (${timeLeft}s)`;
+          displayText = `${levelName(
+            "Triple Shot",
+            powerUp.level
+          )} (${timeLeft}s)`;
           color = "#00ff00";
           break;
         case PowerUpType.SPREAD_SHOT:
-          displayText = `Spread Shot (${timeLeft}s)`;
+          displayText = `${levelName(
+            "Spread Shot",
+            powerUp.level
+          )} (${timeLeft}s)`;
           color = "#0088ff";
           break;
         case PowerUpType.POWER_SHOT:
-          displayText = `Power Shot (${timeLeft}s)`;
+          displayText = `${levelName(
+            "Power Shot",
+            powerUp.level
+          )} (${timeLeft}s)`;
           color = "#ff00ff";
           break;
         case PowerUpType.SHIELD:
@@ -206,10 +434,9 @@ export class HUD {
           displayText = `Slow Motion (${timeLeft}s)`;
           color = "#ffff00";
           break;
-        case PowerUpType.HOMING_MISSILE:
-          const uses = powerUp.usesRemaining || 0;
-          displayText = `Homing Missiles (${uses})`;
-          color = "#ff9900";
+        case PowerUpType.MAGNET:
+          displayText = `${levelName("Magnet", powerUp.level)} (${timeLeft}s)`;
+          color = "#00ddff";
           break;
       }
 
@@ -218,6 +445,14 @@ export class HUD {
       yOffset += 18;
     }
 
+    this.ctx.font = "bold 14px Arial";
+    for (const combo of weaponSystem.getActiveCombos()) {
+      const {name, color} = POWER_UP_COMBOS[combo];
+      this.ctx.fillStyle = color;
+      this.ctx.fillText(`COMBO: ${name}`, x, y + yOffset);
+      yOffset += 18;
+    }
+
     this.ctx.restore();
   }
 
@@ -294,10 +529,12 @@ export class HUD {
     this.ctx.strokeRect(barX, barY, barWidth, barHeight);
   }
 
-  private renderShieldStatus(health: number, maxHealth: number): void {
-    const x = 20;
-    const y = this.canvas.height - 60;
-
+  private renderShieldStatus(
+    health: number,
+    maxHealth: number,
+    x: number = 20,
+    y: number = this.canvas.height - 60
+  ): void {
     this.ctx.save();
 
     // Shield label
@@ -334,40 +571,76 @@ export class HUD {
     this.ctx.restore();
   }
 
-  private renderWeaponStatus(weaponSystem: WeaponSystem): void {
-    const x = this.canvas.width - 20;
-    const y = this.canvas.height - 40;
-
+  private renderWeaponStatus(
+    weaponSystem: WeaponSystem,
+    x: number = this.canvas.width - 20,
+    y: number = this.canvas.height - 40,
+    align: CanvasTextAlign = "right"
+  ): void {
     this.ctx.save();
-    this.ctx.textAlign = "right";
+    this.ctx.textAlign = align;
     this.ctx.font = "14px Arial";
 
-    // Current weapon
-    let weaponText = "Standard Laser";
-    let weaponColor = "#ffffff";
-
-    if (weaponSystem.hasPowerUp(PowerUpType.RAPID_FIRE)) {
-      weaponText = "Rapid Fire Laser";
-      weaponColor = "#ff6600";
-    } else if (weaponSystem.hasPowerUp(PowerUpType.TRIPLE_SHOT)) {
-      weaponText = "Triple Laser";
-      weaponColor = "#00ff00";
-    } else if (weaponSystem.hasPowerUp(PowerUpType.SPREAD_SHOT)) {
-      weaponText = "Spread Laser";
-      weaponColor = "#0088ff";
-    } else if (weaponSystem.hasPowerUp(PowerUpType.POWER_SHOT)) {
-      weaponText = "Power Laser";
-      weaponColor = "#ff00ff";
+    // Equipped gun and its level, with the others held listed above
+    const primary = weaponSystem.getPrimaryWeapon();
+    const primaryConfig = PRIMARY_WEAPONS[primary];
+    const owned = weaponSystem.getOwnedPrimaries();
+    if (owned.length > 1) {
+      this.ctx.fillStyle = "#888888";
+      this.ctx.fillText(
+        `GUNS: ${owned
+          .map(
+            (weapon) =>
+              `${PRIMARY_WEAPONS[weapon].name} ${weaponSystem.getPrimaryLevel(
+                weapon
+              )}`
+          )
+          .join(" / ")}`,
+        x,
+        y - 16
+      );
     }
 
-    this.ctx.fillStyle = weaponColor;
-    this.ctx.fillText(`WEAPON: ${weaponText}`, x, y);
+    this.ctx.fillStyle = primaryConfig.color;
+    this.ctx.fillText(
+      `WEAPON: ${primaryConfig.name} Lv${weaponSystem.getPrimaryLevel()}`,
+      x,
+      y
+    );
+
+    // Selected secondary weapon and its ammo
+    const secondary = weaponSystem.getSecondaryWeapon();
+    if (secondary) {
+      const secondaryConfig = SECONDARY_WEAPONS[secondary];
+      this.ctx.fillStyle = secondaryConfig.color;
+      this.ctx.fillText(
+        `${secondaryConfig.name.toUpperCase()} Lv${weaponSystem.getSecondaryLevel()}: ${weaponSystem.getSecondaryAmmo()}`,
+        x,
+        y + 16
+      );
+    }
 
-    // Homing missiles count
-    const homingCount = weaponSystem.getHomingMissileCount();
-    if (homingCount > 0) {
-      this.ctx.fillStyle = "#ff9900";
-      this.ctx.fillText(`MISSILES: ${homingCount}`, x, y + 16);
+    // The laser's energy meter, once the laser has been picked up
+    if (weaponSystem.getPrimaryLevel(PrimaryWeapon.LASER) > 0) {
+      const barWidth = 120;
+      const barX = align === "right" ? x - barWidth : x;
+      const energy = weaponSystem.getBeamEnergy();
+      const overheated = weaponSystem.isOverheated();
+
+      this.ctx.fillStyle = "rgba(255, 255, 255, 0.2)";
+      this.ctx.fillRect(barX, y + 22, barWidth, 6);
+      this.ctx.fillStyle = overheated
+        ? "#ff0000"
+        : PRIMARY_WEAPONS[PrimaryWeapon.LASER].color;
+      this.ctx.fillRect(barX, y + 22, barWidth * energy, 6);
+      if (overheated) {
+        this.ctx.font = "bold 10px Arial";
+        this.ctx.fillText(
+          "OVERHEATED",
+          align === "right" ? barX - 6 : barX + barWidth + 6,
+          y + 29
+        );
+      }
     }
 
     this.ctx.restore();
@@ -1,17 +1,23 @@
 import type {LeaderboardEntry} from "../systems/LeaderboardManager";
+import {formatSplit} from "../systems/BossRush";
 
 export class LeaderboardUI {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private scores: LeaderboardEntry[] = [];
+  private title: string = "LEADERBOARD";
 
   constructor(canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) {
     this.canvas = canvas;
     this.ctx = ctx;
   }
 
-  public setScores(scores: LeaderboardEntry[]): void {
+  public setScores(
+    scores: LeaderboardEntry[],
+    title: string = "LEADERBOARD"
+  ): void {
     this.scores = scores;
+    this.title = title;
   }
 
   public render(): void {
@@ -22,7 +28,7 @@ export class LeaderboardUI {
     this.ctx.fillStyle = "#ffffff";
     this.ctx.font = "48px Arial";
     this.ctx.textAlign = "center";
-    this.ctx.fillText("LEADERBOARD", centerX, 80);
+    this.ctx.fillText(this.title, centerX, 80);
 
     // Header
     this.ctx.font = "24px Arial";
@@ -69,9 +75,13 @@ export class LeaderboardUI {
       this.ctx.textAlign = "right";
       this.ctx.fillText(score.score.toLocaleString(), centerX + 50, y);
 
-      // Date
+      // Date, or the split times of a boss rush
       this.ctx.textAlign = "left";
-      this.ctx.fillText(score.date, centerX + 100, y);
+      this.ctx.fillText(
+        score.splits ? score.splits.map(formatSplit).join("  ") : score.date,
+        centerX + 100,
+        y
+      );
     }
 
     // No scores message
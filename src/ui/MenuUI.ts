@@ -37,6 +37,22 @@ export class MenuUI {
     }
   }
 
+  // Index of the item drawn at a canvas position (for touch), or -1
+  getItemIndexAt(position: {x: number; y: number}): number {
+    const centerY = this.canvas.height / 2;
+    return this.items.findIndex((_item, index) => {
+      const y = centerY + index * 60 - 20;
+      return Math.abs(position.y - (y - 8)) < 30;
+    });
+  }
+
+  selectIndex(index: number): void {
+    if (this.items[index]) {
+      this.selectedIndex = index;
+      this.selectCurrentItem();
+    }
+  }
+
   render(ctx: CanvasRenderingContext2D): void {
     const centerX = this.canvas.width / 2;
     const centerY = this.canvas.height / 2;
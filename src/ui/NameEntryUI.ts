@@ -1,4 +1,16 @@
 export class NameEntryUI {
+  // Buttons used to pick letters when entering a name with a gamepad
+  static readonly GAMEPAD_BUTTONS = [
+    "GamepadUp",
+    "GamepadDown",
+    "GamepadRight",
+    "GamepadA",
+    "GamepadLeft",
+    "GamepadB",
+    "GamepadStart",
+  ];
+  private static readonly LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 ";
+
   private canvas: HTMLCanvasElement;
   private playerName: string = "";
   private score: number = 0;
@@ -7,6 +19,7 @@ export class NameEntryUI {
   private onCancel: () => void = () => {};
   private cursorVisible: boolean = true;
   private cursorTimer: number = 0;
+  private letterIndex: number = -1; // Letter picked with the D-pad, -1 until used
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -23,6 +36,7 @@ export class NameEntryUI {
     this.onSubmit = onSubmit;
     this.onCancel = onCancel;
     this.playerName = "";
+    this.letterIndex = -1;
     this.cursorTimer = 0;
     this.cursorVisible = true;
   }
@@ -47,6 +61,44 @@ export class NameEntryUI {
     return false;
   }
 
+  // D-pad up/down picks a letter, right/A adds it, left/B deletes, START submits
+  handleGamepadButton(button: string): boolean {
+    const letters = NameEntryUI.LETTERS;
+    switch (button) {
+      case "GamepadUp":
+        this.letterIndex = (this.letterIndex + 1) % letters.length;
+        return false;
+      case "GamepadDown":
+        this.letterIndex =
+          this.letterIndex <= 0 ? letters.length - 1 : this.letterIndex - 1;
+        return false;
+      case "GamepadRight":
+      case "GamepadA":
+        if (this.letterIndex >= 0) {
+          this.handleInput(letters[this.letterIndex]);
+        }
+        return false;
+      case "GamepadLeft":
+      case "GamepadB":
+        return this.handleInput("Backspace");
+      case "GamepadStart":
+        return this.handleInput("Enter");
+    }
+    return false;
+  }
+
+  // Touch devices have no reliable keyboard events, so ask with a native prompt
+  promptForName(): void {
+    const name = window.prompt("Enter your name:", this.playerName);
+    if (name === null) return;
+
+    this.playerName = "";
+    for (const char of name) {
+      this.handleInput(char);
+    }
+    this.handleInput("Enter");
+  }
+
   update(deltaTime: number): void {
     this.cursorTimer += deltaTime;
     if (this.cursorTimer >= 500) {
@@ -97,13 +149,31 @@ export class NameEntryUI {
     ctx.fillStyle = "#ffffff";
     ctx.font = "18px Arial";
     ctx.textAlign = "left";
-    const nameText = this.playerName + (this.cursorVisible ? "|" : "");
-    ctx.fillText(nameText, boxX + 10, boxY + 25);
+    if (this.letterIndex >= 0) {
+      // Show the letter being picked in place of the cursor
+      ctx.fillText(this.playerName, boxX + 10, boxY + 25);
+      const nameWidth = ctx.measureText(this.playerName).width;
+      ctx.fillStyle = this.cursorVisible ? "#ffff00" : "#888800";
+      const letter = NameEntryUI.LETTERS[this.letterIndex];
+      ctx.fillText(
+        letter === " " ? "_" : letter,
+        boxX + 10 + nameWidth,
+        boxY + 25
+      );
+    } else {
+      const nameText = this.playerName + (this.cursorVisible ? "|" : "");
+      ctx.fillText(nameText, boxX + 10, boxY + 25);
+    }
 
     // Instructions
     ctx.fillStyle = "#888888";
     ctx.font = "16px Arial";
     ctx.textAlign = "center";
     ctx.fillText("ENTER to submit, ESC to skip", centerX, centerY + 120);
+    ctx.fillText(
+      "Gamepad: D-pad to pick letters, A to add, B to delete, START to submit",
+      centerX,
+      centerY + 145
+    );
   }
 }
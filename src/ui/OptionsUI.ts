@@ -1,33 +1,61 @@
 import type {MusicManager} from "../audio/MusicManager";
 import type {SoundManager} from "../audio/SoundManager";
 import type {DifficultyManager} from "../systems/DifficultyManager";
+import type {ControlBindings} from "../systems/ControlBindings";
+import type {MultiplayerSettings} from "../systems/MultiplayerSettings";
+import type {TouchControls} from "./TouchControls";
+import {ACTION_LABELS, GameAction, formatKey} from "../systems/ControlBindings";
 
 export interface OptionsMenuItem {
   label: string;
-  type: "toggle" | "slider" | "action" | "cycle";
+  type: "toggle" | "slider" | "action" | "cycle" | "binding";
   getValue?: () => string;
   action?: () => void;
 }
 
+type OptionsPage = "main" | "controls";
+
 export class OptionsUI {
   private canvas: HTMLCanvasElement;
   private menuItems: OptionsMenuItem[] = [];
+  private controlItems: OptionsMenuItem[] = [];
+  private page: OptionsPage = "main";
   private selectedIndex: number = 0;
+  private mainSelectedIndex: number = 0;
+  private listeningAction: GameAction | null = null;
+  private statusMessage: string = "";
+  private statusIsError: boolean = false;
   private musicManager: MusicManager;
   private soundManager: SoundManager;
   private difficultyManager: DifficultyManager;
+  private controlBindings: ControlBindings;
+  private playerTwoBindings: ControlBindings;
+  private editingBindings: ControlBindings; // Shown on the controls page
+  private multiplayerSettings: MultiplayerSettings;
+  private touchControls: TouchControls;
+  private onClose: () => void = () => {};
 
   constructor(
     canvas: HTMLCanvasElement,
     musicManager: MusicManager,
     soundManager: SoundManager,
-    difficultyManager: DifficultyManager
+    difficultyManager: DifficultyManager,
+    controlBindings: ControlBindings,
+    playerTwoBindings: ControlBindings,
+    multiplayerSettings: MultiplayerSettings,
+    touchControls: TouchControls
   ) {
     this.canvas = canvas;
     this.musicManager = musicManager;
     this.soundManager = soundManager;
     this.difficultyManager = difficultyManager;
+    this.controlBindings = controlBindings;
+    this.playerTwoBindings = playerTwoBindings;
+    this.editingBindings = controlBindings;
+    this.multiplayerSettings = multiplayerSettings;
+    this.touchControls = touchControls;
     this.setupMenuItems();
+    this.setupControlItems();
   }
 
   private setupMenuItems(): void {
@@ -84,30 +112,183 @@ export class OptionsUI {
           this.soundManager.setMasterVolume(newVolume);
         },
       },
+      {
+        label: "Touch Controls",
+        type: "toggle",
+        getValue: () => (this.touchControls.isEnabled() ? "ON" : "OFF"),
+        action: () => {
+          this.touchControls.setEnabled(!this.touchControls.isEnabled());
+        },
+      },
+      {
+        label: "Friendly Fire (Co-op)",
+        type: "toggle",
+        getValue: () =>
+          this.multiplayerSettings.isFriendlyFireEnabled() ? "ON" : "OFF",
+        action: () => {
+          this.multiplayerSettings.setFriendlyFire(
+            !this.multiplayerSettings.isFriendlyFireEnabled()
+          );
+        },
+      },
+      {
+        label: "Controls",
+        type: "action",
+        action: () => this.openControls(this.controlBindings),
+      },
+      {
+        label: "Player 2 Controls",
+        type: "action",
+        action: () => this.openControls(this.playerTwoBindings),
+      },
+      {
+        label: "Back",
+        type: "action",
+        action: () => this.onClose(),
+      },
     ];
   }
 
+  // Called when "Back" is chosen on the main options page
+  public setOnClose(onClose: () => void): void {
+    this.onClose = onClose;
+  }
+
+  private setupControlItems(): void {
+    this.controlItems = Object.values(GameAction).map((action) => ({
+      label: ACTION_LABELS[action],
+      type: "binding" as const,
+      getValue: () =>
+        this.editingBindings.getKeys(action).map(formatKey).join(" / "),
+      action: () => {
+        this.listeningAction = action;
+        this.setStatus("");
+      },
+    }));
+    this.controlItems.push(
+      {
+        label: "Reset to Defaults",
+        type: "action",
+        action: () => {
+          this.editingBindings.resetToDefaults();
+          this.setStatus("Controls reset to defaults");
+        },
+      },
+      {
+        label: "Back",
+        type: "action",
+        action: () => this.back(),
+      }
+    );
+  }
+
+  private get currentItems(): OptionsMenuItem[] {
+    return this.page === "controls" ? this.controlItems : this.menuItems;
+  }
+
+  private openControls(bindings: ControlBindings): void {
+    this.editingBindings = bindings;
+    this.mainSelectedIndex = this.selectedIndex;
+    this.page = "controls";
+    this.selectedIndex = 0;
+    this.setStatus("");
+  }
+
+  private setStatus(message: string, isError: boolean = false): void {
+    this.statusMessage = message;
+    this.statusIsError = isError;
+  }
+
+  // Leave the controls page; returns false when already on the main page
+  public back(): boolean {
+    if (this.page === "main") return false;
+
+    this.page = "main";
+    this.selectedIndex = this.mainSelectedIndex;
+    this.listeningAction = null;
+    this.setStatus("");
+    return true;
+  }
+
+  public isListeningForKey(): boolean {
+    return this.listeningAction !== null;
+  }
+
+  // Bind the key pressed while listening, or cancel with Escape
+  public handleBindingKey(key: string): void {
+    const action = this.listeningAction;
+    if (!action) return;
+    this.listeningAction = null;
+
+    if (key === "Escape") {
+      this.setStatus("");
+      return;
+    }
+
+    const conflict = this.editingBindings.findConflict(action, key);
+    if (conflict) {
+      this.setStatus(
+        `${formatKey(key)} is already bound to ${ACTION_LABELS[conflict]}`,
+        true
+      );
+      return;
+    }
+
+    this.editingBindings.rebind(action, key);
+    this.setStatus(`${ACTION_LABELS[action]} bound to ${formatKey(key)}`);
+  }
+
   public moveUp(): void {
     this.selectedIndex =
       this.selectedIndex > 0
         ? this.selectedIndex - 1
-        : this.menuItems.length - 1;
+        : this.currentItems.length - 1;
   }
 
   public moveDown(): void {
-    this.selectedIndex = (this.selectedIndex + 1) % this.menuItems.length;
+    this.selectedIndex = (this.selectedIndex + 1) % this.currentItems.length;
   }
 
   public selectCurrentItem(): void {
-    const item = this.menuItems[this.selectedIndex];
+    const item = this.currentItems[this.selectedIndex];
     if (item.action) {
       item.action();
     }
   }
 
+  // Baseline of an item's text on the current page
+  private getItemY(index: number): number {
+    if (this.page === "controls") {
+      return this.canvas.height / 2 - 150 + index * 40;
+    }
+    return this.canvas.height / 2 - 130 + index * 40;
+  }
+
+  // Select and activate the item at a canvas position (for touch)
+  public tapAt(position: {x: number; y: number}): void {
+    if (this.listeningAction) {
+      // Touch can't supply a key, so a tap cancels listening
+      this.handleBindingKey("Escape");
+      return;
+    }
+
+    const index = this.currentItems.findIndex(
+      (_item, i) => Math.abs(position.y - (this.getItemY(i) - 8)) < 20
+    );
+    if (index !== -1) {
+      this.selectedIndex = index;
+      this.selectCurrentItem();
+    }
+  }
+
   public render(ctx: CanvasRenderingContext2D): void {
+    if (this.page === "controls") {
+      this.renderControls(ctx);
+      return;
+    }
+
     const centerX = this.canvas.width / 2;
-    const startY = this.canvas.height / 2 - 150;
+    const startY = this.canvas.height / 2 - 200;
 
     // Title
     ctx.fillStyle = "#ffffff";
@@ -118,7 +299,7 @@ export class OptionsUI {
     // Menu items
     ctx.font = "24px Arial";
     for (let i = 0; i < this.menuItems.length; i++) {
-      const y = startY + 100 + i * 60;
+      const y = this.getItemY(i);
       const item = this.menuItems[i];
 
       // Highlight selected item
@@ -178,7 +359,7 @@ export class OptionsUI {
       ctx.fillText(
         description,
         centerX,
-        startY + 100 + this.menuItems.length * 60 + 20
+        this.getItemY(this.menuItems.length) - 25
       );
     }
 
@@ -202,4 +383,84 @@ export class OptionsUI {
       this.canvas.height - 50
     );
   }
+
+  private renderControls(ctx: CanvasRenderingContext2D): void {
+    const centerX = this.canvas.width / 2;
+    const startY = this.canvas.height / 2 - 220;
+
+    // Title
+    ctx.fillStyle = "#ffffff";
+    ctx.font = "48px Arial";
+    ctx.textAlign = "center";
+    const title =
+      this.editingBindings === this.playerTwoBindings
+        ? "PLAYER 2 CONTROLS"
+        : "CONTROLS";
+    ctx.fillText(title, centerX, startY);
+
+    // Bindings
+    ctx.font = "22px Arial";
+    for (let i = 0; i < this.controlItems.length; i++) {
+      const y = this.getItemY(i);
+      const item = this.controlItems[i];
+      const selected = i === this.selectedIndex;
+
+      if (selected) {
+        ctx.fillStyle = "#ffff00";
+        ctx.textAlign = "center";
+        ctx.fillText("►", centerX - 220, y);
+      }
+
+      ctx.fillStyle = selected ? "#ffff00" : "#ffffff";
+      ctx.textAlign = "left";
+      ctx.fillText(item.label, centerX - 200, y);
+
+      if (item.getValue) {
+        ctx.textAlign = "right";
+        if (selected && this.listeningAction) {
+          ctx.fillStyle = "#00ffff";
+          ctx.fillText("Press a key...", centerX + 220, y);
+        } else {
+          ctx.fillStyle = selected ? "#ffff00" : "#cccccc";
+          ctx.fillText(item.getValue(), centerX + 220, y);
+        }
+      }
+    }
+
+    // Result of the last rebind (conflicts in red)
+    if (this.statusMessage) {
+      ctx.fillStyle = this.statusIsError ? "#ff4444" : "#00ff00";
+      ctx.font = "18px Arial";
+      ctx.textAlign = "center";
+      ctx.fillText(
+        this.statusMessage,
+        centerX,
+        this.getItemY(this.controlItems.length) + 10
+      );
+    }
+
+    // Instructions
+    ctx.fillStyle = "#666666";
+    ctx.font = "18px Arial";
+    ctx.textAlign = "center";
+    if (this.editingBindings === this.playerTwoBindings) {
+      ctx.fillText(
+        "In co-op, keys bound here are ignored for player 1",
+        centerX,
+        this.canvas.height - 25
+      );
+    }
+    ctx.fillText(
+      this.listeningAction
+        ? "Press the new key, or ESC to cancel"
+        : "Press ENTER, then a key to rebind an action",
+      centerX,
+      this.canvas.height - 75
+    );
+    ctx.fillText(
+      "Press ESC to return to options",
+      centerX,
+      this.canvas.height - 50
+    );
+  }
 }
@@ -0,0 +1,298 @@
+import type {AnalogInput} from "../core/GameTypes";
+import {NO_ANALOG_INPUT} from "../core/GameTypes";
+import type {Vector2} from "../utils/Vector2";
+
+interface TouchButton {
+  code: string;
+  label: string;
+  color: string;
+  radius: number;
+  // Center for the current canvas size
+  getCenter(width: number, height: number): Vector2;
+}
+
+// On-screen joystick and buttons for phones and tablets.
+// Buttons report "Touch*" key codes through InputManager like any other key.
+export class TouchControls {
+  private static readonly STORAGE_KEY = "asteroids_touch_controls";
+  private static readonly JOYSTICK_RADIUS = 60;
+
+  private canvas: HTMLCanvasElement;
+  private enabled: boolean;
+  private gameplayActive: boolean = false;
+
+  private joystickTouchId: number | null = null;
+  private joystickBase: Vector2 = {x: 0, y: 0};
+  private joystickKnob: Vector2 = {x: 0, y: 0};
+  private buttonTouches: Map<number, string> = new Map();
+  private taps: Vector2[] = [];
+
+  private readonly buttons: TouchButton[] = [
+    {
+      code: "TouchFire",
+      label: "FIRE",
+      color: "#ff4444",
+      radius: 45,
+      getCenter: (width, height) => ({x: width - 90, y: height - 110}),
+    },
+    {
+      code: "TouchMissile",
+      label: "MSL",
+      color: "#ff8800",
+      radius: 32,
+      getCenter: (width, height) => ({x: width - 200, y: height - 70}),
+    },
+    {
+      code: "TouchCycle",
+      label: "WPN",
+      color: "#ffaa33",
+      radius: 28,
+      getCenter: (width, height) => ({x: width - 200, y: height - 170}),
+    },
+    {
+      code: "TouchShield",
+      label: "SHLD",
+      color: "#00ffff",
+      radius: 32,
+      getCenter: (width, height) => ({x: width - 70, y: height - 220}),
+    },
+    {
+      code: "TouchPause",
+      label: "II",
+      color: "#ffffff",
+      radius: 22,
+      getCenter: () => ({x: 40, y: 110}),
+    },
+  ];
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.enabled = this.loadFromStorage() ?? TouchControls.isTouchDevice();
+
+    // Stop the browser from scrolling or zooming while playing
+    this.canvas.style.touchAction = "none";
+    const options = {passive: false};
+    canvas.addEventListener("touchstart", (e) => this.onTouchStart(e), options);
+    canvas.addEventListener("touchmove", (e) => this.onTouchMove(e), options);
+    canvas.addEventListener("touchend", (e) => this.onTouchEnd(e), options);
+    canvas.addEventListener("touchcancel", (e) => this.onTouchEnd(e), options);
+  }
+
+  static isTouchDevice(): boolean {
+    return "ontouchstart" in window || navigator.maxTouchPoints > 0;
+  }
+
+  private loadFromStorage(): boolean | null {
+    try {
+      const stored = localStorage.getItem(TouchControls.STORAGE_KEY);
+      return stored === null ? null : stored === "true";
+    } catch (error) {
+      console.warn("Failed to load touch controls setting:", error);
+      return null;
+    }
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(TouchControls.STORAGE_KEY, String(this.enabled));
+    } catch (error) {
+      console.warn("Failed to save touch controls setting:", error);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.releaseAll();
+    this.saveToStorage();
+  }
+
+  // While playing, touches drive the joystick and buttons; otherwise they are taps
+  setGameplayActive(active: boolean): void {
+    if (active === this.gameplayActive) return;
+    this.gameplayActive = active;
+    this.releaseAll();
+  }
+
+  private get controlsActive(): boolean {
+    return this.enabled && this.gameplayActive;
+  }
+
+  private releaseAll(): void {
+    this.joystickTouchId = null;
+    this.buttonTouches.clear();
+  }
+
+  private toCanvasPosition(touch: Touch): Vector2 {
+    const rect = this.canvas.getBoundingClientRect();
+    return {
+      x: ((touch.clientX - rect.left) / rect.width) * this.canvas.width,
+      y: ((touch.clientY - rect.top) / rect.height) * this.canvas.height,
+    };
+  }
+
+  private getButtonAt(position: Vector2): TouchButton | null {
+    for (const button of this.buttons) {
+      const center = button.getCenter(this.canvas.width, this.canvas.height);
+      const dx = position.x - center.x;
+      const dy = position.y - center.y;
+      // Slightly larger hit area than the drawn button
+      if (Math.sqrt(dx * dx + dy * dy) <= button.radius * 1.3) {
+        return button;
+      }
+    }
+    return null;
+  }
+
+  private onTouchStart(e: TouchEvent): void {
+    e.preventDefault();
+
+    for (const touch of Array.from(e.changedTouches)) {
+      const position = this.toCanvasPosition(touch);
+
+      if (!this.controlsActive) {
+        this.taps.push(position);
+        continue;
+      }
+
+      const button = this.getButtonAt(position);
+      if (button) {
+        this.buttonTouches.set(touch.identifier, button.code);
+      } else if (
+        this.joystickTouchId === null &&
+        position.x < this.canvas.width / 2
+      ) {
+        // The joystick appears wherever the left thumb lands
+        this.joystickTouchId = touch.identifier;
+        this.joystickBase = position;
+        this.joystickKnob = position;
+      }
+    }
+  }
+
+  private onTouchMove(e: TouchEvent): void {
+    e.preventDefault();
+    if (!this.controlsActive) return;
+
+    for (const touch of Array.from(e.changedTouches)) {
+      const position = this.toCanvasPosition(touch);
+
+      if (touch.identifier === this.joystickTouchId) {
+        this.joystickKnob = position;
+      } else if (this.buttonTouches.has(touch.identifier)) {
+        // Sliding a thumb between buttons switches to the new one
+        const button = this.getButtonAt(position);
+        if (button) {
+          this.buttonTouches.set(touch.identifier, button.code);
+        }
+      }
+    }
+  }
+
+  private onTouchEnd(e: TouchEvent): void {
+    e.preventDefault();
+
+    for (const touch of Array.from(e.changedTouches)) {
+      if (touch.identifier === this.joystickTouchId) {
+        this.joystickTouchId = null;
+      }
+      this.buttonTouches.delete(touch.identifier);
+    }
+  }
+
+  getHeldButtons(): string[] {
+    return [...new Set(this.buttonTouches.values())];
+  }
+
+  // Joystick as analog input; pushing it forward also thrusts
+  getAnalog(): AnalogInput {
+    if (this.joystickTouchId === null) return NO_ANALOG_INPUT;
+
+    const radius = TouchControls.JOYSTICK_RADIUS;
+    let x = (this.joystickKnob.x - this.joystickBase.x) / radius;
+    let y = (this.joystickKnob.y - this.joystickBase.y) / radius;
+    const magnitude = Math.sqrt(x * x + y * y);
+    if (magnitude > 1) {
+      x /= magnitude;
+      y /= magnitude;
+    }
+
+    const quantize = (value: number) => Math.round(value * 1000) / 1000;
+    return {
+      stickX: quantize(x),
+      stickY: quantize(y),
+      trigger: quantize(Math.max(0, -y)),
+    };
+  }
+
+  // Taps since the last call, in canvas coordinates
+  consumeTaps(): Vector2[] {
+    const taps = this.taps;
+    this.taps = [];
+    return taps;
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.controlsActive) return;
+
+    ctx.save();
+    ctx.lineWidth = 2;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+
+    // Joystick
+    if (this.joystickTouchId !== null) {
+      const radius = TouchControls.JOYSTICK_RADIUS;
+      const analog = this.getAnalog();
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.4)";
+      ctx.beginPath();
+      ctx.arc(this.joystickBase.x, this.joystickBase.y, radius, 0, Math.PI * 2);
+      ctx.stroke();
+
+      ctx.fillStyle = "rgba(255, 255, 255, 0.35)";
+      ctx.beginPath();
+      ctx.arc(
+        this.joystickBase.x + analog.stickX * radius,
+        this.joystickBase.y + analog.stickY * radius,
+        radius * 0.45,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    } else {
+      ctx.fillStyle = "rgba(255, 255, 255, 0.3)";
+      ctx.font = "14px Arial";
+      ctx.fillText(
+        "Touch and drag here to steer",
+        this.canvas.width / 4,
+        this.canvas.height - 110
+      );
+    }
+
+    // Buttons
+    const held = this.getHeldButtons();
+    for (const button of this.buttons) {
+      const center = button.getCenter(this.canvas.width, this.canvas.height);
+      const pressed = held.includes(button.code);
+
+      ctx.globalAlpha = pressed ? 0.7 : 0.35;
+      ctx.fillStyle = button.color;
+      ctx.beginPath();
+      ctx.arc(center.x, center.y, button.radius, 0, Math.PI * 2);
+      ctx.fill();
+
+      ctx.globalAlpha = 0.9;
+      ctx.strokeStyle = button.color;
+      ctx.stroke();
+
+      ctx.fillStyle = "#ffffff";
+      ctx.font = `bold ${Math.round(button.radius * 0.45)}px Arial`;
+      ctx.fillText(button.label, center.x, center.y);
+    }
+
+    ctx.restore();
+  }
+}
@@ -0,0 +1,69 @@
+import type {Player} from "../core/Player";
+import type {VersusMatch} from "../systems/VersusMatch";
+
+// End-of-match screen for versus: overall winner and a round-by-round breakdown
+export class VersusResultsUI {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+
+  constructor(canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) {
+    this.canvas = canvas;
+    this.ctx = ctx;
+  }
+
+  public render(match: VersusMatch, players: readonly Player[]): void {
+    const centerX = this.canvas.width / 2;
+    const startY = this.canvas.height / 2 - 60;
+    const winnerIndex = match.getMatchWinner();
+    const winner = winnerIndex !== null ? players[winnerIndex] : undefined;
+
+    // Title
+    this.ctx.textAlign = "center";
+    this.ctx.fillStyle = winner ? winner.color : "#ffffff";
+    this.ctx.font = "48px Arial";
+    this.ctx.fillText(
+      winner ? `${winner.label} WINS!` : "MATCH OVER",
+      centerX,
+      this.canvas.height / 2 - 150
+    );
+
+    // Rounds won by each player
+    this.ctx.font = "28px Arial";
+    this.ctx.fillStyle = "#ffffff";
+    const roundWins = match.getRoundWins();
+    this.ctx.fillText(
+      players
+        .map((player) => `${player.label} ${roundWins[player.index]}`)
+        .join("  -  "),
+      centerX,
+      this.canvas.height / 2 - 100
+    );
+
+    // Header
+    this.ctx.font = "20px Arial";
+    this.ctx.fillStyle = "#cccccc";
+    this.ctx.fillText("ROUND", centerX - 160, startY);
+    this.ctx.fillText("WINNER", centerX, startY);
+    this.ctx.fillText("KILLS", centerX + 160, startY);
+
+    this.ctx.strokeStyle = "#666666";
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(centerX - 220, startY + 10);
+    this.ctx.lineTo(centerX + 220, startY + 10);
+    this.ctx.stroke();
+
+    // One row per round played
+    match.getResults().forEach((result, i) => {
+      const y = startY + 40 + i * 30;
+      const roundWinner = players[result.winner];
+
+      this.ctx.fillStyle = "#ffffff";
+      this.ctx.fillText(`${result.round}`, centerX - 160, y);
+      this.ctx.fillStyle = roundWinner.color;
+      this.ctx.fillText(roundWinner.label, centerX, y);
+      this.ctx.fillStyle = "#ffffff";
+      this.ctx.fillText(result.kills.join(" - "), centerX + 160, y);
+    });
+  }
+}
@@ -0,0 +1,611 @@
+import type {InputSource} from "../core/GameTypes";
+import {GameState} from "../core/GameTypes";
+import {Asteroid, AsteroidSize} from "../entities/Asteroid";
+import {BossType} from "../entities/Boss";
+import {ENEMY_CONFIGS, EnemyType} from "../entities/Enemy";
+import {POWER_UP_CONFIGS, PowerUpType} from "../entities/PowerUp";
+import {HeadlessGame} from "../headless/HeadlessGame";
+import type {GridCell} from "../systems/WaveDraft";
+import {
+  GRID_COLUMNS,
+  GRID_ROWS,
+  WaveDraft,
+  positionToCell,
+} from "../systems/WaveDraft";
+import type {WaveScript} from "../systems/WaveScript";
+import {WaveFormation} from "../systems/WaveScript";
+import type {WaveScriptManager} from "../systems/WaveScriptManager";
+import type {Vector2} from "../utils/Vector2";
+
+type EditorTool = "asteroid" | "enemy" | "powerUp" | "boss" | "erase";
+
+const TOOLS: Array<{tool: EditorTool; label: string}> = [
+  {tool: "asteroid", label: "Asteroid"},
+  {tool: "enemy", label: "Enemies"},
+  {tool: "powerUp", label: "Power-up"},
+  {tool: "boss", label: "Boss"},
+  {tool: "erase", label: "Erase"},
+];
+
+const ASTEROID_SIZES = Object.values(AsteroidSize);
+const ENEMY_TYPES = Object.values(EnemyType);
+const POWER_UP_TYPES = Object.values(PowerUpType);
+const BOSS_TYPES = Object.values(BossType);
+const FORMATIONS = Object.values(WaveFormation);
+
+const MAX_ASTEROID_SPEED = 200; // Pixels per second
+const MIN_DRAG = 10; // Shorter drags place a still asteroid
+const BOSS_COLOR = "#ff00ff";
+
+// Step an index through a list, wrapping at either end
+function cycle(index: number, length: number, step: number): number {
+  return (index + step + length) % length;
+}
+
+/**
+ * WaveEditorUI - Lays out waves on a grid with the mouse and keyboard,
+ * previews the current wave in a sandboxed GameManager and exports the
+ * result as a wave file.
+ */
+export class WaveEditorUI {
+  private canvas: HTMLCanvasElement;
+  private scripts: WaveScriptManager;
+  private draft: WaveDraft | null = null;
+  private active: boolean = false;
+  private tool: EditorTool = "asteroid";
+
+  // Settings for the next thing placed, one per tool
+  private asteroidSize: number = 0;
+  private enemyType: number = 0;
+  private enemyCount: number = 3;
+  private enemyDelay: number = 500;
+  private enemyFormation: number = 0;
+  private powerUpType: number = 0;
+  private bossType: number = 0;
+
+  private mouse: Vector2 = {x: 0, y: 0};
+  private dragStart: Vector2 | null = null; // Asteroid being flung
+  private sandbox: HeadlessGame | null = null;
+  private statusMessage: string = "";
+  private statusIsError: boolean = false;
+  private onClose: () => void = () => {};
+  private onPlay: (script: WaveScript) => void = () => {};
+
+  constructor(canvas: HTMLCanvasElement, scripts: WaveScriptManager) {
+    this.canvas = canvas;
+    this.scripts = scripts;
+    this.setupMouseListeners();
+  }
+
+  private setupMouseListeners(): void {
+    this.canvas.addEventListener("mousedown", (e) => {
+      if (!this.active || this.sandbox) return;
+      const position = this.toCanvasPosition(e);
+      if (e.button === 2) {
+        this.getDraft().erase(this.getCell(position));
+      } else if (e.button === 0) {
+        this.dragStart = position;
+      }
+    });
+    this.canvas.addEventListener("mousemove", (e) => {
+      this.mouse = this.toCanvasPosition(e);
+    });
+    this.canvas.addEventListener("mouseup", (e) => {
+      if (!this.active || !this.dragStart || e.button !== 0) return;
+      const start = this.dragStart;
+      this.dragStart = null;
+      this.place(start, this.toCanvasPosition(e));
+    });
+    // Right-click erases instead of opening the browser menu
+    this.canvas.addEventListener("contextmenu", (e) => {
+      if (this.active) {
+        e.preventDefault();
+      }
+    });
+  }
+
+  // Mouse events are in CSS pixels, which may not match the canvas size
+  private toCanvasPosition(e: MouseEvent): Vector2 {
+    const rect = this.canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * this.canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * this.canvas.height,
+    };
+  }
+
+  private getCell(position: Vector2): GridCell {
+    return positionToCell({
+      x: Math.max(0, position.x / this.canvas.width),
+      y: Math.max(0, position.y / this.canvas.height),
+    });
+  }
+
+  private getDraft(): WaveDraft {
+    this.draft ??= new WaveDraft(this.scripts.loadDraft() ?? undefined);
+    return this.draft;
+  }
+
+  // Called when the editor is closed with ESC
+  public setOnClose(onClose: () => void): void {
+    this.onClose = onClose;
+  }
+
+  // Called with the finished script to play it in the normal game
+  public setOnPlay(onPlay: (script: WaveScript) => void): void {
+    this.onPlay = onPlay;
+  }
+
+  public open(): void {
+    this.active = true;
+    this.getDraft();
+    this.setStatus("");
+  }
+
+  public close(): void {
+    this.stopPreview();
+    this.active = false;
+    this.dragStart = null;
+    this.saveDraft();
+  }
+
+  private saveDraft(): void {
+    const script = this.validate();
+    if (script) {
+      this.scripts.saveDraft(script);
+    }
+  }
+
+  // The draft as a script, or null with the problem shown as the status
+  private validate(): WaveScript | null {
+    try {
+      return this.getDraft().toScript();
+    } catch (error) {
+      this.setStatus((error as Error).message, true);
+      return null;
+    }
+  }
+
+  private setStatus(message: string, isError: boolean = false): void {
+    this.statusMessage = message;
+    this.statusIsError = isError;
+  }
+
+  private place(start: Vector2, end: Vector2): void {
+    const draft = this.getDraft();
+    const cell = this.getCell(start);
+    switch (this.tool) {
+      case "asteroid": {
+        // The drag sets the asteroid's velocity
+        let velocity = {x: end.x - start.x, y: end.y - start.y};
+        const length = Math.hypot(velocity.x, velocity.y);
+        if (length < MIN_DRAG) {
+          velocity = {x: 0, y: 0};
+        } else if (length > MAX_ASTEROID_SPEED) {
+          const scale = MAX_ASTEROID_SPEED / length;
+          velocity = {x: velocity.x * scale, y: velocity.y * scale};
+        }
+        draft.placeAsteroid(cell, ASTEROID_SIZES[this.asteroidSize], velocity);
+        break;
+      }
+      case "enemy":
+        draft.placeEnemyGroup(cell, {
+          type: ENEMY_TYPES[this.enemyType],
+          count: this.enemyCount,
+          spawnDelay: this.enemyDelay,
+          formation: FORMATIONS[this.enemyFormation],
+        });
+        break;
+      case "powerUp":
+        draft.placePowerUp(cell, POWER_UP_TYPES[this.powerUpType]);
+        break;
+      case "boss":
+        draft.placeBoss(cell, BOSS_TYPES[this.bossType]);
+        break;
+      case "erase":
+        draft.erase(cell);
+        break;
+    }
+  }
+
+  public update(deltaTime: number, input: InputSource): void {
+    if (this.sandbox) {
+      this.updatePreview(deltaTime, input);
+      return;
+    }
+
+    const draft = this.getDraft();
+    TOOLS.forEach(({tool}, i) => {
+      if (input.isKeyPressed(`Digit${i + 1}`)) {
+        this.tool = tool;
+      }
+    });
+
+    if (input.isKeyPressed("KeyQ")) this.cycleVariant(-1);
+    if (input.isKeyPressed("KeyE")) this.cycleVariant(1);
+
+    // Enemy group settings
+    if (input.isKeyPressed("ArrowUp")) {
+      this.enemyCount = Math.min(10, this.enemyCount + 1);
+    }
+    if (input.isKeyPressed("ArrowDown")) {
+      this.enemyCount = Math.max(1, this.enemyCount - 1);
+    }
+    if (input.isKeyPressed("ArrowRight")) {
+      this.enemyDelay = Math.min(5000, this.enemyDelay + 100);
+    }
+    if (input.isKeyPressed("ArrowLeft")) {
+      this.enemyDelay = Math.max(0, this.enemyDelay - 100);
+    }
+    if (input.isKeyPressed("KeyF")) {
+      this.enemyFormation = cycle(this.enemyFormation, FORMATIONS.length, 1);
+    }
+
+    // Waves
+    if (input.isKeyPressed("PageUp") || input.isKeyPressed("BracketLeft")) {
+      draft.selectWave(draft.getWaveNumber() - 1);
+    }
+    if (input.isKeyPressed("PageDown") || input.isKeyPressed("BracketRight")) {
+      draft.selectWave(draft.getWaveNumber() + 1);
+    }
+    if (input.isKeyPressed("KeyN")) {
+      draft.addWave();
+    }
+    if (input.isKeyPressed("Delete")) {
+      draft.removeWave();
+    }
+    if (input.isKeyPressed("KeyC")) {
+      draft.clearWave();
+    }
+
+    if (input.isKeyPressed("KeyT")) {
+      this.startPreview(input);
+    } else if (input.isKeyPressed("KeyP")) {
+      this.play();
+    } else if (input.isKeyPressed("KeyX")) {
+      this.exportFile();
+    } else if (input.isKeyPressed("KeyI")) {
+      this.importFile();
+    } else if (input.isKeyPressed("Escape")) {
+      this.close();
+      this.onClose();
+    }
+  }
+
+  private cycleVariant(step: number): void {
+    switch (this.tool) {
+      case "asteroid":
+        this.asteroidSize = cycle(
+          this.asteroidSize,
+          ASTEROID_SIZES.length,
+          step
+        );
+        break;
+      case "enemy":
+        this.enemyType = cycle(this.enemyType, ENEMY_TYPES.length, step);
+        break;
+      case "powerUp":
+        this.powerUpType = cycle(this.powerUpType, POWER_UP_TYPES.length, step);
+        break;
+      case "boss":
+        this.bossType = cycle(this.bossType, BOSS_TYPES.length, step);
+        break;
+    }
+  }
+
+  private play(): void {
+    const script = this.validate();
+    if (!script) return;
+    this.scripts.saveDraft(script);
+    this.active = false;
+    this.onPlay(script);
+  }
+
+  private exportFile(): void {
+    const script = this.validate();
+    if (!script) return;
+    this.scripts.exportFile(script);
+    this.setStatus("Exported asteroids-waves.json");
+  }
+
+  private importFile(): void {
+    this.scripts
+      .openFile()
+      .then((script) => {
+        this.draft = new WaveDraft(script);
+        this.setStatus(`Loaded ${script.waves.length} waves`);
+      })
+      .catch((error: Error) => this.setStatus(error.message, true));
+  }
+
+  // Run the current wave alone in a GameManager of its own, played live
+  private startPreview(input: InputSource): void {
+    let script: WaveScript;
+    try {
+      script = this.getDraft().toPreviewScript();
+    } catch (error) {
+      this.setStatus((error as Error).message, true);
+      return;
+    }
+
+    const sandbox = new HeadlessGame({
+      width: this.canvas.width,
+      height: this.canvas.height,
+      playerInputs: [input],
+    });
+    sandbox.gameManager.setWaveScript(script);
+    sandbox.start();
+    this.sandbox = sandbox;
+    this.setStatus("");
+  }
+
+  private stopPreview(): void {
+    this.sandbox = null;
+  }
+
+  private updatePreview(deltaTime: number, input: InputSource): void {
+    const sandbox = this.sandbox;
+    if (!sandbox) return;
+
+    if (input.isKeyPressed("KeyT") || input.isKeyPressed("Escape")) {
+      this.stopPreview();
+      return;
+    }
+
+    sandbox.step(deltaTime);
+    if (sandbox.state === GameState.GAME_OVER) {
+      this.stopPreview();
+      this.setStatus(
+        `Preview over on wave ${sandbox.gameManager.currentWave} with ${sandbox.score} points`
+      );
+    }
+  }
+
+  public render(ctx: CanvasRenderingContext2D): void {
+    if (this.sandbox) {
+      this.renderPreview(ctx, this.sandbox);
+      return;
+    }
+
+    this.renderGrid(ctx);
+    this.renderWave(ctx);
+    if (this.dragStart && this.tool === "asteroid") {
+      this.renderArrow(ctx, this.dragStart, this.mouse, "#888888");
+    }
+    this.renderPanel(ctx);
+  }
+
+  private renderPreview(
+    ctx: CanvasRenderingContext2D,
+    sandbox: HeadlessGame
+  ): void {
+    sandbox.gameManager.render(ctx);
+
+    ctx.save();
+    ctx.fillStyle = "#00ffff";
+    ctx.font = "bold 18px Arial";
+    ctx.textAlign = "left";
+    ctx.fillText(
+      `PREVIEW  Wave ${sandbox.gameManager.currentWave}  Score ${sandbox.score}  Lives ${sandbox.lives}`,
+      20,
+      30
+    );
+    ctx.textAlign = "center";
+    ctx.fillStyle = "#888888";
+    ctx.fillText(
+      "Press T or ESC to stop the preview",
+      this.canvas.width / 2,
+      this.canvas.height - 20
+    );
+    ctx.restore();
+  }
+
+  private renderGrid(ctx: CanvasRenderingContext2D): void {
+    const cellWidth = this.canvas.width / GRID_COLUMNS;
+    const cellHeight = this.canvas.height / GRID_ROWS;
+
+    ctx.save();
+    const hovered = this.getCell(this.mouse);
+    ctx.fillStyle = "rgba(255, 255, 255, 0.08)";
+    ctx.fillRect(
+      hovered.column * cellWidth,
+      hovered.row * cellHeight,
+      cellWidth,
+      cellHeight
+    );
+
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.12)";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let column = 1; column < GRID_COLUMNS; column++) {
+      ctx.moveTo(column * cellWidth, 0);
+      ctx.lineTo(column * cellWidth, this.canvas.height);
+    }
+    for (let row = 1; row < GRID_ROWS; row++) {
+      ctx.moveTo(0, row * cellHeight);
+      ctx.lineTo(this.canvas.width, row * cellHeight);
+    }
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  private toScreen(position: Vector2): Vector2 {
+    return {
+      x: position.x * this.canvas.width,
+      y: position.y * this.canvas.height,
+    };
+  }
+
+  private renderWave(ctx: CanvasRenderingContext2D): void {
+    const wave = this.getDraft().getWave();
+
+    ctx.save();
+    ctx.textAlign = "center";
+    ctx.lineWidth = 2;
+
+    for (const asteroid of wave.placedAsteroids) {
+      const center = this.toScreen(asteroid.position);
+      ctx.strokeStyle = "#ffffff";
+      ctx.beginPath();
+      ctx.arc(
+        center.x,
+        center.y,
+        Asteroid.getRadiusForSize(asteroid.size),
+        0,
+        Math.PI * 2
+      );
+      ctx.stroke();
+      if (asteroid.velocity.x !== 0 || asteroid.velocity.y !== 0) {
+        this.renderArrow(
+          ctx,
+          center,
+          {
+            x: center.x + asteroid.velocity.x,
+            y: center.y + asteroid.velocity.y,
+          },
+          "#aaaaaa"
+        );
+      }
+    }
+
+    // Groups are numbered in the order they spawn
+    wave.enemies.forEach((group, i) => {
+      if (!group.position) return;
+      const center = this.toScreen(group.position);
+      const config = ENEMY_CONFIGS[group.type];
+      ctx.fillStyle = config.color;
+      ctx.beginPath();
+      ctx.moveTo(center.x, center.y - config.size);
+      ctx.lineTo(center.x + config.size, center.y + config.size);
+      ctx.lineTo(center.x - config.size, center.y + config.size);
+      ctx.closePath();
+      ctx.fill();
+
+      ctx.font = "12px Arial";
+      ctx.fillText(
+        `#${i + 1} ${group.type} x${group.count}`,
+        center.x,
+        center.y + config.size + 16
+      );
+      ctx.fillStyle = "#aaaaaa";
+      ctx.fillText(
+        `${group.spawnDelay}ms ${group.formation ?? WaveFormation.SCATTERED}`,
+        center.x,
+        center.y + config.size + 30
+      );
+    });
+
+    for (const powerUp of wave.powerUps) {
+      const center = this.toScreen(powerUp.position);
+      const config = POWER_UP_CONFIGS[powerUp.type];
+      ctx.strokeStyle = config.color;
+      ctx.beginPath();
+      ctx.arc(center.x, center.y, 14, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.fillStyle = config.color;
+      ctx.font = "bold 14px Arial";
+      ctx.fillText(config.symbol, center.x, center.y + 5);
+    }
+
+    if (wave.boss) {
+      const center = this.toScreen(wave.bossPosition ?? {x: 0.5, y: 0.5});
+      ctx.strokeStyle = BOSS_COLOR;
+      ctx.lineWidth = 3;
+      ctx.strokeRect(center.x - 40, center.y - 40, 80, 80);
+      ctx.fillStyle = BOSS_COLOR;
+      ctx.font = "bold 14px Arial";
+      ctx.fillText(`BOSS: ${wave.boss}`, center.x, center.y + 5);
+    }
+    ctx.restore();
+  }
+
+  private renderArrow(
+    ctx: CanvasRenderingContext2D,
+    from: Vector2,
+    to: Vector2,
+    color: string
+  ): void {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.lineTo(
+      to.x - 8 * Math.cos(angle - Math.PI / 6),
+      to.y - 8 * Math.sin(angle - Math.PI / 6)
+    );
+    ctx.moveTo(to.x, to.y);
+    ctx.lineTo(
+      to.x - 8 * Math.cos(angle + Math.PI / 6),
+      to.y - 8 * Math.sin(angle + Math.PI / 6)
+    );
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  private getSettingsText(): string {
+    switch (this.tool) {
+      case "asteroid":
+        return `Size: ${
+          ASTEROID_SIZES[this.asteroidSize]
+        } (drag to set velocity)`;
+      case "enemy":
+        return `${ENEMY_TYPES[this.enemyType]} x${this.enemyCount}, ${
+          this.enemyDelay
+        }ms apart, ${FORMATIONS[this.enemyFormation]}`;
+      case "powerUp":
+        return POWER_UP_CONFIGS[POWER_UP_TYPES[this.powerUpType]].name;
+      case "boss":
+        return `Boss: ${BOSS_TYPES[this.bossType]}`;
+      case "erase":
+        return "Click a cell to clear it";
+    }
+  }
+
+  private renderPanel(ctx: CanvasRenderingContext2D): void {
+    const draft = this.getDraft();
+
+    ctx.save();
+    ctx.textAlign = "left";
+    ctx.fillStyle = "#ffffff";
+    ctx.font = "bold 22px Arial";
+    ctx.fillText(
+      `WAVE EDITOR - Wave ${draft.getWaveNumber()} of ${draft.getWaveCount()}`,
+      20,
+      34
+    );
+
+    // Tool list
+    ctx.font = "16px Arial";
+    let x = 20;
+    TOOLS.forEach(({tool, label}, i) => {
+      const text = `${i + 1} ${label}`;
+      ctx.fillStyle = tool === this.tool ? "#ffff00" : "#888888";
+      ctx.fillText(text, x, 60);
+      x += ctx.measureText(text).width + 20;
+    });
+
+    ctx.fillStyle = "#00ffff";
+    ctx.fillText(this.getSettingsText(), 20, 84);
+
+    // Help
+    ctx.fillStyle = "#666666";
+    ctx.font = "14px Arial";
+    const help = [
+      "Click to place, right-click to erase  |  Q/E: type  |  Enemies: UP/DOWN count, LEFT/RIGHT delay, F formation",
+      "[ ]: switch wave  |  N: new wave  |  DEL: remove wave  |  C: clear wave",
+      "T: preview wave  |  P: play all waves  |  X: export file  |  I: import file  |  ESC: back",
+    ];
+    help.forEach((line, i) => {
+      ctx.fillText(line, 20, this.canvas.height - 70 + i * 20);
+    });
+
+    if (this.statusMessage) {
+      ctx.fillStyle = this.statusIsError ? "#ff4444" : "#00ff00";
+      ctx.font = "16px Arial";
+      ctx.fillText(this.statusMessage, 20, this.canvas.height - 90);
+    }
+    ctx.restore();
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Random - Seedable pseudo-random number generator (mulberry32).
+ * The same seed always yields the same sequence, which keeps simulation runs reproducible.
+ */
+export class Random {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = Random.createSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Create a fresh 32-bit seed from the platform RNG
+   */
+  static createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Get the seed this generator was (re)started with
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Restart the sequence, optionally with a new seed
+   */
+  reset(seed: number = this.seed): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Next float in [0, 1), drop-in replacement for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [0, max)
+   */
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Random angle in radians [0, 2π)
+   */
+  angle(): number {
+    return this.next() * Math.PI * 2;
+  }
+
+  /**
+   * True with the given probability (0-1)
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick a random element from a non-empty list
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+}
+
+// Shared generator for code paths that are not part of a seeded simulation
+export const defaultRandom = new Random();
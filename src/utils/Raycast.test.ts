@@ -0,0 +1,107 @@
+import {describe, expect, it} from "vitest";
+import {castRay, segmentHitsCircle, wrapCircle, wrapRay} from "./Raycast";
+
+describe("wrapRay", () => {
+  it("stays in one piece when it doesn't reach an edge", () => {
+    const segments = wrapRay({x: 100, y: 100}, 0, 200, 800, 600);
+    expect(segments).toEqual([
+      {start: {x: 100, y: 100}, end: {x: 300, y: 100}},
+    ]);
+  });
+
+  it("comes back in on the opposite edge", () => {
+    const segments = wrapRay({x: 700, y: 300}, 0, 300, 800, 600);
+    expect(segments).toHaveLength(2);
+    expect(segments[0].end).toEqual({x: 800, y: 300});
+    expect(segments[1].start).toEqual({x: 0, y: 300});
+    expect(segments[1].end.x).toBeCloseTo(200);
+  });
+
+  it("wraps through a corner on both axes", () => {
+    const segments = wrapRay({x: 750, y: 550}, Math.PI / 4, 100, 800, 600);
+    expect(segments[1].start.x).toBeCloseTo(0);
+    expect(segments[1].start.y).toBeCloseTo(0);
+  });
+});
+
+describe("segmentHitsCircle", () => {
+  const segment = {start: {x: 0, y: 0}, end: {x: 100, y: 0}};
+
+  it("finds where the segment enters the circle", () => {
+    const circle = {center: {x: 50, y: 0}, radius: 10};
+    expect(segmentHitsCircle(segment, circle)).toBeCloseTo(40);
+  });
+
+  it("misses circles off to the side or beyond the end", () => {
+    expect(
+      segmentHitsCircle(segment, {center: {x: 50, y: 20}, radius: 10})
+    ).toBeNull();
+    expect(
+      segmentHitsCircle(segment, {center: {x: 150, y: 0}, radius: 10})
+    ).toBeNull();
+  });
+});
+
+describe("wrapCircle", () => {
+  it("leaves a circle clear of the edges alone", () => {
+    expect(
+      wrapCircle({center: {x: 400, y: 300}, radius: 20}, 800, 600)
+    ).toHaveLength(1);
+  });
+
+  it("copies a circle across every edge it overlaps", () => {
+    const copies = wrapCircle({center: {x: 790, y: 5}, radius: 20}, 800, 600);
+    expect(copies.map((copy) => copy.center)).toEqual([
+      {x: 790, y: 5},
+      {x: 790, y: 605},
+      {x: -10, y: 5},
+      {x: -10, y: 605},
+    ]);
+  });
+});
+
+describe("castRay", () => {
+  const circle = (x: number, y: number) => ({center: {x, y}, radius: 10});
+
+  it("stops at the nearest target and cuts the ray there", () => {
+    const segments = wrapRay({x: 0, y: 100}, 0, 500, 800, 600);
+    const hit = castRay(
+      segments,
+      [circle(300, 100), circle(200, 100)],
+      (target) => [target],
+      800,
+      600
+    );
+    expect(hit?.target.center.x).toBe(200);
+    expect(hit?.point.x).toBeCloseTo(190);
+    expect(hit?.segments[hit.segments.length - 1].end.x).toBeCloseTo(190);
+  });
+
+  it("finds targets past the screen wrap", () => {
+    const segments = wrapRay({x: 700, y: 100}, 0, 300, 800, 600);
+    const hit = castRay(
+      segments,
+      [circle(50, 100)],
+      (target) => [target],
+      800,
+      600,
+      3
+    );
+    expect(hit?.segments).toHaveLength(2);
+    expect(hit?.point.x).toBeCloseTo(37);
+  });
+
+  it("hits a target straddling the edge from the other side", () => {
+    // Centred just past the left edge, so it pokes out on the right too
+    const segments = wrapRay({x: 600, y: 100}, 0, 195, 800, 600);
+    const hit = castRay(
+      segments,
+      [circle(5, 100)],
+      (target) => [target],
+      800,
+      600
+    );
+    expect(hit?.target.center.x).toBe(5);
+    expect(hit?.point.x).toBeCloseTo(795);
+  });
+});
@@ -0,0 +1,164 @@
+import type {Vector2} from "./Vector2";
+import {Vector2Utils} from "./Vector2";
+
+export interface RaySegment {
+  start: Vector2;
+  end: Vector2;
+}
+
+export interface Circle {
+  center: Vector2;
+  radius: number;
+}
+
+export interface RayHit<T> {
+  target: T;
+  point: Vector2;
+  segments: RaySegment[]; // The ray up to the point it struck
+}
+
+const MAX_WRAPS = 8; // Enough for any sane range on any screen
+const EDGE_TOLERANCE = 1e-6; // So a ray through a corner wraps both ways
+
+/**
+ * Trace a ray across the playfield, wrapping it round the screen edges
+ * like everything else that flies off one side
+ * @returns The straight pieces of the ray, in order
+ */
+export function wrapRay(
+  origin: Vector2,
+  angle: number,
+  length: number,
+  width: number,
+  height: number
+): RaySegment[] {
+  const direction = Vector2Utils.fromAngle(angle);
+  let start = {
+    x: ((origin.x % width) + width) % width,
+    y: ((origin.y % height) + height) % height,
+  };
+  let remaining = length;
+  const segments: RaySegment[] = [];
+
+  while (remaining > 0 && segments.length < MAX_WRAPS) {
+    // How far until the ray leaves through each pair of edges
+    const toX =
+      direction.x > 0
+        ? (width - start.x) / direction.x
+        : direction.x < 0
+        ? -start.x / direction.x
+        : Infinity;
+    const toY =
+      direction.y > 0
+        ? (height - start.y) / direction.y
+        : direction.y < 0
+        ? -start.y / direction.y
+        : Infinity;
+    const step = Math.min(toX, toY, remaining);
+    const end = Vector2Utils.add(start, Vector2Utils.multiply(direction, step));
+    segments.push({start, end});
+    remaining -= step;
+
+    // Come back in on the opposite edge
+    start = {...end};
+    if (toX - step < EDGE_TOLERANCE) start.x = direction.x > 0 ? 0 : width;
+    if (toY - step < EDGE_TOLERANCE) start.y = direction.y > 0 ? 0 : height;
+  }
+  return segments;
+}
+
+/**
+ * How far along a segment it first touches a circle
+ * @returns The distance from the segment's start, or null if it misses
+ */
+export function segmentHitsCircle(
+  segment: RaySegment,
+  circle: Circle
+): number | null {
+  const length = Vector2Utils.distance(segment.start, segment.end);
+  if (length === 0) return null;
+  const direction = Vector2Utils.multiply(
+    Vector2Utils.subtract(segment.end, segment.start),
+    1 / length
+  );
+
+  // Solve |start + t * direction - center| = radius for the nearer t
+  const offset = Vector2Utils.subtract(segment.start, circle.center);
+  const b = offset.x * direction.x + offset.y * direction.y;
+  const c = offset.x * offset.x + offset.y * offset.y - circle.radius ** 2;
+  if (c <= 0) return 0; // Starts inside
+  const discriminant = b * b - c;
+  if (discriminant < 0) return null;
+  const t = -b - Math.sqrt(discriminant);
+  return t >= 0 && t <= length ? t : null;
+}
+
+/**
+ * A circle plus its copies across the screen edges it overlaps, since
+ * something straddling an edge shows on both sides
+ */
+export function wrapCircle(
+  circle: Circle,
+  width: number,
+  height: number
+): Circle[] {
+  const {center, radius} = circle;
+  const xs = [center.x];
+  if (center.x < radius) xs.push(center.x + width);
+  if (center.x > width - radius) xs.push(center.x - width);
+  const ys = [center.y];
+  if (center.y < radius) ys.push(center.y + height);
+  if (center.y > height - radius) ys.push(center.y - height);
+  return xs.flatMap((x) => ys.map((y) => ({center: {x, y}, radius})));
+}
+
+/**
+ * Follow a ray's segments to the first target it strikes, including
+ * targets straddling the screen edges
+ * @param circlesOf The circles making up a target
+ * @param thickness Added to every circle's radius, for a wide ray
+ */
+export function castRay<T>(
+  segments: readonly RaySegment[],
+  targets: readonly T[],
+  circlesOf: (target: T) => readonly Circle[],
+  width: number,
+  height: number,
+  thickness: number = 0
+): RayHit<T> | null {
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    let nearest: {target: T; distance: number} | null = null;
+    for (const target of targets) {
+      const circles = circlesOf(target).flatMap((circle) =>
+        wrapCircle(
+          {center: circle.center, radius: circle.radius + thickness},
+          width,
+          height
+        )
+      );
+      for (const circle of circles) {
+        const distance = segmentHitsCircle(segment, circle);
+        if (distance !== null && (!nearest || distance < nearest.distance)) {
+          nearest = {target, distance};
+        }
+      }
+    }
+
+    if (nearest) {
+      const direction = Vector2Utils.normalize(
+        Vector2Utils.subtract(segment.end, segment.start)
+      );
+      const point = Vector2Utils.add(
+        segment.start,
+        Vector2Utils.multiply(direction, nearest.distance)
+      );
+      return {
+        target: nearest.target,
+        point,
+        segments: [...segments.slice(0, i), {start: segment.start, end: point}],
+      };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,5 @@
+// Seconds as m:ss, rounding up so a countdown shows 0:00 only at the end
+export function formatTime(seconds: number): string {
+  const whole = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
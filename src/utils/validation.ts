@@ -0,0 +1,23 @@
+// Checks shared by the parsers for hand-written data files
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// A value as it would appear in the file, for error messages
+export function formatValue(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+// Reject fields the format doesn't know, which are usually typos
+export function checkFields(
+  data: Record<string, unknown>,
+  fields: string[],
+  where: string
+): void {
+  for (const key of Object.keys(data)) {
+    if (!fields.includes(key)) {
+      throw new Error(`${where}: unknown field "${key}"`);
+    }
+  }
+}
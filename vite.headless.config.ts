@@ -0,0 +1,10 @@
+import {defineConfig} from "vite";
+
+// Node build of the headless core, used by scripts/simulate.mjs
+export default defineConfig({
+  build: {
+    ssr: "src/headless/index.ts",
+    outDir: "dist-ssr",
+    copyPublicDir: false,
+  },
+});